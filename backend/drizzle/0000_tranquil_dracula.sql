@@ -0,0 +1,215 @@
+CREATE TABLE IF NOT EXISTS "approvals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"connector_id" uuid NOT NULL,
+	"request_id" varchar(255) NOT NULL,
+	"tool_name" varchar(255) NOT NULL,
+	"method" varchar(10) NOT NULL,
+	"path" varchar(1024) NOT NULL,
+	"arguments" json NOT NULL,
+	"reviewer_decision" varchar(50),
+	"reviewer_risk_score" integer,
+	"reviewer_reasons" json,
+	"status" varchar(50) DEFAULT 'pending' NOT NULL,
+	"approver_id" uuid,
+	"approval_notes" text,
+	"decision_time" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "connectors" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"description" text,
+	"base_url" varchar(1024) NOT NULL,
+	"auth_type" varchar(50) NOT NULL,
+	"auth_header_name" varchar(255) DEFAULT 'Authorization',
+	"encrypted_auth_secret" text NOT NULL,
+	"openapi_spec" json NOT NULL,
+	"selected_endpoints" json DEFAULT '[]' NOT NULL,
+	"tool_definitions" json DEFAULT '{}' NOT NULL,
+	"deployment_status" varchar(50) DEFAULT 'draft',
+	"deployed_url" varchar(1024),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "deployments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"connector_id" uuid NOT NULL,
+	"version" integer DEFAULT 1 NOT NULL,
+	"status" varchar(50) NOT NULL,
+	"mcp_url" varchar(1024),
+	"error_message" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "governance_configs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"connector_id" uuid NOT NULL,
+	"allowed_verbs" json DEFAULT '["GET"]' NOT NULL,
+	"allowed_paths" json DEFAULT '[]' NOT NULL,
+	"rate_limit_per_minute" integer DEFAULT 60,
+	"numeric_ceilings" json DEFAULT '{}' NOT NULL,
+	"require_approval_for_writes" boolean DEFAULT true,
+	"require_approval_for_high_risk" boolean DEFAULT true,
+	"enabled" boolean DEFAULT true,
+	"dry_run_mode" boolean DEFAULT false,
+	"redact_sensitive_fields" boolean DEFAULT true,
+	"ai_reviewer_enabled" boolean DEFAULT true,
+	"ai_reviewer_mode" varchar(50) DEFAULT 'ENFORCING',
+	"ai_reviewer_write_calls_only" boolean DEFAULT true,
+	"ai_reviewer_high_risk_only" boolean DEFAULT true,
+	"ai_reviewer_timeout_ms" integer DEFAULT 2000,
+	"ai_reviewer_fallback" varchar(50) DEFAULT 'REQUIRE_HUMAN_APPROVAL',
+	"ai_reviewer_allow_max_risk" integer DEFAULT 30,
+	"ai_reviewer_approval_min_risk" integer DEFAULT 31,
+	"ai_reviewer_block_min_risk" integer DEFAULT 71,
+	"ai_reviewer_allowed_business_purpose" text,
+	"ai_reviewer_forbidden_actions" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "invocation_logs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"connector_id" uuid NOT NULL,
+	"token_id" uuid,
+	"tool_name" varchar(255) NOT NULL,
+	"method" varchar(10) NOT NULL,
+	"path" varchar(1024) NOT NULL,
+	"deterministic_decision" varchar(50) NOT NULL,
+	"reviewer_decision" varchar(50),
+	"reviewer_risk_score" integer,
+	"reviewer_reasons" json,
+	"final_decision" varchar(50) NOT NULL,
+	"approval_id" uuid,
+	"human_approved" boolean DEFAULT false,
+	"review_latency_ms" integer,
+	"execution_latency_ms" integer,
+	"request_payload" json,
+	"response_payload" json,
+	"error_code" varchar(50),
+	"error_message" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "mcp_tokens" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"connector_id" uuid NOT NULL,
+	"token" varchar(255) NOT NULL,
+	"name" varchar(255),
+	"is_active" boolean DEFAULT true,
+	"last_used_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp,
+	CONSTRAINT "mcp_tokens_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "organization_members" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"role" varchar(50) DEFAULT 'member' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "organizations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"owner_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "users" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"password_hash" text NOT NULL,
+	"first_name" varchar(100),
+	"last_name" varchar(100),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "approvals_connector_idx" ON "approvals" ("connector_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "approvals_status_idx" ON "approvals" ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "connectors_org_idx" ON "connectors" ("organization_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "deployments_connector_idx" ON "deployments" ("connector_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "logs_connector_idx" ON "invocation_logs" ("connector_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "logs_created_at_idx" ON "invocation_logs" ("created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "tokens_connector_idx" ON "mcp_tokens" ("connector_id");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "approvals" ADD CONSTRAINT "approvals_connector_id_connectors_id_fk" FOREIGN KEY ("connector_id") REFERENCES "connectors"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "approvals" ADD CONSTRAINT "approvals_approver_id_users_id_fk" FOREIGN KEY ("approver_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "connectors" ADD CONSTRAINT "connectors_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "deployments" ADD CONSTRAINT "deployments_connector_id_connectors_id_fk" FOREIGN KEY ("connector_id") REFERENCES "connectors"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "governance_configs" ADD CONSTRAINT "governance_configs_connector_id_connectors_id_fk" FOREIGN KEY ("connector_id") REFERENCES "connectors"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "invocation_logs" ADD CONSTRAINT "invocation_logs_connector_id_connectors_id_fk" FOREIGN KEY ("connector_id") REFERENCES "connectors"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "invocation_logs" ADD CONSTRAINT "invocation_logs_token_id_mcp_tokens_id_fk" FOREIGN KEY ("token_id") REFERENCES "mcp_tokens"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "invocation_logs" ADD CONSTRAINT "invocation_logs_approval_id_approvals_id_fk" FOREIGN KEY ("approval_id") REFERENCES "approvals"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "mcp_tokens" ADD CONSTRAINT "mcp_tokens_connector_id_connectors_id_fk" FOREIGN KEY ("connector_id") REFERENCES "connectors"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "organizations" ADD CONSTRAINT "organizations_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
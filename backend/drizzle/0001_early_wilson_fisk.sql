@@ -0,0 +1,5 @@
+ALTER TABLE "approvals" ADD COLUMN "execution_status" varchar(50);--> statement-breakpoint
+ALTER TABLE "approvals" ADD COLUMN "execution_result" json;--> statement-breakpoint
+ALTER TABLE "approvals" ADD COLUMN "execution_error" text;--> statement-breakpoint
+ALTER TABLE "approvals" ADD COLUMN "executed_at" timestamp;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "approvals_request_idx" ON "approvals" ("request_id");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "approvals" ADD COLUMN "escalation_level" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "approvals" ADD COLUMN "escalated_to" varchar(50);--> statement-breakpoint
+ALTER TABLE "approvals" ADD COLUMN "escalated_at" timestamp;--> statement-breakpoint
+ALTER TABLE "governance_configs" ADD COLUMN "approval_escalation_rules" json DEFAULT '[]' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,43 @@
+CREATE TABLE IF NOT EXISTS "approval_decisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"approval_id" uuid NOT NULL,
+	"approver_id" uuid NOT NULL,
+	"approver_role" varchar(50) NOT NULL,
+	"decision" varchar(50) NOT NULL,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "approvals" ADD COLUMN "requested_by" uuid;--> statement-breakpoint
+ALTER TABLE "approvals" ADD COLUMN "required_approvals" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "approvals" ADD COLUMN "approver_roles" json;--> statement-breakpoint
+ALTER TABLE "approvals" ADD COLUMN "approval_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "governance_configs" ADD COLUMN "quorum_required_approvals" integer DEFAULT 2 NOT NULL;--> statement-breakpoint
+ALTER TABLE "governance_configs" ADD COLUMN "quorum_approver_roles" json DEFAULT '["admin"]' NOT NULL;--> statement-breakpoint
+ALTER TABLE "governance_configs" ADD COLUMN "quorum_for_ceiling_breaches" boolean DEFAULT true;--> statement-breakpoint
+ALTER TABLE "mcp_tokens" ADD COLUMN "created_by" uuid;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "approval_decisions_approval_idx" ON "approval_decisions" ("approval_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "approval_decisions_approver_unique" ON "approval_decisions" ("approval_id","approver_id");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "approvals" ADD CONSTRAINT "approvals_requested_by_users_id_fk" FOREIGN KEY ("requested_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "mcp_tokens" ADD CONSTRAINT "mcp_tokens_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "approval_decisions" ADD CONSTRAINT "approval_decisions_approval_id_approvals_id_fk" FOREIGN KEY ("approval_id") REFERENCES "approvals"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "approval_decisions" ADD CONSTRAINT "approval_decisions_approver_id_users_id_fk" FOREIGN KEY ("approver_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,13 @@
+ALTER TABLE "mcp_tokens" DROP CONSTRAINT "mcp_tokens_token_unique";--> statement-breakpoint
+ALTER TABLE "mcp_tokens" ADD COLUMN "token_prefix" varchar(32);--> statement-breakpoint
+ALTER TABLE "mcp_tokens" ADD COLUMN "token_hash" varchar(128);--> statement-breakpoint
+ALTER TABLE "mcp_tokens" ADD COLUMN "token_salt" varchar(64);--> statement-breakpoint
+ALTER TABLE "mcp_tokens" ADD COLUMN "scopes" json;--> statement-breakpoint
+-- Hash existing plaintext tokens the same way as TokenHasher: sha256(salt || token)
+UPDATE "mcp_tokens" SET "token_prefix" = left("token", 16), "token_salt" = md5(random()::text || "id"::text);--> statement-breakpoint
+UPDATE "mcp_tokens" SET "token_hash" = encode(sha256(convert_to("token_salt" || "token", 'UTF8')), 'hex');--> statement-breakpoint
+ALTER TABLE "mcp_tokens" ALTER COLUMN "token_prefix" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "mcp_tokens" ALTER COLUMN "token_hash" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "mcp_tokens" ALTER COLUMN "token_salt" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "mcp_tokens" DROP COLUMN IF EXISTS "token";--> statement-breakpoint
+ALTER TABLE "mcp_tokens" ADD CONSTRAINT "mcp_tokens_token_prefix_unique" UNIQUE("token_prefix");
@@ -0,0 +1,2 @@
+ALTER TABLE "connectors" ADD COLUMN "oauth_config" json;--> statement-breakpoint
+ALTER TABLE "connectors" ADD COLUMN "encrypted_refresh_token" text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "connectors" ADD COLUMN "auth_location" varchar(20) DEFAULT 'header' NOT NULL;--> statement-breakpoint
+ALTER TABLE "connectors" ADD COLUMN "security_schemes" json DEFAULT '{}' NOT NULL;--> statement-breakpoint
+-- The runtime used to send API keys as X-API-Key regardless of auth_header_name; keep that for existing connectors
+UPDATE "connectors" SET "auth_header_name" = 'X-API-Key' WHERE "auth_type" = 'api_key' AND ("auth_header_name" IS NULL OR "auth_header_name" = 'Authorization');
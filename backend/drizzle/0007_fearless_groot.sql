@@ -0,0 +1 @@
+ALTER TABLE "connectors" ADD COLUMN "signing_config" json;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "governance_configs" ADD COLUMN "response_validation" varchar(20) DEFAULT 'flag' NOT NULL;
\ No newline at end of file
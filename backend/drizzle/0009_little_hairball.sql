@@ -0,0 +1 @@
+ALTER TABLE "connectors" ADD COLUMN "response_shaping" json DEFAULT '{}' NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "connectors" ADD COLUMN "tool_overrides" json DEFAULT '{}' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "deployments" ADD COLUMN "snapshot" json;--> statement-breakpoint
+ALTER TABLE "deployments" ADD COLUMN "activated_at" timestamp;--> statement-breakpoint
+ALTER TABLE "mcp_tokens" ADD COLUMN "deployment_version" integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "governance_configs" ADD COLUMN "approval_ttl_minutes" integer DEFAULT 1440 NOT NULL;
\ No newline at end of file
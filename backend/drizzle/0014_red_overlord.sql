@@ -0,0 +1,6 @@
+ALTER TABLE "approvals" ADD COLUMN "token_id" uuid;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "approvals" ADD CONSTRAINT "approvals_token_id_mcp_tokens_id_fk" FOREIGN KEY ("token_id") REFERENCES "mcp_tokens"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
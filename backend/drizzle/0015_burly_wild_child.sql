@@ -0,0 +1 @@
+ALTER TABLE "approval_decisions" ALTER COLUMN "approver_id" DROP NOT NULL;
\ No newline at end of file
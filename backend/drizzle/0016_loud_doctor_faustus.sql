@@ -0,0 +1,6 @@
+CREATE TABLE IF NOT EXISTS "internal_api_nonces" (
+	"nonce" varchar(64) PRIMARY KEY NOT NULL,
+	"forget_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "internal_api_nonces_forget_at_idx" ON "internal_api_nonces" ("forget_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "approvals" ADD COLUMN "deployment_version" integer;
\ No newline at end of file
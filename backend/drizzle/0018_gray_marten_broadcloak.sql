@@ -0,0 +1 @@
+CREATE UNIQUE INDEX IF NOT EXISTS "deployments_connector_version_unique" ON "deployments" ("connector_id","version");
\ No newline at end of file
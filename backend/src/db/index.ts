@@ -0,0 +1,15 @@
+import { drizzle } from 'drizzle-orm/node-postgres';
+import pg from 'pg';
+import dotenv from 'dotenv';
+import * as schema from './schema.js';
+
+dotenv.config();
+
+// Shared connection pool for the control plane
+export const pool = new pg.Pool({
+  connectionString: process.env.DATABASE_URL,
+});
+
+export const db = drizzle(pool, { schema });
+
+export type Database = typeof db;
@@ -0,0 +1,238 @@
+import { and, asc, desc, eq, gt, inArray, isNull, lte, or } from 'drizzle-orm';
+import { db } from '../index.js';
+import { approvalDecisions, approvals, governanceConfigs, users } from '../schema.js';
+import { organizationConnectorIds } from './connectorRepository.js';
+
+export type Approval = typeof approvals.$inferSelect;
+export type NewApproval = typeof approvals.$inferInsert;
+export type ApprovalDecision = typeof approvalDecisions.$inferSelect;
+
+export interface ApprovalVote {
+  approverId: string;
+  approverRole: string;
+  decision: 'approved' | 'rejected';
+  notes?: string;
+}
+
+export type ApprovalVoteResult =
+  | { status: 'not_pending' }
+  | { status: 'already_decided' }
+  | { status: 'recorded'; approval: Approval; finalized: boolean };
+
+/**
+ * Approval is still open: pending and not past its expiry
+ */
+const isOpen = () => and(
+  eq(approvals.status, 'pending'),
+  or(isNull(approvals.expiresAt), gt(approvals.expiresAt, new Date()))
+);
+
+export class ApprovalRepository {
+  static async create(values: NewApproval): Promise<Approval> {
+    const [approval] = await db.insert(approvals).values(values).returning();
+    return approval;
+  }
+
+  /**
+   * With an organization, only finds approvals of that organization's connectors
+   */
+  static async findById(id: string, organizationId?: string): Promise<Approval | undefined> {
+    const [approval] = await db
+      .select()
+      .from(approvals)
+      .where(and(
+        eq(approvals.id, id),
+        organizationId ? inArray(approvals.connectorId, organizationConnectorIds(organizationId)) : undefined
+      ));
+    return approval;
+  }
+
+  /**
+   * A queued call, only if it was made with the given MCP token
+   */
+  static async findByRequestId(connectorId: string, requestId: string, tokenId: string): Promise<Approval | undefined> {
+    const [approval] = await db
+      .select()
+      .from(approvals)
+      .where(and(
+        eq(approvals.connectorId, connectorId),
+        eq(approvals.requestId, requestId),
+        eq(approvals.tokenId, tokenId)
+      ));
+    return approval;
+  }
+
+  static async list(status: string = 'pending', organizationId?: string): Promise<Approval[]> {
+    return db
+      .select()
+      .from(approvals)
+      .where(and(
+        eq(approvals.status, status),
+        organizationId ? inArray(approvals.connectorId, organizationConnectorIds(organizationId)) : undefined
+      ))
+      .orderBy(desc(approvals.createdAt));
+  }
+
+  /**
+   * Reject a pending approval on behalf of an escalation rule, recording the
+   * rejection in the decision trail. Returns undefined when the approval was
+   * decided or expired concurrently.
+   */
+  static async autoReject(id: string, notes: string): Promise<Approval | undefined> {
+    return db.transaction(async tx => {
+      const [approval] = await tx
+        .update(approvals)
+        .set({ status: 'rejected', approvalNotes: notes, decisionTime: new Date() })
+        .where(and(eq(approvals.id, id), isOpen()))
+        .returning();
+      if (!approval) return undefined;
+
+      await tx
+        .insert(approvalDecisions)
+        .values({ approvalId: id, approverId: null, approverRole: 'system', decision: 'rejected', notes });
+      return approval;
+    });
+  }
+
+  /**
+   * Record one approver's decision. A rejection closes the approval; approvals
+   * close it once `requiredApprovals` is reached. The row is locked so
+   * concurrent votes are counted exactly once.
+   */
+  static async recordVote(id: string, vote: ApprovalVote): Promise<ApprovalVoteResult> {
+    return db.transaction(async tx => {
+      const [current] = await tx
+        .select()
+        .from(approvals)
+        .where(and(eq(approvals.id, id), isOpen()))
+        .for('update');
+      if (!current) {
+        return { status: 'not_pending' as const };
+      }
+
+      const [recorded] = await tx
+        .insert(approvalDecisions)
+        .values({ approvalId: id, ...vote })
+        .onConflictDoNothing()
+        .returning();
+      if (!recorded) {
+        return { status: 'already_decided' as const };
+      }
+
+      const approvalCount = current.approvalCount + (vote.decision === 'approved' ? 1 : 0);
+      const finalized = vote.decision === 'rejected' || approvalCount >= current.requiredApprovals;
+
+      const [approval] = await tx
+        .update(approvals)
+        .set(finalized
+          ? {
+              approvalCount,
+              status: vote.decision,
+              approverId: vote.approverId,
+              approvalNotes: vote.notes,
+              decisionTime: new Date(),
+            }
+          : { approvalCount })
+        .where(eq(approvals.id, id))
+        .returning();
+
+      return { status: 'recorded' as const, approval, finalized };
+    });
+  }
+
+  /**
+   * Per-approver decision trail for a set of approvals, oldest first.
+   * Escalation-rule decisions have no approver email.
+   */
+  static async listDecisions(approvalIds: string[]): Promise<(ApprovalDecision & { approverEmail: string | null })[]> {
+    if (approvalIds.length === 0) return [];
+    const rows = await db
+      .select({ decision: approvalDecisions, approverEmail: users.email })
+      .from(approvalDecisions)
+      .leftJoin(users, eq(users.id, approvalDecisions.approverId))
+      .where(inArray(approvalDecisions.approvalId, approvalIds))
+      .orderBy(asc(approvalDecisions.createdAt));
+    return rows.map(row => ({ ...row.decision, approverEmail: row.approverEmail }));
+  }
+
+  /**
+   * Claim an approved request for execution. Only one claim succeeds, so a
+   * replayed execute request cannot call upstream twice. Returns undefined when
+   * the request is not approved or was claimed before.
+   */
+  static async claimExecution(id: string): Promise<Approval | undefined> {
+    const [approval] = await db
+      .update(approvals)
+      .set({ executionStatus: 'executing' })
+      .where(and(eq(approvals.id, id), eq(approvals.status, 'approved'), isNull(approvals.executionStatus)))
+      .returning();
+    return approval;
+  }
+
+  /**
+   * Store the outcome of executing an approved request. The first outcome
+   * recorded is kept; later ones return undefined.
+   */
+  static async recordExecution(
+    id: string,
+    execution: { status: 'executed' | 'failed'; result?: unknown; error?: string }
+  ): Promise<Approval | undefined> {
+    const [approval] = await db
+      .update(approvals)
+      .set({
+        executionStatus: execution.status,
+        executionResult: execution.result,
+        executionError: execution.error,
+        executedAt: new Date(),
+      })
+      .where(and(
+        eq(approvals.id, id),
+        or(isNull(approvals.executionStatus), eq(approvals.executionStatus, 'executing'))
+      ))
+      .returning();
+    return approval;
+  }
+
+  /**
+   * Mark pending approvals past their expiry as expired and return them
+   */
+  static async expireDue(): Promise<Approval[]> {
+    return db
+      .update(approvals)
+      .set({ status: 'expired', decisionTime: new Date() })
+      .where(and(eq(approvals.status, 'pending'), lte(approvals.expiresAt, new Date())))
+      .returning();
+  }
+
+  /**
+   * Pending approvals together with their connector's escalation rules
+   */
+  static async listPendingWithEscalationRules(): Promise<{ approval: Approval; rules: unknown }[]> {
+    return db
+      .select({ approval: approvals, rules: governanceConfigs.approvalEscalationRules })
+      .from(approvals)
+      .innerJoin(governanceConfigs, eq(governanceConfigs.connectorId, approvals.connectorId))
+      .where(eq(approvals.status, 'pending'));
+  }
+
+  /**
+   * Advance the escalation level of a pending approval. Returns undefined when
+   * the approval was decided or escalated concurrently.
+   */
+  static async escalate(
+    id: string,
+    fromLevel: number,
+    values: { escalationLevel: number; escalatedTo?: string }
+  ): Promise<Approval | undefined> {
+    const [approval] = await db
+      .update(approvals)
+      .set({ ...values, escalatedAt: new Date() })
+      .where(and(
+        eq(approvals.id, id),
+        eq(approvals.status, 'pending'),
+        eq(approvals.escalationLevel, fromLevel)
+      ))
+      .returning();
+    return approval;
+  }
+}
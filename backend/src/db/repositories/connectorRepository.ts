@@ -0,0 +1,45 @@
+import { desc, eq } from 'drizzle-orm';
+import { db } from '../index.js';
+import { connectors } from '../schema.js';
+
+export type Connector = typeof connectors.$inferSelect;
+export type NewConnector = typeof connectors.$inferInsert;
+
+/**
+ * IDs of an organization's connectors, to scope rows that belong to a connector
+ */
+export function organizationConnectorIds(organizationId: string) {
+  return db.select({ id: connectors.id }).from(connectors).where(eq(connectors.organizationId, organizationId));
+}
+
+export class ConnectorRepository {
+  static async create(values: NewConnector): Promise<Connector> {
+    const [connector] = await db.insert(connectors).values(values).returning();
+    return connector;
+  }
+
+  static async findById(id: string): Promise<Connector | undefined> {
+    const [connector] = await db.select().from(connectors).where(eq(connectors.id, id));
+    return connector;
+  }
+
+  /**
+   * Connectors of an organization, or of all organizations
+   */
+  static async list(organizationId?: string): Promise<Connector[]> {
+    return db
+      .select()
+      .from(connectors)
+      .where(organizationId ? eq(connectors.organizationId, organizationId) : undefined)
+      .orderBy(desc(connectors.createdAt));
+  }
+
+  static async update(id: string, values: Partial<NewConnector>): Promise<Connector | undefined> {
+    const [connector] = await db
+      .update(connectors)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(connectors.id, id))
+      .returning();
+    return connector;
+  }
+}
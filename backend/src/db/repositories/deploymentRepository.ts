@@ -0,0 +1,118 @@
+import { and, asc, desc, eq, inArray, isNotNull, ne, or } from 'drizzle-orm';
+import { db } from '../index.js';
+import { deployments } from '../schema.js';
+
+export type Deployment = typeof deployments.$inferSelect;
+export type NewDeployment = typeof deployments.$inferInsert;
+
+const MAX_VERSION_ATTEMPTS = 5;
+
+export class DeploymentRepository {
+  static async create(values: NewDeployment): Promise<Deployment> {
+    const [deployment] = await db.insert(deployments).values(values).returning();
+    return deployment;
+  }
+
+  /**
+   * Create the connector's next version. Concurrent deploys can pick the same
+   * number; the unique index lets one insert through and the others try the
+   * number after it.
+   */
+  static async createNextVersion(values: Omit<NewDeployment, 'version'>): Promise<Deployment> {
+    for (let attempt = 0; attempt < MAX_VERSION_ATTEMPTS; attempt++) {
+      const latest = await this.findLatest(values.connectorId);
+      const [deployment] = await db
+        .insert(deployments)
+        .values({ ...values, version: (latest?.version ?? 0) + 1 })
+        .onConflictDoNothing({ target: [deployments.connectorId, deployments.version] })
+        .returning();
+      if (deployment) return deployment;
+    }
+    throw new Error('Could not assign a deployment version; try again');
+  }
+
+  static async list(connectorId: string): Promise<Deployment[]> {
+    return db
+      .select()
+      .from(deployments)
+      .where(eq(deployments.connectorId, connectorId))
+      .orderBy(desc(deployments.version));
+  }
+
+  static async findLatest(connectorId: string): Promise<Deployment | undefined> {
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(eq(deployments.connectorId, connectorId))
+      .orderBy(desc(deployments.version))
+      .limit(1);
+    return deployment;
+  }
+
+  /**
+   * The versions the runtime serves: active and staged ones, and older ones
+   * tokens are pinned to. Optionally only those of one connector.
+   */
+  static async listServed(
+    pinned: { connectorId: string; version: number }[],
+    connectorId?: string
+  ): Promise<Deployment[]> {
+    return db
+      .select()
+      .from(deployments)
+      .where(and(
+        connectorId ? eq(deployments.connectorId, connectorId) : undefined,
+        isNotNull(deployments.snapshot),
+        ne(deployments.status, 'failed'),
+        or(
+          inArray(deployments.status, ['active', 'staged']),
+          ...pinned.map(pin => and(eq(deployments.connectorId, pin.connectorId), eq(deployments.version, pin.version)))
+        )
+      ))
+      .orderBy(asc(deployments.connectorId), asc(deployments.version));
+  }
+
+  static async findByVersion(connectorId: string, version: number): Promise<Deployment | undefined> {
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(and(eq(deployments.connectorId, connectorId), eq(deployments.version, version)));
+    return deployment;
+  }
+
+  static async update(
+    id: string,
+    values: Partial<Omit<NewDeployment, 'id' | 'connectorId' | 'version'>>
+  ): Promise<Deployment | undefined> {
+    const [deployment] = await db
+      .update(deployments)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(deployments.id, id))
+      .returning();
+    return deployment;
+  }
+
+  /**
+   * Make a deployment the connector's active one; the previously active one
+   * becomes inactive and can be activated again for a rollback
+   */
+  static async activate(id: string): Promise<Deployment | undefined> {
+    return db.transaction(async tx => {
+      const [target] = await tx.select().from(deployments).where(eq(deployments.id, id));
+      if (!target) return undefined;
+
+      const now = new Date();
+      await tx
+        .update(deployments)
+        .set({ status: 'inactive', updatedAt: now })
+        .where(and(eq(deployments.connectorId, target.connectorId), eq(deployments.status, 'active')));
+
+      const [activated] = await tx
+        .update(deployments)
+        .set({ status: 'active', activatedAt: now, errorMessage: null, updatedAt: now })
+        .where(eq(deployments.id, id))
+        .returning();
+      return activated;
+    });
+  }
+}
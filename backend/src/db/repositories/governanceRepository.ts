@@ -0,0 +1,40 @@
+import { eq } from 'drizzle-orm';
+import { db } from '../index.js';
+import { governanceConfigs } from '../schema.js';
+
+export type GovernanceConfigRow = typeof governanceConfigs.$inferSelect;
+export type NewGovernanceConfig = typeof governanceConfigs.$inferInsert;
+
+export class GovernanceRepository {
+  /**
+   * Create the governance row for a new connector using the column defaults
+   */
+  static async createDefault(connectorId: string): Promise<GovernanceConfigRow> {
+    const [config] = await db.insert(governanceConfigs).values({ connectorId }).returning();
+    return config;
+  }
+
+  static async list(): Promise<GovernanceConfigRow[]> {
+    return db.select().from(governanceConfigs);
+  }
+
+  static async findByConnectorId(connectorId: string): Promise<GovernanceConfigRow | undefined> {
+    const [config] = await db
+      .select()
+      .from(governanceConfigs)
+      .where(eq(governanceConfigs.connectorId, connectorId));
+    return config;
+  }
+
+  static async update(
+    connectorId: string,
+    values: Partial<Omit<NewGovernanceConfig, 'id' | 'connectorId'>>
+  ): Promise<GovernanceConfigRow | undefined> {
+    const [config] = await db
+      .update(governanceConfigs)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(governanceConfigs.connectorId, connectorId))
+      .returning();
+    return config;
+  }
+}
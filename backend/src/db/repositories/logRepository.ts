@@ -0,0 +1,88 @@
+import { and, count, desc, eq, gte, inArray, lte, SQL } from 'drizzle-orm';
+import { db } from '../index.js';
+import { invocationLogs } from '../schema.js';
+import type { Approval } from './approvalRepository.js';
+import { organizationConnectorIds } from './connectorRepository.js';
+
+export type InvocationLog = typeof invocationLogs.$inferSelect;
+export type NewInvocationLog = typeof invocationLogs.$inferInsert;
+
+export interface LogFilters {
+  organizationId?: string;
+  connectorId?: string;
+  startDate?: string;
+  endDate?: string;
+  decision?: string;
+  limit: number;
+  offset: number;
+}
+
+export class LogRepository {
+  static async create(values: NewInvocationLog): Promise<InvocationLog> {
+    const [log] = await db.insert(invocationLogs).values(values).returning();
+    return log;
+  }
+
+  /**
+   * Log a queued call that ends without being executed (rejected or expired)
+   */
+  static async createForClosedApproval(
+    approval: Approval,
+    finalDecision: 'rejected' | 'expired',
+    errorMessage: string
+  ): Promise<InvocationLog> {
+    return this.create({
+      connectorId: approval.connectorId,
+      tokenId: approval.tokenId,
+      toolName: approval.toolName,
+      method: approval.method,
+      path: approval.path,
+      deterministicDecision: 'pending',
+      reviewerDecision: approval.reviewerDecision,
+      reviewerRiskScore: approval.reviewerRiskScore,
+      reviewerReasons: approval.reviewerReasons,
+      finalDecision,
+      approvalId: approval.id,
+      errorMessage,
+    });
+  }
+
+  /**
+   * With an organization, only finds logs of that organization's connectors
+   */
+  static async findById(id: string, organizationId?: string): Promise<InvocationLog | undefined> {
+    const [log] = await db
+      .select()
+      .from(invocationLogs)
+      .where(and(
+        eq(invocationLogs.id, id),
+        organizationId ? inArray(invocationLogs.connectorId, organizationConnectorIds(organizationId)) : undefined
+      ));
+    return log;
+  }
+
+  /**
+   * List logs matching the filters, newest first, with the total match count
+   */
+  static async list(filters: LogFilters): Promise<{ logs: InvocationLog[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (filters.organizationId) conditions.push(inArray(invocationLogs.connectorId, organizationConnectorIds(filters.organizationId)));
+    if (filters.connectorId) conditions.push(eq(invocationLogs.connectorId, filters.connectorId));
+    if (filters.startDate) conditions.push(gte(invocationLogs.createdAt, new Date(filters.startDate)));
+    if (filters.endDate) conditions.push(lte(invocationLogs.createdAt, new Date(filters.endDate)));
+    if (filters.decision) conditions.push(eq(invocationLogs.finalDecision, filters.decision));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const logs = await db
+      .select()
+      .from(invocationLogs)
+      .where(where)
+      .orderBy(desc(invocationLogs.createdAt))
+      .limit(filters.limit)
+      .offset(filters.offset);
+
+    const [{ value: total }] = await db.select({ value: count() }).from(invocationLogs).where(where);
+
+    return { logs, total };
+  }
+}
@@ -0,0 +1,33 @@
+import { lt } from 'drizzle-orm';
+import { db } from '../index.js';
+import { internalApiNonces } from '../schema.js';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+let nextSweep = 0;
+
+/**
+ * Internal API nonces in the database, so a request cannot be replayed against
+ * another control plane replica or after a restart. Usable as a NonceStore.
+ */
+export class NonceRepository {
+  static async remember(nonce: string, forgetAt: Date): Promise<boolean> {
+    await this.sweep();
+    const [recorded] = await db
+      .insert(internalApiNonces)
+      .values({ nonce, forgetAt })
+      .onConflictDoNothing()
+      .returning();
+    return recorded !== undefined;
+  }
+
+  /**
+   * Delete nonces past their window, at most once a minute
+   */
+  private static async sweep(): Promise<void> {
+    const now = Date.now();
+    if (now < nextSweep) return;
+    nextSweep = now + SWEEP_INTERVAL_MS;
+    await db.delete(internalApiNonces).where(lt(internalApiNonces.forgetAt, new Date(now)));
+  }
+}
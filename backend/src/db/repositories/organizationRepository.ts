@@ -0,0 +1,43 @@
+import { and, asc, eq } from 'drizzle-orm';
+import { db } from '../index.js';
+import { organizationMembers, organizations } from '../schema.js';
+
+export type Organization = typeof organizations.$inferSelect;
+
+export interface Membership {
+  organizationId: string;
+  organizationName: string;
+  role: string;
+}
+
+export class OrganizationRepository {
+  /**
+   * Organizations a user belongs to, the one they joined first first
+   */
+  static async listMemberships(userId: string): Promise<Membership[]> {
+    return db
+      .select({
+        organizationId: organizationMembers.organizationId,
+        organizationName: organizations.name,
+        role: organizationMembers.role,
+      })
+      .from(organizationMembers)
+      .innerJoin(organizations, eq(organizations.id, organizationMembers.organizationId))
+      .where(eq(organizationMembers.userId, userId))
+      .orderBy(asc(organizationMembers.createdAt));
+  }
+
+  /**
+   * Role of a user within an organization, or undefined if not a member
+   */
+  static async findMemberRole(organizationId: string, userId: string): Promise<string | undefined> {
+    const [member] = await db
+      .select({ role: organizationMembers.role })
+      .from(organizationMembers)
+      .where(and(
+        eq(organizationMembers.organizationId, organizationId),
+        eq(organizationMembers.userId, userId)
+      ));
+    return member?.role;
+  }
+}
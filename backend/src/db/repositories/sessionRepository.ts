@@ -0,0 +1,37 @@
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { db } from '../index.js';
+import { userSessions } from '../schema.js';
+
+export type UserSession = typeof userSessions.$inferSelect;
+export type NewUserSession = typeof userSessions.$inferInsert;
+
+export class SessionRepository {
+  static async create(values: NewUserSession): Promise<UserSession> {
+    const [session] = await db.insert(userSessions).values(values).returning();
+    return session;
+  }
+
+  /**
+   * A session that has not been revoked or expired
+   */
+  static async findActive(id: string): Promise<UserSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(userSessions)
+      .where(and(
+        eq(userSessions.id, id),
+        isNull(userSessions.revokedAt),
+        gt(userSessions.expiresAt, new Date())
+      ));
+    return session;
+  }
+
+  static async revoke(id: string): Promise<UserSession | undefined> {
+    const [session] = await db
+      .update(userSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(userSessions.id, id), isNull(userSessions.revokedAt)))
+      .returning();
+    return session;
+  }
+}
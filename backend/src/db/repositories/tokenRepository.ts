@@ -0,0 +1,83 @@
+import { and, desc, eq, gt, inArray, isNotNull, isNull, or } from 'drizzle-orm';
+import { db } from '../index.js';
+import { mcpTokens } from '../schema.js';
+import { organizationConnectorIds } from './connectorRepository.js';
+
+export type McpToken = typeof mcpTokens.$inferSelect;
+export type NewMcpToken = typeof mcpTokens.$inferInsert;
+
+export class TokenRepository {
+  static async create(values: NewMcpToken): Promise<McpToken> {
+    const [token] = await db.insert(mcpTokens).values(values).returning();
+    return token;
+  }
+
+  /**
+   * With an organization, only finds tokens of that organization's connectors
+   */
+  static async findById(id: string, organizationId?: string): Promise<McpToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(mcpTokens)
+      .where(and(
+        eq(mcpTokens.id, id),
+        organizationId ? inArray(mcpTokens.connectorId, organizationConnectorIds(organizationId)) : undefined
+      ));
+    return token;
+  }
+
+  static async findByPrefix(tokenPrefix: string): Promise<McpToken | undefined> {
+    const [token] = await db.select().from(mcpTokens).where(eq(mcpTokens.tokenPrefix, tokenPrefix));
+    return token;
+  }
+
+  static async list(connectorId?: string, organizationId?: string): Promise<McpToken[]> {
+    return db
+      .select()
+      .from(mcpTokens)
+      .where(and(
+        connectorId ? eq(mcpTokens.connectorId, connectorId) : undefined,
+        organizationId ? inArray(mcpTokens.connectorId, organizationConnectorIds(organizationId)) : undefined
+      ))
+      .orderBy(desc(mcpTokens.createdAt));
+  }
+
+  /**
+   * Usable tokens pinned to a deployment version
+   */
+  static async listPinned(): Promise<McpToken[]> {
+    return db
+      .select()
+      .from(mcpTokens)
+      .where(and(
+        isNotNull(mcpTokens.deploymentVersion),
+        eq(mcpTokens.isActive, true),
+        or(isNull(mcpTokens.expiresAt), gt(mcpTokens.expiresAt, new Date()))
+      ));
+  }
+
+  static async touch(id: string): Promise<void> {
+    await db.update(mcpTokens).set({ lastUsedAt: new Date() }).where(eq(mcpTokens.id, id));
+  }
+
+  /**
+   * Pin a token to a deployment version, or follow the active one again (null)
+   */
+  static async pin(id: string, deploymentVersion: number | null): Promise<McpToken | undefined> {
+    const [token] = await db
+      .update(mcpTokens)
+      .set({ deploymentVersion })
+      .where(eq(mcpTokens.id, id))
+      .returning();
+    return token;
+  }
+
+  static async revoke(id: string): Promise<McpToken | undefined> {
+    const [token] = await db
+      .update(mcpTokens)
+      .set({ isActive: false })
+      .where(eq(mcpTokens.id, id))
+      .returning();
+    return token;
+  }
+}
@@ -0,0 +1,17 @@
+import { eq } from 'drizzle-orm';
+import { db } from '../index.js';
+import { users } from '../schema.js';
+
+export type User = typeof users.$inferSelect;
+
+export class UserRepository {
+  static async findById(id: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  static async findByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+}
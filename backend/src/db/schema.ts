@@ -1,4 +1,4 @@
-import { pgTable, text, varchar, timestamp, integer, boolean, json, serial, uuid, index } from 'drizzle-orm/pg-core';
+import { pgTable, text, varchar, timestamp, integer, boolean, json, serial, uuid, index, uniqueIndex } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // Users and Organizations
@@ -28,6 +28,18 @@ export const organizationMembers = pgTable('organization_members', {
   createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
+// Control plane login sessions; the session token carries the ID
+export const userSessions = pgTable('user_sessions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id), // organization the session acts in
+  expiresAt: timestamp('expires_at').notNull(),
+  revokedAt: timestamp('revoked_at'), // set on logout
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  userIdx: index('user_sessions_user_idx').on(table.userId),
+}));
+
 // Connectors (Point 6: Data to store)
 export const connectors = pgTable('connectors', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -35,12 +47,19 @@ export const connectors = pgTable('connectors', {
   name: varchar('name', { length: 255 }).notNull(),
   description: text('description'),
   baseUrl: varchar('base_url', { length: 1024 }).notNull(),
-  authType: varchar('auth_type', { length: 50 }).notNull(), // 'api_key', 'bearer_token'
-  authHeaderName: varchar('auth_header_name', { length: 255 }).default('Authorization'),
-  encryptedAuthSecret: text('encrypted_auth_secret').notNull(),
+  authType: varchar('auth_type', { length: 50 }).notNull(), // 'api_key', 'bearer_token', 'basic', 'hmac', 'oauth2_client_credentials', 'oauth2_authorization_code'
+  authHeaderName: varchar('auth_header_name', { length: 255 }).default('Authorization'), // api_key: header, query or cookie name
+  authLocation: varchar('auth_location', { length: 20 }).notNull().default('header'), // api_key: header, query, cookie
+  securitySchemes: json('security_schemes').notNull().default('{}'), // Supported schemes from the spec, by name
+  encryptedAuthSecret: text('encrypted_auth_secret').notNull(), // OAuth2: the client secret; hmac: the signing secret
+  oauthConfig: json('oauth_config'), // OAuth2 token endpoint, client ID, scopes
+  encryptedRefreshToken: text('encrypted_refresh_token'), // OAuth2 authorization code flow
+  signingConfig: json('signing_config'), // HMAC request signing: templates, headers, algorithm
   openApiSpec: json('openapi_spec').notNull(), // Full OpenAPI spec
   selectedEndpoints: json('selected_endpoints').notNull().default('[]'), // Array of endpoint paths
   toolDefinitions: json('tool_definitions').notNull().default('{}'), // Generated MCP tools
+  toolOverrides: json('tool_overrides').notNull().default('{}'), // By generated tool name: { name, description, hiddenParameters, fixedArguments, defaults }
+  responseShaping: json('response_shaping').notNull().default('{}'), // Per tool: { fields, maxItems, maxBytes, maxPages }
   deploymentStatus: varchar('deployment_status', { length: 50 }).default('draft'), // draft, deployed, failed
   deployedUrl: varchar('deployed_url', { length: 1024 }),
   createdAt: timestamp('created_at').notNull().defaultNow(),
@@ -77,6 +96,14 @@ export const governanceConfigs = pgTable('governance_configs', {
   // Response redaction
   redactSensitiveFields: boolean('redact_sensitive_fields').default(true),
   
+  // Upstream responses checked against the tool's output schema: off, flag (log drift), block
+  responseValidation: varchar('response_validation', { length: 20 }).notNull().default('flag'),
+  
+  // Quorum approvals for DANGEROUS tools and calls over a numeric ceiling
+  quorumRequiredApprovals: integer('quorum_required_approvals').notNull().default(2),
+  quorumApproverRoles: json('quorum_approver_roles').notNull().default('["admin"]'), // organization member roles allowed to approve
+  quorumForCeilingBreaches: boolean('quorum_for_ceiling_breaches').default(true), // hold over-ceiling calls for quorum instead of blocking
+  
   // AI Reviewer configuration (Point 12)
   aiReviewerEnabled: boolean('ai_reviewer_enabled').default(true),
   aiReviewerMode: varchar('ai_reviewer_mode', { length: 50 }).default('ENFORCING'), // ADVISORY, ENFORCING
@@ -90,6 +117,12 @@ export const governanceConfigs = pgTable('governance_configs', {
   aiReviewerAllowedBusinessPurpose: text('ai_reviewer_allowed_business_purpose'),
   aiReviewerForbiddenActions: text('ai_reviewer_forbidden_actions'),
   
+  // Pending approvals expire this long after the call was queued
+  approvalTtlMinutes: integer('approval_ttl_minutes').notNull().default(1440),
+  
+  // Approval escalation: [{ "afterMinutes": 30, "action": "notify", "notifyRole": "admin" }, { "afterMinutes": 120, "action": "reject" }]
+  approvalEscalationRules: json('approval_escalation_rules').notNull().default('[]'),
+  
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
@@ -98,8 +131,14 @@ export const governanceConfigs = pgTable('governance_configs', {
 export const mcpTokens = pgTable('mcp_tokens', {
   id: uuid('id').primaryKey().defaultRandom(),
   connectorId: uuid('connector_id').notNull().references(() => connectors.id),
-  token: varchar('token', { length: 255 }).notNull().unique(),
+  // Only a salted hash is stored; the prefix identifies the token on lookup
+  tokenPrefix: varchar('token_prefix', { length: 32 }).notNull().unique(),
+  tokenHash: varchar('token_hash', { length: 128 }).notNull(),
+  tokenSalt: varchar('token_salt', { length: 64 }).notNull(),
   name: varchar('name', { length: 255 }),
+  scopes: json('scopes'), // Tool names the token may call; null = all tools of the connector
+  deploymentVersion: integer('deployment_version'), // Pinned connector version; null = the active one
+  createdBy: uuid('created_by').references(() => users.id),
   isActive: boolean('is_active').default(true),
   lastUsedAt: timestamp('last_used_at'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
@@ -158,18 +197,52 @@ export const approvals = pgTable('approvals', {
   reviewerDecision: varchar('reviewer_decision', { length: 50 }),
   reviewerRiskScore: integer('reviewer_risk_score'),
   reviewerReasons: json('reviewer_reasons'),
+  requestedBy: uuid('requested_by').references(() => users.id), // owner of the MCP token that made the call
+  tokenId: uuid('token_id').references(() => mcpTokens.id), // MCP token that made the call; only it may look the call up
+  deploymentVersion: integer('deployment_version'), // connector version the call was made on, and is executed on
+  
+  // Quorum
+  requiredApprovals: integer('required_approvals').notNull().default(1),
+  approverRoles: json('approver_roles'), // null: any organization member
+  approvalCount: integer('approval_count').notNull().default(0),
   
   // Approval status
-  status: varchar('status', { length: 50 }).notNull().default('pending'), // pending, approved, rejected
+  status: varchar('status', { length: 50 }).notNull().default('pending'), // pending, approved, rejected, expired
   approverId: uuid('approver_id').references(() => users.id),
   approvalNotes: text('approval_notes'),
   decisionTime: timestamp('decision_time'),
   
+  // Escalation tracking
+  escalationLevel: integer('escalation_level').notNull().default(0), // number of escalation rules applied
+  escalatedTo: varchar('escalated_to', { length: 50 }), // role notified by the latest escalation
+  escalatedAt: timestamp('escalated_at'),
+  
+  // Execution of the approved request
+  executionStatus: varchar('execution_status', { length: 50 }), // executing (claimed by a runtime), executed, failed
+  executionResult: json('execution_result'),
+  executionError: text('execution_error'),
+  executedAt: timestamp('executed_at'),
+  
   createdAt: timestamp('created_at').notNull().defaultNow(),
   expiresAt: timestamp('expires_at'),
 }, (table) => ({
   connectorIdx: index('approvals_connector_idx').on(table.connectorId),
   statusIdx: index('approvals_status_idx').on(table.status),
+  requestIdx: index('approvals_request_idx').on(table.requestId),
+}));
+
+// Individual approver decisions on an approval (quorum trail)
+export const approvalDecisions = pgTable('approval_decisions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  approvalId: uuid('approval_id').notNull().references(() => approvals.id),
+  approverId: uuid('approver_id').references(() => users.id), // null: decided by an escalation rule
+  approverRole: varchar('approver_role', { length: 50 }).notNull(), // 'system' for escalation rules
+  decision: varchar('decision', { length: 50 }).notNull(), // approved, rejected
+  notes: text('notes'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  approvalIdx: index('approval_decisions_approval_idx').on(table.approvalId),
+  approverUnique: uniqueIndex('approval_decisions_approver_unique').on(table.approvalId, table.approverId),
 }));
 
 // Deployments
@@ -177,13 +250,25 @@ export const deployments = pgTable('deployments', {
   id: uuid('id').primaryKey().defaultRandom(),
   connectorId: uuid('connector_id').notNull().references(() => connectors.id),
   version: integer('version').notNull().default(1),
-  status: varchar('status', { length: 50 }).notNull(), // pending, active, failed
+  status: varchar('status', { length: 50 }).notNull(), // pending, staged, active, inactive, failed
+  // Tools, overrides, response shaping and governance as deployed
+  snapshot: json('snapshot'),
   mcpUrl: varchar('mcp_url', { length: 1024 }),
   errorMessage: text('error_message'),
+  activatedAt: timestamp('activated_at'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 }, (table) => ({
   connectorIdx: index('deployments_connector_idx').on(table.connectorId),
+  versionUnique: uniqueIndex('deployments_connector_version_unique').on(table.connectorId, table.version),
+}));
+
+// Nonces of verified internal API requests, shared by control plane replicas
+export const internalApiNonces = pgTable('internal_api_nonces', {
+  nonce: varchar('nonce', { length: 64 }).primaryKey(),
+  forgetAt: timestamp('forget_at').notNull(), // after the request's timestamp window
+}, (table) => ({
+  forgetAtIdx: index('internal_api_nonces_forget_at_idx').on(table.forgetAt),
 }));
 
 // Relations
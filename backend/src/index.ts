@@ -6,16 +6,27 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 // Import routes
+import authRouter from './routes/auth.js';
 import connectorsRouter from './routes/connectors.js';
 import approvalsRouter from './routes/approvals.js';
 import tokensRouter from './routes/tokens.js';
 import logsRouter from './routes/logs.js';
+import internalRouter, { internalBodyParser } from './routes/internal.js';
+import { approvalScheduler } from './utils/approvalScheduler.js';
+import { InternalAuth } from './utils/internalAuth.js';
+import { NonceRepository } from './db/repositories/nonceRepository.js';
+import { SessionAuth } from './utils/sessionAuth.js';
+
+// Nonces live in the database, so replay protection holds across replicas and restarts
+InternalAuth.configure('control-plane', { nonces: NonceRepository });
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
 app.use(cors());
+// Internal requests are parsed first, with the runtime's size limit and the raw body kept
+app.use('/internal', internalBodyParser());
 app.use(express.json());
 
 // Health check
@@ -23,12 +34,17 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-// API Routes
+// API Routes, for signed-in users; each request acts in the session's organization
+app.use('/api', SessionAuth.requireSession);
+app.use('/api/auth', authRouter);
 app.use('/api/connectors', connectorsRouter);
 app.use('/api/approvals', approvalsRouter);
 app.use('/api/tokens', tokensRouter);
 app.use('/api/logs', logsRouter);
 
+// Internal routes (MCP runtime), signed with the shared internal API key
+app.use('/internal', InternalAuth.requireSignature, internalRouter);
+
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
   console.error('Error:', err);
@@ -42,6 +58,9 @@ app.listen(PORT, () => {
   console.log(`MCP Connector Platform Backend running on port ${PORT}`);
   console.log(`Health check: http://localhost:${PORT}/health`);
   console.log(`API Documentation: http://localhost:${PORT}/api/docs`);
+
+  // Expire and escalate pending approvals in the background
+  approvalScheduler.start();
 });
 
 export default app;
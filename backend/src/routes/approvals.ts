@@ -1,5 +1,11 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
+import { ApprovalRepository, Approval } from '../db/repositories/approvalRepository.js';
+import { ConnectorRepository } from '../db/repositories/connectorRepository.js';
+import { LogRepository } from '../db/repositories/logRepository.js';
+import { OrganizationRepository } from '../db/repositories/organizationRepository.js';
+import { RuntimeClient } from '../utils/runtimeClient.js';
+import { SessionAuth } from '../utils/sessionAuth.js';
 
 const router = Router();
 
@@ -7,53 +13,144 @@ const ApprovalDecisionSchema = z.object({
   notes: z.string().optional(),
 });
 
+const ListApprovalsQuerySchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected', 'expired']).default('pending'),
+});
+
+const IdParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+/**
+ * Check that a user may decide on an approval and return their organization role
+ */
+async function authorizeApprover(
+  approval: Approval,
+  approverId: string,
+  decision: 'approved' | 'rejected'
+): Promise<{ role: string } | { status: number; error: string }> {
+  const connector = await ConnectorRepository.findById(approval.connectorId);
+  const role = connector && await OrganizationRepository.findMemberRole(connector.organizationId, approverId);
+  if (!role) {
+    return { status: 403, error: 'Approver is not a member of the connector organization' };
+  }
+
+  const allowedRoles = approval.approverRoles as string[] | null;
+  if (allowedRoles && allowedRoles.length > 0 && !allowedRoles.includes(role)) {
+    return { status: 403, error: `Decision requires one of the roles: ${allowedRoles.join(', ')}` };
+  }
+
+  if (decision === 'approved' && approval.requestedBy === approverId) {
+    return { status: 403, error: 'Requesters cannot approve their own calls' };
+  }
+
+  return { role };
+}
+
+/**
+ * Validate the approver and record their vote, or send the error response
+ */
+async function vote(req: Request, res: Response, decision: 'approved' | 'rejected') {
+  const { id } = IdParamsSchema.parse(req.params);
+  const input = ApprovalDecisionSchema.parse(req.body);
+  // The signed-in user decides
+  const { userId: approverId, organizationId } = SessionAuth.context(res);
+
+  const approval = await ApprovalRepository.findById(id, organizationId);
+  if (!approval) {
+    res.status(404).json({ error: 'Pending approval not found' });
+    return undefined;
+  }
+
+  const authorization = await authorizeApprover(approval, approverId, decision);
+  if ('error' in authorization) {
+    res.status(authorization.status).json({ error: authorization.error });
+    return undefined;
+  }
+
+  const result = await ApprovalRepository.recordVote(id, {
+    approverId,
+    approverRole: authorization.role,
+    decision,
+    notes: input.notes,
+  });
+
+  if (result.status === 'not_pending') {
+    res.status(404).json({ error: 'Pending approval not found' });
+    return undefined;
+  }
+  if (result.status === 'already_decided') {
+    res.status(409).json({ error: 'Approver has already decided on this approval' });
+    return undefined;
+  }
+
+  return result;
+}
+
 /**
  * GET /api/approvals
- * List pending approvals
+ * List approvals with their per-approver decision trail
  */
 router.get('/', async (req, res) => {
   try {
-    // TODO: Fetch pending approvals from database
+    const query = ListApprovalsQuerySchema.parse(req.query);
+
+    const approvals = await ApprovalRepository.list(query.status, SessionAuth.context(res).organizationId);
+    const decisions = await ApprovalRepository.listDecisions(approvals.map(a => a.id));
+
     res.json({
-      approvals: [
-        {
-          id: 'approval-1',
-          connectorId: 'connector-1',
-          toolName: 'create_invoice',
-          method: 'POST',
-          path: '/v1/invoices',
-          arguments: { amount: 5000, currency: 'USD' },
-          reviewerDecision: 'REQUIRE_HUMAN_APPROVAL',
-          reviewerRiskScore: 45,
-          reviewerReasons: ['High-impact write operation', 'Large numeric value'],
-          createdAt: new Date().toISOString(),
-          expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
-        },
-      ],
+      approvals: approvals.map(approval => ({
+        ...approval,
+        decisions: decisions.filter(d => d.approvalId === approval.id),
+      })),
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
     res.status(500).json({ error: (error as Error).message });
   }
 });
 
 /**
  * POST /api/approvals/:id/approve
- * Approve a pending action (Point 7)
+ * Approve a pending action (Point 7). Quorum approvals are executed
+ * once the required number of approvers has approved.
  */
 router.post('/:id/approve', async (req, res) => {
   try {
-    const { id } = req.params;
-    const input = ApprovalDecisionSchema.parse(req.body);
+    const result = await vote(req, res, 'approved');
+    if (!result) return;
+
+    const { approval } = result;
+    if (!result.finalized) {
+      return res.json({
+        id: approval.id,
+        requestId: approval.requestId,
+        status: approval.status,
+        approvalsReceived: approval.approvalCount,
+        requiredApprovals: approval.requiredApprovals,
+        message: `Approval recorded (${approval.approvalCount} of ${approval.requiredApprovals})`,
+      });
+    }
 
-    // TODO: Update approval status in database
-    // TODO: Execute the stored request payload
-    // TODO: Log the approval decision
+    // Only the vote that moved the approval out of pending gets here, and the
+    // runtime claims the call before executing it, so it runs at most once.
+    // The runtime records the outcome; this records failures to reach it.
+    const execution = await RuntimeClient.executeApproval(approval);
+    await ApprovalRepository.recordExecution(approval.id, execution);
 
-    res.json({
-      id,
-      status: 'approved',
-      approvedAt: new Date().toISOString(),
-      message: 'Request approved and executed',
+    res.status(execution.status === 'executed' ? 200 : 502).json({
+      id: approval.id,
+      requestId: approval.requestId,
+      status: approval.status,
+      approvedAt: approval.decisionTime,
+      approvalsReceived: approval.approvalCount,
+      requiredApprovals: approval.requiredApprovals,
+      execution,
+      message: execution.status === 'executed'
+        ? 'Request approved and executed'
+        : 'Request approved but execution failed',
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -65,20 +162,26 @@ router.post('/:id/approve', async (req, res) => {
 
 /**
  * POST /api/approvals/:id/reject
- * Reject a pending action (Point 7)
+ * Reject a pending action (Point 7). A single rejection closes the approval.
  */
 router.post('/:id/reject', async (req, res) => {
   try {
-    const { id } = req.params;
-    const input = ApprovalDecisionSchema.parse(req.body);
+    const result = await vote(req, res, 'rejected');
+    if (!result) return;
 
-    // TODO: Update approval status in database
-    // TODO: Log the rejection
+    const { approval } = result;
+    await LogRepository.createForClosedApproval(
+      approval,
+      'rejected',
+      approval.approvalNotes ? `Rejected by an approver: ${approval.approvalNotes}` : 'Rejected by an approver'
+    );
+    RuntimeClient.notifyDecision(approval);
 
     res.json({
-      id,
-      status: 'rejected',
-      rejectedAt: new Date().toISOString(),
+      id: approval.id,
+      requestId: approval.requestId,
+      status: approval.status,
+      rejectedAt: approval.decisionTime,
       message: 'Request rejected',
     });
   } catch (error) {
@@ -0,0 +1,113 @@
+import { Router } from 'express';
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import { z } from 'zod';
+import { UserRepository, User } from '../db/repositories/userRepository.js';
+import { SessionRepository } from '../db/repositories/sessionRepository.js';
+import { OrganizationRepository } from '../db/repositories/organizationRepository.js';
+import { SessionAuth } from '../utils/sessionAuth.js';
+
+const router = Router();
+
+const LoginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+  organizationId: z.string().uuid().optional(), // organization to act in; the first one joined when omitted
+});
+
+// Compared against for unknown emails, so they take as long as wrong passwords
+const dummyPasswordHash = bcrypt.hash(crypto.randomBytes(16).toString('hex'), 12);
+
+/**
+ * Never return the password hash
+ */
+function toUserResponse({ passwordHash, ...user }: User) {
+  return user;
+}
+
+/**
+ * POST /api/auth/login
+ * Check email and password and start a session
+ */
+router.post('/login', async (req, res) => {
+  try {
+    const input = LoginSchema.parse(req.body);
+
+    const user = await UserRepository.findByEmail(input.email);
+    const passwordMatches = await bcrypt.compare(input.password, user?.passwordHash ?? await dummyPasswordHash);
+    if (!user || !passwordMatches) {
+      return res.status(401).json({ error: 'Invalid email or password' });
+    }
+
+    const memberships = await OrganizationRepository.listMemberships(user.id);
+    const membership = input.organizationId
+      ? memberships.find(m => m.organizationId === input.organizationId)
+      : memberships[0];
+    if (!membership) {
+      return res.status(403).json({
+        error: input.organizationId ? 'Not a member of this organization' : 'Not a member of any organization',
+      });
+    }
+
+    const session = await SessionRepository.create({
+      userId: user.id,
+      organizationId: membership.organizationId,
+      expiresAt: new Date(Date.now() + SessionAuth.ttlMs()),
+    });
+
+    res.json({
+      token: SessionAuth.issue(session),
+      expiresAt: session.expiresAt,
+      user: toUserResponse(user),
+      organization: membership,
+      organizations: memberships,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * End the current session
+ */
+router.post('/logout', async (req, res) => {
+  try {
+    const { sessionId } = SessionAuth.context(res);
+
+    await SessionRepository.revoke(sessionId);
+
+    res.json({ status: 'logged_out' });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * GET /api/auth/me
+ * The signed-in user and the organization the session acts in
+ */
+router.get('/me', async (req, res) => {
+  try {
+    const auth = SessionAuth.context(res);
+
+    const user = await UserRepository.findById(auth.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    const memberships = await OrganizationRepository.listMemberships(auth.userId);
+
+    res.json({
+      user: toUserResponse(user),
+      organization: memberships.find(m => m.organizationId === auth.organizationId),
+      organizations: memberships,
+    });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+export default router;
@@ -1,24 +1,150 @@
 import { Router, Request, Response } from 'express';
-import { OpenAPIParser } from '../utils/openApiParser.js';
-import { GovernanceEngine } from '../utils/governanceEngine.js';
+import type { OpenAPIV3 } from 'openapi-types';
+import { OpenAPIParser, MCPTool, DetectedAuth } from '../utils/openApiParser.js';
+import { ConnectorRepository, Connector } from '../db/repositories/connectorRepository.js';
+import { GovernanceRepository, GovernanceConfigRow } from '../db/repositories/governanceRepository.js';
+import { DeploymentRepository, Deployment } from '../db/repositories/deploymentRepository.js';
+import { TokenRepository } from '../db/repositories/tokenRepository.js';
+import { SecretEnvelope } from '../utils/secretEnvelope.js';
+import { SpecValidationError } from '../utils/specValidator.js';
+import { oauthAuthorizations, OAuthConfig } from '../utils/oauthAuthorization.js';
+import { RuntimeClient } from '../utils/runtimeClient.js';
+import { ToolCuration, ToolOverride } from '../utils/toolCuration.js';
+import { SpecDiff } from '../utils/specDiff.js';
+import { DeploymentSnapshots, DeploymentSnapshot, matchesPathPattern } from '../utils/deploymentSnapshot.js';
+import { SessionAuth } from '../utils/sessionAuth.js';
 import { z } from 'zod';
 
 const router = Router();
 
+// Changing connectors, their governance and deployments is for organization admins
+const requireAdmin = SessionAuth.requireRole('admin');
+
 // Validation schemas
+const OAuthConfigSchema = z.object({
+  tokenUrl: z.string().url(),
+  clientId: z.string().min(1),
+  scopes: z.array(z.string().min(1)).optional(),
+  audience: z.string().optional(),
+  clientAuthMethod: z.enum(['client_secret_basic', 'client_secret_post']).optional(),
+  authorizationUrl: z.string().url().optional(),
+});
+
+const SIGNING_PLACEHOLDERS = [
+  'method', 'path', 'query', 'pathWithQuery', 'host',
+  'timestamp', 'nonce', 'body', 'bodySha256', 'keyId', 'signature',
+];
+
+const SigningTemplateSchema = z.string().min(1).refine(
+  template => [...template.matchAll(/\{(\w+)\}/g)].every(match => SIGNING_PLACEHOLDERS.includes(match[1])),
+  { message: `Unknown placeholder; use ${SIGNING_PLACEHOLDERS.map(name => `{${name}}`).join(', ')}` }
+);
+
+// HMAC request signing, for exchange-style APIs
+const SigningConfigSchema = z.object({
+  algorithm: z.enum(['sha256', 'sha384', 'sha512']).default('sha256'),
+  secretEncoding: z.enum(['utf8', 'base64', 'hex']).default('utf8'),
+  signatureEncoding: z.enum(['hex', 'base64']).default('hex'),
+  canonicalTemplate: SigningTemplateSchema.default('{timestamp}{method}{pathWithQuery}{body}'),
+  signatureHeader: z.string().min(1).default('X-Signature'),
+  signatureTemplate: SigningTemplateSchema.default('{signature}'), // e.g. "HMAC {keyId}:{signature}"
+  timestampHeader: z.string().min(1).optional(),
+  timestampFormat: z.enum(['unix_seconds', 'unix_millis', 'iso8601']).default('unix_seconds'),
+  nonceHeader: z.string().min(1).optional(),
+  keyId: z.string().min(1).optional(), // public API key
+  keyIdHeader: z.string().min(1).optional(),
+  clockSkewToleranceMs: z.number().int().positive().optional(),
+});
+
+// Auth settings left out are taken from the spec's securitySchemes
 const CreateConnectorSchema = z.object({
   name: z.string().min(1),
-  openApiUrl: z.string().url().optional(),
+  openApiUrl: z.string().url().regex(/^https?:\/\//, 'Must be an http(s) URL').optional(),
+  openApiContent: z.string().optional(),
+  baseUrl: z.string().url().optional(),
+  authType: z.enum([
+    'api_key',
+    'bearer_token',
+    'basic', // authSecret is "username:password"
+    'hmac', // authSecret is the signing secret
+    'oauth2_client_credentials',
+    'oauth2_authorization_code',
+  ]).optional(),
+  authHeaderName: z.string().min(1).optional(), // api_key: header, query parameter or cookie name
+  authLocation: z.enum(['header', 'query', 'cookie']).optional(),
+  authSecret: z.string().min(1), // OAuth2: the client secret
+  oauth: OAuthConfigSchema.partial().optional(),
+  signing: SigningConfigSchema.optional(),
+});
+
+const OAuthCallbackQuerySchema = z.object({
+  state: z.string().min(1),
+  code: z.string().min(1).optional(),
+  error: z.string().optional(),
+  error_description: z.string().optional(),
+});
+
+const IdParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+// Without confirm, a re-import only reports what would change
+const ReimportSchema = z.object({
+  openApiUrl: z.string().url().regex(/^https?:\/\//, 'Must be an http(s) URL').optional(),
   openApiContent: z.string().optional(),
   baseUrl: z.string().url().optional(),
-  authType: z.enum(['api_key', 'bearer_token']),
-  authSecret: z.string().min(1),
+  confirm: z.boolean().default(false),
+});
+
+const DeploySchema = z.object({
+  // false stages the version: only tokens pinned to it use it until it is activated
+  activate: z.boolean().default(true),
+});
+
+const DeploymentParamsSchema = z.object({
+  id: z.string().uuid(),
+  version: z.coerce.number().int().positive(),
 });
 
 const UpdateEndpointsSchema = z.object({
   selectedEndpoints: z.array(z.string()),
 });
 
+// The JSONPath subset the runtime evaluates: $, .name, ['name'], [0], [*] and .*
+const JSON_PATH = /^\$(\.[A-Za-z_$][\w$]*|\.\*|\[\d+\]|\[\*\]|\['([^'\\]|\\.)*'\])*$/;
+
+// How a tool's upstream response is cut down before it is returned
+const ResponseShapingSchema = z.object({
+  fields: z.array(z.string().regex(JSON_PATH, 'Must be a JSONPath such as $.data[*].id')).min(1).optional(),
+  maxItems: z.number().int().positive().optional(), // per array
+  maxBytes: z.number().int().positive().optional(), // of the serialized response
+  maxPages: z.number().int().min(1).max(50).optional(), // pages followed on paginated tools
+});
+
+// Tool name to its shaping; null removes it
+const UpdateResponseShapingSchema = z.record(ResponseShapingSchema.nullable());
+
+const ToolOverrideSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, 'Letters, digits, _ and - only, at most 64').optional(),
+  description: z.string().min(1).optional(),
+  hiddenParameters: z.array(z.string().min(1)).optional(),
+  fixedArguments: z.record(z.any()).optional(), // e.g. { "accountId": "acct_123" }
+  defaults: z.record(z.any()).optional(),
+});
+
+// Generated tool name to its override; null removes it
+const UpdateToolOverridesSchema = z.record(ToolOverrideSchema.nullable());
+
+const EscalationRuleSchema = z.object({
+  afterMinutes: z.number().int().positive(),
+  action: z.enum(['notify', 'reject']),
+  notifyRole: z.string().min(1).optional(),
+  webhookUrl: z.string().url().refine(url => /^https?:\/\//i.test(url), 'webhookUrl must be an http(s) URL').optional(),
+}).refine(rule => rule.action !== 'notify' || rule.notifyRole, {
+  message: 'notify rules require a notifyRole',
+  path: ['notifyRole'],
+});
+
 const UpdateGovernanceSchema = z.object({
   allowedVerbs: z.array(z.string()).optional(),
   allowedPaths: z.array(z.string()).optional(),
@@ -26,16 +152,143 @@ const UpdateGovernanceSchema = z.object({
   numericCeilings: z.record(z.number()).optional(),
   requireApprovalForWrites: z.boolean().optional(),
   requireApprovalForHighRisk: z.boolean().optional(),
+  enabled: z.boolean().optional(),
+  dryRunMode: z.boolean().optional(),
+  redactSensitiveFields: z.boolean().optional(),
+  responseValidation: z.enum(['off', 'flag', 'block']).optional(),
+  quorumRequiredApprovals: z.number().int().min(1).optional(),
+  quorumApproverRoles: z.array(z.string().min(1)).optional(),
+  quorumForCeilingBreaches: z.boolean().optional(),
   aiReviewerEnabled: z.boolean().optional(),
   aiReviewerMode: z.enum(['ADVISORY', 'ENFORCING']).optional(),
+  aiReviewerWriteCallsOnly: z.boolean().optional(),
+  aiReviewerHighRiskOnly: z.boolean().optional(),
   aiReviewerTimeoutMs: z.number().optional(),
+  aiReviewerFallback: z.enum(['ALLOW', 'REQUIRE_HUMAN_APPROVAL', 'BLOCK']).optional(),
+  aiReviewerAllowMaxRisk: z.number().min(0).max(100).optional(),
+  aiReviewerApprovalMinRisk: z.number().min(0).max(100).optional(),
+  aiReviewerBlockMinRisk: z.number().min(0).max(100).optional(),
+  aiReviewerAllowedBusinessPurpose: z.string().optional(),
+  aiReviewerForbiddenActions: z.string().optional(),
+  approvalTtlMinutes: z.number().int().min(1).max(30 * 24 * 60).optional(),
+  approvalEscalationRules: z.array(EscalationRuleSchema).optional(),
+});
+
+/**
+ * Strip the stored secrets and raw spec from API responses
+ */
+function toConnectorResponse(connector: Connector) {
+  const { encryptedAuthSecret, encryptedRefreshToken, openApiSpec, ...rest } = connector;
+  return rest.authType === 'oauth2_authorization_code'
+    ? { ...rest, oauthAuthorized: encryptedRefreshToken !== null }
+    : rest;
+}
+
+/**
+ * Deployments without their snapshot; the tool names show what a version serves
+ */
+function toDeploymentResponse({ snapshot, ...deployment }: Deployment) {
+  return {
+    ...deployment,
+    tools: snapshot ? (snapshot as DeploymentSnapshot).tools.map(tool => tool.name) : [],
+  };
+}
+
+/**
+ * Push the connector's served versions again so the kill switch and tightened
+ * rules apply at once. Runtime replicas the push does not reach pick them up on
+ * their next config sync. Returns whether the runtime accepted every version.
+ */
+async function applyGovernance(connector: Connector, governance: GovernanceConfigRow): Promise<boolean> {
+  const pinned = (await TokenRepository.listPinned())
+    .filter(token => token.connectorId === connector.id)
+    .map(token => ({ connectorId: connector.id, version: token.deploymentVersion! }));
+  const served = await DeploymentRepository.listServed(pinned, connector.id);
+
+  try {
+    for (const deployment of served) {
+      await RuntimeClient.registerConnector(
+        connector,
+        deployment.version,
+        deployment.snapshot as DeploymentSnapshot,
+        governance,
+        deployment.status === 'active'
+      );
+    }
+    return true;
+  } catch (error) {
+    console.error(`Failed to apply governance of connector ${connector.id}:`, (error as Error).message);
+    return false;
+  }
+}
+
+/**
+ * Where the token server sends the user back to after authorization
+ */
+function oauthRedirectUri(req: Request): string {
+  return process.env.OAUTH_REDIRECT_URI || `${req.protocol}://${req.get('host')}/api/connectors/oauth/callback`;
+}
+
+/**
+ * Connectors of other organizations are not found. Malformed IDs are left
+ * for the route's params schema to reject.
+ */
+router.param('id', async (req, res, next, id) => {
+  try {
+    if (!IdParamsSchema.shape.id.safeParse(id).success) return next();
+
+    const connector = await ConnectorRepository.findById(id);
+    if (connector && connector.organizationId !== SessionAuth.context(res).organizationId) {
+      return res.status(404).json({ error: 'Connector not found' });
+    }
+    next();
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * GET /api/connectors
+ * List the organization's connectors
+ */
+router.get('/', async (req, res) => {
+  try {
+    const rows = await ConnectorRepository.list(SessionAuth.context(res).organizationId);
+    res.json({ connectors: rows.map(toConnectorResponse) });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * GET /api/connectors/:id
+ * Get connector details with its governance config
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const { id } = IdParamsSchema.parse(req.params);
+
+    const connector = await ConnectorRepository.findById(id);
+    if (!connector) {
+      return res.status(404).json({ error: 'Connector not found' });
+    }
+
+    const governance = await GovernanceRepository.findByConnectorId(id);
+
+    res.json({ ...toConnectorResponse(connector), governance: governance || null });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
 });
 
 /**
  * POST /api/connectors
  * Create connector from OpenAPI spec (Point 7)
  */
-router.post('/', async (req, res) => {
+router.post('/', requireAdmin, async (req, res) => {
   try {
     const input = CreateConnectorSchema.parse(req.body);
 
@@ -58,15 +311,70 @@ router.post('/', async (req, res) => {
       return res.status(400).json({ error: 'Could not determine base URL' });
     }
 
+    // Auth settings: explicit input wins over what the spec declares
+    const securitySchemes = OpenAPIParser.extractSecuritySchemes(spec);
+    const detected = OpenAPIParser.detectAuth(spec, securitySchemes);
+    const authType = input.authType || detected?.authType;
+    if (!authType) {
+      return res.status(400).json({ error: 'Could not determine auth type from the spec; set authType' });
+    }
+    const fromSpec: Partial<DetectedAuth> = detected?.authType === authType ? detected : {};
+
+    let oauth: OAuthConfig | undefined;
+    if (authType.startsWith('oauth2_')) {
+      oauth = OAuthConfigSchema.parse({ ...fromSpec.oauth, ...input.oauth }, { path: ['oauth'] });
+      if (authType === 'oauth2_authorization_code' && !oauth.authorizationUrl) {
+        return res.status(400).json({ error: 'The authorization code flow requires oauth.authorizationUrl' });
+      }
+    }
+
+    const signing = authType === 'hmac' ? input.signing ?? SigningConfigSchema.parse({}) : undefined;
+
     // Generate MCP tools
-    const tools = endpoints.map(endpoint => OpenAPIParser.generateMCPTool(endpoint, baseUrl));
+    const tools = endpoints.map(endpoint => OpenAPIParser.generateMCPTool(endpoint, baseUrl, spec));
 
-    // TODO: Store connector in database
-    // For now, return preview
-    res.json({
-      id: 'temp-id',
+    // Safe by default: only read-only endpoints are exposed initially
+    const selectedEndpoints = [
+      ...new Set(endpoints.filter(e => e.category === 'READ').map(e => e.path)),
+    ];
+
+    const toolDefinitions: Record<string, MCPTool> = {};
+    for (const tool of tools) {
+      toolDefinitions[tool.name] = tool;
+    }
+
+    const connector = await ConnectorRepository.create({
+      organizationId: SessionAuth.context(res).organizationId,
       name: input.name,
       baseUrl,
+      authType,
+      authHeaderName: input.authHeaderName
+        || fromSpec.authHeaderName
+        || (authType === 'api_key' ? 'X-API-Key' : 'Authorization'),
+      authLocation: input.authLocation || fromSpec.authLocation || 'header',
+      encryptedAuthSecret: SecretEnvelope.encrypt(input.authSecret),
+      oauthConfig: oauth,
+      signingConfig: signing,
+      securitySchemes,
+      openApiSpec: spec,
+      selectedEndpoints,
+      toolDefinitions,
+    });
+    await GovernanceRepository.createDefault(connector.id);
+
+    res.status(201).json({
+      id: connector.id,
+      name: connector.name,
+      baseUrl,
+      auth: {
+        authType: connector.authType,
+        authHeaderName: connector.authHeaderName,
+        authLocation: connector.authLocation,
+        signing,
+        detectedFromSpec: !input.authType && detected !== undefined,
+        securitySchemes: Object.keys(securitySchemes),
+      },
+      selectedEndpoints,
       endpoints: endpoints.map(e => ({
         path: e.path,
         method: e.method,
@@ -85,6 +393,9 @@ router.post('/', async (req, res) => {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors });
     }
+    if (error instanceof SpecValidationError) {
+      return res.status(400).json({ error: error.message, issues: error.issues });
+    }
     res.status(500).json({ error: (error as Error).message });
   }
 });
@@ -95,28 +406,145 @@ router.post('/', async (req, res) => {
  */
 router.get('/:id/preview', async (req, res) => {
   try {
-    const { id } = req.params;
+    const { id } = IdParamsSchema.parse(req.params);
+
+    const connector = await ConnectorRepository.findById(id);
+    if (!connector) {
+      return res.status(404).json({ error: 'Connector not found' });
+    }
+
+    const selectedEndpoints = connector.selectedEndpoints as string[];
+    const tools = Object.values(connector.toolDefinitions as Record<string, MCPTool>);
+    const overrides = connector.toolOverrides as Record<string, ToolOverride>;
 
-    // TODO: Fetch connector from database
-    // For now, return mock data
     res.json({
       id,
-      tools: [
-        {
-          name: 'list_items',
-          description: 'List all items',
-          category: 'READ',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              limit: { type: 'integer', description: 'Maximum items to return' },
-              offset: { type: 'integer', description: 'Pagination offset' },
-            },
-          },
-        },
-      ],
+      tools: tools.map(tool => ({
+        name: tool.name,
+        exposedName: ToolCuration.exposedName(tool, overrides),
+        description: overrides[tool.name]?.description || tool.description,
+        category: tool.category,
+        method: tool.method,
+        path: tool.path,
+        inputSchema: tool.inputSchema,
+        security: tool.security,
+        selected: selectedEndpoints.includes(tool.path),
+        ...(overrides[tool.name] ? { override: overrides[tool.name] } : {}),
+      })),
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /api/connectors/:id/reimport
+ * Diff the connector against a new version of its spec; with confirm, apply it
+ * and record it as a pending deployment version, served once it is activated.
+ * Selections and overrides of endpoints that still exist are kept; governance
+ * is left as it is.
+ */
+router.post('/:id/reimport', requireAdmin, async (req, res) => {
+  try {
+    const { id } = IdParamsSchema.parse(req.params);
+    const input = ReimportSchema.parse(req.body);
+
+    const connector = await ConnectorRepository.findById(id);
+    if (!connector) {
+      return res.status(404).json({ error: 'Connector not found' });
+    }
+
+    let spec;
+    if (input.openApiUrl) {
+      spec = await OpenAPIParser.parseSpec(input.openApiUrl);
+    } else if (input.openApiContent) {
+      spec = await OpenAPIParser.parseSpec(input.openApiContent);
+    } else {
+      return res.status(400).json({ error: 'Either openApiUrl or openApiContent required' });
+    }
+
+    const previousEndpoints = OpenAPIParser.extractEndpoints(connector.openApiSpec as OpenAPIV3.Document);
+    const endpoints = OpenAPIParser.extractEndpoints(spec);
+    const diff = SpecDiff.compare(previousEndpoints, endpoints);
+
+    const baseUrl = input.baseUrl || connector.baseUrl;
+    const toolDefinitions: Record<string, MCPTool> = {};
+    for (const endpoint of endpoints) {
+      const tool = OpenAPIParser.generateMCPTool(endpoint, baseUrl, spec);
+      toolDefinitions[tool.name] = tool;
+    }
+
+    // New endpoints are not exposed until they are selected
+    const paths = new Set(endpoints.map(e => e.path));
+    const previousSelection = connector.selectedEndpoints as string[];
+    const selectedEndpoints = previousSelection.filter(path => paths.has(path));
+    const droppedSelections = previousSelection.filter(path => !paths.has(path));
+
+    const warnings: string[] = [];
+    const toolOverrides = connector.toolOverrides as Record<string, ToolOverride>;
+    for (const name of Object.keys(toolOverrides).filter(name => !(name in toolDefinitions))) {
+      warnings.push(`Tool override for ${name} is kept but unused: the tool no longer exists`);
+    }
+    for (const name of Object.keys(connector.responseShaping as Record<string, unknown>)) {
+      if (!(name in toolDefinitions)) {
+        warnings.push(`Response shaping for ${name} is kept but unused: the tool no longer exists`);
+      }
+    }
+    for (const issue of ToolCuration.validate(toolDefinitions, toolOverrides)) {
+      warnings.push(`Tool override: ${issue}`);
+    }
+
+    const governance = await GovernanceRepository.findByConnectorId(id);
+    for (const pattern of (governance?.allowedPaths as string[] | null) || []) {
+      if (!endpoints.some(e => matchesPathPattern(pattern, e.path))) {
+        warnings.push(`Allowed path ${pattern} no longer matches any endpoint`);
+      }
+    }
+
+    for (const token of await TokenRepository.list(id)) {
+      const missing = ((token.scopes as string[] | null) || []).filter(name => !(name in toolDefinitions));
+      if (token.isActive && missing.length) {
+        warnings.push(`Token ${token.name || token.tokenPrefix} is scoped to removed tools: ${missing.join(', ')}`);
+      }
+    }
+
+    if (!input.confirm) {
+      return res.json({ id, confirmed: false, diff, selectedEndpoints, droppedSelections, warnings });
+    }
+
+    const updated = await ConnectorRepository.update(id, {
+      baseUrl,
+      openApiSpec: spec,
+      securitySchemes: OpenAPIParser.extractSecuritySchemes(spec),
+      toolDefinitions,
+      selectedEndpoints,
+    });
+    const deployment = await DeploymentRepository.createNextVersion({
+      connectorId: id,
+      status: 'pending',
+      snapshot: DeploymentSnapshots.capture(updated!, governance),
+    });
+
+    res.json({
+      id,
+      confirmed: true,
+      diff,
+      selectedEndpoints,
+      droppedSelections,
+      warnings,
+      deployment: toDeploymentResponse(deployment),
+      message: `Spec re-imported as version ${deployment.version}; activate it to serve it`,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof SpecValidationError) {
+      return res.status(400).json({ error: error.message, issues: error.issues });
+    }
     res.status(500).json({ error: (error as Error).message });
   }
 });
@@ -125,16 +553,118 @@ router.get('/:id/preview', async (req, res) => {
  * PATCH /api/connectors/:id/endpoints
  * Update endpoint selection (Point 7)
  */
-router.patch('/:id/endpoints', async (req, res) => {
+router.patch('/:id/endpoints', requireAdmin, async (req, res) => {
   try {
-    const { id } = req.params;
+    const { id } = IdParamsSchema.parse(req.params);
     const input = UpdateEndpointsSchema.parse(req.body);
 
-    // TODO: Update connector endpoints in database
+    const connector = await ConnectorRepository.update(id, {
+      selectedEndpoints: input.selectedEndpoints,
+    });
+    if (!connector) {
+      return res.status(404).json({ error: 'Connector not found' });
+    }
+
     res.json({
       id,
-      selectedEndpoints: input.selectedEndpoints,
-      message: 'Endpoints updated successfully',
+      selectedEndpoints: connector.selectedEndpoints,
+      deployRequired: true,
+      message: 'Endpoints updated; deploy a new version to serve them',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * PATCH /api/connectors/:id/tool-overrides
+ * Rename tools, rewrite descriptions, hide parameters, pin arguments and set
+ * defaults; null removes a tool's override
+ */
+router.patch('/:id/tool-overrides', requireAdmin, async (req, res) => {
+  try {
+    const { id } = IdParamsSchema.parse(req.params);
+    const input = UpdateToolOverridesSchema.parse(req.body);
+
+    const connector = await ConnectorRepository.findById(id);
+    if (!connector) {
+      return res.status(404).json({ error: 'Connector not found' });
+    }
+
+    // Overrides of removed tools can still be deleted
+    const toolDefinitions = connector.toolDefinitions as Record<string, MCPTool>;
+    const unknown = Object.keys(input).filter(name => input[name] && !(name in toolDefinitions));
+    if (unknown.length) {
+      return res.status(400).json({ error: `Unknown tools: ${unknown.join(', ')}` });
+    }
+
+    const toolOverrides = { ...(connector.toolOverrides as Record<string, ToolOverride>) };
+    for (const [name, override] of Object.entries(input)) {
+      if (override) {
+        toolOverrides[name] = override;
+      } else {
+        delete toolOverrides[name];
+      }
+    }
+
+    const issues = ToolCuration.validate(toolDefinitions, toolOverrides);
+    if (issues.length) {
+      return res.status(400).json({ error: 'Invalid tool overrides', issues });
+    }
+    await ConnectorRepository.update(id, { toolOverrides });
+
+    res.json({
+      id,
+      toolOverrides,
+      deployRequired: true,
+      message: 'Tool overrides updated; deploy a new version to serve them',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * PATCH /api/connectors/:id/response-shaping
+ * Set or remove (null) the response shaping of tools
+ */
+router.patch('/:id/response-shaping', requireAdmin, async (req, res) => {
+  try {
+    const { id } = IdParamsSchema.parse(req.params);
+    const input = UpdateResponseShapingSchema.parse(req.body);
+
+    const connector = await ConnectorRepository.findById(id);
+    if (!connector) {
+      return res.status(404).json({ error: 'Connector not found' });
+    }
+
+    const toolDefinitions = connector.toolDefinitions as Record<string, MCPTool>;
+    const unknown = Object.keys(input).filter(name => !(name in toolDefinitions));
+    if (unknown.length) {
+      return res.status(400).json({ error: `Unknown tools: ${unknown.join(', ')}` });
+    }
+
+    const responseShaping = { ...(connector.responseShaping as Record<string, unknown>) };
+    for (const [name, shaping] of Object.entries(input)) {
+      if (shaping) {
+        responseShaping[name] = shaping;
+      } else {
+        delete responseShaping[name];
+      }
+    }
+    await ConnectorRepository.update(id, { responseShaping });
+
+    res.json({
+      id,
+      responseShaping,
+      deployRequired: true,
+      message: 'Response shaping updated; deploy a new version to serve it',
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -146,27 +676,33 @@ router.patch('/:id/endpoints', async (req, res) => {
 
 /**
  * PATCH /api/connectors/:id/governance
- * Update governance rules (Point 7)
+ * Update governance rules (Point 7). The kill switch and stricter rules apply
+ * to the deployed versions at once; looser rules are served from the next deploy.
  */
-router.patch('/:id/governance', async (req, res) => {
+router.patch('/:id/governance', requireAdmin, async (req, res) => {
   try {
-    const { id } = req.params;
+    const { id } = IdParamsSchema.parse(req.params);
     const input = UpdateGovernanceSchema.parse(req.body);
 
-    // TODO: Update governance config in database
+    const connector = await ConnectorRepository.findById(id);
+    if (!connector) {
+      return res.status(404).json({ error: 'Connector not found' });
+    }
+
+    const governance = await GovernanceRepository.update(id, input);
+    if (!governance) {
+      return res.status(404).json({ error: 'Governance config not found' });
+    }
+
+    const applied = await applyGovernance(connector, governance);
+
     res.json({
       id,
-      governance: {
-        allowedVerbs: input.allowedVerbs || ['GET'],
-        allowedPaths: input.allowedPaths || [],
-        rateLimitPerMinute: input.rateLimitPerMinute || 60,
-        requireApprovalForWrites: input.requireApprovalForWrites ?? true,
-        requireApprovalForHighRisk: input.requireApprovalForHighRisk ?? true,
-        aiReviewerEnabled: input.aiReviewerEnabled ?? true,
-        aiReviewerMode: input.aiReviewerMode || 'ENFORCING',
-        aiReviewerTimeoutMs: input.aiReviewerTimeoutMs || 2000,
-      },
-      message: 'Governance rules updated successfully',
+      governance,
+      runtime: applied ? 'applied' : 'pending_sync',
+      message: applied
+        ? 'Governance rules updated; stricter rules apply at once, looser ones from the next deploy'
+        : 'Governance rules updated; the runtime applies stricter rules on its next config sync',
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -176,26 +712,216 @@ router.patch('/:id/governance', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/connectors/:id/oauth/authorize
+ * Start the OAuth2 authorization code flow; returns the URL to open in the browser
+ */
+router.post('/:id/oauth/authorize', requireAdmin, async (req, res) => {
+  try {
+    const { id } = IdParamsSchema.parse(req.params);
+
+    const connector = await ConnectorRepository.findById(id);
+    if (!connector) {
+      return res.status(404).json({ error: 'Connector not found' });
+    }
+    if (connector.authType !== 'oauth2_authorization_code') {
+      return res.status(400).json({ error: 'Connector does not use the OAuth2 authorization code flow' });
+    }
+
+    const { authorizationUrl, expiresAt } = oauthAuthorizations.start(
+      id,
+      connector.oauthConfig as OAuthConfig,
+      oauthRedirectUri(req)
+    );
+
+    res.json({ id, authorizationUrl, expiresAt });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * GET /api/connectors/oauth/callback
+ * OAuth2 redirect target: exchange the code and store the refresh token
+ */
+router.get('/oauth/callback', async (req, res) => {
+  try {
+    const query = OAuthCallbackQuerySchema.parse(req.query);
+
+    const authorization = oauthAuthorizations.consume(query.state);
+    if (!authorization) {
+      return res.status(400).json({ error: 'Unknown or expired OAuth state' });
+    }
+    if (query.error || !query.code) {
+      return res.status(400).json({
+        error: `Authorization failed: ${query.error_description || query.error || 'no code returned'}`,
+      });
+    }
+
+    const connector = await ConnectorRepository.findById(authorization.connectorId);
+    if (!connector) {
+      return res.status(404).json({ error: 'Connector not found' });
+    }
+
+    let refreshToken: string | undefined;
+    try {
+      refreshToken = await RuntimeClient.exchangeOAuthCode(connector, {
+        code: query.code,
+        codeVerifier: authorization.codeVerifier,
+        redirectUri: authorization.redirectUri,
+      });
+    } catch (error) {
+      return res.status(502).json({ error: (error as Error).message });
+    }
+    if (!refreshToken) {
+      return res.status(502).json({ error: 'Token server did not return a refresh token' });
+    }
+
+    await ConnectorRepository.update(connector.id, {
+      encryptedRefreshToken: SecretEnvelope.encrypt(refreshToken),
+    });
+
+    res.json({ id: connector.id, status: 'authorized', message: 'Connector authorized successfully' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 /**
  * POST /api/connectors/:id/deploy
- * Deploy connector (Point 7)
+ * Snapshot the selected tools and governance into a new version and push it to the runtime (Point 7)
  */
-router.post('/:id/deploy', async (req, res) => {
+router.post('/:id/deploy', requireAdmin, async (req, res) => {
   try {
-    const { id } = req.params;
+    const { id } = IdParamsSchema.parse(req.params);
+    const input = DeploySchema.parse(req.body ?? {});
+
+    const connector = await ConnectorRepository.findById(id);
+    if (!connector) {
+      return res.status(404).json({ error: 'Connector not found' });
+    }
+
+    const governance = await GovernanceRepository.findByConnectorId(id);
+    const snapshot = DeploymentSnapshots.capture(connector, governance);
+    if (!snapshot.tools.length) {
+      return res.status(400).json({ error: 'No endpoints selected' });
+    }
 
-    // TODO: Trigger deployment to MCP runtime
-    const mcpUrl = `https://mcp.example.com/${id}`;
-    const token = `mcp_${Math.random().toString(36).substring(2, 15)}`;
+    let deployment = await DeploymentRepository.createNextVersion({ connectorId: id, status: 'pending', snapshot });
+
+    let mcpUrl: string;
+    try {
+      ({ mcpUrl } = await RuntimeClient.registerConnector(
+        connector,
+        deployment.version,
+        snapshot,
+        governance,
+        input.activate
+      ));
+    } catch (error) {
+      const failed = await DeploymentRepository.update(deployment.id, {
+        status: 'failed',
+        errorMessage: (error as Error).message,
+      });
+      return res.status(502).json({ error: (error as Error).message, deployment: toDeploymentResponse(failed!) });
+    }
+
+    deployment = (await DeploymentRepository.update(deployment.id, { status: 'staged', mcpUrl }))!;
+    if (input.activate) {
+      deployment = (await DeploymentRepository.activate(deployment.id))!;
+    }
 
     res.json({
       id,
-      status: 'deployed',
+      status: deployment.status,
       mcpUrl,
-      token,
-      message: 'Connector deployed successfully',
+      deployment: toDeploymentResponse(deployment),
+      message: input.activate
+        ? `Version ${deployment.version} deployed successfully`
+        : `Version ${deployment.version} staged; only tokens pinned to it use it`,
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * GET /api/connectors/:id/deployments
+ * List deployment versions, newest first
+ */
+router.get('/:id/deployments', async (req, res) => {
+  try {
+    const { id } = IdParamsSchema.parse(req.params);
+
+    const deployments = await DeploymentRepository.list(id);
+
+    res.json({ id, deployments: deployments.map(toDeploymentResponse) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /api/connectors/:id/deployments/:version/activate
+ * Switch MCP clients to a deployed version: a staged one (blue/green) or an older one (rollback)
+ */
+router.post('/:id/deployments/:version/activate', requireAdmin, async (req, res) => {
+  try {
+    const { id, version } = DeploymentParamsSchema.parse(req.params);
+
+    const connector = await ConnectorRepository.findById(id);
+    if (!connector) {
+      return res.status(404).json({ error: 'Connector not found' });
+    }
+
+    const deployment = await DeploymentRepository.findByVersion(id, version);
+    if (!deployment) {
+      return res.status(404).json({ error: 'Deployment not found' });
+    }
+    if (!deployment.snapshot) {
+      return res.status(409).json({ error: `Version ${version} was never deployed` });
+    }
+
+    // Pushed again, so the version is served even if the runtime restarted since
+    let mcpUrl: string;
+    try {
+      ({ mcpUrl } = await RuntimeClient.registerConnector(
+        connector,
+        version,
+        deployment.snapshot as DeploymentSnapshot,
+        await GovernanceRepository.findByConnectorId(id),
+        true
+      ));
+    } catch (error) {
+      return res.status(502).json({ error: (error as Error).message });
+    }
+
+    await DeploymentRepository.update(deployment.id, { mcpUrl });
+    const activated = await DeploymentRepository.activate(deployment.id);
+
+    res.json({
+      id,
+      status: 'active',
+      mcpUrl,
+      deployment: toDeploymentResponse(activated!),
+      message: `Version ${version} is now active`,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
     res.status(500).json({ error: (error as Error).message });
   }
 });
@@ -0,0 +1,381 @@
+import express, { Router } from 'express';
+import crypto from 'crypto';
+import { z } from 'zod';
+import { LogRepository } from '../db/repositories/logRepository.js';
+import { ApprovalRepository, Approval } from '../db/repositories/approvalRepository.js';
+import { TokenRepository } from '../db/repositories/tokenRepository.js';
+import { ConnectorRepository } from '../db/repositories/connectorRepository.js';
+import { DeploymentRepository } from '../db/repositories/deploymentRepository.js';
+import { GovernanceRepository } from '../db/repositories/governanceRepository.js';
+import { NonceRepository } from '../db/repositories/nonceRepository.js';
+import { DeploymentSnapshots, DeploymentSnapshot } from '../utils/deploymentSnapshot.js';
+import { InternalAuth, INTERNAL_AUTH_HEADERS } from '../utils/internalAuth.js';
+import { TokenHasher } from '../utils/tokenHasher.js';
+import { SecretEnvelope } from '../utils/secretEnvelope.js';
+
+/**
+ * Internal endpoints called by the MCP runtime
+ */
+const router = Router();
+
+const DEFAULT_MAX_BODY_SIZE = '10mb';
+
+/**
+ * Body parser for the internal routes, mounted ahead of the signature check.
+ * Approvals, logs and execution results carry the arguments the runtime
+ * accepted, base64 file uploads included, so the limit matches the runtime's
+ * (MCP_MAX_REQUEST_SIZE). The raw body is kept for the signature.
+ */
+export function internalBodyParser() {
+  return express.json({
+    limit: process.env.MCP_MAX_REQUEST_SIZE || DEFAULT_MAX_BODY_SIZE,
+    verify: InternalAuth.captureRawBody,
+  });
+}
+
+const InvocationLogSchema = z.object({
+  connectorId: z.string().uuid(),
+  tokenId: z.string().uuid().optional(),
+  toolName: z.string().min(1),
+  method: z.string().min(1),
+  path: z.string().min(1),
+  deterministicDecision: z.enum(['allowed', 'blocked', 'pending']),
+  reviewerDecision: z.enum(['ALLOW', 'REQUIRE_HUMAN_APPROVAL', 'BLOCK']).optional(),
+  reviewerRiskScore: z.number().int().optional(),
+  reviewerReasons: z.array(z.string()).optional(),
+  finalDecision: z.string().min(1),
+  reviewLatencyMs: z.number().int().optional(),
+  executionLatencyMs: z.number().int().optional(),
+  requestPayload: z.any().optional(),
+  responsePayload: z.any().optional(),
+  errorCode: z.string().optional(),
+  errorMessage: z.string().optional(),
+  approvalId: z.string().uuid().optional(),
+  humanApproved: z.boolean().optional(),
+});
+
+const CreateApprovalSchema = z.object({
+  connectorId: z.string().uuid(),
+  requestId: z.string().min(1),
+  toolName: z.string().min(1),
+  method: z.string().min(1),
+  path: z.string().min(1),
+  arguments: z.record(z.any()),
+  reviewerDecision: z.enum(['ALLOW', 'REQUIRE_HUMAN_APPROVAL', 'BLOCK']).optional(),
+  reviewerRiskScore: z.number().int().optional(),
+  reviewerReasons: z.array(z.string()).optional(),
+  tokenId: z.string().uuid().optional(),
+  deploymentVersion: z.number().int().optional(),
+  requiredApprovals: z.number().int().min(1).default(1),
+  approverRoles: z.array(z.string()).optional(),
+  expiresAt: z.string().datetime(),
+});
+
+const ValidateTokenSchema = z.object({
+  connectorId: z.string().uuid(),
+  token: z.string().min(1),
+});
+
+const ConnectorParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const RefreshTokenSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+const ApprovalStatusParamsSchema = z.object({
+  requestId: z.string().min(1),
+});
+
+const ApprovalParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const ExecutionOutcomeSchema = z.object({
+  status: z.enum(['executed', 'failed']),
+  result: z.any().optional(),
+  error: z.string().optional(),
+});
+
+const RememberNonceSchema = z.object({
+  nonce: z.string().min(1).max(56),
+  forgetAt: z.string().datetime(),
+});
+
+const ApprovalStatusQuerySchema = z.object({
+  connectorId: z.string().uuid(),
+  tokenId: z.string().uuid(), // the MCP token asking; other tokens' calls are not found
+});
+
+/**
+ * Approval outcome as reported to MCP clients
+ */
+function toApprovalStatus(approval: Approval) {
+  const expired = approval.status === 'pending'
+    && approval.expiresAt !== null
+    && approval.expiresAt <= new Date();
+
+  return {
+    approvalId: approval.id,
+    requestId: approval.requestId,
+    toolName: approval.toolName,
+    status: expired ? 'expired' : approval.status,
+    requiredApprovals: approval.requiredApprovals,
+    approvalsReceived: approval.approvalCount,
+    approvalNotes: approval.approvalNotes,
+    decidedAt: approval.decisionTime,
+    expiresAt: approval.expiresAt,
+    execution: approval.executionStatus
+      ? {
+          status: approval.executionStatus,
+          result: approval.executionResult,
+          error: approval.executionError,
+          executedAt: approval.executedAt,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * POST /internal/logs
+ * Record a tool invocation
+ */
+router.post('/logs', async (req, res) => {
+  try {
+    const input = InvocationLogSchema.parse(req.body);
+
+    const log = await LogRepository.create(input);
+
+    res.status(201).json({ id: log.id });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /internal/approvals
+ * Queue a tool call for human approval
+ */
+router.post('/approvals', async (req, res) => {
+  try {
+    const { tokenId, ...input } = CreateApprovalSchema.parse(req.body);
+
+    // The token owner requested the call and may not approve it
+    const token = tokenId ? await TokenRepository.findById(tokenId) : undefined;
+
+    const approval = await ApprovalRepository.create({
+      ...input,
+      tokenId,
+      requestedBy: token?.createdBy,
+      expiresAt: new Date(input.expiresAt),
+    });
+
+    res.status(201).json({ id: approval.id, requestId: approval.requestId, status: approval.status });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * GET /internal/approvals/:requestId
+ * Look up the outcome of a queued call by its request ID, for the token that made it
+ */
+router.get('/approvals/:requestId', async (req, res) => {
+  try {
+    const { requestId } = ApprovalStatusParamsSchema.parse(req.params);
+    const { connectorId, tokenId } = ApprovalStatusQuerySchema.parse(req.query);
+
+    const approval = await ApprovalRepository.findByRequestId(connectorId, requestId, tokenId);
+    if (!approval) {
+      return res.status(404).json({ error: 'Approval not found' });
+    }
+
+    res.json(toApprovalStatus(approval));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /internal/approvals/:id/claim
+ * Claim an approved call for execution. Answers `claimed: false` with the
+ * stored execution when the call was claimed before, so it runs only once.
+ */
+router.post('/approvals/:id/claim', async (req, res) => {
+  try {
+    const { id } = ApprovalParamsSchema.parse(req.params);
+
+    if (await ApprovalRepository.claimExecution(id)) {
+      return res.json({ claimed: true });
+    }
+
+    const approval = await ApprovalRepository.findById(id);
+    if (!approval || approval.status !== 'approved') {
+      return res.status(404).json({ error: 'Approved call not found' });
+    }
+
+    res.json({ claimed: false, execution: toApprovalStatus(approval).execution });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /internal/approvals/:id/execution
+ * Store the outcome of a claimed call; the first outcome recorded is kept
+ */
+router.post('/approvals/:id/execution', async (req, res) => {
+  try {
+    const { id } = ApprovalParamsSchema.parse(req.params);
+    const input = ExecutionOutcomeSchema.parse(req.body);
+
+    const approval = await ApprovalRepository.recordExecution(id, input);
+
+    res.json({ approvalId: id, recorded: Boolean(approval) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * GET /internal/runtime/config
+ * Every connector version the runtime should serve, with a revision to poll
+ * against: If-None-Match with the current revision answers 304
+ */
+router.get('/runtime/config', async (req, res) => {
+  try {
+    const pinned = (await TokenRepository.listPinned()).map(token => ({
+      connectorId: token.connectorId,
+      version: token.deploymentVersion!,
+    }));
+    const deployments = await DeploymentRepository.listServed(pinned);
+    const connectors = new Map((await ConnectorRepository.list()).map(connector => [connector.id, connector]));
+    const governance = new Map((await GovernanceRepository.list()).map(config => [config.connectorId, config]));
+
+    const registrations = deployments
+      .filter(deployment => connectors.has(deployment.connectorId))
+      .map(deployment => DeploymentSnapshots.registration(
+        connectors.get(deployment.connectorId)!,
+        deployment.version,
+        deployment.snapshot as DeploymentSnapshot,
+        governance.get(deployment.connectorId),
+        deployment.status === 'active'
+      ));
+    const revision = crypto.createHash('sha256').update(JSON.stringify(registrations)).digest('hex');
+
+    res.set('ETag', `"${revision}"`);
+    if (req.fresh) {
+      return res.status(304).end();
+    }
+
+    // Signed, so the runtime only loads bundles from the control plane
+    const body = JSON.stringify({ revision, connectors: registrations });
+    res.set('X-Internal-Signature', InternalAuth.signResponse(req.get(INTERNAL_AUTH_HEADERS.nonce)!, body));
+    res.type('json').send(body);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /internal/tokens/validate
+ * Check an MCP bearer token for a connector and record its use
+ */
+router.post('/tokens/validate', async (req, res) => {
+  try {
+    const input = ValidateTokenSchema.parse(req.body);
+
+    const token = await TokenRepository.findByPrefix(TokenHasher.prefixOf(input.token));
+    if (
+      !token
+      || token.connectorId !== input.connectorId
+      || !TokenHasher.verify(input.token, token.tokenSalt, token.tokenHash)
+    ) {
+      return res.status(401).json({ error: 'Invalid token' });
+    }
+    if (!token.isActive) {
+      return res.status(401).json({ error: 'Token revoked' });
+    }
+    if (token.expiresAt && token.expiresAt <= new Date()) {
+      return res.status(401).json({ error: 'Token expired' });
+    }
+
+    await TokenRepository.touch(token.id);
+
+    res.json({
+      tokenId: token.id,
+      scopes: token.scopes ?? null,
+      expiresAt: token.expiresAt,
+      deploymentVersion: token.deploymentVersion,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /internal/nonces
+ * Record the nonce of a request the runtime received; `recorded: false` is a replay.
+ * The runtime has no database of its own, so its replicas share nonces through this.
+ */
+router.post('/nonces', async (req, res) => {
+  try {
+    const { nonce, forgetAt } = RememberNonceSchema.parse(req.body);
+
+    // Kept apart from the nonces of requests to the control plane
+    const recorded = await NonceRepository.remember(`runtime:${nonce}`, new Date(forgetAt));
+
+    res.json({ recorded });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * PUT /internal/connectors/:id/oauth/refresh-token
+ * Store a refresh token rotated by the token server
+ */
+router.put('/connectors/:id/oauth/refresh-token', async (req, res) => {
+  try {
+    const { id } = ConnectorParamsSchema.parse(req.params);
+    const { refreshToken } = RefreshTokenSchema.parse(req.body);
+
+    const connector = await ConnectorRepository.update(id, {
+      encryptedRefreshToken: SecretEnvelope.encrypt(refreshToken),
+    });
+    if (!connector) {
+      return res.status(404).json({ error: 'Connector not found' });
+    }
+
+    res.json({ id, status: 'stored' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+export default router;
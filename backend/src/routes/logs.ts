@@ -1,15 +1,21 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
+import { LogRepository } from '../db/repositories/logRepository.js';
+import { SessionAuth } from '../utils/sessionAuth.js';
 
 const router = Router();
 
 const LogsQuerySchema = z.object({
   connectorId: z.string().uuid().optional(),
-  limit: z.coerce.number().default(50),
-  offset: z.coerce.number().default(0),
+  limit: z.coerce.number().int().positive().max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
-  decision: z.enum(['allowed', 'blocked', 'pending']).optional(),
+  decision: z.enum(['allowed', 'blocked', 'pending', 'rejected', 'expired']).optional(),
+});
+
+const IdParamsSchema = z.object({
+  id: z.string().uuid(),
 });
 
 /**
@@ -20,45 +26,14 @@ router.get('/', async (req, res) => {
   try {
     const query = LogsQuerySchema.parse(req.query);
 
-    // TODO: Fetch logs from database with filters
+    const { logs, total } = await LogRepository.list({
+      ...query,
+      organizationId: SessionAuth.context(res).organizationId,
+    });
+
     res.json({
-      logs: [
-        {
-          id: 'log-1',
-          connectorId: 'connector-1',
-          toolName: 'list_invoices',
-          method: 'GET',
-          path: '/v1/invoices',
-          deterministicDecision: 'allowed',
-          reviewerDecision: 'ALLOW',
-          reviewerRiskScore: 15,
-          finalDecision: 'allowed',
-          humanApproved: false,
-          reviewLatencyMs: 250,
-          executionLatencyMs: 450,
-          errorCode: null,
-          errorMessage: null,
-          createdAt: new Date().toISOString(),
-        },
-        {
-          id: 'log-2',
-          connectorId: 'connector-1',
-          toolName: 'create_invoice',
-          method: 'POST',
-          path: '/v1/invoices',
-          deterministicDecision: 'allowed',
-          reviewerDecision: 'REQUIRE_HUMAN_APPROVAL',
-          reviewerRiskScore: 45,
-          finalDecision: 'pending',
-          humanApproved: false,
-          reviewLatencyMs: 280,
-          executionLatencyMs: null,
-          errorCode: null,
-          errorMessage: null,
-          createdAt: new Date(Date.now() - 60000).toISOString(),
-        },
-      ],
-      total: 2,
+      logs,
+      total,
       limit: query.limit,
       offset: query.offset,
     });
@@ -76,39 +51,18 @@ router.get('/', async (req, res) => {
  */
 router.get('/:id', async (req, res) => {
   try {
-    const { id } = req.params;
+    const { id } = IdParamsSchema.parse(req.params);
 
-    // TODO: Fetch detailed log from database
-    res.json({
-      id,
-      connectorId: 'connector-1',
-      toolName: 'create_invoice',
-      method: 'POST',
-      path: '/v1/invoices',
-      deterministicDecision: 'allowed',
-      reviewerDecision: 'REQUIRE_HUMAN_APPROVAL',
-      reviewerRiskScore: 45,
-      reviewerReasons: [
-        'High-impact write operation',
-        'Large numeric value (amount: 5000)',
-        'Payment-related endpoint',
-      ],
-      finalDecision: 'pending',
-      humanApproved: false,
-      approvalId: 'approval-1',
-      reviewLatencyMs: 280,
-      executionLatencyMs: null,
-      requestPayload: {
-        amount: 5000,
-        currency: 'USD',
-        description: '[REDACTED]', // Sensitive fields redacted
-      },
-      responsePayload: null,
-      errorCode: null,
-      errorMessage: null,
-      createdAt: new Date().toISOString(),
-    });
+    const log = await LogRepository.findById(id, SessionAuth.context(res).organizationId);
+    if (!log) {
+      return res.status(404).json({ error: 'Log entry not found' });
+    }
+
+    res.json(log);
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
     res.status(500).json({ error: (error as Error).message });
   }
 });
@@ -1,37 +1,70 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import crypto from 'crypto';
+import { TokenRepository, McpToken } from '../db/repositories/tokenRepository.js';
+import { ConnectorRepository } from '../db/repositories/connectorRepository.js';
+import { DeploymentRepository } from '../db/repositories/deploymentRepository.js';
+import { TokenHasher } from '../utils/tokenHasher.js';
+import { SessionAuth } from '../utils/sessionAuth.js';
 
 const router = Router();
 
+// Issuing, repinning and revoking tokens is for organization admins
+const requireAdmin = SessionAuth.requireRole('admin');
+
 const CreateTokenSchema = z.object({
   connectorId: z.string().uuid(),
   name: z.string().optional(),
   expiresIn: z.number().optional(), // days
+  scopes: z.array(z.string().min(1)).min(1).optional(), // tool names; all tools when omitted
+  deploymentVersion: z.number().int().positive().optional(), // pin to a version; the active one when omitted
+});
+
+const PinTokenSchema = z.object({
+  deploymentVersion: z.number().int().positive().nullable(), // null follows the active version again
+});
+
+const ListTokensQuerySchema = z.object({
+  connectorId: z.string().uuid().optional(),
+});
+
+const IdParamsSchema = z.object({
+  id: z.string().uuid(),
 });
 
+/**
+ * Tokens can only be pinned to versions the runtime was given
+ */
+async function isDeployedVersion(connectorId: string, version: number): Promise<boolean> {
+  const deployment = await DeploymentRepository.findByVersion(connectorId, version);
+  return deployment !== undefined && deployment.snapshot !== null && deployment.status !== 'failed';
+}
+
+/**
+ * Never return the token hash; the prefix is enough to recognise a token
+ */
+function toTokenResponse({ tokenHash, tokenSalt, ...token }: McpToken) {
+  return {
+    ...token,
+    token: `${token.tokenPrefix}...`,
+  };
+}
+
 /**
  * GET /api/tokens
  * List MCP tokens
  */
 router.get('/', async (req, res) => {
   try {
-    // TODO: Fetch tokens from database
-    res.json({
-      tokens: [
-        {
-          id: 'token-1',
-          connectorId: 'connector-1',
-          name: 'Production Token',
-          token: 'mcp_***...***', // Masked
-          isActive: true,
-          createdAt: new Date().toISOString(),
-          expiresAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(),
-          lastUsedAt: new Date().toISOString(),
-        },
-      ],
-    });
+    const query = ListTokensQuerySchema.parse(req.query);
+    const { organizationId } = SessionAuth.context(res);
+
+    const tokens = await TokenRepository.list(query.connectorId, organizationId);
+
+    res.json({ tokens: tokens.map(toTokenResponse) });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
     res.status(500).json({ error: (error as Error).message });
   }
 });
@@ -40,26 +73,43 @@ router.get('/', async (req, res) => {
  * POST /api/tokens
  * Issue new MCP token (Point 7)
  */
-router.post('/', async (req, res) => {
+router.post('/', requireAdmin, async (req, res) => {
   try {
     const input = CreateTokenSchema.parse(req.body);
+    const auth = SessionAuth.context(res);
 
-    // Generate token
-    const token = `mcp_${crypto.randomBytes(32).toString('hex')}`;
+    const connector = await ConnectorRepository.findById(input.connectorId);
+    if (!connector || connector.organizationId !== auth.organizationId) {
+      return res.status(404).json({ error: 'Connector not found' });
+    }
+
+    const tools = connector.toolDefinitions as Record<string, unknown>;
+    const unknownTools = (input.scopes || []).filter(name => !(name in tools));
+    if (unknownTools.length > 0) {
+      return res.status(400).json({ error: `Unknown tools in scopes: ${unknownTools.join(', ')}` });
+    }
+    if (input.deploymentVersion && !(await isDeployedVersion(input.connectorId, input.deploymentVersion))) {
+      return res.status(400).json({ error: `Version ${input.deploymentVersion} is not deployed` });
+    }
 
-    // TODO: Store token in database
-    // TODO: Associate with connector
+    // Generate token; only its hash is stored
+    const { token, ...hashed } = TokenHasher.generate();
 
-    res.json({
-      id: 'token-new',
+    const created = await TokenRepository.create({
       connectorId: input.connectorId,
       name: input.name || 'New Token',
-      token, // Only shown once
-      isActive: true,
-      createdAt: new Date().toISOString(),
+      createdBy: auth.userId, // cannot approve calls made with the token
+      ...hashed,
+      scopes: input.scopes ?? null,
+      deploymentVersion: input.deploymentVersion ?? null,
       expiresAt: input.expiresIn
-        ? new Date(Date.now() + input.expiresIn * 24 * 60 * 60 * 1000).toISOString()
+        ? new Date(Date.now() + input.expiresIn * 24 * 60 * 60 * 1000)
         : null,
+    });
+
+    res.status(201).json({
+      ...toTokenResponse(created),
+      token, // Only shown once
       message: 'Token created successfully. Store it securely - it will not be shown again.',
     });
   } catch (error) {
@@ -70,15 +120,53 @@ router.post('/', async (req, res) => {
   }
 });
 
+/**
+ * PATCH /api/tokens/:id/deployment
+ * Pin a token to a deployment version for a staged rollout, or unpin it
+ */
+router.patch('/:id/deployment', requireAdmin, async (req, res) => {
+  try {
+    const { id } = IdParamsSchema.parse(req.params);
+    const input = PinTokenSchema.parse(req.body);
+
+    const existing = await TokenRepository.findById(id, SessionAuth.context(res).organizationId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
+    if (input.deploymentVersion && !(await isDeployedVersion(existing.connectorId, input.deploymentVersion))) {
+      return res.status(400).json({ error: `Version ${input.deploymentVersion} is not deployed` });
+    }
+
+    const token = await TokenRepository.pin(id, input.deploymentVersion);
+
+    res.json({
+      ...toTokenResponse(token!),
+      message: input.deploymentVersion
+        ? `Token pinned to version ${input.deploymentVersion}`
+        : 'Token follows the active version',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 /**
  * DELETE /api/tokens/:id
  * Revoke token (Point 7)
  */
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requireAdmin, async (req, res) => {
   try {
-    const { id } = req.params;
+    const { id } = IdParamsSchema.parse(req.params);
+
+    const existing = await TokenRepository.findById(id, SessionAuth.context(res).organizationId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
 
-    // TODO: Mark token as inactive in database
+    await TokenRepository.revoke(id);
 
     res.json({
       id,
@@ -86,6 +174,9 @@ router.delete('/:id', async (req, res) => {
       message: 'Token revoked successfully',
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
     res.status(500).json({ error: (error as Error).message });
   }
 });
@@ -0,0 +1,18 @@
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import { db, pool } from '../db/index.js';
+
+/**
+ * Apply pending SQL migrations from ./drizzle
+ */
+async function main() {
+  console.log('Running migrations...');
+  await migrate(db, { migrationsFolder: './drizzle' });
+  console.log('Migrations complete');
+}
+
+main()
+  .catch(error => {
+    console.error('Migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
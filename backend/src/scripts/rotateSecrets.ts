@@ -0,0 +1,61 @@
+import { pool } from '../db/index.js';
+import { ConnectorRepository } from '../db/repositories/connectorRepository.js';
+import { SecretEnvelope } from '../utils/secretEnvelope.js';
+
+const SECRET_FIELDS = ['encryptedAuthSecret', 'encryptedRefreshToken'] as const;
+
+/**
+ * Re-wrap every stored connector secret under the current master key.
+ *
+ * Run after making a new key current and moving the old one to
+ * SECRETS_PREVIOUS_MASTER_KEYS. Only data keys are re-wrapped, so the secrets
+ * stay readable with either key throughout. Plaintext secrets left from
+ * before encryption are encrypted.
+ */
+async function main() {
+  const currentKeyId = SecretEnvelope.currentKeyId();
+  console.log(`Rotating connector secrets to master key ${currentKeyId}...`);
+
+  const connectors = await ConnectorRepository.list();
+  let rewrapped = 0;
+  let encrypted = 0;
+  let failed = 0;
+
+  let total = 0;
+
+  for (const connector of connectors) {
+    for (const field of SECRET_FIELDS) {
+      const stored = connector[field];
+      if (!stored) continue;
+      total++;
+
+      try {
+        if (!SecretEnvelope.isEnvelope(stored)) {
+          await ConnectorRepository.update(connector.id, { [field]: SecretEnvelope.encrypt(stored) });
+          encrypted++;
+        } else if (SecretEnvelope.keyIdOf(stored) !== currentKeyId) {
+          await ConnectorRepository.update(connector.id, { [field]: SecretEnvelope.rewrap(stored) });
+          rewrapped++;
+        }
+      } catch (error) {
+        console.error(`Connector ${connector.id} (${field}): ${(error as Error).message}`);
+        failed++;
+      }
+    }
+  }
+
+  console.log(
+    `Done: ${rewrapped} re-wrapped, ${encrypted} encrypted, `
+    + `${total - rewrapped - encrypted - failed} already current, ${failed} failed`
+  );
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('Secret rotation failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
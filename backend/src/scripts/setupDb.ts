@@ -0,0 +1,48 @@
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import bcrypt from 'bcrypt';
+import { db, pool } from '../db/index.js';
+import { organizationMembers, organizations, users } from '../db/schema.js';
+
+/**
+ * Apply migrations and seed an admin user with a default organization
+ */
+async function main() {
+  await migrate(db, { migrationsFolder: './drizzle' });
+
+  const existing = await db.select().from(organizations).limit(1);
+  if (existing.length > 0) {
+    console.log('Database already initialized');
+    return;
+  }
+
+  const email = process.env.ADMIN_EMAIL || 'admin@example.com';
+  const password = process.env.ADMIN_PASSWORD;
+  if (!password) {
+    throw new Error('ADMIN_PASSWORD environment variable is required');
+  }
+
+  const [admin] = await db
+    .insert(users)
+    .values({ email, passwordHash: await bcrypt.hash(password, 12) })
+    .returning();
+
+  const [organization] = await db
+    .insert(organizations)
+    .values({ name: process.env.ADMIN_ORGANIZATION || 'Default Organization', ownerId: admin.id })
+    .returning();
+
+  await db.insert(organizationMembers).values({
+    organizationId: organization.id,
+    userId: admin.id,
+    role: 'admin',
+  });
+
+  console.log(`Created admin ${email} in organization ${organization.name}`);
+}
+
+main()
+  .catch(error => {
+    console.error('Database setup failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
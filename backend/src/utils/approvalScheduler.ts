@@ -0,0 +1,161 @@
+import axios from 'axios';
+import { ApprovalRepository, Approval } from '../db/repositories/approvalRepository.js';
+import { LogRepository } from '../db/repositories/logRepository.js';
+import { publicNetworkGuard } from './publicNetwork.js';
+import { RuntimeClient } from './runtimeClient.js';
+
+/**
+ * Per-connector escalation step, stored in `governance_configs.approval_escalation_rules`
+ */
+export interface EscalationRule {
+  afterMinutes: number;
+  action: 'notify' | 'reject';
+  notifyRole?: string;
+  webhookUrl?: string;
+}
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+// Webhook URLs are set by connector admins; private networks are off limits
+// unless ESCALATION_WEBHOOK_ALLOW_PRIVATE_NETWORKS=true (e.g. an internal chat server)
+const network = publicNetworkGuard('ESCALATION_WEBHOOK_ALLOW_PRIVATE_NETWORKS');
+
+/**
+ * Escalation rules saved before URL validation may hold anything
+ */
+function isWebhookUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Background job that expires stale approvals and applies escalation rules
+ */
+export class ApprovalScheduler {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  start(intervalMs: number = Number(process.env.APPROVAL_SWEEP_INTERVAL_MS) || DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.runOnce(), intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Run a single sweep. Overlapping runs are skipped.
+   */
+  async runOnce(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.expireApprovals();
+      await this.escalateApprovals();
+    } catch (error) {
+      console.error('Approval sweep failed:', (error as Error).message);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async expireApprovals(): Promise<void> {
+    const expired = await ApprovalRepository.expireDue();
+
+    for (const approval of expired) {
+      await LogRepository.createForClosedApproval(approval, 'expired', 'Approval expired without a decision');
+      RuntimeClient.notifyDecision(approval);
+    }
+  }
+
+  private async escalateApprovals(): Promise<void> {
+    const pending = await ApprovalRepository.listPendingWithEscalationRules();
+    const now = Date.now();
+
+    for (const { approval, rules } of pending) {
+      if (!Array.isArray(rules) || rules.length === 0) continue;
+
+      const sorted = [...(rules as EscalationRule[])].sort((a, b) => a.afterMinutes - b.afterMinutes);
+      const elapsedMinutes = (now - approval.createdAt.getTime()) / 60000;
+      const dueCount = sorted.filter(rule => rule.afterMinutes <= elapsedMinutes).length;
+      if (dueCount <= approval.escalationLevel) continue;
+
+      const newlyDue = sorted.slice(approval.escalationLevel, dueCount);
+      const rejectRule = newlyDue.find(rule => rule.action === 'reject');
+
+      if (rejectRule) {
+        const notes = `Auto-rejected: no decision within ${rejectRule.afterMinutes} minutes`;
+        const rejected = await ApprovalRepository.autoReject(approval.id, notes);
+        if (rejected) {
+          await LogRepository.createForClosedApproval(rejected, 'rejected', notes);
+          RuntimeClient.notifyDecision(rejected);
+        }
+        continue;
+      }
+
+      const notifyRules = newlyDue.filter(rule => rule.action === 'notify');
+      const escalated = await ApprovalRepository.escalate(approval.id, approval.escalationLevel, {
+        escalationLevel: dueCount,
+        escalatedTo: notifyRules[notifyRules.length - 1]?.notifyRole,
+      });
+      if (!escalated) continue;
+
+      for (const rule of notifyRules) {
+        this.notifyEscalation(escalated, rule);
+      }
+    }
+  }
+
+  /**
+   * Tell the escalation group about a waiting approval (fire-and-forget)
+   */
+  private async notifyEscalation(approval: Approval, rule: EscalationRule): Promise<void> {
+    if (!rule.webhookUrl) return;
+    if (!isWebhookUrl(rule.webhookUrl)) {
+      console.error(`Escalation webhook skipped for approval ${approval.id}: not an http(s) URL`);
+      return;
+    }
+
+    try {
+      network.assertPublicHost(new URL(rule.webhookUrl).hostname);
+      await axios.post(
+        rule.webhookUrl,
+        {
+          event: 'approval.escalated',
+          role: rule.notifyRole,
+          afterMinutes: rule.afterMinutes,
+          approval: {
+            id: approval.id,
+            connectorId: approval.connectorId,
+            requestId: approval.requestId,
+            toolName: approval.toolName,
+            method: approval.method,
+            path: approval.path,
+            reviewerRiskScore: approval.reviewerRiskScore,
+            createdAt: approval.createdAt,
+            expiresAt: approval.expiresAt,
+          },
+        },
+        {
+          timeout: WEBHOOK_TIMEOUT_MS,
+          maxRedirects: 0,
+          httpAgent: network.httpAgent,
+          httpsAgent: network.httpsAgent,
+        }
+      );
+    } catch (error) {
+      console.error(`Escalation webhook failed for approval ${approval.id}:`, (error as Error).message);
+    }
+  }
+}
+
+export const approvalScheduler = new ApprovalScheduler();
@@ -0,0 +1,192 @@
+import type { Connector } from '../db/repositories/connectorRepository.js';
+import type { GovernanceConfigRow } from '../db/repositories/governanceRepository.js';
+import type { MCPTool } from './openApiParser.js';
+import type { ToolOverride } from './toolCuration.js';
+
+/**
+ * The governance rules the runtime enforces (escalation rules stay with the
+ * control plane); unset values fall back to the runtime's defaults
+ */
+export type RuntimeGovernance = Record<string, any>;
+
+/**
+ * What a deployment version serves: frozen when it is deployed, so activating
+ * it again later serves exactly the same tools under the same rules.
+ * Credentials are always the connector's current ones.
+ */
+export interface DeploymentSnapshot {
+  baseUrl: string;
+  tools: MCPTool[]; // of the selected endpoints
+  toolOverrides: Record<string, ToolOverride>;
+  responseShaping: Record<string, unknown>;
+  governance: RuntimeGovernance;
+}
+
+// Rules the connector's current governance overrides in every version once
+// they take this value: the kill switch, dry run, approvals, redaction, review
+const STRICT_VALUES: Record<string, boolean | string> = {
+  enabled: false,
+  dryRunMode: true,
+  requireApprovalForWrites: true,
+  requireApprovalForHighRisk: true,
+  redactSensitiveFields: true,
+  aiReviewerEnabled: true,
+  aiReviewerMode: 'ENFORCING',
+};
+
+// Limits and risk thresholds that are stricter the lower they are
+const LOWER_IS_STRICTER = [
+  'rateLimitPerMinute',
+  'approvalTtlMinutes',
+  'aiReviewerAllowMaxRisk',
+  'aiReviewerApprovalMinRisk',
+  'aiReviewerBlockMinRisk',
+];
+
+// Values from the loosest to the strictest
+const STRICTNESS: Record<string, string[]> = {
+  responseValidation: ['off', 'flag', 'block'],
+  aiReviewerFallback: ['ALLOW', 'REQUIRE_HUMAN_APPROVAL', 'BLOCK'],
+};
+
+/**
+ * Whether a governance allowedPaths pattern matches a spec path, the same way
+ * the runtime's allowlist check does
+ */
+export function matchesPathPattern(pattern: string, path: string): boolean {
+  const regexPattern = pattern
+    .replace(/\./g, '\\.')
+    .replace(/\*/g, '.*')
+    .replace(/\{[^}]+\}/g, '[^/]+');
+  return new RegExp(`^${regexPattern}$`).test(path);
+}
+
+export class DeploymentSnapshots {
+  static capture(connector: Connector, governance: GovernanceConfigRow | undefined): DeploymentSnapshot {
+    const selectedEndpoints = connector.selectedEndpoints as string[];
+    const tools = Object.values(connector.toolDefinitions as Record<string, MCPTool>)
+      .filter(tool => selectedEndpoints.includes(tool.path));
+    const names = new Set(tools.map(tool => tool.name));
+
+    const pick = <T>(byTool: Record<string, T>) =>
+      Object.fromEntries(Object.entries(byTool).filter(([name]) => names.has(name)));
+
+    return {
+      baseUrl: connector.baseUrl,
+      tools,
+      toolOverrides: pick(connector.toolOverrides as Record<string, ToolOverride>),
+      responseShaping: pick(connector.responseShaping as Record<string, unknown>),
+      governance: governance ? this.runtimeGovernance(governance) : {},
+    };
+  }
+
+  /**
+   * The runtime's registration payload for a deployed version: its frozen
+   * governance, tightened by the connector's current rules, and the
+   * connector's current credentials
+   */
+  static registration(
+    connector: Connector,
+    version: number,
+    snapshot: DeploymentSnapshot,
+    governance: GovernanceConfigRow | undefined,
+    activate: boolean
+  ): Record<string, unknown> {
+    const current = governance ? this.runtimeGovernance(governance) : {};
+
+    return {
+      id: connector.id,
+      name: connector.name,
+      version,
+      activate,
+      baseUrl: snapshot.baseUrl,
+      authType: connector.authType,
+      authHeaderName: connector.authHeaderName ?? undefined,
+      authLocation: connector.authLocation,
+      securitySchemes: connector.securitySchemes,
+      encryptedAuthSecret: connector.encryptedAuthSecret,
+      oauth: connector.oauthConfig ?? undefined,
+      encryptedRefreshToken: connector.encryptedRefreshToken,
+      signing: connector.signingConfig ?? undefined,
+      tools: snapshot.tools,
+      toolOverrides: snapshot.toolOverrides,
+      responseShaping: snapshot.responseShaping,
+      // Versions deployed before governance was frozen follow the current rules
+      governance: snapshot.governance ? this.tighten(snapshot.governance, current, snapshot.tools) : current,
+    };
+  }
+
+  /**
+   * A version's frozen rules where the current ones are stricter: the values
+   * in STRICT_VALUES, lower limits, risk thresholds and ceilings, more
+   * approvals for a quorum from fewer roles, a stricter reviewer fallback and
+   * response validation, and fewer verbs and paths. Looser current rules wait
+   * for the next deploy.
+   */
+  static tighten(frozen: RuntimeGovernance, current: RuntimeGovernance, tools: MCPTool[]): RuntimeGovernance {
+    const rules: RuntimeGovernance = { ...frozen };
+
+    for (const [name, strict] of Object.entries(STRICT_VALUES)) {
+      if (current[name] === strict) rules[name] = strict;
+    }
+    for (const name of LOWER_IS_STRICTER) {
+      if (typeof current[name] === 'number' && !(current[name] >= frozen[name])) {
+        rules[name] = current[name];
+      }
+    }
+    if (typeof current.quorumRequiredApprovals === 'number' && !(current.quorumRequiredApprovals <= frozen.quorumRequiredApprovals)) {
+      rules.quorumRequiredApprovals = current.quorumRequiredApprovals;
+    }
+    for (const [name, order] of Object.entries(STRICTNESS)) {
+      if (order.indexOf(current[name]) > order.indexOf(frozen[name])) {
+        rules[name] = current[name];
+      }
+    }
+
+    // No roles means any member may approve. Roles the lists do not share
+    // cannot be narrowed further, so the current list applies.
+    const frozenRoles: string[] = frozen.quorumApproverRoles || [];
+    const currentRoles: string[] = current.quorumApproverRoles || [];
+    if (currentRoles.length) {
+      const shared = frozenRoles.filter(role => currentRoles.includes(role));
+      rules.quorumApproverRoles = frozenRoles.length && shared.length ? shared : currentRoles;
+    }
+
+    const ceilings: Record<string, number> = { ...frozen.numericCeilings };
+    for (const [field, ceiling] of Object.entries<number>(current.numericCeilings || {})) {
+      ceilings[field] = field in ceilings ? Math.min(ceilings[field], ceiling) : ceiling;
+    }
+    rules.numericCeilings = ceilings;
+
+    if (Array.isArray(frozen.allowedVerbs) && Array.isArray(current.allowedVerbs)) {
+      rules.allowedVerbs = frozen.allowedVerbs.filter((verb: string) => current.allowedVerbs.includes(verb));
+    }
+
+    // Path patterns cannot be intersected, so the version's tool paths both
+    // allowlists allow are listed instead
+    const frozenPaths: string[] = frozen.allowedPaths || [];
+    const currentPaths: string[] = current.allowedPaths || [];
+    if (currentPaths.length && currentPaths.join('\n') !== frozenPaths.join('\n')) {
+      const allowed = (patterns: string[], path: string) =>
+        !patterns.length || patterns.some(pattern => matchesPathPattern(pattern, path));
+      const paths = [...new Set(tools.map(tool => tool.path))]
+        .filter(path => allowed(frozenPaths, path) && allowed(currentPaths, path));
+      rules.allowedPaths = paths;
+      if (!paths.length) {
+        // An empty allowlist allows every path; no verb allows no call
+        rules.allowedVerbs = [];
+      }
+    }
+
+    return rules;
+  }
+
+  /**
+   * The rules the runtime enforces; unset values fall back to its defaults.
+   * Escalation rules stay behind, the control plane applies them.
+   */
+  private static runtimeGovernance(governance: GovernanceConfigRow): RuntimeGovernance {
+    const { id, connectorId, approvalEscalationRules, createdAt, updatedAt, ...rules } = governance;
+    return Object.fromEntries(Object.entries(rules).filter(([, value]) => value !== null));
+  }
+}
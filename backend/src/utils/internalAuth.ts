@@ -0,0 +1,281 @@
+import crypto from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import axios, { AxiosInstance } from 'axios';
+
+/**
+ * Authentication of the internal API between the control plane and the runtime
+ *
+ * Both sides sign their requests with a shared key and verify the other's:
+ *   X-Internal-Signature = HMAC-SHA256(key, "<sender>-><audience>\n<METHOD>\n<path?query>\n<timestamp>\n<nonce>\n<sha256(body)>")
+ * sent with X-Internal-Key-Id, X-Internal-Timestamp (unix ms) and X-Internal-Nonce.
+ * Sender and audience are `control-plane` and `runtime` (see configure), so a
+ * request cannot be passed back to the side that signed it.
+ * Requests more than 5 minutes off, or repeating a nonce, are rejected. Nonces
+ * are kept in a NonceStore (see configure): by default this process's memory,
+ * which a restart clears and other replicas do not share, so a request can be
+ * replayed against another replica, or after a restart, within those 5 minutes.
+ * A shared store closes that gap.
+ *
+ * The key comes from INTERNAL_API_KEY (base64, at least 32 bytes). Keys being
+ * rotated out are listed in INTERNAL_API_PREVIOUS_KEYS (comma-separated) and
+ * are still accepted; requests are signed with the current key.
+ *
+ * This file is a deliberate mirror: backend/src/utils/internalAuth.ts and
+ * mcp-runtime/src/utils/internalAuth.ts are identical, because the two services
+ * are built and deployed as separate packages without shared code. Change both
+ * together; backend/test/internalAuth.test.ts fails when they differ.
+ */
+
+const MIN_KEY_BYTES = 32;
+const MAX_SKEW_MS = 5 * 60 * 1000;
+
+export const INTERNAL_AUTH_HEADERS = {
+  keyId: 'x-internal-key-id',
+  timestamp: 'x-internal-timestamp',
+  nonce: 'x-internal-nonce',
+  signature: 'x-internal-signature',
+};
+
+export type InternalParty = 'control-plane' | 'runtime';
+
+/**
+ * Where nonces of verified requests are remembered until they may be forgotten
+ */
+export interface NonceStore {
+  /**
+   * Record a nonce; false when it was recorded before (a replay)
+   */
+  remember(nonce: string, forgetAt: Date): Promise<boolean>;
+}
+
+interface SigningKey {
+  id: string;
+  key: Buffer;
+}
+
+export class InternalAuthError extends Error {}
+
+/**
+ * Nonces in this process's memory only
+ */
+class MemoryNonceStore implements NonceStore {
+  private seen = new Map<string, number>(); // nonce -> when it may be forgotten
+  private nextSweep = 0;
+
+  async remember(nonce: string, forgetAt: Date): Promise<boolean> {
+    this.sweep(Date.now());
+    if (this.seen.has(nonce)) return false;
+    this.seen.set(nonce, forgetAt.getTime());
+    return true;
+  }
+
+  private sweep(now: number): void {
+    if (now < this.nextSweep) return;
+    for (const [nonce, forgetAt] of this.seen) {
+      if (forgetAt < now) this.seen.delete(nonce);
+    }
+    this.nextSweep = now + MAX_SKEW_MS / 5;
+  }
+}
+
+/**
+ * Requests with the raw body bytes, as received
+ */
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+export class InternalAuth {
+  private static keys: SigningKey[] | null = null;
+  private static self: InternalParty | null = null;
+  private static nonces: NonceStore = new MemoryNonceStore();
+
+  /**
+   * Name the side this process is; every signature names its sender and audience.
+   * `nonces` replaces the in-memory nonce store, e.g. with one shared by replicas.
+   */
+  static configure(self: InternalParty, options: { nonces?: NonceStore } = {}): void {
+    this.self = self;
+    if (options.nonces) {
+      this.nonces = options.nonces;
+    }
+  }
+
+  /**
+   * Headers that authenticate a request
+   */
+  static signRequest(method: string, pathWithQuery: string, body: string | Buffer = ''): Record<string, string> {
+    const [current] = this.getKeys();
+    const timestamp = String(Date.now());
+    const nonce = crypto.randomBytes(16).toString('hex');
+
+    return {
+      [INTERNAL_AUTH_HEADERS.keyId]: current.id,
+      [INTERNAL_AUTH_HEADERS.timestamp]: timestamp,
+      [INTERNAL_AUTH_HEADERS.nonce]: nonce,
+      [INTERNAL_AUTH_HEADERS.signature]: this.hmac(
+        current.key,
+        [this.direction('outgoing'), method.toUpperCase(), pathWithQuery, timestamp, nonce, this.sha256(body)].join('\n')
+      ),
+    };
+  }
+
+  /**
+   * Check a request's signature and freshness; rejects with InternalAuthError if it fails
+   */
+  static async verifyRequest(req: RawBodyRequest): Promise<void> {
+    const header = (name: string) => {
+      const value = req.headers[name];
+      return typeof value === 'string' ? value : undefined;
+    };
+    const keyId = header(INTERNAL_AUTH_HEADERS.keyId);
+    const timestamp = header(INTERNAL_AUTH_HEADERS.timestamp);
+    const nonce = header(INTERNAL_AUTH_HEADERS.nonce);
+    const signature = header(INTERNAL_AUTH_HEADERS.signature);
+    if (!keyId || !timestamp || !nonce || !signature) {
+      throw new InternalAuthError('Missing internal API signature');
+    }
+
+    const key = this.getKeys().find(candidate => candidate.id === keyId);
+    if (!key) {
+      throw new InternalAuthError('Unknown internal API key');
+    }
+
+    const now = Date.now();
+    if (!/^\d+$/.test(timestamp) || Math.abs(now - Number(timestamp)) > MAX_SKEW_MS) {
+      throw new InternalAuthError('Internal API request expired');
+    }
+
+    const expected = this.hmac(
+      key.key,
+      [
+        this.direction('incoming'),
+        req.method.toUpperCase(),
+        req.originalUrl,
+        timestamp,
+        nonce,
+        this.sha256(req.rawBody ?? ''),
+      ].join('\n')
+    );
+    if (!this.safeEqual(signature, expected)) {
+      throw new InternalAuthError('Invalid internal API signature');
+    }
+
+    // Checked after the signature, so unsigned requests cannot burn nonces
+    if (!await this.nonces.remember(nonce, new Date(Number(timestamp) + MAX_SKEW_MS))) {
+      throw new InternalAuthError('Internal API request replayed');
+    }
+  }
+
+  /**
+   * Signature of a response body, bound to the nonce of the request it answers
+   */
+  static signResponse(requestNonce: string, body: string | Buffer): string {
+    const [current] = this.getKeys();
+    const message = ['response', this.direction('outgoing'), requestNonce, this.sha256(body)].join('\n');
+    return `${current.id}:${this.hmac(current.key, message)}`;
+  }
+
+  static verifyResponse(requestNonce: string, body: string | Buffer, signature: unknown): boolean {
+    if (typeof signature !== 'string') return false;
+
+    const [keyId, mac] = signature.split(':');
+    const key = this.getKeys().find(candidate => candidate.id === keyId);
+    const message = ['response', this.direction('incoming'), requestNonce, this.sha256(body)].join('\n');
+    return key !== undefined && mac !== undefined && this.safeEqual(mac, this.hmac(key.key, message));
+  }
+
+  /**
+   * For `express.json({ verify })`: keep the raw body to check signatures against
+   */
+  static captureRawBody(req: Request, res: Response, body: Buffer): void {
+    (req as RawBodyRequest).rawBody = body;
+  }
+
+  /**
+   * Middleware rejecting internal API requests the other side did not sign
+   */
+  static async requireSignature(req: Request, res: Response, next: NextFunction) {
+    try {
+      await InternalAuth.verifyRequest(req);
+      next();
+    } catch (error) {
+      if (error instanceof InternalAuthError) {
+        return res.status(401).json({ error: error.message });
+      }
+      // No key configured, or the nonce store is unreachable: fail closed
+      console.error('Internal API authentication unavailable:', (error as Error).message);
+      res.status(503).json({ error: 'Internal API authentication is unavailable' });
+    }
+  }
+
+  /**
+   * An HTTP client that signs every request it sends. Bodies are serialized
+   * here, so the signature covers exactly the bytes on the wire.
+   */
+  static createClient(): AxiosInstance {
+    const client = axios.create();
+    client.interceptors.request.use(config => {
+      let body = '';
+      if (config.data !== undefined) {
+        body = typeof config.data === 'string' ? config.data : JSON.stringify(config.data);
+        config.data = body;
+        config.headers.set('Content-Type', 'application/json');
+      }
+
+      const url = new URL(client.getUri(config));
+      for (const [name, value] of Object.entries(this.signRequest(config.method || 'get', url.pathname + url.search, body))) {
+        config.headers.set(name, value);
+      }
+      return config;
+    });
+    return client;
+  }
+
+  /**
+   * `<sender>-><audience>` of a message this side sends or receives
+   */
+  private static direction(flow: 'outgoing' | 'incoming'): string {
+    if (!this.self) {
+      throw new Error('Internal API party not configured (call InternalAuth.configure)');
+    }
+    const peer: InternalParty = this.self === 'control-plane' ? 'runtime' : 'control-plane';
+    return flow === 'outgoing' ? `${this.self}->${peer}` : `${peer}->${this.self}`;
+  }
+
+  private static hmac(key: Buffer, message: string): string {
+    return crypto.createHmac('sha256', key).update(message).digest('hex');
+  }
+
+  private static sha256(body: string | Buffer): string {
+    return crypto.createHash('sha256').update(body).digest('hex');
+  }
+
+  private static safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+  }
+
+  private static getKeys(): SigningKey[] {
+    if (this.keys) return this.keys;
+
+    const encodedKeys = [
+      process.env.INTERNAL_API_KEY || '',
+      ...(process.env.INTERNAL_API_PREVIOUS_KEYS || '').split(','),
+    ].map(k => k.trim()).filter(Boolean);
+    if (!process.env.INTERNAL_API_KEY?.trim()) {
+      throw new Error('No internal API key configured (set INTERNAL_API_KEY)');
+    }
+
+    this.keys = encodedKeys.map(encoded => {
+      const key = Buffer.from(encoded, 'base64');
+      if (key.length < MIN_KEY_BYTES) {
+        throw new Error(`Internal API keys must be at least ${MIN_KEY_BYTES} bytes, base64 encoded`);
+      }
+      // Key IDs are derived from the key so they never have to be managed separately
+      return { id: crypto.createHash('sha256').update(key).digest('hex').substring(0, 16), key };
+    });
+    return this.keys;
+  }
+}
@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+
+/**
+ * OAuth2 settings of a connector, stored in `connectors.oauth_config`.
+ * The client secret is stored separately as `encrypted_auth_secret`.
+ */
+export interface OAuthConfig {
+  tokenUrl: string;
+  clientId: string;
+  scopes?: string[];
+  audience?: string;
+  clientAuthMethod?: 'client_secret_basic' | 'client_secret_post';
+  authorizationUrl?: string; // authorization code flow only
+}
+
+export interface PendingAuthorization {
+  connectorId: string;
+  redirectUri: string;
+  codeVerifier: string;
+  expiresAt: number;
+}
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * In-flight authorization code flows, keyed by the OAuth `state` parameter.
+ * Each flow uses PKCE (S256); the state can be consumed once.
+ */
+export class OAuthAuthorizations {
+  private pending = new Map<string, PendingAuthorization>();
+
+  /**
+   * Start a flow and return the URL to send the user to
+   */
+  start(connectorId: string, config: OAuthConfig, redirectUri: string): { authorizationUrl: string; expiresAt: Date } {
+    if (!config.authorizationUrl) {
+      throw new Error('Connector has no OAuth authorization URL');
+    }
+    this.sweep();
+
+    const state = crypto.randomBytes(24).toString('base64url');
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+    const expiresAt = Date.now() + STATE_TTL_MS;
+
+    this.pending.set(state, { connectorId, redirectUri, codeVerifier, expiresAt });
+
+    const url = new URL(config.authorizationUrl);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', config.clientId);
+    url.searchParams.set('redirect_uri', redirectUri);
+    url.searchParams.set('state', state);
+    url.searchParams.set('code_challenge', codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+    if (config.scopes?.length) {
+      url.searchParams.set('scope', config.scopes.join(' '));
+    }
+    if (config.audience) {
+      url.searchParams.set('audience', config.audience);
+    }
+
+    return { authorizationUrl: url.toString(), expiresAt: new Date(expiresAt) };
+  }
+
+  /**
+   * Look up and forget a flow. Returns undefined for unknown or expired states.
+   */
+  consume(state: string): PendingAuthorization | undefined {
+    const authorization = this.pending.get(state);
+    this.pending.delete(state);
+    if (!authorization || authorization.expiresAt < Date.now()) {
+      return undefined;
+    }
+    return authorization;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [state, authorization] of this.pending) {
+      if (authorization.expiresAt < now) {
+        this.pending.delete(state);
+      }
+    }
+  }
+}
+
+export const oauthAuthorizations = new OAuthAuthorizations();
@@ -1,7 +1,10 @@
-import { OpenAPI } from 'openapi-types';
 import axios from 'axios';
-import * as yaml from 'js-yaml';
 import type { OpenAPIV3 } from 'openapi-types';
+import type { OAuthConfig } from './oauthAuthorization.js';
+import { RefResolver, loadDocument, parseDocument } from './refResolver.js';
+import { SpecValidator, SpecValidationError } from './specValidator.js';
+import { SwaggerConverter } from './swaggerConverter.js';
+import { SchemaTranslator } from './schemaTranslator.js';
 
 export interface ParsedEndpoint {
   path: string;
@@ -15,6 +18,62 @@ export interface ParsedEndpoint {
   responses: Record<string, any>;
   category: 'READ' | 'WRITE' | 'DANGEROUS';
   dangerTags: string[];
+  security?: SecurityRequirement[]; // operation-level, else the spec's global requirements
+}
+
+/**
+ * A supported security scheme from `components.securitySchemes`
+ */
+export type AuthScheme =
+  | { type: 'apiKey'; in: 'header' | 'query' | 'cookie'; name: string }
+  | { type: 'http'; scheme: 'basic' | 'bearer' }
+  | {
+      type: 'oauth2';
+      flow: 'clientCredentials' | 'authorizationCode';
+      tokenUrl: string;
+      authorizationUrl?: string;
+      scopes: string[];
+    };
+
+/**
+ * Alternatives are ORed; the schemes within one requirement are ANDed.
+ * An empty list means the operation needs no authentication.
+ */
+export type SecurityRequirement = Record<string, string[]>;
+
+export type AuthLocation = 'header' | 'query' | 'cookie';
+
+/**
+ * Connector auth settings derived from a spec
+ */
+export interface DetectedAuth {
+  authType: 'api_key' | 'bearer_token' | 'basic' | 'oauth2_client_credentials' | 'oauth2_authorization_code';
+  authHeaderName?: string;
+  authLocation?: AuthLocation;
+  oauth?: Partial<OAuthConfig>;
+}
+
+export type ParameterLocation = 'path' | 'query' | 'header' | 'body';
+
+/**
+ * How the `body` argument is sent when it is not plain `application/json`
+ */
+export interface BodyEncoding {
+  mediaType: string; // JSON variants, form-urlencoded, multipart/form-data, text or binary types
+  fileFields?: string[]; // multipart: fields sent as file parts
+}
+
+/**
+ * How a list endpoint pages through results, detected from its parameters and response
+ */
+export interface PaginationConfig {
+  style: 'cursor' | 'offset' | 'page' | 'link';
+  itemsPath: string; // JSONPath of the item array; '$' when the response is the array
+  cursorParam?: string; // cursor: query parameter taking the next cursor
+  nextCursorPath?: string; // cursor: JSONPath of the next cursor in the response
+  offsetParam?: string; // offset
+  limitParam?: string; // offset: page size parameter
+  pageParam?: string; // page: page number parameter
 }
 
 export interface MCPTool {
@@ -25,8 +84,48 @@ export interface MCPTool {
   method: string;
   path: string;
   dangerTags: string[];
+  parameterLocations: Record<string, ParameterLocation>;
+  bodyEncoding?: BodyEncoding; // absent: application/json
+  outputSchema?: Record<string, any>; // structured content of a successful response
+  outputProperty?: string; // set when a non-object response is wrapped in this property
+  pagination?: PaginationConfig;
+  security?: SecurityRequirement[];
+}
+
+// A file sent by the MCP client
+const FILE_SCHEMA = {
+  type: 'object',
+  required: ['data'],
+  properties: {
+    data: { type: 'string', contentEncoding: 'base64', description: 'Base64-encoded file content' },
+    filename: { type: 'string' },
+    contentType: { type: 'string', description: 'Media type of the file' },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * How a request body media type is encoded
+ */
+export function bodyKind(mediaType: string): 'json' | 'form' | 'multipart' | 'text' | 'binary' {
+  const type = mediaType.split(';')[0].trim().toLowerCase();
+  if (type === 'application/json' || type.endsWith('+json')) return 'json';
+  if (type === 'application/x-www-form-urlencoded') return 'form';
+  if (type === 'multipart/form-data') return 'multipart';
+  if (type.startsWith('text/') || type === 'application/xml' || type.endsWith('+xml')) return 'text';
+  return 'binary';
 }
 
+// Preferred request body encodings, most preferred first
+const BODY_KIND_PREFERENCE = ['json', 'form', 'multipart', 'text', 'binary'];
+
+// Query parameter and response property names of common pagination patterns (lowercase)
+const CURSOR_PARAMS = ['cursor', 'page_token', 'pagetoken', 'next_token', 'nexttoken', 'continuation_token', 'continuationtoken', 'marker'];
+const OFFSET_PARAMS = ['offset', 'skip', 'start'];
+const LIMIT_PARAMS = ['limit', 'per_page', 'perpage', 'page_size', 'pagesize', 'count', 'size', 'max_results', 'maxresults', 'top'];
+const PAGE_PARAMS = ['page', 'page_number', 'pagenumber'];
+const NEXT_CURSOR_PROPERTY = /^(next_?cursor|next_?page_?token|next_?token|next_?marker|continuation_?token|cursor|next)$/i;
+
 const DANGEROUS_KEYWORDS = [
   'transfer', 'withdraw', 'delete', 'trade', 'order', 'payment',
   'charge', 'refund', 'cancel', 'remove', 'destroy', 'purge',
@@ -40,29 +139,40 @@ const DANGEROUS_PATH_PATTERNS = [
 
 export class OpenAPIParser {
   /**
-   * Parse OpenAPI spec from URL or file content
+   * Load a spec from a URL (http(s) or file) or from JSON/YAML content, resolve
+   * its `$ref`s and convert Swagger 2.0 to OpenAPI 3.0. OpenAPI 3.1 specs keep
+   * their JSON Schema semantics. Malformed specs throw a SpecValidationError
+   * listing every problem by JSON pointer.
    */
   static async parseSpec(input: string | Record<string, any>): Promise<OpenAPIV3.Document> {
-    let spec: any;
-
-    if (typeof input === 'string') {
-      // Try to parse as URL
-      if (input.startsWith('http://') || input.startsWith('https://')) {
-        const response = await axios.get(input);
-        spec = response.data;
+    let document: unknown;
+    let baseUri: string | undefined;
+
+    try {
+      if (typeof input !== 'string') {
+        document = input;
+      } else if (/^(https?|file):\/\//.test(input)) {
+        baseUri = input;
+        document = await loadDocument(input);
       } else {
-        // Try to parse as YAML/JSON string
-        try {
-          spec = JSON.parse(input);
-        } catch {
-          spec = yaml.load(input);
-        }
+        document = parseDocument(input);
       }
-    } else {
-      spec = input;
+    } catch (error) {
+      if (axios.isAxiosError(error)) throw error;
+      throw new SpecValidationError([{ pointer: '', message: `Could not load the spec: ${(error as Error).message}` }]);
+    }
+
+    const version = SpecValidator.detectVersion(document);
+    const { document: spec, issues } = await RefResolver.dereference(document, {
+      baseUri,
+      siblingsApply: version === '3.1',
+    });
+    issues.push(...SpecValidator.validate(spec, version));
+    if (issues.length) {
+      throw new SpecValidationError(issues);
     }
 
-    return spec as OpenAPIV3.Document;
+    return version === '2.0' ? SwaggerConverter.convert(spec) : spec;
   }
 
   /**
@@ -71,6 +181,7 @@ export class OpenAPIParser {
   static extractEndpoints(spec: OpenAPIV3.Document): ParsedEndpoint[] {
     const endpoints: ParsedEndpoint[] = [];
     const paths = spec.paths || {};
+    const globalSecurity = spec.security as SecurityRequirement[] | undefined;
 
     for (const [path, pathItem] of Object.entries(paths)) {
       const methods = ['get', 'post', 'put', 'patch', 'delete', 'options', 'head'];
@@ -86,11 +197,12 @@ export class OpenAPIParser {
           summary: operation.summary || '',
           description: operation.description || '',
           tags: operation.tags || [],
-          parameters: operation.parameters || [],
+          parameters: this.mergeParameters((pathItem as any)?.parameters, operation.parameters),
           requestBody: operation.requestBody,
           responses: operation.responses || {},
           category: this.categorizeEndpoint(method, path, operation),
           dangerTags: this.extractDangerTags(operation),
+          security: operation.security ?? globalSecurity,
         };
 
         endpoints.push(endpoint);
@@ -100,6 +212,17 @@ export class OpenAPIParser {
     return endpoints;
   }
 
+  /**
+   * Combine path-level and operation-level parameters; the operation wins on name + location
+   */
+  private static mergeParameters(pathParams: any[] = [], operationParams: any[] = []): Record<string, any>[] {
+    const merged = new Map<string, Record<string, any>>();
+    for (const param of [...pathParams, ...operationParams]) {
+      merged.set(`${param.in}:${param.name}`, param);
+    }
+    return [...merged.values()];
+  }
+
   /**
    * Categorize endpoint as READ, WRITE, or DANGEROUS
    */
@@ -144,10 +267,13 @@ export class OpenAPIParser {
   }
 
   /**
-   * Generate MCP tool from endpoint
+   * Generate MCP tool from endpoint. With the spec, recursive schemas are kept in `$defs`
    */
-  static generateMCPTool(endpoint: ParsedEndpoint, baseUrl: string): MCPTool {
-    const inputSchema = this.buildInputSchema(endpoint);
+  static generateMCPTool(endpoint: ParsedEndpoint, baseUrl: string, spec?: OpenAPIV3.Document): MCPTool {
+    const bodyEncoding = this.selectBodyEncoding(endpoint);
+    const inputSchema = this.buildInputSchema(endpoint, bodyEncoding, spec);
+    const output = this.buildOutputSchema(endpoint, spec);
+    const pagination = this.detectPagination(endpoint);
 
     return {
       name: this.sanitizeToolName(endpoint.operationId),
@@ -157,109 +283,316 @@ export class OpenAPIParser {
       method: endpoint.method,
       path: endpoint.path,
       dangerTags: endpoint.dangerTags,
+      parameterLocations: this.buildParameterLocations(endpoint, inputSchema),
+      ...(bodyEncoding && bodyEncoding.mediaType !== 'application/json' ? { bodyEncoding } : {}),
+      ...output,
+      ...(pagination ? { pagination } : {}),
+      ...(endpoint.security ? { security: endpoint.security } : {}),
     };
   }
 
   /**
-   * Build JSON schema for tool inputs
+   * Read the supported security schemes. Unsupported ones (openIdConnect, digest,
+   * implicit and password flows) are skipped.
    */
-  private static buildInputSchema(endpoint: ParsedEndpoint): Record<string, any> {
-    const properties: Record<string, any> = {};
-    const required: string[] = [];
-
-    // Add path parameters
-    for (const param of endpoint.parameters) {
-      if (param.in === 'path') {
-        properties[param.name] = {
-          type: this.mapOpenAPIType(param.schema?.type || 'string'),
-          description: param.description || '',
-        };
-        if (param.required) {
-          required.push(param.name);
+  static extractSecuritySchemes(spec: OpenAPIV3.Document): Record<string, AuthScheme> {
+    const schemes: Record<string, AuthScheme> = {};
+
+    for (const [name, definition] of Object.entries(spec.components?.securitySchemes || {})) {
+      const scheme = definition as any;
+
+      if (scheme.type === 'apiKey' && ['header', 'query', 'cookie'].includes(scheme.in) && scheme.name) {
+        schemes[name] = { type: 'apiKey', in: scheme.in, name: scheme.name };
+      } else if (scheme.type === 'http' && ['basic', 'bearer'].includes(String(scheme.scheme).toLowerCase())) {
+        schemes[name] = { type: 'http', scheme: String(scheme.scheme).toLowerCase() as 'basic' | 'bearer' };
+      } else if (scheme.type === 'oauth2') {
+        const { clientCredentials, authorizationCode } = scheme.flows || {};
+        if (clientCredentials?.tokenUrl) {
+          schemes[name] = {
+            type: 'oauth2',
+            flow: 'clientCredentials',
+            tokenUrl: clientCredentials.tokenUrl,
+            scopes: Object.keys(clientCredentials.scopes || {}),
+          };
+        } else if (authorizationCode?.tokenUrl) {
+          schemes[name] = {
+            type: 'oauth2',
+            flow: 'authorizationCode',
+            tokenUrl: authorizationCode.tokenUrl,
+            authorizationUrl: authorizationCode.authorizationUrl,
+            scopes: Object.keys(authorizationCode.scopes || {}),
+          };
         }
       }
     }
 
-    // Add query parameters
-    for (const param of endpoint.parameters) {
-      if (param.in === 'query') {
-        properties[param.name] = {
-          type: this.mapOpenAPIType(param.schema?.type || 'string'),
-          description: param.description || '',
+    return schemes;
+  }
+
+  /**
+   * Pick connector auth settings from the spec: the first supported scheme of the
+   * global security requirements, else the first supported scheme defined
+   */
+  static detectAuth(spec: OpenAPIV3.Document, schemes: Record<string, AuthScheme>): DetectedAuth | undefined {
+    const preferred = ((spec.security || []) as SecurityRequirement[]).flatMap(requirement => Object.keys(requirement));
+    const name = [...preferred, ...Object.keys(schemes)].find(candidate => candidate in schemes);
+    if (!name) return undefined;
+
+    const scheme = schemes[name];
+    switch (scheme.type) {
+      case 'apiKey':
+        return { authType: 'api_key', authHeaderName: scheme.name, authLocation: scheme.in };
+      case 'http':
+        return { authType: scheme.scheme === 'basic' ? 'basic' : 'bearer_token' };
+      case 'oauth2':
+        return {
+          authType: scheme.flow === 'clientCredentials' ? 'oauth2_client_credentials' : 'oauth2_authorization_code',
+          oauth: {
+            tokenUrl: scheme.tokenUrl,
+            ...(scheme.authorizationUrl ? { authorizationUrl: scheme.authorizationUrl } : {}),
+            ...(scheme.scopes.length ? { scopes: scheme.scopes } : {}),
+          },
         };
+    }
+  }
+
+  /**
+   * Map each tool argument to where it goes in the upstream request
+   */
+  private static buildParameterLocations(
+    endpoint: ParsedEndpoint,
+    inputSchema: Record<string, any>
+  ): Record<string, ParameterLocation> {
+    const locations: Record<string, ParameterLocation> = {};
+
+    for (const param of endpoint.parameters) {
+      if (['path', 'query', 'header'].includes(param.in) && param.name in inputSchema.properties) {
+        locations[param.name] = param.in;
+      }
+    }
+
+    if ('body' in inputSchema.properties) {
+      locations.body = 'body';
+    }
+
+    return locations;
+  }
+
+  /**
+   * Pick the request body media type to send: JSON, else form, multipart, text or binary
+   */
+  private static selectBodyEncoding(endpoint: ParsedEndpoint): BodyEncoding | undefined {
+    const mediaTypes = Object.keys(endpoint.requestBody?.content || {});
+    const rank = (mediaType: string) => BODY_KIND_PREFERENCE.indexOf(bodyKind(mediaType));
+    const mediaType = [...mediaTypes].sort((a, b) => rank(a) - rank(b))[0];
+    if (!mediaType) return undefined;
+
+    const schema = endpoint.requestBody!.content[mediaType].schema;
+    if (bodyKind(mediaType) !== 'multipart' || !schema?.properties) {
+      return { mediaType };
+    }
+
+    const fileFields = Object.entries<any>(schema.properties)
+      .filter(([, property]) => this.isFileSchema(property) || this.isFileSchema(property?.items))
+      .map(([name]) => name);
+    return fileFields.length ? { mediaType, fileFields } : { mediaType };
+  }
+
+  /**
+   * Binary strings: `format: binary` (OpenAPI 3.0) or `contentMediaType` (3.1)
+   */
+  private static isFileSchema(schema: any): boolean {
+    return schema?.type === 'string'
+      && (schema.format === 'binary' || (schema.contentMediaType !== undefined && schema.contentEncoding === undefined));
+  }
+
+  /**
+   * Build the JSON Schema (draft 2020-12) for tool inputs: path, query and
+   * header parameters, plus `body` for the request body. File contents are
+   * passed as base64 (FILE_SCHEMA).
+   */
+  private static buildInputSchema(
+    endpoint: ParsedEndpoint,
+    bodyEncoding: BodyEncoding | undefined,
+    spec?: OpenAPIV3.Document
+  ): Record<string, any> {
+    const translator = new SchemaTranslator('request', spec);
+    const properties: Record<string, any> = {};
+    const required: string[] = [];
+
+    for (const location of ['path', 'query', 'header']) {
+      for (const param of endpoint.parameters.filter(p => p.in === location)) {
+        properties[param.name] = this.parameterSchema(param, translator);
         if (param.required) {
           required.push(param.name);
         }
       }
     }
 
-    // Add request body
-    if (endpoint.requestBody) {
-      const content = endpoint.requestBody.content || {};
-      const jsonContent = content['application/json'];
-      if (jsonContent?.schema) {
-        const bodySchema = this.convertOpenAPISchemaToJSON(jsonContent.schema);
-        properties.body = bodySchema;
-        if (endpoint.requestBody.required) {
-          required.push('body');
-        }
+    if (bodyEncoding) {
+      properties.body = this.bodySchema(endpoint.requestBody!, bodyEncoding, translator);
+      if (endpoint.requestBody!.required) {
+        required.push('body');
       }
     }
 
-    return {
+    return translator.root({
       type: 'object',
       properties,
       required,
+    });
+  }
+
+  private static bodySchema(
+    requestBody: Record<string, any>,
+    encoding: BodyEncoding,
+    translator: SchemaTranslator
+  ): Record<string, any> {
+    const source = requestBody.content[encoding.mediaType].schema;
+    const description = requestBody.description ? { description: requestBody.description } : {};
+
+    switch (bodyKind(encoding.mediaType)) {
+      case 'binary':
+        return { ...FILE_SCHEMA, description: requestBody.description || `File content (${encoding.mediaType})` };
+      case 'text':
+        return { ...description, ...(source ? translator.translate(source) : { type: 'string' }) };
+    }
+
+    const schema = source ? translator.translate(source) : {};
+    for (const field of encoding.fileFields || []) {
+      if (!schema.properties?.[field]) continue;
+      const property = source.properties[field];
+      const file = { ...FILE_SCHEMA, ...(property.description ? { description: property.description } : {}) };
+      schema.properties[field] = property.type === 'array' ? { type: 'array', items: file } : file;
+    }
+    return { ...description, ...schema };
+  }
+
+  /**
+   * Build the output schema from the first 2xx response with a JSON body.
+   * MCP structured content is an object, so other responses (arrays, scalars)
+   * are wrapped in a `result` property.
+   */
+  private static buildOutputSchema(
+    endpoint: ParsedEndpoint,
+    spec?: OpenAPIV3.Document
+  ): Pick<MCPTool, 'outputSchema' | 'outputProperty'> {
+    const source = this.successResponse(endpoint)?.schema;
+    if (!source) return {};
+
+    const translator = new SchemaTranslator('response', spec);
+    const schema = translator.translate(source);
+    if (typeof schema === 'object' && (schema.type === 'object' || (schema.type === undefined && schema.properties))) {
+      return { outputSchema: translator.root(schema) };
+    }
+    return {
+      outputSchema: translator.root({ type: 'object', properties: { result: schema }, required: ['result'] }),
+      outputProperty: 'result',
     };
   }
 
   /**
-   * Convert OpenAPI schema to JSON schema
+   * The first 2xx response with a JSON body
    */
-  private static convertOpenAPISchemaToJSON(schema: any): Record<string, any> {
-    if (!schema) return { type: 'object' };
+  private static successResponse(endpoint: ParsedEndpoint): { schema: any; headers: Record<string, any> } | undefined {
+    const statuses = Object.keys(endpoint.responses)
+      .filter(status => /^2(\d\d|XX)$/i.test(status))
+      .sort();
+
+    for (const status of statuses) {
+      const response = endpoint.responses[status] || {};
+      const content = response.content || {};
+      const mediaType = Object.keys(content).find(type => bodyKind(type) === 'json');
+      if (mediaType && content[mediaType].schema) {
+        return { schema: content[mediaType].schema, headers: response.headers || {} };
+      }
+    }
+    return undefined;
+  }
 
-    const result: Record<string, any> = {
-      type: this.mapOpenAPIType(schema.type || 'object'),
-    };
+  /**
+   * Recognize common pagination patterns of GET list endpoints: a `Link` response
+   * header, a cursor parameter with a next cursor in the response, offset/limit
+   * or page number parameters
+   */
+  private static detectPagination(endpoint: ParsedEndpoint): PaginationConfig | undefined {
+    if (endpoint.method !== 'GET') return undefined;
 
-    if (schema.description) result.description = schema.description;
-    if (schema.enum) result.enum = schema.enum;
-    if (schema.default !== undefined) result.default = schema.default;
-    if (schema.minimum !== undefined) result.minimum = schema.minimum;
-    if (schema.maximum !== undefined) result.maximum = schema.maximum;
+    const response = this.successResponse(endpoint);
+    const itemsPath = response && this.findItemsPath(response.schema);
+    if (!response || !itemsPath) return undefined;
 
-    if (schema.properties) {
-      result.properties = {};
-      for (const [key, value] of Object.entries(schema.properties)) {
-        result.properties[key] = this.convertOpenAPISchemaToJSON(value as any);
-      }
+    const query = endpoint.parameters.filter(param => param.in === 'query').map(param => param.name as string);
+    const findParam = (names: string[]) => query.find(name => names.includes(name.toLowerCase()));
+
+    if (Object.keys(response.headers).some(name => name.toLowerCase() === 'link')) {
+      return { style: 'link', itemsPath };
     }
 
-    if (schema.items) {
-      result.items = this.convertOpenAPISchemaToJSON(schema.items);
+    const cursorParam = findParam(CURSOR_PARAMS);
+    const nextCursorPath = cursorParam && this.findNextCursorPath(response.schema);
+    if (cursorParam && nextCursorPath) {
+      return { style: 'cursor', itemsPath, cursorParam, nextCursorPath };
     }
 
-    if (schema.required) {
-      result.required = schema.required;
+    const offsetParam = findParam(OFFSET_PARAMS);
+    if (offsetParam) {
+      const limitParam = findParam(LIMIT_PARAMS);
+      return { style: 'offset', itemsPath, offsetParam, ...(limitParam ? { limitParam } : {}) };
     }
 
-    return result;
+    const pageParam = findParam(PAGE_PARAMS);
+    if (pageParam) {
+      return { style: 'page', itemsPath, pageParam };
+    }
+    return undefined;
   }
 
   /**
-   * Map OpenAPI type to JSON schema type
+   * The response itself if it is an array, else its first array property
    */
-  private static mapOpenAPIType(type: string): string {
-    const typeMap: Record<string, string> = {
-      'string': 'string',
-      'number': 'number',
-      'integer': 'integer',
-      'boolean': 'boolean',
-      'array': 'array',
-      'object': 'object',
-    };
-    return typeMap[type] || 'string';
+  private static findItemsPath(schema: any): string | undefined {
+    if (schema?.type === 'array') return '$';
+
+    const name = Object.entries<any>(schema?.properties || {}).find(([, property]) => property?.type === 'array')?.[0];
+    return name === undefined ? undefined : this.jsonPath([name]);
+  }
+
+  /**
+   * A next-cursor property at the top level or in a nested object such as `meta`
+   */
+  private static findNextCursorPath(schema: any): string | undefined {
+    const properties = Object.entries<any>(schema?.properties || {});
+    const isCursor = ([name, property]: [string, any]) =>
+      NEXT_CURSOR_PROPERTY.test(name) && [property?.type].flat().includes('string');
+
+    const topLevel = properties.find(isCursor);
+    if (topLevel) return this.jsonPath([topLevel[0]]);
+
+    for (const [name, property] of properties) {
+      const nested = Object.entries<any>(property?.properties || {}).find(isCursor);
+      if (nested) return this.jsonPath([name, nested[0]]);
+    }
+    return undefined;
+  }
+
+  private static jsonPath(names: string[]): string {
+    return `$${names.map(name => (/^[A-Za-z_$][\w$]*$/.test(name) ? `.${name}` : `['${name.replace(/'/g, "\\'")}']`)).join('')}`;
+  }
+
+  /**
+   * A parameter's schema, from `schema` or (OpenAPI 3 `content`) its media type
+   */
+  private static parameterSchema(param: Record<string, any>, translator: SchemaTranslator): Record<string, any> {
+    const source = param.schema ?? Object.values<any>(param.content || {})[0]?.schema ?? { type: 'string' };
+    const schema = translator.translate(source);
+    if (typeof schema !== 'object') {
+      return schema;
+    }
+    if (param.description && !schema.description) schema.description = param.description;
+    if (param.deprecated) schema.deprecated = true;
+    if (param.example !== undefined && !schema.examples) schema.examples = [param.example];
+    return schema;
   }
 
   /**
@@ -0,0 +1,65 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+// Loopback, private, link-local, shared and multicast ranges
+// (BlockList matches IPv4-mapped IPv6 addresses against the IPv4 ranges)
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * HTTP agents and checks that keep requests to user-supplied URLs (spec URLs,
+ * webhooks) off private networks
+ */
+export interface PublicNetworkGuard {
+  httpAgent: http.Agent;
+  httpsAgent: https.Agent;
+  // IP literals are connected to without a lookup; check them (and redirect targets) with this
+  assertPublicHost(hostname: string): void;
+}
+
+/**
+ * A guard that private networks can be opened to by setting the environment
+ * variable `allowVariable` to true (e.g. a spec served on localhost)
+ */
+export function publicNetworkGuard(allowVariable: string): PublicNetworkGuard {
+  const isBlockedAddress = (address: string): boolean => {
+    if (process.env[allowVariable] === 'true') return false;
+    const family = net.isIP(address);
+    return family !== 0 && BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+  };
+
+  // Host names are checked as they are resolved for the connection, so a name
+  // cannot pass a check and then resolve to a private address
+  const lookup: net.LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error, '', 0);
+      if (addresses.some(({ address }) => isBlockedAddress(address))) {
+        return callback(new Error(`${hostname} resolves to a private network address`), '', 0);
+      }
+      if (options.all) return (callback as (...args: unknown[]) => void)(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+
+  return {
+    httpAgent: new http.Agent({ lookup }),
+    httpsAgent: new https.Agent({ lookup }),
+    assertPublicHost(hostname) {
+      if (isBlockedAddress(hostname.replace(/^\[|\]$/g, ''))) {
+        throw new Error(`${hostname} is a private network address`);
+      }
+    },
+  };
+}
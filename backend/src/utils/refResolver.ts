@@ -0,0 +1,225 @@
+import axios from 'axios';
+import fs from 'fs/promises';
+import { fileURLToPath } from 'url';
+import * as yaml from 'js-yaml';
+import { publicNetworkGuard } from './publicNetwork.js';
+import { SpecIssue, pointerToken } from './specValidator.js';
+
+// Keys whose values are literal data, not spec objects
+const LITERAL_KEYS = new Set(['example', 'examples', 'default', 'enum', 'const']);
+
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+// Private networks are off limits to spec fetches unless
+// SPEC_FETCH_ALLOW_PRIVATE_NETWORKS=true (e.g. a spec served on localhost)
+const network = publicNetworkGuard('SPEC_FETCH_ALLOW_PRIVATE_NETWORKS');
+
+interface WalkContext {
+  documentUri: string;
+  pointer: string;
+  // References being expanded on the way here, to detect cycles
+  expanding: Set<string>;
+}
+
+/**
+ * Parse a JSON or YAML document
+ */
+export function parseDocument(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return yaml.load(text);
+  }
+}
+
+/**
+ * Look up a JSON pointer (RFC 6901) in a document
+ */
+export function evaluatePointer(document: unknown, pointer: string): unknown {
+  if (pointer === '') return document;
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON pointer ${pointer}`);
+  }
+
+  let node: any = document;
+  for (const token of pointer.slice(1).split('/')) {
+    const key = token.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (typeof node !== 'object' || node === null || !Object.prototype.hasOwnProperty.call(node, key)) {
+      return undefined;
+    }
+    node = node[key];
+  }
+  return node;
+}
+
+/**
+ * Fetch (http, https) or read (file) a JSON or YAML document
+ */
+export async function loadDocument(uri: string): Promise<unknown> {
+  let text: string;
+  if (uri.startsWith('http://') || uri.startsWith('https://')) {
+    network.assertPublicHost(new URL(uri).hostname);
+    const response = await axios.get(uri, {
+      responseType: 'text',
+      transformResponse: data => data,
+      timeout: FETCH_TIMEOUT_MS,
+      maxContentLength: MAX_DOCUMENT_BYTES,
+      maxRedirects: 5,
+      httpAgent: network.httpAgent,
+      httpsAgent: network.httpsAgent,
+      beforeRedirect: options => network.assertPublicHost(options.hostname),
+    });
+    text = response.data;
+  } else if (uri.startsWith('file:')) {
+    text = await fs.readFile(fileURLToPath(uri), 'utf8');
+  } else {
+    throw new Error(`unsupported URI ${uri}`);
+  }
+  return parseDocument(text);
+}
+
+/**
+ * Replaces `$ref`s with what they point to: local pointers, and relative or
+ * absolute references to other files on the spec URL's origin. A reference back into a schema that is
+ * still being expanded is kept as a `$ref`, so cyclic schemas stay finite.
+ * Unresolvable references are reported as issues and replaced with `{}`.
+ */
+export class RefResolver {
+  private documents = new Map<string, unknown>();
+  private resolved = new Map<string, unknown>();
+  private issues: SpecIssue[] = [];
+
+  private constructor(
+    private rootUri: string,
+    // OpenAPI 3.1 applies keywords next to a $ref; earlier versions ignore them
+    private siblingsApply: boolean
+  ) {}
+
+  static async dereference(
+    document: unknown,
+    options: { baseUri?: string; siblingsApply: boolean }
+  ): Promise<{ document: any; issues: SpecIssue[] }> {
+    const resolver = new RefResolver(options.baseUri ?? '', options.siblingsApply);
+    resolver.documents.set(resolver.rootUri, document);
+
+    const dereferenced = await resolver.walk(document, {
+      documentUri: resolver.rootUri,
+      pointer: '',
+      expanding: new Set(),
+    });
+    return { document: dereferenced, issues: resolver.issues };
+  }
+
+  private async walk(node: unknown, context: WalkContext): Promise<unknown> {
+    if (Array.isArray(node)) {
+      const items = [];
+      for (const [index, item] of node.entries()) {
+        items.push(await this.walk(item, { ...context, pointer: `${context.pointer}/${index}` }));
+      }
+      return items;
+    }
+    if (typeof node !== 'object' || node === null) {
+      return node;
+    }
+
+    const { $ref, ...rest } = node as Record<string, unknown>;
+    // In a schema's `properties`, keys are property names
+    const isPropertyMap = context.pointer.endsWith('/properties');
+    const siblings: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(rest)) {
+      siblings[key] = LITERAL_KEYS.has(key) && !isPropertyMap
+        ? value
+        : await this.walk(value, { ...context, pointer: `${context.pointer}/${pointerToken(key)}` });
+    }
+
+    if (typeof $ref !== 'string') {
+      return $ref === undefined ? siblings : { $ref, ...siblings };
+    }
+
+    const target = await this.resolveRef($ref, context);
+    if (!this.siblingsApply || Object.keys(siblings).length === 0) {
+      return target;
+    }
+    return typeof target === 'object' && target !== null && !Array.isArray(target)
+      ? { ...target, ...siblings }
+      : siblings;
+  }
+
+  private async resolveRef(ref: string, context: WalkContext): Promise<unknown> {
+    const hashIndex = ref.indexOf('#');
+    const uriPart = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
+    const fragment = hashIndex === -1 ? '' : ref.slice(hashIndex + 1);
+
+    let documentUri = context.documentUri;
+    let document: unknown;
+    try {
+      if (uriPart) {
+        documentUri = this.resolveUri(uriPart, context.documentUri);
+      }
+      document = await this.load(documentUri);
+    } catch (error) {
+      return this.fail(context, `Cannot resolve $ref "${ref}": ${(error as Error).message}`);
+    }
+
+    const key = `${documentUri}#${fragment}`;
+    if (context.expanding.has(key)) {
+      return { $ref: ref };
+    }
+    if (this.resolved.has(key)) {
+      return this.resolved.get(key);
+    }
+
+    let target: unknown;
+    try {
+      target = evaluatePointer(document, decodeURIComponent(fragment));
+    } catch {
+      target = undefined;
+    }
+    if (target === undefined) {
+      return this.fail(context, `Cannot resolve $ref "${ref}"`);
+    }
+
+    const expanded = await this.walk(target, {
+      documentUri,
+      pointer: fragment,
+      expanding: new Set([...context.expanding, key]),
+    });
+    this.resolved.set(key, expanded);
+    return expanded;
+  }
+
+  private fail(context: WalkContext, message: string): Record<string, never> {
+    const location = context.documentUri === this.rootUri ? '' : `${context.documentUri}#`;
+    this.issues.push({ pointer: `${location}${context.pointer}`, message });
+    return {};
+  }
+
+  private resolveUri(reference: string, baseUri: string): string {
+    if (!/^[a-z][a-z0-9+.-]*:/i.test(reference) && !baseUri) {
+      throw new Error('relative references need the spec to be loaded from a URL');
+    }
+
+    const url = new URL(reference, baseUri || undefined);
+    url.hash = '';
+    if (url.protocol === 'file:' && !baseUri.startsWith('file:')) {
+      throw new Error('file references are only allowed in local specs');
+    }
+    // Remote references stay on the host the spec was loaded from
+    if ((url.protocol === 'http:' || url.protocol === 'https:')
+      && (!baseUri || new URL(baseUri).origin !== url.origin)) {
+      throw new Error('remote references are only followed on the origin of the spec URL');
+    }
+    return url.toString();
+  }
+
+  private async load(uri: string): Promise<unknown> {
+    if (this.documents.has(uri)) {
+      return this.documents.get(uri);
+    }
+
+    const document = await loadDocument(uri);
+    this.documents.set(uri, document);
+    return document;
+  }
+}
@@ -0,0 +1,139 @@
+import axios from 'axios';
+import type { Approval } from '../db/repositories/approvalRepository.js';
+import type { Connector } from '../db/repositories/connectorRepository.js';
+import type { GovernanceConfigRow } from '../db/repositories/governanceRepository.js';
+import { DeploymentSnapshots, DeploymentSnapshot } from './deploymentSnapshot.js';
+import { InternalAuth } from './internalAuth.js';
+
+export interface OAuthCodeExchange {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+}
+
+export interface RuntimeRegistration {
+  mcpUrl: string;
+  versions: number[]; // versions the runtime has loaded
+}
+
+export interface ApprovalExecutionResult {
+  status: 'executed' | 'failed';
+  result?: any;
+  error?: string;
+}
+
+const internalHttp = InternalAuth.createClient();
+
+/**
+ * Client for the MCP runtime's internal API
+ */
+export class RuntimeClient {
+  private static get baseUrl(): string {
+    return process.env.MCP_RUNTIME_URL || 'http://localhost:4000';
+  }
+
+  /**
+   * Push a deployment version to the runtime. With activate, MCP clients switch
+   * to it right away; otherwise only tokens pinned to the version use it.
+   */
+  static async registerConnector(
+    connector: Connector,
+    version: number,
+    snapshot: DeploymentSnapshot,
+    governance: GovernanceConfigRow | undefined,
+    activate: boolean
+  ): Promise<RuntimeRegistration> {
+    try {
+      const response = await internalHttp.post(
+        `${this.baseUrl}/internal/connectors/register`,
+        DeploymentSnapshots.registration(connector, version, snapshot, governance, activate),
+        { timeout: 15000 }
+      );
+      return { mcpUrl: response.data.mcpUrl, versions: response.data.versions };
+    } catch (error) {
+      const message = axios.isAxiosError(error)
+        ? error.response?.data?.error || error.message
+        : (error as Error).message;
+      throw new Error(`Runtime registration failed: ${typeof message === 'string' ? message : JSON.stringify(message)}`);
+    }
+  }
+
+  /**
+   * Ask the runtime to execute the exact call stored with an approval
+   */
+  static async executeApproval(approval: Approval): Promise<ApprovalExecutionResult> {
+    try {
+      const response = await internalHttp.post(
+        `${this.baseUrl}/internal/approvals/${approval.id}/execute`,
+        {
+          connectorId: approval.connectorId,
+          requestId: approval.requestId,
+          toolName: approval.toolName,
+          arguments: approval.arguments,
+          reviewerDecision: approval.reviewerDecision,
+          reviewerRiskScore: approval.reviewerRiskScore,
+          reviewerReasons: approval.reviewerReasons,
+          approvalNotes: approval.approvalNotes,
+          decidedAt: approval.decisionTime,
+          deploymentVersion: approval.deploymentVersion,
+        },
+        { timeout: 35000 }
+      );
+      return { status: 'executed', result: response.data.result };
+    } catch (error) {
+      const message = axios.isAxiosError(error)
+        ? error.response?.data?.error || error.message
+        : (error as Error).message;
+      return { status: 'failed', error: message };
+    }
+  }
+
+  /**
+   * Let the runtime tell waiting MCP clients that an approval was rejected or expired.
+   * Failures are logged and never fail the decision.
+   */
+  static async notifyDecision(approval: Approval): Promise<void> {
+    try {
+      await internalHttp.post(
+        `${this.baseUrl}/internal/approvals/${approval.id}/decision`,
+        {
+          connectorId: approval.connectorId,
+          requestId: approval.requestId,
+          toolName: approval.toolName,
+          status: approval.status,
+          approvalNotes: approval.approvalNotes,
+          decidedAt: approval.decisionTime,
+          expiresAt: approval.expiresAt,
+        },
+        { timeout: 5000 }
+      );
+    } catch (error) {
+      console.error('Failed to notify runtime of approval decision:', (error as Error).message);
+    }
+  }
+
+  /**
+   * Exchange an OAuth authorization code for a refresh token.
+   * The runtime holds the decryption key for the client secret, so it talks to the token server.
+   */
+  static async exchangeOAuthCode(connector: Connector, exchange: OAuthCodeExchange): Promise<string | undefined> {
+    try {
+      const response = await internalHttp.post(
+        `${this.baseUrl}/internal/oauth/exchange`,
+        {
+          connectorId: connector.id,
+          oauth: connector.oauthConfig,
+          encryptedClientSecret: connector.encryptedAuthSecret,
+          ...exchange,
+        },
+        { timeout: 15000 }
+      );
+      return response.data.refreshToken;
+    } catch (error) {
+      const message = axios.isAxiosError(error)
+        ? error.response?.data?.error || error.message
+        : (error as Error).message;
+      throw new Error(`OAuth code exchange failed: ${message}`);
+    }
+  }
+}
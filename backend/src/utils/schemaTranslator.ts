@@ -0,0 +1,183 @@
+import { evaluatePointer } from './refResolver.js';
+import { pointerToken } from './specValidator.js';
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Request schemas leave out readOnly properties, response schemas writeOnly ones
+ */
+export type SchemaDirection = 'request' | 'response';
+
+const JSON_TYPES = ['string', 'number', 'integer', 'boolean', 'array', 'object', 'null'];
+
+// Keywords copied as they are
+const VALUE_KEYWORDS = [
+  'title', 'description', 'default', 'enum', 'const', 'format', 'pattern',
+  'minLength', 'maxLength', 'minimum', 'maximum', 'multipleOf',
+  'minItems', 'maxItems', 'uniqueItems', 'minContains', 'maxContains',
+  'minProperties', 'maxProperties', 'dependentRequired',
+  'deprecated', 'readOnly', 'writeOnly', 'examples',
+  'contentMediaType', 'contentEncoding', '$comment',
+];
+
+// Keywords holding one subschema, a list of them, or a map of them
+const SUBSCHEMA_KEYWORDS = [
+  'items', 'additionalProperties', 'not', 'if', 'then', 'else',
+  'contains', 'propertyNames', 'unevaluatedItems', 'unevaluatedProperties',
+];
+const SUBSCHEMA_LIST_KEYWORDS = ['allOf', 'anyOf', 'oneOf', 'prefixItems'];
+const SUBSCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', 'dependentSchemas'];
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Translates dereferenced OpenAPI 3.0/3.1 schemas to JSON Schema draft 2020-12.
+ * 3.0 specifics become their JSON Schema equivalents (`nullable`, boolean
+ * `exclusiveMinimum`/`exclusiveMaximum`, `example`); vendor extensions are
+ * dropped. Recursive schemas, which the RefResolver leaves as `$ref`s, are
+ * collected under `$defs`. Use one translator per root schema.
+ */
+export class SchemaTranslator {
+  private defs: Record<string, any> = {};
+  private defNames = new Map<string, string>();
+
+  constructor(
+    private direction: SchemaDirection,
+    // Where recursive `$ref`s point into
+    private spec?: Record<string, any>
+  ) {}
+
+  /**
+   * Mark a translated schema as the root: adds `$schema` and the collected `$defs`
+   */
+  root(schema: Record<string, any>): Record<string, any> {
+    return {
+      $schema: JSON_SCHEMA_DIALECT,
+      ...schema,
+      ...(Object.keys(this.defs).length ? { $defs: this.defs } : {}),
+    };
+  }
+
+  translate(schema: unknown): any {
+    if (typeof schema === 'boolean') return schema;
+    if (!isObject(schema)) return {};
+    if (typeof schema.$ref === 'string') return this.reference(schema.$ref);
+
+    const result: Record<string, any> = {};
+
+    if (schema.type !== undefined) {
+      const types = (Array.isArray(schema.type) ? schema.type : [schema.type]).filter(type => JSON_TYPES.includes(type));
+      if (types.length) {
+        result.type = types.length === 1 ? types[0] : types;
+      }
+    }
+
+    for (const keyword of VALUE_KEYWORDS) {
+      if (schema[keyword] !== undefined) result[keyword] = schema[keyword];
+    }
+    if (schema.example !== undefined && result.examples === undefined) {
+      result.examples = [schema.example];
+    }
+    if (isObject(schema.discriminator) && typeof schema.discriminator.propertyName === 'string') {
+      result.discriminator = { propertyName: schema.discriminator.propertyName };
+    }
+
+    this.translateBounds(schema, result);
+
+    for (const keyword of SUBSCHEMA_KEYWORDS) {
+      if (schema[keyword] === undefined) continue;
+      if (keyword === 'items' && Array.isArray(schema.items)) {
+        result.prefixItems = schema.items.map((item: unknown) => this.translate(item));
+      } else {
+        result[keyword] = this.translate(schema[keyword]);
+      }
+    }
+    for (const keyword of SUBSCHEMA_LIST_KEYWORDS) {
+      if (Array.isArray(schema[keyword])) {
+        result[keyword] = schema[keyword].map((item: unknown) => this.translate(item));
+      }
+    }
+    for (const keyword of SUBSCHEMA_MAP_KEYWORDS) {
+      if (isObject(schema[keyword])) {
+        result[keyword] = Object.fromEntries(
+          Object.entries(schema[keyword]).map(([name, subschema]) => [name, this.translate(subschema)])
+        );
+      }
+    }
+
+    if (Array.isArray(schema.required)) {
+      result.required = [...schema.required];
+    }
+    this.omitHiddenProperties(schema, result);
+
+    return schema.nullable === true ? this.makeNullable(result) : result;
+  }
+
+  /**
+   * OpenAPI 3.0 `exclusiveMinimum: true` qualifies `minimum`; in JSON Schema it is the bound itself
+   */
+  private translateBounds(schema: Record<string, any>, result: Record<string, any>): void {
+    for (const [exclusive, inclusive] of [['exclusiveMinimum', 'minimum'], ['exclusiveMaximum', 'maximum']]) {
+      const value = schema[exclusive];
+      if (typeof value === 'number') {
+        result[exclusive] = value;
+      } else if (value === true && typeof schema[inclusive] === 'number') {
+        result[exclusive] = schema[inclusive];
+        delete result[inclusive];
+      }
+    }
+  }
+
+  private omitHiddenProperties(schema: Record<string, any>, result: Record<string, any>): void {
+    if (!result.properties) return;
+
+    const hiddenFlag = this.direction === 'request' ? 'readOnly' : 'writeOnly';
+    const hidden = Object.keys(result.properties).filter(name => schema.properties[name]?.[hiddenFlag] === true);
+    for (const name of hidden) {
+      delete result.properties[name];
+    }
+    if (result.required) {
+      result.required = result.required.filter((name: string) => !hidden.includes(name));
+      if (!result.required.length) delete result.required;
+    }
+  }
+
+  private makeNullable(result: Record<string, any>): Record<string, any> {
+    if (result.type !== undefined) {
+      const types = Array.isArray(result.type) ? result.type : [result.type];
+      if (!types.includes('null')) result.type = [...types, 'null'];
+      if (result.enum && !result.enum.includes(null)) result.enum = [...result.enum, null];
+      return result;
+    }
+    if (Object.keys(result).length === 0) {
+      return result;
+    }
+    return { anyOf: [result, { type: 'null' }] };
+  }
+
+  /**
+   * A recursive reference: translate its target once into `$defs`
+   */
+  private reference(ref: string): Record<string, any> {
+    const name = decodeURIComponent(ref.split('/').pop() || 'schema').replace(/~1/g, '/').replace(/~0/g, '~');
+
+    let defName = this.defNames.get(ref);
+    if (!defName) {
+      const target = this.spec && ref.startsWith('#') ? evaluatePointer(this.spec, decodeURIComponent(ref.slice(1))) : undefined;
+      if (target === undefined) {
+        return { description: `Recursive reference to ${name}` };
+      }
+
+      defName = name;
+      for (let suffix = 2; defName in this.defs; suffix++) {
+        defName = `${name}${suffix}`;
+      }
+      this.defNames.set(ref, defName);
+      this.defs[defName] = {};
+      this.defs[defName] = this.translate(target);
+    }
+    return { $ref: `#/$defs/${pointerToken(defName)}` };
+  }
+}
@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import fs from 'fs';
+
+/**
+ * Envelope encryption for connector secrets
+ *
+ * Each secret is encrypted with its own random data key (AES-256-GCM); the
+ * data key is wrapped with the master key. Stored format:
+ *   v1.<masterKeyId>.<wrappedDataKey>.<iv>.<authTag>.<ciphertext>   (base64url parts)
+ *
+ * Master keys come from SECRETS_MASTER_KEY (base64, 32 bytes) or the first line
+ * of SECRETS_MASTER_KEY_FILE. Keys being rotated out are listed in
+ * SECRETS_PREVIOUS_MASTER_KEYS (comma-separated) or the following lines of the file.
+ *
+ * The control plane only encrypts and re-wraps; secrets are decrypted in the runtime.
+ */
+
+const VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+interface Keyring {
+  current: MasterKey;
+  byId: Map<string, MasterKey>;
+}
+
+export class SecretEnvelopeError extends Error {}
+
+export class SecretEnvelope {
+  private static keyring: Keyring | null = null;
+
+  /**
+   * Encrypt a secret under a fresh data key wrapped with the current master key
+   */
+  static encrypt(plaintext: string): string {
+    const { current } = this.getKeyring();
+    const dataKey = crypto.randomBytes(KEY_BYTES);
+
+    const wrappedKey = this.seal(current.key, dataKey, current.id);
+    const { iv, tag, ciphertext } = this.sealParts(dataKey, Buffer.from(plaintext, 'utf8'));
+
+    return [VERSION, current.id, wrappedKey, iv, tag, ciphertext].join('.');
+  }
+
+  /**
+   * Re-wrap the data key under the current master key. The secret ciphertext is untouched.
+   */
+  static rewrap(envelope: string): string {
+    const parts = this.parse(envelope);
+    const { current } = this.getKeyring();
+    if (parts.keyId === current.id) {
+      return envelope;
+    }
+
+    const dataKey = this.unwrapDataKey(parts.keyId, parts.wrappedKey);
+    const wrappedKey = this.seal(current.key, dataKey, current.id);
+    return [VERSION, current.id, wrappedKey, parts.iv, parts.tag, parts.ciphertext].join('.');
+  }
+
+  static isEnvelope(value: string): boolean {
+    return value.startsWith(`${VERSION}.`) && value.split('.').length === 6;
+  }
+
+  static currentKeyId(): string {
+    return this.getKeyring().current.id;
+  }
+
+  static keyIdOf(envelope: string): string {
+    return this.parse(envelope).keyId;
+  }
+
+  private static unwrapDataKey(keyId: string, wrappedKey: string): Buffer {
+    const masterKey = this.getKeyring().byId.get(keyId);
+    if (!masterKey) {
+      throw new SecretEnvelopeError(`Unknown master key ${keyId}`);
+    }
+
+    const raw = Buffer.from(wrappedKey, 'base64url');
+    const decipher = crypto.createDecipheriv(ALGORITHM, masterKey.key, raw.subarray(0, IV_BYTES));
+    decipher.setAAD(Buffer.from(keyId));
+    decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + 16));
+    return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + 16)), decipher.final()]);
+  }
+
+  /**
+   * Wrap a data key as a single base64url blob: iv | tag | ciphertext
+   */
+  private static seal(masterKey: Buffer, dataKey: Buffer, keyId: string): string {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, masterKey, iv);
+    cipher.setAAD(Buffer.from(keyId));
+    const ciphertext = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+  }
+
+  private static sealParts(dataKey: Buffer, plaintext: Buffer) {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, dataKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return {
+      iv: iv.toString('base64url'),
+      tag: cipher.getAuthTag().toString('base64url'),
+      ciphertext: ciphertext.toString('base64url'),
+    };
+  }
+
+  private static parse(envelope: string) {
+    if (!this.isEnvelope(envelope)) {
+      throw new SecretEnvelopeError('Value is not an encrypted secret envelope');
+    }
+    const [, keyId, wrappedKey, iv, tag, ciphertext] = envelope.split('.');
+    return { keyId, wrappedKey, iv, tag, ciphertext };
+  }
+
+  private static getKeyring(): Keyring {
+    if (!this.keyring) {
+      this.keyring = this.loadKeyring();
+    }
+    return this.keyring;
+  }
+
+  private static loadKeyring(): Keyring {
+    let encodedKeys: string[] = [];
+
+    if (process.env.SECRETS_MASTER_KEY_FILE) {
+      encodedKeys = fs.readFileSync(process.env.SECRETS_MASTER_KEY_FILE, 'utf8').split('\n');
+    } else if (process.env.SECRETS_MASTER_KEY) {
+      encodedKeys = [
+        process.env.SECRETS_MASTER_KEY,
+        ...(process.env.SECRETS_PREVIOUS_MASTER_KEYS || '').split(','),
+      ];
+    }
+
+    const keys = encodedKeys.map(k => k.trim()).filter(Boolean).map(k => this.toMasterKey(k));
+    if (keys.length === 0) {
+      throw new SecretEnvelopeError('No master key configured (set SECRETS_MASTER_KEY or SECRETS_MASTER_KEY_FILE)');
+    }
+
+    return { current: keys[0], byId: new Map(keys.map(k => [k.id, k])) };
+  }
+
+  private static toMasterKey(encoded: string): MasterKey {
+    const key = Buffer.from(encoded, 'base64');
+    if (key.length !== KEY_BYTES) {
+      throw new SecretEnvelopeError(`Master keys must be ${KEY_BYTES} bytes, base64 encoded`);
+    }
+    // Key IDs are derived from the key so they never have to be managed separately
+    const id = crypto.createHash('sha256').update(key).digest('hex').substring(0, 16);
+    return { id, key };
+  }
+}
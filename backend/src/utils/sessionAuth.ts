@@ -0,0 +1,128 @@
+import type { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { SessionRepository, UserSession } from '../db/repositories/sessionRepository.js';
+import { OrganizationRepository } from '../db/repositories/organizationRepository.js';
+
+/**
+ * Sessions of the control plane API
+ *
+ * Logging in creates a `user_sessions` row and returns a JWT (HS256, signed
+ * with JWT_SECRET) that names it. Requests send it as `Authorization: Bearer`;
+ * the session row is checked on every request, so logging out takes effect
+ * immediately. Sessions last SESSION_TTL_HOURS (default 12).
+ */
+
+const DEFAULT_SESSION_TTL_HOURS = 12;
+
+// Reached without a session: logging in, and the OAuth2 redirect, which is
+// authenticated by its single-use state
+const PUBLIC_PATHS = new Set(['/api/auth/login', '/api/connectors/oauth/callback']);
+
+/**
+ * The caller of a request, attached as `res.locals.auth`
+ */
+export interface SessionContext {
+  userId: string;
+  organizationId: string;
+  role: string; // role in the organization: admin, member
+  sessionId: string;
+}
+
+export class SessionAuthError extends Error {}
+
+export class SessionAuth {
+  static ttlMs(): number {
+    const hours = Number(process.env.SESSION_TTL_HOURS) || DEFAULT_SESSION_TTL_HOURS;
+    return hours * 60 * 60 * 1000;
+  }
+
+  /**
+   * The bearer token for a session
+   */
+  static issue(session: UserSession): string {
+    return jwt.sign({ org: session.organizationId }, this.getSecret(), {
+      algorithm: 'HS256',
+      subject: session.userId,
+      jwtid: session.id,
+      expiresIn: Math.floor((session.expiresAt.getTime() - Date.now()) / 1000),
+    });
+  }
+
+  /**
+   * Resolve a bearer token to its caller; throws SessionAuthError if the
+   * token is invalid, the session ended or the user left the organization
+   */
+  static async authenticate(authorization: string | undefined): Promise<SessionContext> {
+    const token = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    if (!token) {
+      throw new SessionAuthError('Authentication required');
+    }
+
+    let sessionId: string | undefined;
+    try {
+      const payload = jwt.verify(token, this.getSecret(), { algorithms: ['HS256'] });
+      sessionId = typeof payload === 'object' ? payload.jti : undefined;
+    } catch (error) {
+      if (!(error instanceof jwt.JsonWebTokenError)) throw error;
+    }
+
+    const session = sessionId ? await SessionRepository.findActive(sessionId) : undefined;
+    if (!session) {
+      throw new SessionAuthError('Session is invalid or has expired');
+    }
+
+    const role = await OrganizationRepository.findMemberRole(session.organizationId, session.userId);
+    if (!role) {
+      throw new SessionAuthError('No longer a member of the organization');
+    }
+
+    return { userId: session.userId, organizationId: session.organizationId, role, sessionId: session.id };
+  }
+
+  /**
+   * Middleware rejecting API requests without a valid session
+   */
+  static async requireSession(req: Request, res: Response, next: NextFunction) {
+    if (PUBLIC_PATHS.has(req.originalUrl.split('?')[0])) {
+      return next();
+    }
+
+    try {
+      res.locals.auth = await SessionAuth.authenticate(req.headers.authorization);
+      next();
+    } catch (error) {
+      if (error instanceof SessionAuthError) {
+        return res.status(401).json({ error: error.message });
+      }
+      res.status(500).json({ error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Middleware allowing only callers with one of the organization roles;
+   * mount after requireSession
+   */
+  static requireRole(...roles: string[]) {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (!roles.includes(SessionAuth.context(res).role)) {
+        return res.status(403).json({ error: `Requires one of the roles: ${roles.join(', ')}` });
+      }
+      next();
+    };
+  }
+
+  /**
+   * The caller of a request that passed requireSession
+   */
+  static context(res: Response): SessionContext {
+    return res.locals.auth;
+  }
+
+  private static getSecret(): string {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+      throw new Error('No session signing secret configured (set JWT_SECRET)');
+    }
+    return secret;
+  }
+}
@@ -0,0 +1,176 @@
+import type { ParsedEndpoint } from './openApiParser.js';
+
+export interface EndpointSummary {
+  method: string;
+  path: string;
+  operationId: string;
+  category: ParsedEndpoint['category'];
+}
+
+export interface SpecChange {
+  kind: 'operationId' | 'parameter' | 'requestBody' | 'category';
+  breaking: boolean;
+  message: string;
+}
+
+export interface EndpointChange extends EndpointSummary {
+  changes: SpecChange[];
+}
+
+export interface SpecDiffReport {
+  added: EndpointSummary[];
+  removed: EndpointSummary[];
+  changed: EndpointChange[];
+  // One line per change that can break existing MCP clients or governance
+  breakingChanges: string[];
+}
+
+const CATEGORY_RISK: Record<ParsedEndpoint['category'], number> = { READ: 0, WRITE: 1, DANGEROUS: 2 };
+
+/**
+ * Compares the endpoints of two versions of a spec. Endpoints are matched by
+ * method and path; a renamed path shows up as one removed and one added endpoint.
+ */
+export class SpecDiff {
+  static compare(previous: ParsedEndpoint[], next: ParsedEndpoint[]): SpecDiffReport {
+    const key = (endpoint: ParsedEndpoint) => `${endpoint.method} ${endpoint.path}`;
+    const previousByKey = new Map(previous.map(endpoint => [key(endpoint), endpoint]));
+    const nextByKey = new Map(next.map(endpoint => [key(endpoint), endpoint]));
+
+    const report: SpecDiffReport = { added: [], removed: [], changed: [], breakingChanges: [] };
+
+    for (const [endpointKey, endpoint] of previousByKey) {
+      if (!nextByKey.has(endpointKey)) {
+        report.removed.push(this.summarize(endpoint));
+        report.breakingChanges.push(`${endpointKey}: removed`);
+      }
+    }
+
+    for (const [endpointKey, endpoint] of nextByKey) {
+      const before = previousByKey.get(endpointKey);
+      if (!before) {
+        report.added.push(this.summarize(endpoint));
+        continue;
+      }
+
+      const changes = this.compareEndpoint(before, endpoint);
+      if (changes.length) {
+        report.changed.push({ ...this.summarize(endpoint), changes });
+        for (const change of changes.filter(change => change.breaking)) {
+          report.breakingChanges.push(`${endpointKey}: ${change.message}`);
+        }
+      }
+    }
+
+    return report;
+  }
+
+  private static summarize(endpoint: ParsedEndpoint): EndpointSummary {
+    return {
+      method: endpoint.method,
+      path: endpoint.path,
+      operationId: endpoint.operationId,
+      category: endpoint.category,
+    };
+  }
+
+  private static compareEndpoint(before: ParsedEndpoint, after: ParsedEndpoint): SpecChange[] {
+    const changes: SpecChange[] = [];
+
+    if (before.operationId !== after.operationId) {
+      // The tool name derives from the operationId
+      changes.push({
+        kind: 'operationId',
+        breaking: true,
+        message: `operationId changed from ${before.operationId} to ${after.operationId}, renaming the tool`,
+      });
+    }
+
+    if (before.category !== after.category) {
+      // Calls may now be held for approval or blocked
+      changes.push({
+        kind: 'category',
+        breaking: CATEGORY_RISK[after.category] > CATEGORY_RISK[before.category],
+        message: `category changed from ${before.category} to ${after.category}`,
+      });
+    }
+
+    changes.push(...this.compareParameters(before.parameters, after.parameters));
+    changes.push(...this.compareRequestBody(before.requestBody, after.requestBody));
+    return changes;
+  }
+
+  private static compareParameters(before: Record<string, any>[], after: Record<string, any>[]): SpecChange[] {
+    const changes: SpecChange[] = [];
+    const key = (param: Record<string, any>) => `${param.in} parameter ${param.name}`;
+    const afterByKey = new Map(after.map(param => [key(param), param]));
+    const beforeKeys = new Set(before.map(key));
+
+    for (const param of before) {
+      const next = afterByKey.get(key(param));
+      if (!next) {
+        changes.push({ kind: 'parameter', breaking: true, message: `${key(param)} removed` });
+        continue;
+      }
+
+      if (!param.required && next.required) {
+        changes.push({ kind: 'parameter', breaking: true, message: `${key(param)} is now required` });
+      } else if (param.required && !next.required) {
+        changes.push({ kind: 'parameter', breaking: false, message: `${key(param)} is now optional` });
+      }
+
+      const typeBefore = this.schemaType(param.schema);
+      const typeAfter = this.schemaType(next.schema);
+      if (typeBefore !== typeAfter) {
+        changes.push({ kind: 'parameter', breaking: true, message: `${key(param)} type changed from ${typeBefore} to ${typeAfter}` });
+      }
+    }
+
+    for (const param of after.filter(param => !beforeKeys.has(key(param)))) {
+      changes.push({
+        kind: 'parameter',
+        breaking: Boolean(param.required),
+        message: `${param.required ? 'required' : 'optional'} ${key(param)} added`,
+      });
+    }
+
+    return changes;
+  }
+
+  private static compareRequestBody(before?: Record<string, any>, after?: Record<string, any>): SpecChange[] {
+    if (!before && !after) return [];
+    if (!after) {
+      return [{ kind: 'requestBody', breaking: true, message: 'request body removed' }];
+    }
+    if (!before) {
+      return [{ kind: 'requestBody', breaking: Boolean(after.required), message: `${after.required ? 'required' : 'optional'} request body added` }];
+    }
+
+    const changes: SpecChange[] = [];
+    if (!before.required && after.required) {
+      changes.push({ kind: 'requestBody', breaking: true, message: 'request body is now required' });
+    }
+
+    const typesBefore = Object.keys(before.content || {});
+    const typesAfter = Object.keys(after.content || {});
+    if (!typesBefore.some(type => typesAfter.includes(type))) {
+      changes.push({
+        kind: 'requestBody',
+        breaking: true,
+        message: `request body media type changed from ${typesBefore.join(', ')} to ${typesAfter.join(', ')}`,
+      });
+    }
+
+    const requiredBefore: string[] = Object.values<any>(before.content || {})[0]?.schema?.required || [];
+    const requiredAfter: string[] = Object.values<any>(after.content || {})[0]?.schema?.required || [];
+    for (const name of requiredAfter.filter(name => !requiredBefore.includes(name))) {
+      changes.push({ kind: 'requestBody', breaking: true, message: `request body property ${name} is now required` });
+    }
+    return changes;
+  }
+
+  private static schemaType(schema: any): string {
+    if (!schema || schema.type === undefined) return 'any';
+    return [schema.type].flat().join('|');
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * A problem in a spec, located by JSON pointer (RFC 6901). Problems in
+ * referenced files are prefixed with the file's URI.
+ */
+export interface SpecIssue {
+  pointer: string;
+  message: string;
+}
+
+export type SpecVersion = '2.0' | '3.0' | '3.1';
+
+export class SpecValidationError extends Error {
+  constructor(public readonly issues: SpecIssue[]) {
+    const shown = issues.slice(0, 3).map(issue => `${issue.pointer || '/'}: ${issue.message}`).join('; ');
+    const more = issues.length > 3 ? ` (and ${issues.length - 3} more)` : '';
+    super(`Invalid OpenAPI spec: ${shown}${more}`);
+  }
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+// Parameters that become top-level tool arguments; the request body is the `body` argument
+const ARGUMENT_LOCATIONS = ['path', 'query', 'header'];
+
+const PARAMETER_LOCATIONS: Record<SpecVersion, string[]> = {
+  '2.0': ['query', 'header', 'path', 'formData', 'body'],
+  '3.0': ['query', 'header', 'path', 'cookie'],
+  '3.1': ['query', 'header', 'path', 'cookie'],
+};
+
+/**
+ * Escape one reference token of a JSON pointer
+ */
+export function pointerToken(token: string | number): string {
+  return String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Structural checks of a (dereferenced) spec, beyond what parsing catches
+ */
+export class SpecValidator {
+  /**
+   * The spec's version, from `openapi` or `swagger`
+   */
+  static detectVersion(spec: unknown): SpecVersion {
+    if (!isObject(spec)) {
+      throw new SpecValidationError([{ pointer: '', message: 'Spec must be a JSON or YAML object' }]);
+    }
+    if (spec.swagger !== undefined) {
+      if (String(spec.swagger) === '2.0') return '2.0';
+      throw new SpecValidationError([{ pointer: '/swagger', message: `Unsupported Swagger version ${spec.swagger}; only 2.0 is supported` }]);
+    }
+    const match = /^3\.([01])\.\d+/.exec(String(spec.openapi ?? ''));
+    if (!match) {
+      const message = spec.openapi === undefined
+        ? 'Missing openapi (3.0.x, 3.1.x) or swagger (2.0) version field'
+        : `Unsupported OpenAPI version ${spec.openapi}`;
+      throw new SpecValidationError([{ pointer: '/openapi', message }]);
+    }
+    return match[1] === '0' ? '3.0' : '3.1';
+  }
+
+  static validate(spec: Record<string, any>, version: SpecVersion): SpecIssue[] {
+    const issues: SpecIssue[] = [];
+    const report = (pointer: string, message: string) => issues.push({ pointer, message });
+
+    if (!isObject(spec.info)) {
+      report('/info', 'Must be an object');
+    } else {
+      if (typeof spec.info.title !== 'string') report('/info/title', 'Must be a string');
+      if (typeof spec.info.version !== 'string') report('/info/version', 'Must be a string');
+    }
+
+    if (spec.paths === undefined) {
+      if (version !== '3.1') {
+        report('/paths', 'Is required');
+      } else if (spec.webhooks === undefined && spec.components === undefined) {
+        report('', 'An OpenAPI 3.1 spec needs paths, webhooks or components');
+      }
+    } else if (!isObject(spec.paths)) {
+      report('/paths', 'Must be an object');
+    }
+
+    const schemeNames = new Set(Object.keys(
+      (version === '2.0' ? spec.securityDefinitions : spec.components?.securitySchemes) || {}
+    ));
+    this.validateSecurity(spec.security, '/security', schemeNames, report);
+
+    const schemas = version === '2.0' ? spec.definitions : spec.components?.schemas;
+    const schemasPointer = version === '2.0' ? '/definitions' : '/components/schemas';
+    for (const [name, schema] of Object.entries(isObject(schemas) ? schemas : {})) {
+      if (!isObject(schema) && !(version === '3.1' && typeof schema === 'boolean')) {
+        report(`${schemasPointer}/${pointerToken(name)}`, 'Schema must be an object');
+      }
+    }
+
+    const operationIds = new Map<string, string>();
+    for (const [path, pathItem] of Object.entries(isObject(spec.paths) ? spec.paths : {})) {
+      const pathPointer = `/paths/${pointerToken(path)}`;
+      if (!path.startsWith('/')) {
+        report(pathPointer, 'Path must start with "/"');
+      }
+      if (!isObject(pathItem)) {
+        report(pathPointer, 'Path item must be an object');
+        continue;
+      }
+
+      const pathParameters = this.validateParameters(pathItem.parameters, `${pathPointer}/parameters`, version, report);
+
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method];
+        if (operation === undefined) continue;
+
+        const pointer = `${pathPointer}/${method}`;
+        if (!isObject(operation)) {
+          report(pointer, 'Operation must be an object');
+          continue;
+        }
+
+        const parameters = this.validateParameters(operation.parameters, `${pointer}/parameters`, version, report);
+        const declared = new Set(
+          [...pathParameters, ...parameters].filter(param => param.in === 'path').map(param => param.name)
+        );
+        for (const match of path.matchAll(/\{([^}]+)\}/g)) {
+          if (!declared.has(match[1])) {
+            report(pointer, `Path parameter "${match[1]}" is not defined`);
+          }
+        }
+
+        const hasBody = version === '2.0'
+          ? parameters.some(param => param.in === 'body' || param.in === 'formData')
+          : operation.requestBody !== undefined;
+        this.validateArgumentNames([...pathParameters, ...parameters], hasBody, pointer, report);
+
+        if (operation.responses === undefined) {
+          if (version !== '3.1') report(`${pointer}/responses`, 'Is required');
+        } else if (!isObject(operation.responses)) {
+          report(`${pointer}/responses`, 'Must be an object');
+        }
+
+        if (version !== '2.0' && operation.requestBody !== undefined && !isObject(operation.requestBody?.content)) {
+          report(`${pointer}/requestBody/content`, 'Must be an object');
+        }
+
+        if (typeof operation.operationId === 'string') {
+          const previous = operationIds.get(operation.operationId);
+          if (previous) {
+            report(`${pointer}/operationId`, `Duplicate operationId "${operation.operationId}" (also used at ${previous})`);
+          } else {
+            operationIds.set(operation.operationId, pointer);
+          }
+        }
+
+        this.validateSecurity(operation.security, `${pointer}/security`, schemeNames, report);
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Path, query and header parameters and the request body are arguments of one
+   * tool, so a name may only be used in one of those places. Operation-level
+   * parameters replace path-level ones with the same name and location.
+   */
+  private static validateArgumentNames(
+    parameters: Record<string, any>[],
+    hasBody: boolean,
+    pointer: string,
+    report: (pointer: string, message: string) => void
+  ): void {
+    const merged = new Map<string, Record<string, any>>();
+    for (const param of parameters) {
+      merged.set(`${param.in}:${param.name}`, param);
+    }
+
+    const locations = new Map<string, string[]>(hasBody ? [['body', ['request body']]] : []);
+    for (const param of merged.values()) {
+      if (!ARGUMENT_LOCATIONS.includes(param.in)) continue;
+      locations.set(param.name, [...(locations.get(param.name) ?? []), param.in]);
+    }
+
+    for (const [name, found] of locations) {
+      if (found.length > 1) {
+        report(pointer, `Parameter name "${name}" is used in ${found.join(' and ')}; tool arguments need unique names`);
+      }
+    }
+  }
+
+  /**
+   * Check a parameter list; returns the well-formed parameters
+   */
+  private static validateParameters(
+    parameters: unknown,
+    pointer: string,
+    version: SpecVersion,
+    report: (pointer: string, message: string) => void
+  ): Record<string, any>[] {
+    if (parameters === undefined) return [];
+    if (!Array.isArray(parameters)) {
+      report(pointer, 'Must be an array');
+      return [];
+    }
+
+    const valid: Record<string, any>[] = [];
+    parameters.forEach((param, index) => {
+      const paramPointer = `${pointer}/${index}`;
+      if (!isObject(param)) {
+        report(paramPointer, 'Parameter must be an object');
+        return;
+      }
+      if (typeof param.name !== 'string' || !param.name) {
+        report(`${paramPointer}/name`, 'Must be a non-empty string');
+        return;
+      }
+      if (!PARAMETER_LOCATIONS[version].includes(param.in)) {
+        report(`${paramPointer}/in`, `Must be one of ${PARAMETER_LOCATIONS[version].join(', ')}`);
+        return;
+      }
+      if (param.in === 'path' && param.required !== true) {
+        report(`${paramPointer}/required`, 'Path parameters must be required');
+      }
+      if (version === '2.0' && param.in === 'body' && !isObject(param.schema)) {
+        report(`${paramPointer}/schema`, 'Body parameters need a schema');
+      }
+      if (version !== '2.0' && param.schema === undefined && param.content === undefined) {
+        report(paramPointer, 'Parameter needs a schema or content');
+      }
+      valid.push(param);
+    });
+    return valid;
+  }
+
+  private static validateSecurity(
+    security: unknown,
+    pointer: string,
+    schemeNames: Set<string>,
+    report: (pointer: string, message: string) => void
+  ): void {
+    if (security === undefined) return;
+    if (!Array.isArray(security)) {
+      report(pointer, 'Must be an array');
+      return;
+    }
+
+    security.forEach((requirement, index) => {
+      if (!isObject(requirement)) {
+        report(`${pointer}/${index}`, 'Security requirement must be an object');
+        return;
+      }
+      for (const name of Object.keys(requirement)) {
+        if (!schemeNames.has(name)) {
+          report(`${pointer}/${index}/${pointerToken(name)}`, `Unknown security scheme "${name}"`);
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,231 @@
+import type { OpenAPIV3 } from 'openapi-types';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+
+// Swagger 2.0 collectionFormat as OpenAPI 3 style/explode
+const COLLECTION_FORMATS: Record<string, { style: string; explode: boolean }> = {
+  csv: { style: 'form', explode: false },
+  multi: { style: 'form', explode: true },
+  ssv: { style: 'spaceDelimited', explode: false },
+  pipes: { style: 'pipeDelimited', explode: false },
+};
+
+// Swagger 2.0 parameter fields that describe the value, i.e. belong in `schema`
+const SCHEMA_FIELDS = [
+  'type', 'format', 'items', 'enum', 'default', 'minimum', 'maximum', 'exclusiveMinimum',
+  'exclusiveMaximum', 'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems', 'uniqueItems', 'multipleOf',
+];
+
+/**
+ * Converts a dereferenced Swagger 2.0 spec to OpenAPI 3.0
+ */
+export class SwaggerConverter {
+  static convert(spec: Record<string, any>): OpenAPIV3.Document {
+    const paths: Record<string, any> = {};
+    for (const [path, pathItem] of Object.entries<Record<string, any>>(spec.paths || {})) {
+      const converted: Record<string, any> = {};
+      const pathParameters: any[] = pathItem.parameters || [];
+      if (pathParameters.length) {
+        converted.parameters = pathParameters.filter(param => !this.isBodyParameter(param)).map(param => this.convertParameter(param));
+      }
+
+      for (const method of HTTP_METHODS) {
+        if (pathItem[method]) {
+          converted[method] = this.convertOperation(spec, pathItem[method], pathParameters);
+        }
+      }
+      paths[path] = converted;
+    }
+
+    return {
+      openapi: '3.0.3',
+      info: spec.info,
+      servers: this.convertServers(spec),
+      paths,
+      components: {
+        schemas: Object.fromEntries(
+          Object.entries(spec.definitions || {}).map(([name, schema]) => [name, this.convertSchema(schema)])
+        ),
+        securitySchemes: this.convertSecurityDefinitions(spec.securityDefinitions || {}),
+      },
+      ...(spec.security ? { security: spec.security } : {}),
+      ...(spec.tags ? { tags: spec.tags } : {}),
+    } as OpenAPIV3.Document;
+  }
+
+  private static convertServers(spec: Record<string, any>): OpenAPIV3.ServerObject[] {
+    const basePath = spec.basePath && spec.basePath !== '/' ? spec.basePath.replace(/\/+$/, '') : '';
+    if (!spec.host) {
+      return basePath ? [{ url: basePath }] : [];
+    }
+    const schemes: string[] = spec.schemes?.length ? spec.schemes : ['https'];
+    return schemes.map(scheme => ({ url: `${scheme}://${spec.host}${basePath}` }));
+  }
+
+  private static convertOperation(spec: Record<string, any>, operation: Record<string, any>, pathParameters: any[]) {
+    const { parameters = [], responses = {}, consumes, produces, schemes, ...rest } = operation;
+    const requestTypes: string[] = consumes || spec.consumes || ['application/json'];
+    const responseTypes: string[] = produces || spec.produces || ['application/json'];
+
+    // Operation parameters override path-level ones with the same name and location
+    const overridden = new Set(parameters.map((param: any) => `${param.in}:${param.name}`));
+    const inherited = pathParameters.filter(param => !overridden.has(`${param.in}:${param.name}`));
+    const bodyParameters = [...inherited, ...parameters].filter(param => this.isBodyParameter(param));
+
+    const converted: Record<string, any> = {
+      ...rest,
+      parameters: parameters.filter((param: any) => !this.isBodyParameter(param)).map((param: any) => this.convertParameter(param)),
+      responses: Object.fromEntries(
+        Object.entries<Record<string, any>>(responses).map(([status, response]) => [
+          status,
+          this.convertResponse(response, responseTypes),
+        ])
+      ),
+    };
+
+    const requestBody = this.convertRequestBody(bodyParameters, requestTypes);
+    if (requestBody) {
+      converted.requestBody = requestBody;
+    }
+    return converted;
+  }
+
+  private static isBodyParameter(param: Record<string, any>): boolean {
+    return param.in === 'body' || param.in === 'formData';
+  }
+
+  private static convertParameter(param: Record<string, any>): OpenAPIV3.ParameterObject {
+    const schema: Record<string, any> = {};
+    for (const field of SCHEMA_FIELDS) {
+      if (param[field] !== undefined) schema[field] = param[field];
+    }
+
+    const converted: Record<string, any> = { name: param.name, in: param.in, schema: this.convertSchema(schema) };
+    if (param.required || param.in === 'path') converted.required = true;
+    if (param.description) converted.description = param.description;
+
+    const format = COLLECTION_FORMATS[param.collectionFormat];
+    if (param.type === 'array' && format) {
+      Object.assign(converted, format);
+    }
+    return converted as OpenAPIV3.ParameterObject;
+  }
+
+  private static convertRequestBody(parameters: any[], requestTypes: string[]): OpenAPIV3.RequestBodyObject | undefined {
+    const body = parameters.find(param => param.in === 'body');
+    if (body) {
+      return {
+        ...(body.description ? { description: body.description } : {}),
+        required: Boolean(body.required),
+        content: Object.fromEntries(requestTypes.map(type => [type, { schema: this.convertSchema(body.schema) }])),
+      };
+    }
+
+    const fields = parameters.filter(param => param.in === 'formData');
+    if (!fields.length) return undefined;
+
+    const schema: Record<string, any> = { type: 'object', properties: {} };
+    const required = fields.filter(field => field.required).map(field => field.name);
+    for (const field of fields) {
+      schema.properties[field.name] = {
+        ...this.convertParameter(field).schema,
+        ...(field.description ? { description: field.description } : {}),
+      };
+    }
+    if (required.length) schema.required = required;
+
+    const hasFile = fields.some(field => field.type === 'file');
+    const formTypes = requestTypes.filter(type => type === 'multipart/form-data' || type === 'application/x-www-form-urlencoded');
+    const types = hasFile ? ['multipart/form-data'] : formTypes.length ? formTypes : ['application/x-www-form-urlencoded'];
+
+    return {
+      required: required.length > 0,
+      content: Object.fromEntries(types.map(type => [type, { schema }])),
+    };
+  }
+
+  private static convertResponse(response: Record<string, any>, responseTypes: string[]): OpenAPIV3.ResponseObject {
+    const converted: Record<string, any> = { description: response.description ?? '' };
+    if (response.schema) {
+      converted.content = Object.fromEntries(
+        responseTypes.map(type => [type, { schema: this.convertSchema(response.schema) }])
+      );
+    }
+    if (response.headers) {
+      converted.headers = Object.fromEntries(
+        Object.entries<Record<string, any>>(response.headers).map(([name, header]) => [
+          name,
+          { description: header.description, schema: this.convertSchema(header) },
+        ])
+      );
+    }
+    return converted as OpenAPIV3.ResponseObject;
+  }
+
+  /**
+   * Swagger 2.0 schemas are OpenAPI 3.0 schemas apart from a few extensions
+   */
+  private static convertSchema(schema: any): any {
+    if (Array.isArray(schema)) {
+      return schema.map(item => this.convertSchema(item));
+    }
+    if (typeof schema !== 'object' || schema === null) {
+      return schema;
+    }
+
+    const converted: Record<string, any> = {};
+    for (const [key, value] of Object.entries(schema)) {
+      if (key === '$ref' && typeof value === 'string') {
+        // Cyclic references are left in place by the resolver
+        converted.$ref = value.replace(/^#\/definitions\//, '#/components/schemas/');
+      } else if (key === 'x-nullable') {
+        converted.nullable = value;
+      } else if (key === 'type' && value === 'file') {
+        converted.type = 'string';
+        converted.format = 'binary';
+      } else if (key === 'discriminator' && typeof value === 'string') {
+        converted.discriminator = { propertyName: value };
+      } else if (key === 'properties' && typeof value === 'object' && value !== null) {
+        converted.properties = Object.fromEntries(
+          Object.entries(value).map(([name, property]) => [name, this.convertSchema(property)])
+        );
+      } else if (['example', 'default', 'enum', 'description', 'title', 'pattern', 'format', 'required'].includes(key)) {
+        converted[key] = value;
+      } else {
+        converted[key] = this.convertSchema(value);
+      }
+    }
+    return converted;
+  }
+
+  private static convertSecurityDefinitions(definitions: Record<string, any>): Record<string, OpenAPIV3.SecuritySchemeObject> {
+    const schemes: Record<string, any> = {};
+
+    for (const [name, definition] of Object.entries(definitions)) {
+      const description = definition.description ? { description: definition.description } : {};
+      switch (definition.type) {
+        case 'basic':
+          schemes[name] = { type: 'http', scheme: 'basic', ...description };
+          break;
+        case 'apiKey':
+          schemes[name] = { type: 'apiKey', in: definition.in, name: definition.name, ...description };
+          break;
+        case 'oauth2': {
+          const scopes = definition.scopes || {};
+          const flows: Record<string, any> = {
+            application: { clientCredentials: { tokenUrl: definition.tokenUrl, scopes } },
+            accessCode: {
+              authorizationCode: { authorizationUrl: definition.authorizationUrl, tokenUrl: definition.tokenUrl, scopes },
+            },
+            implicit: { implicit: { authorizationUrl: definition.authorizationUrl, scopes } },
+            password: { password: { tokenUrl: definition.tokenUrl, scopes } },
+          };
+          schemes[name] = { type: 'oauth2', flows: flows[definition.flow] || {}, ...description };
+          break;
+        }
+      }
+    }
+
+    return schemes;
+  }
+}
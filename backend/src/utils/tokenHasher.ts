@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+
+/**
+ * MCP token generation and hashing
+ *
+ * Tokens look like `mcp_<64 hex chars>`. Only a salted SHA-256 hash is stored,
+ * together with the first characters of the token as a lookup prefix.
+ */
+
+const TOKEN_BYTES = 32;
+const SALT_BYTES = 16;
+const PREFIX_LENGTH = 16; // 'mcp_' + 12 hex chars
+
+export interface GeneratedToken {
+  token: string;
+  tokenPrefix: string;
+  tokenSalt: string;
+  tokenHash: string;
+}
+
+export class TokenHasher {
+  /**
+   * Create a new token. The plaintext is only returned here and must not be stored.
+   */
+  static generate(): GeneratedToken {
+    const token = `mcp_${crypto.randomBytes(TOKEN_BYTES).toString('hex')}`;
+    const tokenSalt = crypto.randomBytes(SALT_BYTES).toString('hex');
+
+    return {
+      token,
+      tokenPrefix: this.prefixOf(token),
+      tokenSalt,
+      tokenHash: this.hash(token, tokenSalt),
+    };
+  }
+
+  static prefixOf(token: string): string {
+    return token.substring(0, PREFIX_LENGTH);
+  }
+
+  static hash(token: string, salt: string): string {
+    return crypto.createHash('sha256').update(salt + token).digest('hex');
+  }
+
+  /**
+   * Constant-time comparison against a stored hash
+   */
+  static verify(token: string, salt: string, expectedHash: string): boolean {
+    const actual = Buffer.from(this.hash(token, salt), 'hex');
+    const expected = Buffer.from(expectedHash, 'hex');
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+}
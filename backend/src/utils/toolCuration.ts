@@ -0,0 +1,68 @@
+import type { MCPTool } from './openApiParser.js';
+
+/**
+ * Curation of a generated tool. Stored by generated tool name, so it is kept
+ * when the spec is re-imported; the runtime applies it when listing and
+ * executing tools.
+ */
+export interface ToolOverride {
+  name?: string;
+  description?: string;
+  hiddenParameters?: string[]; // left out of the input schema
+  fixedArguments?: Record<string, any>; // always sent; left out of the input schema
+  defaults?: Record<string, any>; // sent when the caller leaves the argument out
+}
+
+export class ToolCuration {
+  /**
+   * The name MCP clients see
+   */
+  static exposedName(tool: MCPTool, overrides: Record<string, ToolOverride>): string {
+    return overrides[tool.name]?.name || tool.name;
+  }
+
+  /**
+   * Problems with a set of overrides: unknown parameters, clashing names, and
+   * required parameters hidden without a value. Overrides of tools a spec
+   * re-import removed are skipped; they apply again if the tool comes back.
+   */
+  static validate(tools: Record<string, MCPTool>, overrides: Record<string, ToolOverride>): string[] {
+    const issues: string[] = [];
+
+    for (const [toolName, override] of Object.entries(overrides)) {
+      const tool = tools[toolName];
+      if (!tool) continue;
+
+      const properties = Object.keys(tool.inputSchema.properties || {});
+      const required: string[] = tool.inputSchema.required || [];
+      const fixed = Object.keys(override.fixedArguments || {});
+      const defaults = Object.keys(override.defaults || {});
+
+      for (const name of [...(override.hiddenParameters || []), ...fixed, ...defaults]) {
+        if (!properties.includes(name)) {
+          issues.push(`${toolName}: unknown parameter ${name}`);
+        }
+      }
+      for (const name of defaults.filter(name => fixed.includes(name))) {
+        issues.push(`${toolName}: ${name} is both pinned and defaulted`);
+      }
+      for (const name of override.hiddenParameters || []) {
+        if (required.includes(name) && !fixed.includes(name) && !defaults.includes(name)) {
+          issues.push(`${toolName}: required parameter ${name} is hidden without a fixed value or default`);
+        }
+      }
+    }
+
+    const exposed = new Map<string, string>();
+    for (const tool of Object.values(tools)) {
+      const name = this.exposedName(tool, overrides);
+      const other = exposed.get(name);
+      if (other) {
+        issues.push(`${tool.name}: name ${name} is already used by ${other}`);
+      }
+      exposed.set(name, tool.name);
+    }
+
+    return issues;
+  }
+}
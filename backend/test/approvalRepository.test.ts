@@ -0,0 +1,240 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { createTestDatabase, seedConnector, seedMembers } from './helpers/testDatabase.js';
+
+vi.mock('../src/db/index.js', () => createTestDatabase());
+
+const { db } = await import('../src/db/index.js') as unknown as Awaited<ReturnType<typeof createTestDatabase>>;
+const { ApprovalRepository } = await import('../src/db/repositories/approvalRepository.js');
+const { approvalDecisions, approvals, mcpTokens } = await import('../src/db/schema.js');
+
+let connectorId: string;
+let organizationId: string;
+
+beforeAll(async () => {
+  const seeded = await seedConnector(db);
+  connectorId = seeded.connector.id;
+  organizationId = seeded.organization.id;
+});
+
+function createApproval(values: { requiredApprovals?: number; expiresAt?: Date } = {}) {
+  return ApprovalRepository.create({
+    connectorId,
+    requestId: `req-${Math.random().toString(36).slice(2)}`,
+    toolName: 'create_refund',
+    method: 'POST',
+    path: '/refunds',
+    arguments: { amount: 100 },
+    requiredApprovals: values.requiredApprovals ?? 1,
+    expiresAt: values.expiresAt ?? new Date(Date.now() + 60_000),
+  });
+}
+
+function approve(approvalId: string, approverId: string) {
+  return ApprovalRepository.recordVote(approvalId, { approverId, approverRole: 'admin', decision: 'approved' });
+}
+
+describe('ApprovalRepository.list', () => {
+  it('lists approvals of one status, newest first', async () => {
+    const older = await createApproval();
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const newer = await createApproval();
+
+    const pending = (await ApprovalRepository.list('pending')).map(approval => approval.id);
+    expect(pending.indexOf(newer.id)).toBeLessThan(pending.indexOf(older.id));
+    expect(pending.indexOf(older.id)).toBeGreaterThanOrEqual(0);
+    expect((await ApprovalRepository.list('approved')).map(approval => approval.id)).not.toContain(older.id);
+  });
+});
+
+describe('ApprovalRepository.recordVote', () => {
+  it('finalizes once the quorum is reached', async () => {
+    const approval = await createApproval({ requiredApprovals: 2 });
+    const [first, second] = await seedMembers(db, organizationId, 2);
+
+    const firstVote = await approve(approval.id, first.id);
+    expect(firstVote).toMatchObject({ status: 'recorded', finalized: false, approval: { status: 'pending', approvalCount: 1 } });
+
+    const secondVote = await approve(approval.id, second.id);
+    expect(secondVote).toMatchObject({
+      status: 'recorded',
+      finalized: true,
+      approval: { status: 'approved', approvalCount: 2, approverId: second.id },
+    });
+
+    const [third] = await seedMembers(db, organizationId, 1);
+    expect(await approve(approval.id, third.id)).toEqual({ status: 'not_pending' });
+  });
+
+  it('closes the approval on a single rejection', async () => {
+    const approval = await createApproval({ requiredApprovals: 3 });
+    const [approver, rejecter] = await seedMembers(db, organizationId, 2);
+
+    await approve(approval.id, approver.id);
+    const rejection = await ApprovalRepository.recordVote(approval.id, {
+      approverId: rejecter.id,
+      approverRole: 'admin',
+      decision: 'rejected',
+      notes: 'Too large',
+    });
+
+    expect(rejection).toMatchObject({
+      status: 'recorded',
+      finalized: true,
+      approval: { status: 'rejected', approvalCount: 1, approvalNotes: 'Too large' },
+    });
+  });
+
+  it('counts each approver once', async () => {
+    const approval = await createApproval({ requiredApprovals: 2 });
+    const [approver] = await seedMembers(db, organizationId, 1);
+
+    await approve(approval.id, approver.id);
+    expect(await approve(approval.id, approver.id)).toEqual({ status: 'already_decided' });
+    expect((await ApprovalRepository.findById(approval.id))!.approvalCount).toBe(1);
+  });
+
+  it('enforces one decision per approver in the unique index', async () => {
+    const approval = await createApproval();
+    const [approver] = await seedMembers(db, organizationId, 1);
+    const decision = { approvalId: approval.id, approverId: approver.id, approverRole: 'admin', decision: 'approved' };
+
+    await db.insert(approvalDecisions).values(decision);
+    await expect(db.insert(approvalDecisions).values(decision)).rejects.toThrow(/approval_decisions_approver_unique/);
+  });
+
+  it('counts concurrent votes exactly once and finalizes once', async () => {
+    const approval = await createApproval({ requiredApprovals: 3 });
+    const approvers = await seedMembers(db, organizationId, 6);
+
+    const results = await Promise.all(approvers.map(approver => approve(approval.id, approver.id)));
+
+    const recorded = results.filter(result => result.status === 'recorded');
+    expect(recorded).toHaveLength(3);
+    expect(recorded.filter(result => result.finalized)).toHaveLength(1);
+    expect(results.filter(result => result.status === 'not_pending')).toHaveLength(3);
+
+    const stored = await ApprovalRepository.findById(approval.id);
+    expect(stored).toMatchObject({ status: 'approved', approvalCount: 3 });
+    const decisions = await db.select().from(approvalDecisions).where(eq(approvalDecisions.approvalId, approval.id));
+    expect(decisions).toHaveLength(3);
+  });
+
+  it('records concurrent duplicate votes of one approver once', async () => {
+    const approval = await createApproval({ requiredApprovals: 2 });
+    const [approver] = await seedMembers(db, organizationId, 1);
+
+    const results = await Promise.all([approve(approval.id, approver.id), approve(approval.id, approver.id)]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['already_decided', 'recorded']);
+    expect((await ApprovalRepository.findById(approval.id))!.approvalCount).toBe(1);
+  });
+});
+
+describe('ApprovalRepository.expireDue', () => {
+  it('expires pending approvals past their expiry only', async () => {
+    const due = await createApproval({ expiresAt: new Date(Date.now() - 1000) });
+    const open = await createApproval({ expiresAt: new Date(Date.now() + 60_000) });
+    const decided = await createApproval({ expiresAt: new Date(Date.now() + 60_000) });
+    const [approver] = await seedMembers(db, organizationId, 1);
+    await approve(decided.id, approver.id);
+    await db.update(approvals).set({ expiresAt: new Date(Date.now() - 1000) }).where(eq(approvals.id, decided.id));
+
+    const expired = await ApprovalRepository.expireDue();
+
+    expect(expired.map(row => row.id)).toEqual([due.id]);
+    expect((await ApprovalRepository.findById(due.id))!.status).toBe('expired');
+    expect((await ApprovalRepository.findById(open.id))!.status).toBe('pending');
+    expect((await ApprovalRepository.findById(decided.id))!.status).toBe('approved');
+  });
+
+  it('refuses votes on an approval past its expiry before the sweep runs', async () => {
+    const approval = await createApproval({ expiresAt: new Date(Date.now() - 1000) });
+    const [approver] = await seedMembers(db, organizationId, 1);
+
+    expect(await approve(approval.id, approver.id)).toEqual({ status: 'not_pending' });
+  });
+});
+
+describe('ApprovalRepository.autoReject', () => {
+  it('rejects the approval and records a system decision in the trail', async () => {
+    const approval = await createApproval();
+
+    const rejected = await ApprovalRepository.autoReject(approval.id, 'Auto-rejected: no decision within 30 minutes');
+
+    expect(rejected).toMatchObject({ status: 'rejected', approvalNotes: 'Auto-rejected: no decision within 30 minutes' });
+    const decisions = await ApprovalRepository.listDecisions([approval.id]);
+    expect(decisions).toHaveLength(1);
+    expect(decisions[0]).toMatchObject({
+      approverId: null,
+      approverEmail: null,
+      approverRole: 'system',
+      decision: 'rejected',
+    });
+  });
+
+  it('leaves decided approvals and their trail alone', async () => {
+    const approval = await createApproval();
+    const [approver] = await seedMembers(db, organizationId, 1);
+    await approve(approval.id, approver.id);
+
+    expect(await ApprovalRepository.autoReject(approval.id, 'Auto-rejected')).toBeUndefined();
+    expect((await ApprovalRepository.findById(approval.id))!.status).toBe('approved');
+    expect(await ApprovalRepository.listDecisions([approval.id])).toHaveLength(1);
+  });
+});
+
+describe('ApprovalRepository.claimExecution', () => {
+  it('lets one claim of an approved call through', async () => {
+    const approval = await createApproval();
+    const [approver] = await seedMembers(db, organizationId, 1);
+    expect(await ApprovalRepository.claimExecution(approval.id)).toBeUndefined(); // still pending
+    await approve(approval.id, approver.id);
+
+    const claims = await Promise.all([
+      ApprovalRepository.claimExecution(approval.id),
+      ApprovalRepository.claimExecution(approval.id),
+    ]);
+
+    expect(claims.filter(Boolean)).toHaveLength(1);
+    expect((await ApprovalRepository.findById(approval.id))!.executionStatus).toBe('executing');
+  });
+
+  it('keeps the first recorded outcome', async () => {
+    const approval = await createApproval();
+    const [approver] = await seedMembers(db, organizationId, 1);
+    await approve(approval.id, approver.id);
+    await ApprovalRepository.claimExecution(approval.id);
+
+    await ApprovalRepository.recordExecution(approval.id, { status: 'executed', result: { id: 'ref_1' } });
+    expect(await ApprovalRepository.recordExecution(approval.id, { status: 'failed', error: 'timeout' })).toBeUndefined();
+
+    expect(await ApprovalRepository.claimExecution(approval.id)).toBeUndefined();
+    expect(await ApprovalRepository.findById(approval.id)).toMatchObject({
+      executionStatus: 'executed',
+      executionResult: { id: 'ref_1' },
+      executionError: null,
+    });
+  });
+});
+
+describe('ApprovalRepository.findByRequestId', () => {
+  it('only finds calls made with the given token', async () => {
+    const [owner, other] = await db.insert(mcpTokens).values([
+      { connectorId, tokenPrefix: 'mcp_owner', tokenHash: 'x', tokenSalt: 'x' },
+      { connectorId, tokenPrefix: 'mcp_other', tokenHash: 'x', tokenSalt: 'x' },
+    ]).returning();
+    const approval = await ApprovalRepository.create({
+      connectorId,
+      requestId: 'req-token-scoped',
+      toolName: 'create_refund',
+      method: 'POST',
+      path: '/refunds',
+      arguments: {},
+      tokenId: owner.id,
+    });
+
+    expect((await ApprovalRepository.findByRequestId(connectorId, 'req-token-scoped', owner.id))?.id).toBe(approval.id);
+    expect(await ApprovalRepository.findByRequestId(connectorId, 'req-token-scoped', other.id)).toBeUndefined();
+  });
+});
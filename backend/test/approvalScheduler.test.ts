@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import axios from 'axios';
+import { eq } from 'drizzle-orm';
+import { createTestDatabase, seedConnector } from './helpers/testDatabase.js';
+
+vi.mock('../src/db/index.js', () => createTestDatabase());
+
+const { db } = await import('../src/db/index.js') as unknown as Awaited<ReturnType<typeof createTestDatabase>>;
+const { ApprovalRepository } = await import('../src/db/repositories/approvalRepository.js');
+const { GovernanceRepository } = await import('../src/db/repositories/governanceRepository.js');
+const { invocationLogs } = await import('../src/db/schema.js');
+const { ApprovalScheduler } = await import('../src/utils/approvalScheduler.js');
+const { RuntimeClient } = await import('../src/utils/runtimeClient.js');
+
+const MINUTE = 60_000;
+
+let scheduler: InstanceType<typeof ApprovalScheduler>;
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  // Only the clock is faked: the database still runs on real timers
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.spyOn(axios, 'post').mockResolvedValue({ status: 204 });
+  vi.spyOn(RuntimeClient, 'notifyDecision').mockResolvedValue();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  scheduler = new ApprovalScheduler();
+});
+
+afterEach(() => {
+  scheduler.stop();
+  vi.useRealTimers();
+});
+
+/**
+ * A pending approval on a new connector with these escalation rules
+ */
+async function pendingApproval(approvalEscalationRules: unknown[], expiresInMinutes = 24 * 60) {
+  const { connector } = await seedConnector(db);
+  await GovernanceRepository.createDefault(connector.id);
+  await GovernanceRepository.update(connector.id, { approvalEscalationRules });
+  return ApprovalRepository.create({
+    connectorId: connector.id,
+    requestId: `req-${Math.random().toString(36).slice(2)}`,
+    toolName: 'create_refund',
+    method: 'POST',
+    path: '/refunds',
+    arguments: { amount: 100 },
+    requiredApprovals: 1,
+    expiresAt: new Date(Date.now() + expiresInMinutes * MINUTE),
+  });
+}
+
+/**
+ * Sweep with the clock this many minutes after the approval was created
+ */
+async function sweepAfter(approval: { createdAt: Date }, minutes: number) {
+  vi.setSystemTime(approval.createdAt.getTime() + minutes * MINUTE);
+  await scheduler.runOnce();
+}
+
+function webhookCalls(url: string) {
+  return vi.mocked(axios.post).mock.calls.filter(([calledUrl]) => calledUrl === url);
+}
+
+describe('ApprovalScheduler.start', () => {
+  it('sweeps on every interval until stopped', () => {
+    vi.useRealTimers();
+    vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] });
+    const runOnce = vi.spyOn(scheduler, 'runOnce').mockResolvedValue();
+
+    scheduler.start(1000);
+    scheduler.start(1000);
+    vi.advanceTimersByTime(3500);
+    scheduler.stop();
+    vi.advanceTimersByTime(3000);
+
+    expect(runOnce).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('ApprovalScheduler.runOnce', () => {
+  it('expires approvals past their expiry and tells the runtime', async () => {
+    const approval = await pendingApproval([], 10);
+
+    await sweepAfter(approval, 9);
+    expect((await ApprovalRepository.findById(approval.id))?.status).toBe('pending');
+
+    await sweepAfter(approval, 11);
+    expect((await ApprovalRepository.findById(approval.id))?.status).toBe('expired');
+    expect(RuntimeClient.notifyDecision).toHaveBeenCalledWith(expect.objectContaining({ id: approval.id, status: 'expired' }));
+    const [log] = await db.select().from(invocationLogs).where(eq(invocationLogs.approvalId, approval.id));
+    expect(log).toMatchObject({ finalDecision: 'expired', errorMessage: 'Approval expired without a decision' });
+  });
+
+  it('escalates once each rule is due and auto-rejects at the reject rule', async () => {
+    const webhookUrl = 'https://hooks.example.com/finance';
+    const approval = await pendingApproval([
+      { afterMinutes: 60, action: 'reject' },
+      { afterMinutes: 15, action: 'notify', notifyRole: 'finance', webhookUrl },
+    ]);
+
+    await sweepAfter(approval, 14);
+    expect((await ApprovalRepository.findById(approval.id))?.escalationLevel).toBe(0);
+
+    await sweepAfter(approval, 16);
+    await sweepAfter(approval, 20);
+    expect(await ApprovalRepository.findById(approval.id)).toMatchObject({ status: 'pending', escalationLevel: 1, escalatedTo: 'finance' });
+    await vi.waitFor(() => expect(webhookCalls(webhookUrl)).toHaveLength(1));
+    const [[, payload, options]] = webhookCalls(webhookUrl);
+    expect(payload).toMatchObject({
+      event: 'approval.escalated',
+      role: 'finance',
+      afterMinutes: 15,
+      approval: { id: approval.id, toolName: 'create_refund', method: 'POST', path: '/refunds' },
+    });
+    expect(options).toMatchObject({ timeout: 5000, maxRedirects: 0 });
+
+    await sweepAfter(approval, 61);
+    const rejected = await ApprovalRepository.findById(approval.id);
+    expect(rejected).toMatchObject({ status: 'rejected', approvalNotes: 'Auto-rejected: no decision within 60 minutes' });
+    expect(RuntimeClient.notifyDecision).toHaveBeenCalledWith(expect.objectContaining({ id: approval.id, status: 'rejected' }));
+    const [log] = await db.select().from(invocationLogs).where(eq(invocationLogs.approvalId, approval.id));
+    expect(log).toMatchObject({ finalDecision: 'rejected' });
+  });
+
+  it('rejects without notifying when a sweep finds the reject rule already due', async () => {
+    const webhookUrl = 'https://hooks.example.com/late';
+    const approval = await pendingApproval([
+      { afterMinutes: 15, action: 'notify', notifyRole: 'finance', webhookUrl },
+      { afterMinutes: 60, action: 'reject' },
+    ]);
+
+    await sweepAfter(approval, 90);
+
+    expect((await ApprovalRepository.findById(approval.id))?.status).toBe('rejected');
+    expect(webhookCalls(webhookUrl)).toHaveLength(0);
+  });
+
+  it('escalates even when the webhook fails', async () => {
+    const webhookUrl = 'https://hooks.example.com/down';
+    vi.mocked(axios.post).mockRejectedValue(new Error('connect ECONNREFUSED'));
+    const approval = await pendingApproval([{ afterMinutes: 15, action: 'notify', notifyRole: 'finance', webhookUrl }]);
+
+    await sweepAfter(approval, 16);
+
+    expect((await ApprovalRepository.findById(approval.id))?.escalationLevel).toBe(1);
+    await vi.waitFor(() => expect(console.error).toHaveBeenCalledWith(
+      `Escalation webhook failed for approval ${approval.id}:`,
+      'connect ECONNREFUSED'
+    ));
+  });
+
+  it('does not call webhooks on private networks or with other schemes', async () => {
+    const approval = await pendingApproval([
+      { afterMinutes: 15, action: 'notify', webhookUrl: 'http://127.0.0.1:8080/hook' },
+      { afterMinutes: 20, action: 'notify', webhookUrl: 'file:///etc/passwd' },
+    ]);
+
+    await sweepAfter(approval, 30);
+
+    expect((await ApprovalRepository.findById(approval.id))?.escalationLevel).toBe(2);
+    await vi.waitFor(() => expect(console.error).toHaveBeenCalledWith(
+      `Escalation webhook failed for approval ${approval.id}:`,
+      '127.0.0.1 is a private network address'
+    ));
+    expect(console.error).toHaveBeenCalledWith(`Escalation webhook skipped for approval ${approval.id}: not an http(s) URL`);
+    expect(axios.post).not.toHaveBeenCalled();
+  });
+});
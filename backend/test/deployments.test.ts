@@ -0,0 +1,277 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { createTestDatabase, seedConnector } from './helpers/testDatabase.js';
+import { signIn, startApi, TestApi } from './helpers/api.js';
+
+vi.mock('../src/db/index.js', () => createTestDatabase());
+
+const { db } = await import('../src/db/index.js') as unknown as Awaited<ReturnType<typeof createTestDatabase>>;
+const { DeploymentRepository } = await import('../src/db/repositories/deploymentRepository.js');
+const { GovernanceRepository } = await import('../src/db/repositories/governanceRepository.js');
+const { connectors, deployments } = await import('../src/db/schema.js');
+const { DeploymentSnapshots } = await import('../src/utils/deploymentSnapshot.js');
+const { RuntimeClient } = await import('../src/utils/runtimeClient.js');
+const { default: connectorsRouter } = await import('../src/routes/connectors.js');
+
+const tool = (name: string, method: string, path: string) => ({
+  name,
+  description: name,
+  inputSchema: { type: 'object', properties: {} },
+  category: method === 'GET' ? 'READ' : 'WRITE',
+  method,
+  path,
+  dangerTags: [],
+  parameterLocations: {},
+});
+
+let api: TestApi;
+let session: string;
+let connectorId: string;
+
+beforeAll(async () => {
+  const { owner, organization, connector } = await seedConnector(db);
+  connectorId = connector.id;
+  await GovernanceRepository.createDefault(connectorId);
+  await db.update(connectors).set({
+    toolDefinitions: {
+      list_accounts: tool('list_accounts', 'GET', '/accounts'),
+      create_transfer: tool('create_transfer', 'POST', '/transfers'),
+    },
+    selectedEndpoints: ['/accounts'],
+  }).where(eq(connectors.id, connectorId));
+
+  api = await startApi({ '/api/connectors': connectorsRouter });
+  session = await signIn(owner.id, organization.id);
+});
+
+afterAll(() => api.close());
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.spyOn(RuntimeClient, 'registerConnector').mockResolvedValue({ mcpUrl: 'http://runtime.test/mcp', versions: [] });
+});
+
+function post(path: string, body: unknown = {}) {
+  return fetch(`${api.url}/api/connectors/${connectorId}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session}` },
+    body: JSON.stringify(body),
+  });
+}
+
+async function statuses() {
+  const rows = await DeploymentRepository.list(connectorId);
+  return Object.fromEntries(rows.map(row => [row.version, row.status]));
+}
+
+describe('deploy, activate and roll back', () => {
+  it('freezes tools and governance into versions, stages and switches between them', async () => {
+    const first = await post('/deploy');
+    expect(first.status).toBe(200);
+    expect((await first.json()).deployment).toMatchObject({ version: 1, status: 'active', tools: ['list_accounts'] });
+
+    await GovernanceRepository.update(connectorId, { rateLimitPerMinute: 10 });
+    await db.update(connectors).set({ selectedEndpoints: ['/accounts', '/transfers'] }).where(eq(connectors.id, connectorId));
+    const staged = await post('/deploy', { activate: false });
+    expect((await staged.json()).deployment).toMatchObject({
+      version: 2,
+      status: 'staged',
+      tools: ['list_accounts', 'create_transfer'],
+    });
+    expect(await statuses()).toEqual({ 1: 'active', 2: 'staged' });
+
+    const [v1, v2] = [1, 2].map(version => vi.mocked(RuntimeClient.registerConnector).mock.calls[version - 1][2]);
+    expect(v1.governance.rateLimitPerMinute).toBe(60);
+    expect(v2.governance.rateLimitPerMinute).toBe(10);
+
+    expect((await post('/deployments/2/activate')).status).toBe(200);
+    expect(await statuses()).toEqual({ 1: 'inactive', 2: 'active' });
+
+    // Rolling back pushes version 1 again, as it was deployed
+    const rollback = await post('/deployments/1/activate');
+    expect(rollback.status).toBe(200);
+    expect(await statuses()).toEqual({ 1: 'active', 2: 'inactive' });
+    const [, version, snapshot, , activate] = vi.mocked(RuntimeClient.registerConnector).mock.calls.at(-1)!;
+    expect({ version, tools: snapshot.tools.map(tool => tool.name), activate }).toEqual({ version: 1, tools: ['list_accounts'], activate: true });
+  });
+
+  it('marks a version the runtime refused as failed', async () => {
+    vi.mocked(RuntimeClient.registerConnector).mockRejectedValue(new Error('Runtime registration failed: bad tools'));
+
+    const response = await post('/deploy');
+
+    expect(response.status).toBe(502);
+    const { deployment } = await response.json();
+    expect(deployment).toMatchObject({ status: 'failed', errorMessage: 'Runtime registration failed: bad tools' });
+    expect((await post(`/deployments/${deployment.version}/activate`)).status).toBe(502);
+  });
+
+  it('answers 404 for versions that do not exist', async () => {
+    expect((await post('/deployments/99/activate')).status).toBe(404);
+  });
+});
+
+describe('POST /api/connectors/:id/reimport', () => {
+  it('records the confirmed spec as a pending version that activating serves', async () => {
+    const latest = await DeploymentRepository.findLatest(connectorId);
+    const spec = {
+      openapi: '3.0.3',
+      info: { title: 'Bank', version: '2.0.0' },
+      paths: {
+        '/accounts': { get: { operationId: 'list_accounts', responses: { 200: { description: 'OK' } } } },
+        '/statements': { get: { operationId: 'list_statements', responses: { 200: { description: 'OK' } } } },
+      },
+    };
+
+    const response = await post('/reimport', { openApiContent: JSON.stringify(spec), confirm: true });
+
+    expect(response.status).toBe(200);
+    const { confirmed, deployment } = await response.json();
+    expect(confirmed).toBe(true);
+    expect(deployment).toMatchObject({ version: latest!.version + 1, status: 'pending', tools: ['list_accounts'] });
+    expect(RuntimeClient.registerConnector).not.toHaveBeenCalled();
+
+    expect((await post(`/deployments/${deployment.version}/activate`)).status).toBe(200);
+    const [, version, snapshot] = vi.mocked(RuntimeClient.registerConnector).mock.calls[0];
+    expect({ version, tools: snapshot.tools.map(tool => tool.name) }).toEqual({ version: deployment.version, tools: ['list_accounts'] });
+    expect(snapshot.governance).toMatchObject({ rateLimitPerMinute: 10 });
+  });
+});
+
+describe('DeploymentRepository.createNextVersion', () => {
+  it('gives concurrent deploys distinct versions', async () => {
+    const { connector } = await seedConnector(db);
+
+    const created = await Promise.all([1, 2, 3].map(() =>
+      DeploymentRepository.createNextVersion({ connectorId: connector.id, status: 'pending', snapshot: {} })
+    ));
+
+    expect(created.map(deployment => deployment.version).sort()).toEqual([1, 2, 3]);
+  });
+
+  it('refuses a duplicate version', async () => {
+    const [existing] = await db.select().from(deployments).limit(1);
+
+    await expect(DeploymentRepository.create({ connectorId: existing.connectorId, version: existing.version, status: 'pending' }))
+      .rejects.toThrow();
+  });
+});
+
+describe('DeploymentSnapshots.registration', () => {
+  const frozen = {
+    enabled: true,
+    dryRunMode: false,
+    allowedVerbs: ['GET', 'POST'],
+    allowedPaths: [],
+    rateLimitPerMinute: 60,
+    numericCeilings: { amount: 1000 },
+    requireApprovalForWrites: false,
+    responseValidation: 'flag',
+    aiReviewerMode: 'ADVISORY',
+    aiReviewerFallback: 'REQUIRE_HUMAN_APPROVAL',
+    aiReviewerAllowMaxRisk: 30,
+    aiReviewerApprovalMinRisk: 31,
+    aiReviewerBlockMinRisk: 71,
+    quorumApproverRoles: ['admin', 'finance'],
+    approvalTtlMinutes: 1440,
+  };
+  const snapshot = {
+    baseUrl: 'https://api.example.com',
+    tools: [tool('list_accounts', 'GET', '/accounts'), tool('create_transfer', 'POST', '/transfers')] as any[],
+    toolOverrides: {},
+    responseShaping: {},
+    governance: frozen,
+  };
+
+  async function governanceWith(rules: Record<string, unknown>) {
+    const [connector] = await db.select().from(connectors).where(eq(connectors.id, connectorId));
+    const current = { ...(await GovernanceRepository.findByConnectorId(connectorId))!, ...frozen, ...rules };
+    return DeploymentSnapshots.registration(connector, 1, snapshot, current as any, true).governance as Record<string, any>;
+  }
+
+  it('serves the frozen rules when the current ones are looser', async () => {
+    const governance = await governanceWith({
+      allowedVerbs: ['GET', 'POST', 'DELETE'],
+      rateLimitPerMinute: 600,
+      numericCeilings: {},
+      responseValidation: 'off',
+      aiReviewerFallback: 'ALLOW',
+      aiReviewerAllowMaxRisk: 50,
+      aiReviewerApprovalMinRisk: 51,
+      aiReviewerBlockMinRisk: 90,
+      quorumApproverRoles: [],
+      approvalTtlMinutes: 10080,
+    });
+
+    expect(governance).toMatchObject({
+      allowedVerbs: ['GET', 'POST'],
+      rateLimitPerMinute: 60,
+      numericCeilings: { amount: 1000 },
+      responseValidation: 'flag',
+      aiReviewerMode: 'ADVISORY',
+      aiReviewerFallback: 'REQUIRE_HUMAN_APPROVAL',
+      aiReviewerAllowMaxRisk: 30,
+      aiReviewerApprovalMinRisk: 31,
+      aiReviewerBlockMinRisk: 71,
+      quorumApproverRoles: ['admin', 'finance'],
+      approvalTtlMinutes: 1440,
+    });
+  });
+
+  it('applies the kill switch and stricter current rules', async () => {
+    const governance = await governanceWith({
+      enabled: false,
+      requireApprovalForWrites: true,
+      allowedVerbs: ['GET'],
+      rateLimitPerMinute: 5,
+      numericCeilings: { amount: 100, quantity: 10 },
+      responseValidation: 'block',
+    });
+
+    expect(governance).toMatchObject({
+      enabled: false,
+      requireApprovalForWrites: true,
+      allowedVerbs: ['GET'],
+      rateLimitPerMinute: 5,
+      numericCeilings: { amount: 100, quantity: 10 },
+      responseValidation: 'block',
+    });
+  });
+
+  it('applies a stricter current AI Reviewer and approval policy', async () => {
+    const governance = await governanceWith({
+      aiReviewerMode: 'ENFORCING',
+      aiReviewerFallback: 'BLOCK',
+      aiReviewerAllowMaxRisk: 20,
+      aiReviewerApprovalMinRisk: 21,
+      aiReviewerBlockMinRisk: 50,
+      quorumApproverRoles: ['finance', 'member'],
+      approvalTtlMinutes: 60,
+    });
+
+    expect(governance).toMatchObject({
+      aiReviewerMode: 'ENFORCING',
+      aiReviewerFallback: 'BLOCK',
+      aiReviewerAllowMaxRisk: 20,
+      aiReviewerApprovalMinRisk: 21,
+      aiReviewerBlockMinRisk: 50,
+      quorumApproverRoles: ['finance'],
+      approvalTtlMinutes: 60,
+    });
+  });
+
+  it('takes each stricter risk threshold on its own', async () => {
+    const governance = await governanceWith({ aiReviewerAllowMaxRisk: 10, aiReviewerApprovalMinRisk: 40, aiReviewerBlockMinRisk: 60 });
+
+    expect(governance).toMatchObject({ aiReviewerAllowMaxRisk: 10, aiReviewerApprovalMinRisk: 31, aiReviewerBlockMinRisk: 60 });
+  });
+
+  it('lets the current approver roles apply when they share none with the frozen ones', async () => {
+    expect(await governanceWith({ quorumApproverRoles: ['security'] })).toMatchObject({ quorumApproverRoles: ['security'] });
+  });
+
+  it('allows only the tool paths both path allowlists allow', async () => {
+    expect(await governanceWith({ allowedPaths: ['/accounts*'] })).toMatchObject({ allowedPaths: ['/accounts'] });
+    expect(await governanceWith({ allowedPaths: ['/statements'] })).toMatchObject({ allowedPaths: [], allowedVerbs: [] });
+  });
+});
@@ -0,0 +1,46 @@
+import express, { Router } from 'express';
+import { AddressInfo } from 'net';
+import { SessionRepository } from '../../src/db/repositories/sessionRepository.js';
+import { SessionAuth } from '../../src/utils/sessionAuth.js';
+
+// A session signing secret for the test run, read by SessionAuth on use
+process.env.JWT_SECRET ??= 'test-session-secret';
+
+export interface TestApi {
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * The control plane API as src/index.ts mounts it (sessions, then the routers
+ * by path), listening on a free local port. For tests that put the test
+ * database in place (see testDatabase.ts).
+ */
+export async function startApi(routers: Record<string, Router>): Promise<TestApi> {
+  const app = express();
+  app.use(express.json());
+  app.use('/api', SessionAuth.requireSession);
+  for (const [path, router] of Object.entries(routers)) {
+    app.use(path, router);
+  }
+
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+/**
+ * A bearer token for a new session of the user in the organization
+ */
+export async function signIn(userId: string, organizationId: string): Promise<string> {
+  const session = await SessionRepository.create({
+    userId,
+    organizationId,
+    expiresAt: new Date(Date.now() + SessionAuth.ttlMs()),
+  });
+  return SessionAuth.issue(session);
+}
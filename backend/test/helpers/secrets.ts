@@ -0,0 +1,32 @@
+import crypto from 'crypto';
+import { vi } from 'vitest';
+
+export function masterKey(): string {
+  return crypto.randomBytes(32).toString('base64');
+}
+
+/**
+ * Fresh copies of the control plane's SecretEnvelope and of the runtime's,
+ * which decrypts, keyed with the master keys given (current first). Both read
+ * their keys once, so this resets the module registry: load the database
+ * afterwards, not before.
+ */
+export async function loadSecretEnvelopes(current: string, ...previous: string[]) {
+  delete process.env.SECRETS_MASTER_KEY_FILE;
+  process.env.SECRETS_MASTER_KEY = current;
+  process.env.SECRETS_PREVIOUS_MASTER_KEYS = previous.join(',');
+  vi.resetModules();
+
+  const { SecretEnvelope } = await import('../../src/utils/secretEnvelope.js');
+  const { SecretEnvelope: RuntimeSecretEnvelope } = await import('../../../mcp-runtime/src/utils/secretEnvelope.js');
+  return { controlPlane: SecretEnvelope, runtime: RuntimeSecretEnvelope };
+}
+
+/**
+ * Change the first character of one of an envelope's dot-separated parts
+ */
+export function tamper(envelope: string, part: number): string {
+  const parts = envelope.split('.');
+  parts[part] = (parts[part][0] === 'A' ? 'B' : 'A') + parts[part].slice(1);
+  return parts.join('.');
+}
@@ -0,0 +1,53 @@
+import { fileURLToPath } from 'url';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+import * as schema from '../../src/db/schema.js';
+
+/**
+ * An in-memory Postgres (pglite) with every migration in ./drizzle applied.
+ * Tests put it in place of the shared pool with
+ * `vi.mock('../src/db/index.js', () => createTestDatabase())`.
+ */
+export async function createTestDatabase() {
+  const client = new PGlite();
+  const db = drizzle(client, { schema });
+  await migrate(db, { migrationsFolder: fileURLToPath(new URL('../../drizzle', import.meta.url)) });
+  return { db, pool: client };
+}
+
+export type TestDatabase = Awaited<ReturnType<typeof createTestDatabase>>['db'];
+
+/**
+ * A user, an organization with them as admin, and a connector in it
+ */
+export async function seedConnector(db: TestDatabase) {
+  const [owner] = await db.insert(schema.users).values({ email: `owner-${Math.random().toString(36).slice(2)}@example.com`, passwordHash: 'x' }).returning();
+  const [organization] = await db.insert(schema.organizations).values({ name: 'Acme', ownerId: owner.id }).returning();
+  await db.insert(schema.organizationMembers).values({ organizationId: organization.id, userId: owner.id, role: 'admin' });
+  const [connector] = await db.insert(schema.connectors).values({
+    organizationId: organization.id,
+    name: 'Billing',
+    baseUrl: 'https://api.example.com',
+    authType: 'bearer_token',
+    encryptedAuthSecret: 'x',
+    openApiSpec: {},
+  }).returning();
+  return { owner, organization, connector };
+}
+
+/**
+ * Users who are members of the organization
+ */
+export async function seedMembers(db: TestDatabase, organizationId: string, count: number, role = 'admin') {
+  const members = [];
+  for (let i = 0; i < count; i++) {
+    const [user] = await db
+      .insert(schema.users)
+      .values({ email: `approver-${i}-${Math.random().toString(36).slice(2)}@example.com`, passwordHash: 'x' })
+      .returning();
+    await db.insert(schema.organizationMembers).values({ organizationId, userId: user.id, role });
+    members.push(user);
+  }
+  return members;
+}
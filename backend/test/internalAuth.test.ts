@@ -0,0 +1,120 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import crypto from 'crypto';
+import express from 'express';
+import { readFileSync } from 'fs';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createTestDatabase } from './helpers/testDatabase.js';
+import { InternalAuth, InternalAuthError, InternalParty, RawBodyRequest } from '../src/utils/internalAuth.js';
+
+vi.mock('../src/db/index.js', () => createTestDatabase());
+
+const { NonceRepository } = await import('../src/db/repositories/nonceRepository.js');
+const { default: internalRouter } = await import('../src/routes/internal.js');
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  process.env.INTERNAL_API_KEY ??= crypto.randomBytes(32).toString('base64');
+
+  const app = express();
+  app.use(express.json());
+  app.use('/internal', internalRouter);
+  server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/internal`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+/**
+ * A request as `self` sent it and the other side received it
+ */
+function signedRequest(self: InternalParty, path: string, body = '{"ok":true}'): RawBodyRequest {
+  InternalAuth.configure(self);
+  const headers = InternalAuth.signRequest('POST', path, body);
+  return { method: 'POST', originalUrl: path, headers, rawBody: Buffer.from(body) } as unknown as RawBodyRequest;
+}
+
+describe('InternalAuth', () => {
+  it('is mirrored verbatim in the runtime', () => {
+    const read = (path: string) => readFileSync(new URL(path, import.meta.url), 'utf8');
+
+    expect(read('../../mcp-runtime/src/utils/internalAuth.ts')).toBe(read('../src/utils/internalAuth.ts'));
+  });
+
+  it('accepts a request signed by the other side', async () => {
+    const request = signedRequest('runtime', '/internal/logs');
+
+    InternalAuth.configure('control-plane');
+    await expect(InternalAuth.verifyRequest(request)).resolves.toBeUndefined();
+  });
+
+  it('rejects a request passed back to the side that signed it', async () => {
+    const request = signedRequest('control-plane', '/internal/connectors/register');
+
+    InternalAuth.configure('control-plane');
+    await expect(InternalAuth.verifyRequest(request)).rejects.toThrow(InternalAuthError);
+  });
+
+  it('rejects a replayed request', async () => {
+    const request = signedRequest('runtime', '/internal/logs');
+
+    InternalAuth.configure('control-plane');
+    await InternalAuth.verifyRequest(request);
+    await expect(InternalAuth.verifyRequest(request)).rejects.toThrow('Internal API request replayed');
+  });
+
+  it('rejects replays through the database nonce store', async () => {
+    const request = signedRequest('runtime', '/internal/logs');
+
+    InternalAuth.configure('control-plane', { nonces: NonceRepository });
+    await InternalAuth.verifyRequest(request);
+    await expect(InternalAuth.verifyRequest(request)).rejects.toThrow('Internal API request replayed');
+  });
+
+  it('binds response signatures to their direction', () => {
+    InternalAuth.configure('control-plane');
+    const signature = InternalAuth.signResponse('nonce-1', '{"connectors":[]}');
+
+    expect(InternalAuth.verifyResponse('nonce-1', '{"connectors":[]}', signature)).toBe(false);
+    InternalAuth.configure('runtime');
+    expect(InternalAuth.verifyResponse('nonce-1', '{"connectors":[]}', signature)).toBe(true);
+    expect(InternalAuth.verifyResponse('nonce-2', '{"connectors":[]}', signature)).toBe(false);
+  });
+});
+
+describe('NonceRepository', () => {
+  it('records a nonce once', async () => {
+    const forgetAt = new Date(Date.now() + 60_000);
+
+    expect(await NonceRepository.remember('nonce-a', forgetAt)).toBe(true);
+    expect(await NonceRepository.remember('nonce-a', forgetAt)).toBe(false);
+    expect(await NonceRepository.remember('nonce-b', forgetAt)).toBe(true);
+  });
+});
+
+describe('POST /internal/nonces', () => {
+  const remember = (body: Record<string, unknown>) => fetch(`${baseUrl}/nonces`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  it('records a nonce the runtime received once, apart from the control plane\'s', async () => {
+    const forgetAt = new Date(Date.now() + 60_000);
+    expect(await NonceRepository.remember('nonce-c', forgetAt)).toBe(true);
+
+    const first = await remember({ nonce: 'nonce-c', forgetAt: forgetAt.toISOString() });
+    const replay = await remember({ nonce: 'nonce-c', forgetAt: forgetAt.toISOString() });
+
+    expect(await first.json()).toEqual({ recorded: true });
+    expect(await replay.json()).toEqual({ recorded: false });
+  });
+
+  it('rejects malformed nonces', async () => {
+    expect((await remember({ nonce: 'x'.repeat(57), forgetAt: new Date().toISOString() })).status).toBe(400);
+    expect((await remember({ nonce: 'nonce-d', forgetAt: 'tomorrow' })).status).toBe(400);
+  });
+});
@@ -0,0 +1,71 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import crypto from 'crypto';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createTestDatabase, seedConnector } from './helpers/testDatabase.js';
+import { InternalAuth } from '../src/utils/internalAuth.js';
+
+vi.mock('../src/db/index.js', () => createTestDatabase());
+
+const { db } = await import('../src/db/index.js') as unknown as Awaited<ReturnType<typeof createTestDatabase>>;
+const { NonceRepository } = await import('../src/db/repositories/nonceRepository.js');
+const { ApprovalRepository } = await import('../src/db/repositories/approvalRepository.js');
+const { default: internalRouter, internalBodyParser } = await import('../src/routes/internal.js');
+
+let server: Server;
+let baseUrl: string;
+let connectorId: string;
+
+beforeAll(async () => {
+  process.env.INTERNAL_API_KEY ??= crypto.randomBytes(32).toString('base64');
+  InternalAuth.configure('control-plane', { nonces: NonceRepository });
+  connectorId = (await seedConnector(db)).connector.id;
+
+  // Mounted as in src/index.ts
+  const app = express();
+  app.use('/internal', internalBodyParser());
+  app.use(express.json());
+  app.use('/internal', InternalAuth.requireSignature, internalRouter);
+  server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+/**
+ * POST a body signed by the runtime
+ */
+function postAsRuntime(path: string, payload: unknown) {
+  const body = JSON.stringify(payload);
+  InternalAuth.configure('runtime');
+  const headers = InternalAuth.signRequest('POST', path, body);
+  InternalAuth.configure('control-plane');
+
+  return fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body,
+  });
+}
+
+describe('POST /internal/approvals', () => {
+  it('queues calls carrying file uploads larger than the default body limit', async () => {
+    const file = crypto.randomBytes(300 * 1024).toString('base64');
+
+    const response = await postAsRuntime('/internal/approvals', {
+      connectorId,
+      requestId: 'req-upload',
+      toolName: 'upload_document',
+      method: 'POST',
+      path: '/documents',
+      arguments: { file: { name: 'contract.pdf', data: file } },
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    });
+
+    expect(response.status).toBe(201);
+    const { id } = await response.json();
+    expect((await ApprovalRepository.findById(id))?.arguments).toEqual({ file: { name: 'contract.pdf', data: file } });
+  });
+});
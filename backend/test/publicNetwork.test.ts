@@ -0,0 +1,51 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import axios from 'axios';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { publicNetworkGuard } from '../src/utils/publicNetwork.js';
+
+let server: http.Server;
+let port: number;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => res.end('ok'));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+afterEach(() => {
+  delete process.env.TEST_ALLOW_PRIVATE_NETWORKS;
+});
+
+describe('publicNetworkGuard', () => {
+  const network = publicNetworkGuard('TEST_ALLOW_PRIVATE_NETWORKS');
+
+  it('refuses private IP literals', () => {
+    expect(() => network.assertPublicHost('169.254.169.254')).toThrow('private network address');
+    expect(() => network.assertPublicHost('[::ffff:10.0.0.1]')).toThrow('private network address');
+  });
+
+  it('lets public addresses through', () => {
+    expect(() => network.assertPublicHost('93.184.216.34')).not.toThrow();
+    expect(() => network.assertPublicHost('[::ffff:93.184.216.34]')).not.toThrow();
+    expect(() => network.assertPublicHost('[2606:2800:220:1:248:1893:25c8:1946]')).not.toThrow();
+  });
+
+  it('refuses connections to host names that resolve to a private address', async () => {
+    const request = axios.get(`http://localhost:${port}/`, { httpAgent: network.httpAgent });
+
+    await expect(request).rejects.toThrow('localhost resolves to a private network address');
+  });
+
+  it('opens private networks only through its own variable', async () => {
+    process.env.SPEC_FETCH_ALLOW_PRIVATE_NETWORKS = 'true';
+    expect(() => network.assertPublicHost('127.0.0.1')).toThrow();
+    delete process.env.SPEC_FETCH_ALLOW_PRIVATE_NETWORKS;
+
+    process.env.TEST_ALLOW_PRIVATE_NETWORKS = 'true';
+    const response = await axios.get(`http://localhost:${port}/`, { httpAgent: network.httpAgent });
+    expect(response.data).toBe('ok');
+  });
+});
@@ -0,0 +1,89 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { RefResolver, loadDocument } from '../src/utils/refResolver.js';
+
+let server: http.Server;
+let specUrl: string;
+
+const documents: Record<string, unknown> = {
+  '/api.json': {
+    components: {
+      schemas: {
+        Order: { $ref: 'schemas.json#/Order' },
+        Elsewhere: { $ref: 'http://localhost:1/schemas.json#/Order' },
+      },
+    },
+  },
+  '/schemas.json': { Order: { type: 'object', properties: { id: { type: 'string' } } } },
+};
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const document = documents[req.url!];
+    res.writeHead(document ? 200 : 404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(document ?? { error: 'not found' }));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  specUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api.json`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+afterEach(() => {
+  delete process.env.SPEC_FETCH_ALLOW_PRIVATE_NETWORKS;
+});
+
+describe('loadDocument', () => {
+  it.each([
+    'http://127.0.0.1/spec.json',
+    'http://169.254.169.254/latest/meta-data',
+    'http://10.0.0.5/spec.json',
+    'http://[::1]/spec.json',
+    'http://[::ffff:127.0.0.1]/spec.json',
+  ])('refuses private network address %s', async uri => {
+    await expect(loadDocument(uri)).rejects.toThrow('private network address');
+  });
+
+  it('refuses host names that resolve to a private network address', async () => {
+    await expect(loadDocument(specUrl.replace('127.0.0.1', 'localhost'))).rejects.toThrow('private network address');
+  });
+
+  it('fetches from private networks when allowed', async () => {
+    process.env.SPEC_FETCH_ALLOW_PRIVATE_NETWORKS = 'true';
+
+    await expect(loadDocument(specUrl)).resolves.toEqual(documents['/api.json']);
+  });
+});
+
+describe('RefResolver remote references', () => {
+  it('follows references on the origin of the spec URL only', async () => {
+    process.env.SPEC_FETCH_ALLOW_PRIVATE_NETWORKS = 'true';
+
+    const { document, issues } = await RefResolver.dereference(await loadDocument(specUrl), {
+      baseUri: specUrl,
+      siblingsApply: false,
+    });
+
+    expect(document.components.schemas.Order).toEqual({
+      type: 'object',
+      properties: { id: { type: 'string' } },
+    });
+    expect(document.components.schemas.Elsewhere).toEqual({});
+    expect(issues).toEqual([{
+      pointer: '/components/schemas/Elsewhere',
+      message: 'Cannot resolve $ref "http://localhost:1/schemas.json#/Order": '
+        + 'remote references are only followed on the origin of the spec URL',
+    }]);
+  });
+
+  it('does not follow remote references from pasted content', async () => {
+    const { issues } = await RefResolver.dereference(
+      { components: { schemas: { Order: { $ref: 'https://specs.example.com/schemas.json#/Order' } } } },
+      { siblingsApply: false }
+    );
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].message).toContain('remote references are only followed on the origin of the spec URL');
+  });
+});
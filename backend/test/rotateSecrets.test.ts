@@ -0,0 +1,56 @@
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { createTestDatabase, seedConnector } from './helpers/testDatabase.js';
+import { loadSecretEnvelopes, masterKey } from './helpers/secrets.js';
+
+// The script ends the pool when it is done
+vi.mock('../src/db/index.js', async () => ({ ...(await createTestDatabase()), pool: { end: vi.fn() } }));
+
+const [previousKey, retiredKey, currentKey] = [masterKey(), masterKey(), masterKey()];
+const sealedBefore = (await loadSecretEnvelopes(previousKey)).controlPlane.encrypt('sk_live_old');
+const sealedRetired = (await loadSecretEnvelopes(retiredKey)).controlPlane.encrypt('refresh_retired');
+const { controlPlane, runtime } = await loadSecretEnvelopes(currentKey, previousKey);
+
+const { db, pool } = await import('../src/db/index.js') as unknown as Awaited<ReturnType<typeof createTestDatabase>> & { pool: { end: () => void } };
+const { connectors } = await import('../src/db/schema.js');
+
+afterAll(() => {
+  process.exitCode = undefined;
+});
+
+async function seedSecrets(encryptedAuthSecret: string, encryptedRefreshToken: string | null) {
+  const { connector } = await seedConnector(db);
+  await db.update(connectors).set({ encryptedAuthSecret, encryptedRefreshToken }).where(eq(connectors.id, connector.id));
+  return connector.id;
+}
+
+async function secretsOf(connectorId: string) {
+  const [connector] = await db.select().from(connectors).where(eq(connectors.id, connectorId));
+  return connector;
+}
+
+describe('npm run secrets:rotate', () => {
+  it('re-wraps secrets under previous keys, encrypts plaintext ones and reports the rest', async () => {
+    const sealedCurrent = controlPlane.encrypt('sk_live_current');
+    const rotating = await seedSecrets(sealedBefore, 'refresh_plaintext');
+    const stuck = await seedSecrets(sealedCurrent, sealedRetired);
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await import('../src/scripts/rotateSecrets.js');
+    await vi.waitFor(() => expect(pool.end).toHaveBeenCalled());
+
+    const rotated = await secretsOf(rotating);
+    expect(controlPlane.keyIdOf(rotated.encryptedAuthSecret)).toBe(controlPlane.currentKeyId());
+    expect(rotated.encryptedAuthSecret.split('.').slice(3)).toEqual(sealedBefore.split('.').slice(3));
+    expect(runtime.decrypt(rotated.encryptedAuthSecret)).toBe('sk_live_old');
+    expect(runtime.decrypt(rotated.encryptedRefreshToken!)).toBe('refresh_plaintext');
+
+    expect(await secretsOf(stuck)).toMatchObject({ encryptedAuthSecret: sealedCurrent, encryptedRefreshToken: sealedRetired });
+    expect(error).toHaveBeenCalledWith(
+      `Connector ${stuck} (encryptedRefreshToken): Unknown master key ${controlPlane.keyIdOf(sealedRetired)}`
+    );
+    expect(log).toHaveBeenLastCalledWith('Done: 1 re-wrapped, 1 encrypted, 1 already current, 1 failed');
+    expect(process.exitCode).toBe(1);
+  });
+});
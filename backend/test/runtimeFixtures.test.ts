@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { readFileSync, writeFileSync } from 'fs';
+import { OpenAPIParser } from '../src/utils/openApiParser.js';
+
+const FIXTURES = ['storefront'];
+
+/**
+ * A runtime test fixture: what the control plane registers for a spec in
+ * test/fixtures (name, security schemes and the generated tools)
+ */
+async function generate(fixture: string) {
+  const spec = await OpenAPIParser.parseSpec(readFileSync(new URL(`fixtures/${fixture}.yaml`, import.meta.url), 'utf8'));
+  const baseUrl = OpenAPIParser.extractBaseUrl(spec);
+
+  return {
+    name: spec.info.title,
+    securitySchemes: OpenAPIParser.extractSecuritySchemes(spec),
+    tools: OpenAPIParser.extractEndpoints(spec).map(endpoint => OpenAPIParser.generateMCPTool(endpoint, baseUrl, spec)),
+  };
+}
+
+describe('runtime test fixtures', () => {
+  // Regenerate with UPDATE_RUNTIME_FIXTURES=1 npm test
+  it.each(FIXTURES)('%s is what the parser generates for its spec', async fixture => {
+    const path = new URL(`../../mcp-runtime/test/fixtures/${fixture}.json`, import.meta.url);
+    const generated = `${JSON.stringify(await generate(fixture), null, 2)}\n`;
+
+    if (process.env.UPDATE_RUNTIME_FIXTURES) {
+      writeFileSync(path, generated);
+    }
+    expect(readFileSync(path, 'utf8')).toBe(generated);
+  });
+});
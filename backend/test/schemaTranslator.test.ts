@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { JSON_SCHEMA_DIALECT, SchemaTranslator } from '../src/utils/schemaTranslator.js';
+
+describe('SchemaTranslator.translate', () => {
+  it('turns OpenAPI 3.0 nullable into a null type', () => {
+    const translator = new SchemaTranslator('request');
+
+    expect(translator.translate({ type: 'string', enum: ['open', 'closed'], nullable: true }))
+      .toEqual({ type: ['string', 'null'], enum: ['open', 'closed', null] });
+    expect(translator.translate({ allOf: [{ type: 'string' }], nullable: true }))
+      .toEqual({ anyOf: [{ allOf: [{ type: 'string' }] }, { type: 'null' }] });
+  });
+
+  it('turns boolean exclusive bounds into numeric ones', () => {
+    const translator = new SchemaTranslator('request');
+
+    expect(translator.translate({ type: 'number', minimum: 0, exclusiveMinimum: true, maximum: 10, exclusiveMaximum: false }))
+      .toEqual({ type: 'number', exclusiveMinimum: 0, maximum: 10 });
+    expect(translator.translate({ type: 'number', exclusiveMaximum: 5 }))
+      .toEqual({ type: 'number', exclusiveMaximum: 5 });
+  });
+
+  it('keeps validation keywords and drops vendor extensions', () => {
+    const translator = new SchemaTranslator('request');
+
+    expect(translator.translate({
+      type: 'string',
+      format: 'date-time',
+      pattern: '^2',
+      example: '2026-01-01T00:00:00Z',
+      'x-internal': true,
+      xml: { name: 'created' },
+    })).toEqual({ type: 'string', format: 'date-time', pattern: '^2', examples: ['2026-01-01T00:00:00Z'] });
+  });
+
+  it('translates tuple items to prefixItems', () => {
+    const translator = new SchemaTranslator('request');
+
+    expect(translator.translate({ type: 'array', items: [{ type: 'number' }, { type: 'string', nullable: true }] }))
+      .toEqual({ type: 'array', prefixItems: [{ type: 'number' }, { type: ['string', 'null'] }] });
+  });
+
+  it('leaves readOnly properties out of requests and writeOnly properties out of responses', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        id: { type: 'string', readOnly: true },
+        password: { type: 'string', writeOnly: true },
+        name: { type: 'string' },
+      },
+      required: ['id', 'password', 'name'],
+    };
+
+    const request = new SchemaTranslator('request').translate(schema);
+    const response = new SchemaTranslator('response').translate(schema);
+
+    expect(Object.keys(request.properties)).toEqual(['password', 'name']);
+    expect(request.required).toEqual(['password', 'name']);
+    expect(Object.keys(response.properties)).toEqual(['id', 'name']);
+    expect(response.required).toEqual(['id', 'name']);
+  });
+});
+
+describe('SchemaTranslator.root', () => {
+  it('collects recursive references under $defs', () => {
+    const spec = {
+      components: {
+        schemas: {
+          Category: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              children: { type: 'array', items: { $ref: '#/components/schemas/Category' } },
+            },
+          },
+        },
+      },
+    };
+    const translator = new SchemaTranslator('response', spec);
+
+    const schema = translator.root(translator.translate({ $ref: '#/components/schemas/Category' }));
+
+    expect(schema).toEqual({
+      $schema: JSON_SCHEMA_DIALECT,
+      $ref: '#/$defs/Category',
+      $defs: {
+        Category: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            children: { type: 'array', items: { $ref: '#/$defs/Category' } },
+          },
+        },
+      },
+    });
+  });
+
+  it('describes references it cannot resolve', () => {
+    const translator = new SchemaTranslator('request');
+
+    expect(translator.root(translator.translate({ $ref: '#/components/schemas/Missing' })))
+      .toEqual({ $schema: JSON_SCHEMA_DIALECT, description: 'Recursive reference to Missing' });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { loadSecretEnvelopes, masterKey, tamper } from './helpers/secrets.js';
+
+const [previousKey, currentKey] = [masterKey(), masterKey()];
+
+const before = await loadSecretEnvelopes(previousKey);
+const sealedBefore = before.controlPlane.encrypt('sk_live_123');
+const unrelated = (await loadSecretEnvelopes(masterKey())).controlPlane.encrypt('sk_live_123');
+
+const { controlPlane, runtime } = await loadSecretEnvelopes(currentKey, previousKey);
+
+// The parts of an envelope: v1.<masterKeyId>.<wrappedDataKey>.<iv>.<authTag>.<ciphertext>
+const KEY_ID = 1;
+const WRAPPED_KEY = 2;
+const CIPHERTEXT = 5;
+
+describe('SecretEnvelope.encrypt', () => {
+  it('seals secrets the runtime can open', () => {
+    const envelope = controlPlane.encrypt('sk_live_123');
+
+    expect(controlPlane.isEnvelope(envelope)).toBe(true);
+    expect(controlPlane.keyIdOf(envelope)).toBe(controlPlane.currentKeyId());
+    expect(envelope).not.toContain('sk_live_123');
+    expect(runtime.decrypt(envelope)).toBe('sk_live_123');
+  });
+
+  it('uses a fresh data key for every secret', () => {
+    const [first, second] = [controlPlane.encrypt('same'), controlPlane.encrypt('same')];
+
+    expect(first.split('.')[WRAPPED_KEY]).not.toBe(second.split('.')[WRAPPED_KEY]);
+    expect(first.split('.')[CIPHERTEXT]).not.toBe(second.split('.')[CIPHERTEXT]);
+  });
+
+  it('seals secrets the runtime refuses to open once tampered with', () => {
+    const envelope = controlPlane.encrypt('sk_live_123');
+
+    expect(() => runtime.decrypt(tamper(envelope, CIPHERTEXT))).toThrow();
+    expect(() => runtime.decrypt(tamper(controlPlane.rewrap(sealedBefore), CIPHERTEXT))).toThrow();
+  });
+});
+
+describe('SecretEnvelope.rewrap', () => {
+  it('re-wraps the data key under the current master key and keeps the ciphertext', () => {
+    const rewrapped = controlPlane.rewrap(sealedBefore);
+
+    expect(controlPlane.keyIdOf(sealedBefore)).toBe(before.controlPlane.currentKeyId());
+    expect(controlPlane.keyIdOf(rewrapped)).toBe(controlPlane.currentKeyId());
+    expect(rewrapped.split('.').slice(3)).toEqual(sealedBefore.split('.').slice(3));
+    expect(runtime.decrypt(rewrapped)).toBe('sk_live_123');
+  });
+
+  it('leaves envelopes under the current master key as they are', () => {
+    const envelope = controlPlane.encrypt('sk_live_123');
+
+    expect(controlPlane.rewrap(envelope)).toBe(envelope);
+  });
+
+  it('refuses envelopes under a master key it does not have', () => {
+    expect(() => controlPlane.rewrap(unrelated)).toThrow(`Unknown master key ${controlPlane.keyIdOf(unrelated)}`);
+    expect(() => runtime.decrypt(unrelated)).toThrow('Unknown master key');
+  });
+
+  it('refuses a previous key once it is no longer listed', async () => {
+    const rotated = await loadSecretEnvelopes(currentKey);
+
+    expect(() => rotated.controlPlane.rewrap(sealedBefore)).toThrow('Unknown master key');
+    expect(rotated.runtime.decrypt(controlPlane.rewrap(sealedBefore))).toBe('sk_live_123');
+  });
+
+  it('refuses a tampered data key or key ID', () => {
+    expect(() => controlPlane.rewrap(tamper(sealedBefore, WRAPPED_KEY))).toThrow();
+
+    // The key ID is authenticated with the data key, so it cannot be swapped for another known one
+    const relabelled = sealedBefore.split('.');
+    relabelled[KEY_ID] = controlPlane.currentKeyId();
+    expect(() => runtime.decrypt(relabelled.join('.'))).toThrow();
+  });
+
+  it('refuses values that are not envelopes', () => {
+    expect(() => controlPlane.rewrap('sk_live_123')).toThrow('Value is not an encrypted secret envelope');
+  });
+});
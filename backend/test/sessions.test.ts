@@ -0,0 +1,171 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+import { and, eq } from 'drizzle-orm';
+import { createTestDatabase, seedConnector, seedMembers } from './helpers/testDatabase.js';
+import { signIn, startApi, TestApi } from './helpers/api.js';
+
+vi.mock('../src/db/index.js', () => createTestDatabase());
+
+const { db } = await import('../src/db/index.js') as unknown as Awaited<ReturnType<typeof createTestDatabase>>;
+const { GovernanceRepository } = await import('../src/db/repositories/governanceRepository.js');
+const { organizationMembers, userSessions, users } = await import('../src/db/schema.js');
+const { default: authRouter } = await import('../src/routes/auth.js');
+const { default: connectorsRouter } = await import('../src/routes/connectors.js');
+const { default: tokensRouter } = await import('../src/routes/tokens.js');
+
+let api: TestApi;
+let acme: Awaited<ReturnType<typeof seedConnector>>;
+let globex: Awaited<ReturnType<typeof seedConnector>>;
+
+beforeAll(async () => {
+  acme = await seedConnector(db);
+  globex = await seedConnector(db);
+  await GovernanceRepository.createDefault(acme.connector.id);
+  await GovernanceRepository.createDefault(globex.connector.id);
+
+  api = await startApi({
+    '/api/auth': authRouter,
+    '/api/connectors': connectorsRouter,
+    '/api/tokens': tokensRouter,
+  });
+});
+
+afterAll(() => api.close());
+
+function request(method: string, path: string, token?: string, body?: unknown) {
+  return fetch(`${api.url}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe('POST /api/auth/login', () => {
+  it('starts a session for the right password only', async () => {
+    await db.update(users).set({ passwordHash: await bcrypt.hash('correct horse', 4) }).where(eq(users.id, acme.owner.id));
+
+    const wrong = await request('POST', '/api/auth/login', undefined, { email: acme.owner.email, password: 'wrong' });
+    expect(wrong.status).toBe(401);
+
+    const login = await request('POST', '/api/auth/login', undefined, { email: acme.owner.email, password: 'correct horse' });
+    expect(login.status).toBe(200);
+    const { token } = await login.json();
+
+    const me = await request('GET', '/api/auth/me', token);
+    expect(me.status).toBe(200);
+    expect((await me.json()).organization).toMatchObject({ organizationId: acme.organization.id, role: 'admin' });
+  });
+});
+
+describe('SessionAuth.requireSession', () => {
+  it('rejects requests without a bearer token', async () => {
+    const response = await request('GET', '/api/connectors');
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Authentication required' });
+  });
+
+  it('rejects tokens it did not sign', async () => {
+    const session = await signIn(acme.owner.id, acme.organization.id);
+    const { jti, sub, org } = jwt.decode(session) as jwt.JwtPayload;
+    const forged = jwt.sign({ org }, 'another-secret', { algorithm: 'HS256', subject: sub, jwtid: jti });
+
+    expect((await request('GET', '/api/connectors', forged)).status).toBe(401);
+    expect((await request('GET', '/api/connectors', 'not-a-jwt')).status).toBe(401);
+  });
+
+  it('ends a session on logout', async () => {
+    const session = await signIn(acme.owner.id, acme.organization.id);
+
+    expect((await request('POST', '/api/auth/logout', session)).status).toBe(200);
+
+    const response = await request('GET', '/api/connectors', session);
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Session is invalid or has expired' });
+  });
+
+  it('rejects sessions past their expiry', async () => {
+    const session = await signIn(acme.owner.id, acme.organization.id);
+    const { jti } = jwt.decode(session) as jwt.JwtPayload;
+
+    await db.update(userSessions).set({ expiresAt: new Date(Date.now() - 1000) }).where(eq(userSessions.id, jti!));
+
+    expect((await request('GET', '/api/connectors', session)).status).toBe(401);
+  });
+
+  it('rejects sessions of users who left the organization', async () => {
+    const [member] = await seedMembers(db, acme.organization.id, 1, 'member');
+    const session = await signIn(member.id, acme.organization.id);
+    expect((await request('GET', '/api/connectors', session)).status).toBe(200);
+
+    await db.delete(organizationMembers).where(and(
+      eq(organizationMembers.organizationId, acme.organization.id),
+      eq(organizationMembers.userId, member.id),
+    ));
+
+    const response = await request('GET', '/api/connectors', session);
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'No longer a member of the organization' });
+  });
+});
+
+describe('SessionAuth.requireRole', () => {
+  it('lets members read but keeps changes to admins', async () => {
+    const [member] = await seedMembers(db, acme.organization.id, 1, 'member');
+    const session = await signIn(member.id, acme.organization.id);
+    const connectorPath = `/api/connectors/${acme.connector.id}`;
+
+    expect((await request('GET', connectorPath, session)).status).toBe(200);
+
+    const changes = [
+      await request('PATCH', `${connectorPath}/governance`, session, { rateLimitPerMinute: 1000 }),
+      await request('POST', `${connectorPath}/deploy`, session, {}),
+      await request('POST', '/api/tokens', session, { connectorId: acme.connector.id }),
+    ];
+    for (const response of changes) {
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({ error: 'Requires one of the roles: admin' });
+    }
+    expect((await GovernanceRepository.findByConnectorId(acme.connector.id))?.rateLimitPerMinute).not.toBe(1000);
+  });
+});
+
+describe('organization scoping', () => {
+  it('lists only the organization\'s connectors', async () => {
+    const session = await signIn(acme.owner.id, acme.organization.id);
+
+    const { connectors } = await (await request('GET', '/api/connectors', session)).json();
+
+    expect(connectors.map((connector: { id: string }) => connector.id)).toEqual([acme.connector.id]);
+  });
+
+  it('does not find another organization\'s connectors, even for admins', async () => {
+    const session = await signIn(acme.owner.id, acme.organization.id);
+    const connectorPath = `/api/connectors/${globex.connector.id}`;
+
+    const responses = [
+      await request('GET', connectorPath, session),
+      await request('GET', `${connectorPath}/deployments`, session),
+      await request('PATCH', `${connectorPath}/governance`, session, { enabled: false }),
+      await request('POST', '/api/tokens', session, { connectorId: globex.connector.id }),
+    ];
+
+    expect(responses.map(response => response.status)).toEqual([404, 404, 404, 404]);
+    expect((await GovernanceRepository.findByConnectorId(globex.connector.id))?.enabled).toBe(true);
+  });
+
+  it('acts in the organization the session was started in', async () => {
+    // The owner of Globex joins Acme as a member; a Globex session still sees Globex only
+    await db.insert(organizationMembers).values({ organizationId: acme.organization.id, userId: globex.owner.id, role: 'member' });
+    const session = await signIn(globex.owner.id, globex.organization.id);
+
+    const { connectors } = await (await request('GET', '/api/connectors', session)).json();
+
+    expect(connectors.map((connector: { id: string }) => connector.id)).toEqual([globex.connector.id]);
+    expect((await request('GET', `/api/connectors/${acme.connector.id}`, session)).status).toBe(404);
+  });
+});
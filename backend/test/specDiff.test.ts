@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { OpenAPIParser } from '../src/utils/openApiParser.js';
+import { SpecDiff } from '../src/utils/specDiff.js';
+
+/**
+ * The endpoints the parser extracts from a spec with these paths
+ */
+async function endpoints(paths: Record<string, any>) {
+  const spec = await OpenAPIParser.parseSpec({
+    openapi: '3.0.3',
+    info: { title: 'Accounts', version: '1.0.0' },
+    paths,
+  });
+  return OpenAPIParser.extractEndpoints(spec);
+}
+
+const ok = { responses: { 200: { description: 'OK' } } };
+const json = (schema: Record<string, any>, required = true) => ({
+  required,
+  content: { 'application/json': { schema } },
+});
+
+const accounts = {
+  '/accounts': {
+    get: {
+      operationId: 'listAccounts',
+      parameters: [
+        { name: 'limit', in: 'query', schema: { type: 'integer' } },
+        { name: 'status', in: 'query', required: true, schema: { type: 'string' } },
+      ],
+      ...ok,
+    },
+  },
+  '/accounts/{id}': {
+    get: { operationId: 'getAccount', parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }], ...ok },
+    patch: {
+      operationId: 'updateAccount',
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+      requestBody: json({ type: 'object', properties: { name: { type: 'string' } } }),
+      ...ok,
+    },
+  },
+};
+
+describe('SpecDiff.compare', () => {
+  it('reports nothing for the same spec', async () => {
+    expect(SpecDiff.compare(await endpoints(accounts), await endpoints(accounts)))
+      .toEqual({ added: [], removed: [], changed: [], breakingChanges: [] });
+  });
+
+  it('reports added and removed endpoints; only removals break clients', async () => {
+    const { '/accounts/{id}': account, ...rest } = accounts;
+    const next = {
+      ...rest,
+      '/accounts/{id}': { get: account.get },
+      '/statements': { get: { operationId: 'listStatements', ...ok } },
+    };
+
+    const report = SpecDiff.compare(await endpoints(accounts), await endpoints(next));
+
+    expect(report.added).toEqual([{ method: 'GET', path: '/statements', operationId: 'listStatements', category: 'READ' }]);
+    expect(report.removed).toEqual([{ method: 'PATCH', path: '/accounts/{id}', operationId: 'updateAccount', category: 'WRITE' }]);
+    expect(report.breakingChanges).toEqual(['PATCH /accounts/{id}: removed']);
+  });
+
+  it('reports parameter changes', async () => {
+    const next = {
+      ...accounts,
+      '/accounts': {
+        get: {
+          operationId: 'listAccounts',
+          parameters: [
+            { name: 'limit', in: 'query', required: true, schema: { type: 'string' } },
+            { name: 'status', in: 'query', schema: { type: 'string' } },
+            { name: 'region', in: 'query', schema: { type: 'string' } },
+            { name: 'X-Tenant', in: 'header', required: true, schema: { type: 'string' } },
+          ],
+          ...ok,
+        },
+      },
+    };
+
+    const [change] = SpecDiff.compare(await endpoints(accounts), await endpoints(next)).changed;
+
+    expect(change.changes).toEqual([
+      { kind: 'parameter', breaking: true, message: 'query parameter limit is now required' },
+      { kind: 'parameter', breaking: true, message: 'query parameter limit type changed from integer to string' },
+      { kind: 'parameter', breaking: false, message: 'query parameter status is now optional' },
+      { kind: 'parameter', breaking: false, message: 'optional query parameter region added' },
+      { kind: 'parameter', breaking: true, message: 'required header parameter X-Tenant added' },
+    ]);
+  });
+
+  it('reports request body changes', async () => {
+    const next = {
+      ...accounts,
+      '/accounts/{id}': {
+        ...accounts['/accounts/{id}'],
+        patch: {
+          ...accounts['/accounts/{id}'].patch,
+          requestBody: {
+            required: true,
+            content: { 'application/merge-patch+json': { schema: { type: 'object', required: ['name'] } } },
+          },
+        },
+      },
+    };
+
+    const report = SpecDiff.compare(await endpoints(accounts), await endpoints(next));
+
+    expect(report.breakingChanges).toEqual([
+      'PATCH /accounts/{id}: request body media type changed from application/json to application/merge-patch+json',
+      'PATCH /accounts/{id}: request body property name is now required',
+    ]);
+  });
+
+  it('reports renamed operations and riskier categories as breaking', async () => {
+    const next = {
+      ...accounts,
+      '/accounts/{id}': {
+        ...accounts['/accounts/{id}'],
+        get: { ...accounts['/accounts/{id}'].get, operationId: 'fetchAccount' },
+        patch: { ...accounts['/accounts/{id}'].patch, description: 'Also used to cancel the account' },
+      },
+    };
+
+    const report = SpecDiff.compare(await endpoints(accounts), await endpoints(next));
+
+    expect(report.changed.map(({ method, category, changes }) => ({ method, category, kinds: changes.map(change => change.kind) })))
+      .toEqual([
+        { method: 'GET', category: 'READ', kinds: ['operationId'] },
+        { method: 'PATCH', category: 'DANGEROUS', kinds: ['category'] },
+      ]);
+    expect(report.breakingChanges).toEqual([
+      'GET /accounts/{id}: operationId changed from getAccount to fetchAccount, renaming the tool',
+      'PATCH /accounts/{id}: category changed from WRITE to DANGEROUS',
+    ]);
+  });
+
+  it('does not count a safer category as breaking', async () => {
+    const risky = { '/accounts': { post: { operationId: 'createAccount', description: 'Submit an account', ...ok } } };
+    const safer = { '/accounts': { post: { operationId: 'createAccount', ...ok } } };
+
+    const report = SpecDiff.compare(await endpoints(risky), await endpoints(safer));
+
+    expect(report.changed[0].changes).toEqual([
+      { kind: 'category', breaking: false, message: 'category changed from DANGEROUS to WRITE' },
+    ]);
+    expect(report.breakingChanges).toEqual([]);
+  });
+});
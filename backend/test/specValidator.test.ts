@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { SpecValidator } from '../src/utils/specValidator.js';
+
+function spec(pathItem: Record<string, any>) {
+  return {
+    openapi: '3.0.3',
+    info: { title: 'Orders', version: '1.0.0' },
+    paths: { '/orders/{id}': pathItem },
+  };
+}
+
+const idInPath = { name: 'id', in: 'path', required: true, schema: { type: 'string' } };
+
+describe('SpecValidator parameter names', () => {
+  it('rejects a name used in the path and the query', () => {
+    const issues = SpecValidator.validate(spec({
+      parameters: [idInPath],
+      get: {
+        parameters: [{ name: 'id', in: 'query', schema: { type: 'string' } }],
+        responses: { 200: { description: 'OK' } },
+      },
+    }), '3.0');
+
+    expect(issues).toEqual([{
+      pointer: '/paths/~1orders~1{id}/get',
+      message: 'Parameter name "id" is used in path and query; tool arguments need unique names',
+    }]);
+  });
+
+  it('rejects a parameter named like the request body argument', () => {
+    const issues = SpecValidator.validate(spec({
+      put: {
+        parameters: [idInPath, { name: 'body', in: 'header', schema: { type: 'string' } }],
+        requestBody: { content: { 'application/json': { schema: { type: 'object' } } } },
+        responses: { 200: { description: 'OK' } },
+      },
+    }), '3.0');
+
+    expect(issues.map(issue => issue.message)).toEqual([
+      'Parameter name "body" is used in request body and header; tool arguments need unique names',
+    ]);
+  });
+
+  it('lets operation parameters replace path-level ones and ignores cookies', () => {
+    const issues = SpecValidator.validate(spec({
+      parameters: [idInPath],
+      get: {
+        parameters: [
+          { ...idInPath, description: 'Order number' },
+          { name: 'id', in: 'cookie', schema: { type: 'string' } },
+        ],
+        responses: { 200: { description: 'OK' } },
+      },
+    }), '3.0');
+
+    expect(issues).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { readFileSync } from 'fs';
+import { OpenAPIParser } from '../src/utils/openApiParser.js';
+
+// Swagger 2.0 specs are dereferenced, then converted to OpenAPI 3
+const spec = await OpenAPIParser.parseSpec(readFileSync(new URL('fixtures/petstore-swagger.yaml', import.meta.url), 'utf8'));
+const paths = spec.paths as Record<string, any>;
+
+const pet = {
+  type: 'object',
+  required: ['id', 'name'],
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    tag: { type: 'string', nullable: true },
+    category: {
+      type: 'object',
+      properties: { name: { type: 'string' }, parent: { $ref: '#/components/schemas/Category' } },
+    },
+  },
+};
+
+describe('Swagger 2.0 conversion', () => {
+  it('is an OpenAPI 3 document', () => {
+    expect(spec.openapi).toBe('3.0.3');
+    expect(spec.info).toEqual({ title: 'Petstore', version: '1.0.0' });
+    expect(spec.security).toEqual([{ api_key: [] }]);
+  });
+
+  it('turns host, basePath and schemes into servers', () => {
+    expect(spec.servers).toEqual([
+      { url: 'https://petstore.example.com/v2' },
+      { url: 'http://petstore.example.com/v2' },
+    ]);
+    expect(OpenAPIParser.extractBaseUrl(spec)).toBe('https://petstore.example.com/v2');
+  });
+
+  it('turns a body parameter into a request body', () => {
+    const createPet = paths['/pets'].post;
+
+    expect(createPet.parameters).toEqual([]);
+    expect(createPet.requestBody).toEqual({
+      description: 'The new pet',
+      required: true,
+      content: { 'application/json': { schema: pet } },
+    });
+  });
+
+  it('turns formData parameters into a form request body', () => {
+    expect(paths['/pets/{petId}'].post.requestBody).toEqual({
+      required: true,
+      content: {
+        'application/x-www-form-urlencoded': {
+          schema: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'New name' },
+              status: { type: 'string', enum: ['available', 'sold'] },
+            },
+            required: ['name'],
+          },
+        },
+      },
+    });
+  });
+
+  it('sends forms with files as multipart', () => {
+    expect(paths['/pets/{petId}/photo'].post.requestBody.content).toEqual({
+      'multipart/form-data': {
+        schema: {
+          type: 'object',
+          properties: { caption: { type: 'string' }, file: { type: 'string', format: 'binary' } },
+          required: ['file'],
+        },
+      },
+    });
+  });
+
+  it('moves parameter types into schemas', () => {
+    expect(paths['/pets'].get.parameters).toEqual([
+      { name: 'tags', in: 'query', schema: { type: 'array', items: { type: 'string' } }, style: 'form', explode: true },
+      { name: 'limit', in: 'query', schema: { type: 'integer', format: 'int32', maximum: 100 } },
+    ]);
+    expect(paths['/pets/{petId}'].parameters).toEqual([{ name: 'petId', in: 'path', required: true, schema: { type: 'string' } }]);
+  });
+
+  it('moves definitions to component schemas and points cyclic references there', () => {
+    expect(spec.components!.schemas!.Pet).toEqual(pet);
+    expect(paths['/pets/{petId}'].get.responses[200]).toEqual({
+      description: 'The pet',
+      content: { 'application/json': { schema: pet } },
+    });
+    expect(paths['/categories'].get.responses[200].content['application/json'].schema.items.properties.parent)
+      .toEqual({ $ref: '#/components/schemas/Category' });
+    expect(paths['/pets/{petId}'].get.responses[404]).toEqual({ description: 'Not found' });
+  });
+
+  it('turns security definitions into security schemes', () => {
+    expect(spec.components!.securitySchemes).toEqual({
+      api_key: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      basic: { type: 'http', scheme: 'basic', description: 'Staff accounts' },
+      petstore_auth: {
+        type: 'oauth2',
+        flows: {
+          authorizationCode: {
+            authorizationUrl: 'https://petstore.example.com/oauth/authorize',
+            tokenUrl: 'https://petstore.example.com/oauth/token',
+            scopes: { 'read:pets': 'Read pets', 'write:pets': 'Change pets' },
+          },
+        },
+      },
+      partner_auth: {
+        type: 'oauth2',
+        flows: {
+          clientCredentials: { tokenUrl: 'https://petstore.example.com/oauth/token', scopes: { 'read:pets': 'Read pets' } },
+        },
+      },
+    });
+    expect(paths['/pets/{petId}'].get.security).toEqual([{ petstore_auth: ['read:pets'] }]);
+  });
+
+  it('generates tools that send the converted request body', () => {
+    const tools = OpenAPIParser.extractEndpoints(spec)
+      .map(endpoint => OpenAPIParser.generateMCPTool(endpoint, OpenAPIParser.extractBaseUrl(spec), spec));
+    const createPet = tools.find(tool => tool.name === 'create_pet')!;
+
+    expect(createPet).toMatchObject({ method: 'POST', path: '/pets' });
+    expect(createPet.inputSchema.properties).toHaveProperty('body');
+  });
+});
@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import crypto from 'crypto';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { eq } from 'drizzle-orm';
+import { createTestDatabase, seedConnector } from './helpers/testDatabase.js';
+import { TokenHasher } from '../src/utils/tokenHasher.js';
+
+vi.mock('../src/db/index.js', () => createTestDatabase());
+
+const { db } = await import('../src/db/index.js') as unknown as Awaited<ReturnType<typeof createTestDatabase>>;
+const { TokenRepository } = await import('../src/db/repositories/tokenRepository.js');
+const { mcpTokens } = await import('../src/db/schema.js');
+const { default: internalRouter } = await import('../src/routes/internal.js');
+
+let server: Server;
+let baseUrl: string;
+let connectorId: string;
+
+beforeAll(async () => {
+  connectorId = (await seedConnector(db)).connector.id;
+
+  // Signatures are checked where the router is mounted (src/index.ts), not by the router
+  const app = express();
+  app.use(express.json());
+  app.use('/internal', internalRouter);
+  server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/internal`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+async function issueToken(values: { isActive?: boolean; expiresAt?: Date; scopes?: string[] } = {}) {
+  const { token, ...stored } = TokenHasher.generate();
+  const record = await TokenRepository.create({ connectorId, ...stored, ...values });
+  return { token, record };
+}
+
+function validate(body: { connectorId: string; token: string }) {
+  return fetch(`${baseUrl}/tokens/validate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('TokenHasher', () => {
+  it('generates prefixed tokens and keeps only a salted hash', () => {
+    const { token, tokenPrefix, tokenHash, tokenSalt } = TokenHasher.generate();
+
+    expect(token).toMatch(/^mcp_[0-9a-f]{64}$/);
+    expect(tokenPrefix).toBe(TokenHasher.prefixOf(token));
+    expect(token.startsWith(tokenPrefix)).toBe(true);
+    expect(tokenHash).not.toContain(token.slice(tokenPrefix.length));
+    expect(TokenHasher.hash(token, tokenSalt)).toBe(tokenHash);
+  });
+
+  it('salts every token differently', () => {
+    const first = TokenHasher.generate();
+    const second = TokenHasher.generate();
+
+    expect(first.tokenSalt).not.toBe(second.tokenSalt);
+    expect(TokenHasher.hash(first.token, second.tokenSalt)).not.toBe(first.tokenHash);
+  });
+
+  it('verifies only the token the hash was made from', () => {
+    const { token, tokenHash, tokenSalt } = TokenHasher.generate();
+
+    expect(TokenHasher.verify(token, tokenSalt, tokenHash)).toBe(true);
+    expect(TokenHasher.verify(TokenHasher.generate().token, tokenSalt, tokenHash)).toBe(false);
+    expect(TokenHasher.verify(token, tokenSalt, 'not-a-hash')).toBe(false);
+  });
+});
+
+describe('POST /internal/tokens/validate', () => {
+  it('returns the grant of a valid token and records its use', async () => {
+    const { token, record } = await issueToken({ scopes: ['list_orders'] });
+
+    const response = await validate({ connectorId, token });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      tokenId: record.id,
+      scopes: ['list_orders'],
+      expiresAt: null,
+      deploymentVersion: null,
+    });
+    const [stored] = await db.select().from(mcpTokens).where(eq(mcpTokens.id, record.id));
+    expect(stored.lastUsedAt).not.toBeNull();
+  });
+
+  it('refuses a token of another connector', async () => {
+    const { token } = await issueToken();
+
+    const response = await validate({ connectorId: crypto.randomUUID(), token });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Invalid token' });
+  });
+
+  it('refuses a token that only shares the prefix', async () => {
+    const { token } = await issueToken();
+    const forged = TokenHasher.prefixOf(token).padEnd(token.length, '0');
+
+    const response = await validate({ connectorId, token: forged });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Invalid token' });
+  });
+
+  it('refuses revoked and expired tokens', async () => {
+    const revoked = await issueToken({ isActive: false });
+    const expired = await issueToken({ expiresAt: new Date(Date.now() - 1000) });
+
+    const revokedResponse = await validate({ connectorId, token: revoked.token });
+    const expiredResponse = await validate({ connectorId, token: expired.token });
+
+    expect(revokedResponse.status).toBe(401);
+    expect(await revokedResponse.json()).toEqual({ error: 'Token revoked' });
+    expect(expiredResponse.status).toBe(401);
+    expect(await expiredResponse.json()).toEqual({ error: 'Token expired' });
+  });
+});
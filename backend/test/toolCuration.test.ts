@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { MCPTool } from '../src/utils/openApiParser.js';
+import { ToolCuration } from '../src/utils/toolCuration.js';
+
+function tool(name: string, properties: string[], required: string[] = []): MCPTool {
+  return {
+    name,
+    description: name,
+    inputSchema: {
+      type: 'object',
+      properties: Object.fromEntries(properties.map(property => [property, { type: 'string' }])),
+      required,
+    },
+    category: 'READ',
+    method: 'GET',
+    path: `/${name}`,
+    dangerTags: [],
+    parameterLocations: Object.fromEntries(properties.map(property => [property, 'query' as const])),
+  };
+}
+
+const tools = {
+  get_account: tool('get_account', ['accountId', 'expand'], ['accountId']),
+  list_trades: tool('list_trades', ['accountId', 'limit']),
+};
+
+describe('ToolCuration.validate', () => {
+  it('accepts overrides that rename, pin, default and hide known parameters', () => {
+    expect(ToolCuration.validate(tools, {
+      get_account: { name: 'account', hiddenParameters: ['accountId'], fixedArguments: { accountId: 'acc_1' } },
+      list_trades: { defaults: { limit: '50' }, hiddenParameters: ['limit'] },
+    })).toEqual([]);
+  });
+
+  it('reports unknown parameters', () => {
+    expect(ToolCuration.validate(tools, { get_account: { fixedArguments: { account: 'acc_1' } } }))
+      .toEqual(['get_account: unknown parameter account']);
+  });
+
+  it('reports parameters that are both pinned and defaulted', () => {
+    expect(ToolCuration.validate(tools, { list_trades: { fixedArguments: { limit: '10' }, defaults: { limit: '50' } } }))
+      .toEqual(['list_trades: limit is both pinned and defaulted']);
+  });
+
+  it('reports required parameters hidden without a value', () => {
+    expect(ToolCuration.validate(tools, { get_account: { hiddenParameters: ['accountId'] } }))
+      .toEqual(['get_account: required parameter accountId is hidden without a fixed value or default']);
+  });
+
+  it('reports names that clash with another tool', () => {
+    expect(ToolCuration.validate(tools, { list_trades: { name: 'get_account' } }))
+      .toEqual(['list_trades: name get_account is already used by get_account']);
+  });
+
+  it('skips overrides of tools a re-import removed', () => {
+    expect(ToolCuration.validate(tools, { delete_account: { name: 'get_account', hiddenParameters: ['x'] } })).toEqual([]);
+  });
+});
+
+describe('ToolCuration.exposedName', () => {
+  it('is the override name, or the generated one', () => {
+    expect(ToolCuration.exposedName(tools.get_account, { get_account: { name: 'account' } })).toBe('account');
+    expect(ToolCuration.exposedName(tools.list_trades, { get_account: { name: 'account' } })).toBe('list_trades');
+  });
+});
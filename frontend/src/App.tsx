@@ -1,5 +1,7 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
 import './App.css';
+import Login, { Session } from './components/Login';
 import ConnectorList from './components/ConnectorList';
 import CreateConnector from './components/CreateConnector';
 import GovernancePanel from './components/GovernancePanel';
@@ -8,10 +10,47 @@ import LogsViewer from './components/LogsViewer';
 
 type Page = 'connectors' | 'create' | 'governance' | 'approvals' | 'logs';
 
+const SESSION_KEY = 'mcp-session';
+
+/**
+ * Send the session token with every API request, and keep it for reloads
+ */
+function applySession(session: Session | null) {
+  if (session) {
+    axios.defaults.headers.common.Authorization = `Bearer ${session.token}`;
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } else {
+    delete axios.defaults.headers.common.Authorization;
+    sessionStorage.removeItem(SESSION_KEY);
+  }
+}
+
+function restoreSession(): Session | null {
+  const stored = sessionStorage.getItem(SESSION_KEY);
+  const session = stored ? JSON.parse(stored) as Session : null;
+  applySession(session);
+  return session;
+}
+
 export default function App() {
+  const [session, setSession] = useState<Session | null>(restoreSession);
+  const [sessionExpired, setSessionExpired] = useState(false);
   const [currentPage, setCurrentPage] = useState<Page>('connectors');
   const [selectedConnectorId, setSelectedConnectorId] = useState<string | null>(null);
 
+  // A request the API refuses for an expired or revoked session signs out here
+  useEffect(() => {
+    const interceptor = axios.interceptors.response.use(undefined, error => {
+      if (axios.isAxiosError(error) && error.response?.status === 401 && error.config?.headers?.Authorization) {
+        applySession(null);
+        setSession(null);
+        setSessionExpired(true);
+      }
+      return Promise.reject(error);
+    });
+    return () => axios.interceptors.response.eject(interceptor);
+  }, []);
+
   const handleSelectConnector = (id: string) => {
     setSelectedConnectorId(id);
     setCurrentPage('governance');
@@ -21,6 +60,40 @@ export default function App() {
     setCurrentPage('create');
   };
 
+  const handleLogin = (newSession: Session) => {
+    applySession(newSession);
+    setSession(newSession);
+    setSessionExpired(false);
+    setCurrentPage('connectors');
+  };
+
+  const handleLogout = async () => {
+    try {
+      await axios.post('http://localhost:3000/api/auth/logout');
+    } catch {
+      // The session may already have expired; sign out locally either way
+    }
+    applySession(null);
+    setSession(null);
+    setSessionExpired(false);
+  };
+
+  if (!session) {
+    return (
+      <div className="app">
+        <header className="app-header">
+          <h1>MCP Connector Platform</h1>
+        </header>
+        <main className="app-main">
+          <Login
+            onLogin={handleLogin}
+            notice={sessionExpired ? 'Your session has expired. Sign in again.' : undefined}
+          />
+        </main>
+      </div>
+    );
+  }
+
   return (
     <div className="app">
       <header className="app-header">
@@ -44,6 +117,9 @@ export default function App() {
           >
             Logs
           </button>
+          <button onClick={handleLogout} title={`${session.email} (${session.organizationName})`}>
+            Sign Out
+          </button>
         </nav>
       </header>
 
@@ -1,5 +1,14 @@
 import React, { useState, useEffect } from 'react';
 
+interface ApprovalDecision {
+  id: string;
+  approverEmail: string | null; // null: decided by an escalation rule
+  approverRole: string;
+  decision: 'approved' | 'rejected';
+  notes?: string | null;
+  createdAt: string;
+}
+
 interface Approval {
   id: string;
   connectorId: string;
@@ -11,6 +20,11 @@ interface Approval {
   reviewerReasons: string[];
   createdAt: string;
   expiresAt: string;
+  escalatedTo?: string | null;
+  requiredApprovals: number;
+  approvalCount: number;
+  approverRoles?: string[] | null;
+  decisions: ApprovalDecision[];
 }
 
 export default function ApprovalQueue() {
@@ -42,6 +56,20 @@ export default function ApprovalQueue() {
           ],
           createdAt: new Date(Date.now() - 300000).toISOString(),
           expiresAt: new Date(Date.now() + 86400000).toISOString(),
+          escalatedTo: null,
+          requiredApprovals: 2,
+          approvalCount: 1,
+          approverRoles: ['admin'],
+          decisions: [
+            {
+              id: 'decision-1',
+              approverEmail: 'alice@example.com',
+              approverRole: 'admin',
+              decision: 'approved',
+              notes: 'Customer confirmed by phone',
+              createdAt: new Date(Date.now() - 120000).toISOString(),
+            },
+          ],
         },
       ]);
     } catch (err) {
@@ -112,10 +140,22 @@ export default function ApprovalQueue() {
                   <span style={{ marginLeft: '0.5rem' }} className="badge badge-info">
                     {approval.method} {approval.path}
                   </span>
+                  {approval.escalatedTo && (
+                    <span style={{ marginLeft: '0.5rem' }} className="badge badge-danger">
+                      Escalated to {approval.escalatedTo}
+                    </span>
+                  )}
+                </div>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                  {approval.requiredApprovals > 1 && (
+                    <span className="badge badge-info">
+                      {approval.approvalCount} of {approval.requiredApprovals} approvals
+                    </span>
+                  )}
+                  <span className={`badge badge-${approval.reviewerRiskScore > 60 ? 'danger' : 'warning'}`}>
+                    Risk: {approval.reviewerRiskScore}
+                  </span>
                 </div>
-                <span className={`badge badge-${approval.reviewerRiskScore > 60 ? 'danger' : 'warning'}`}>
-                  Risk: {approval.reviewerRiskScore}
-                </span>
               </div>
 
               {selectedApproval === approval.id && (
@@ -132,6 +172,27 @@ export default function ApprovalQueue() {
                     ))}
                   </ul>
 
+                  <h4 style={{ marginTop: '1rem' }}>Approver Decisions:</h4>
+                  {approval.decisions.length === 0 ? (
+                    <p className="card-meta">No decisions yet</p>
+                  ) : (
+                    <ul style={{ marginLeft: '1.5rem', marginTop: '0.5rem' }}>
+                      {approval.decisions.map(decision => (
+                        <li key={decision.id}>
+                          <span className={`badge badge-${decision.decision === 'approved' ? 'success' : 'danger'}`}>
+                            {decision.decision}
+                          </span>
+                          {' '}{decision.approverEmail ?? 'Escalation rule'} ({decision.approverRole}) •{' '}
+                          {new Date(decision.createdAt).toLocaleTimeString()}
+                          {decision.notes && <div className="card-meta">{decision.notes}</div>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {approval.approverRoles && approval.approverRoles.length > 0 && (
+                    <p className="card-meta">Approvers must have role: {approval.approverRoles.join(', ')}</p>
+                  )}
+
                   <div style={{ marginTop: '1rem', display: 'flex', gap: '0.5rem' }}>
                     <button
                       className="button button-success"
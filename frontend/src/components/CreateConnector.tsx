@@ -12,8 +12,17 @@ export default function CreateConnector({ onSuccess, onCancel }: Props) {
     name: '',
     openApiUrl: '',
     baseUrl: '',
-    authType: 'bearer_token',
+    authType: '',
     authSecret: '',
+    tokenUrl: '',
+    clientId: '',
+    scopes: '',
+    authorizationUrl: '',
+    keyId: '',
+    keyIdHeader: '',
+    signatureHeader: 'X-Signature',
+    timestampHeader: 'X-Timestamp',
+    canonicalTemplate: '{timestamp}{method}{pathWithQuery}{body}',
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -25,6 +34,9 @@ export default function CreateConnector({ onSuccess, onCancel }: Props) {
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
+  const isOAuth = formData.authType.startsWith('oauth2_');
+  const isHmac = formData.authType === 'hmac';
+
   const handleUpload = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
@@ -36,8 +48,25 @@ export default function CreateConnector({ onSuccess, onCancel }: Props) {
         name: formData.name,
         openApiUrl: formData.openApiUrl,
         baseUrl: formData.baseUrl,
-        authType: formData.authType,
+        authType: formData.authType || undefined,
         authSecret: formData.authSecret,
+        oauth: isOAuth
+          ? {
+              tokenUrl: formData.tokenUrl,
+              clientId: formData.clientId,
+              scopes: formData.scopes.split(/\s+/).filter(Boolean),
+              authorizationUrl: formData.authorizationUrl || undefined,
+            }
+          : undefined,
+        signing: isHmac
+          ? {
+              keyId: formData.keyId || undefined,
+              keyIdHeader: formData.keyIdHeader || undefined,
+              signatureHeader: formData.signatureHeader,
+              timestampHeader: formData.timestampHeader || undefined,
+              canonicalTemplate: formData.canonicalTemplate,
+            }
+          : undefined,
       });
 
       setEndpoints(response.data.endpoints || []);
@@ -124,19 +153,134 @@ export default function CreateConnector({ onSuccess, onCancel }: Props) {
           <div className="form-group">
             <label>Authentication Type</label>
             <select name="authType" value={formData.authType} onChange={handleInputChange}>
+              <option value="">Detect from OpenAPI spec</option>
               <option value="bearer_token">Bearer Token</option>
               <option value="api_key">API Key</option>
+              <option value="basic">Basic Auth (username:password)</option>
+              <option value="hmac">HMAC Request Signing</option>
+              <option value="oauth2_client_credentials">OAuth2 Client Credentials</option>
+              <option value="oauth2_authorization_code">OAuth2 Authorization Code</option>
             </select>
           </div>
 
+          {isOAuth && (
+            <>
+              <div className="form-group">
+                <label>Token URL</label>
+                <input
+                  type="url"
+                  name="tokenUrl"
+                  value={formData.tokenUrl}
+                  onChange={handleInputChange}
+                  placeholder="https://auth.example.com/oauth/token"
+                  required
+                />
+              </div>
+
+              {formData.authType === 'oauth2_authorization_code' && (
+                <div className="form-group">
+                  <label>Authorization URL</label>
+                  <input
+                    type="url"
+                    name="authorizationUrl"
+                    value={formData.authorizationUrl}
+                    onChange={handleInputChange}
+                    placeholder="https://auth.example.com/oauth/authorize"
+                    required
+                  />
+                </div>
+              )}
+
+              <div className="form-group">
+                <label>Client ID</label>
+                <input
+                  type="text"
+                  name="clientId"
+                  value={formData.clientId}
+                  onChange={handleInputChange}
+                  required
+                />
+              </div>
+
+              <div className="form-group">
+                <label>Scopes (space-separated)</label>
+                <input
+                  type="text"
+                  name="scopes"
+                  value={formData.scopes}
+                  onChange={handleInputChange}
+                  placeholder="read:invoices offline_access"
+                />
+              </div>
+            </>
+          )}
+
+          {isHmac && (
+            <>
+              <div className="form-group">
+                <label>String to Sign</label>
+                <input
+                  type="text"
+                  name="canonicalTemplate"
+                  value={formData.canonicalTemplate}
+                  onChange={handleInputChange}
+                  placeholder="{timestamp}{method}{pathWithQuery}{body}"
+                  required
+                />
+              </div>
+
+              <div className="form-group">
+                <label>Signature Header</label>
+                <input
+                  type="text"
+                  name="signatureHeader"
+                  value={formData.signatureHeader}
+                  onChange={handleInputChange}
+                  required
+                />
+              </div>
+
+              <div className="form-group">
+                <label>Timestamp Header</label>
+                <input
+                  type="text"
+                  name="timestampHeader"
+                  value={formData.timestampHeader}
+                  onChange={handleInputChange}
+                />
+              </div>
+
+              <div className="form-group">
+                <label>API Key ID</label>
+                <input
+                  type="text"
+                  name="keyId"
+                  value={formData.keyId}
+                  onChange={handleInputChange}
+                />
+              </div>
+
+              <div className="form-group">
+                <label>API Key Header</label>
+                <input
+                  type="text"
+                  name="keyIdHeader"
+                  value={formData.keyIdHeader}
+                  onChange={handleInputChange}
+                  placeholder="X-API-Key"
+                />
+              </div>
+            </>
+          )}
+
           <div className="form-group">
-            <label>Authentication Secret</label>
+            <label>{isOAuth ? 'Client Secret' : isHmac ? 'Signing Secret' : 'Authentication Secret'}</label>
             <input
               type="password"
               name="authSecret"
               value={formData.authSecret}
               onChange={handleInputChange}
-              placeholder="Your API key or token"
+              placeholder={isOAuth ? 'OAuth2 client secret' : 'Your API key or token'}
               required
             />
           </div>
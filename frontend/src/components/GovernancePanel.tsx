@@ -1,5 +1,11 @@
 import React, { useState } from 'react';
 
+interface EscalationRule {
+  afterMinutes: number;
+  action: 'notify' | 'reject';
+  notifyRole?: string;
+}
+
 interface Props {
   connectorId: string;
   onBack: () => void;
@@ -12,12 +18,18 @@ export default function GovernancePanel({ connectorId, onBack }: Props) {
     requireApprovalForWrites: true,
     requireApprovalForHighRisk: true,
     dryRunMode: false,
+    responseValidation: 'flag',
+    quorumRequiredApprovals: 2,
+    quorumApproverRoles: ['admin'],
+    quorumForCeilingBreaches: true,
     aiReviewerEnabled: true,
     aiReviewerMode: 'ENFORCING',
     aiReviewerTimeoutMs: 2000,
     aiReviewerAllowMaxRisk: 30,
     aiReviewerApprovalMinRisk: 31,
     aiReviewerBlockMinRisk: 71,
+    approvalTtlMinutes: 1440,
+    approvalEscalationRules: [] as EscalationRule[],
   });
 
   const [saved, setSaved] = useState(false);
@@ -27,6 +39,13 @@ export default function GovernancePanel({ connectorId, onBack }: Props) {
     setSaved(false);
   };
 
+  const handleRuleChange = (index: number, changes: Partial<EscalationRule>) => {
+    handleChange(
+      'approvalEscalationRules',
+      governance.approvalEscalationRules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule))
+    );
+  };
+
   const handleSave = async () => {
     // Mock save
     await new Promise(resolve => setTimeout(resolve, 500));
@@ -115,6 +134,65 @@ export default function GovernancePanel({ connectorId, onBack }: Props) {
               {' '}Dry Run Mode (simulate without executing)
             </label>
           </div>
+
+          <div className="form-group">
+            <label>Response Validation</label>
+            <select
+              value={governance.responseValidation}
+              onChange={e => handleChange('responseValidation', e.target.value)}
+            >
+              <option value="off">Off</option>
+              <option value="flag">Flag drift from the output schema</option>
+              <option value="block">Block responses that drift from the output schema</option>
+            </select>
+          </div>
+
+          <div style={{ background: '#f5f5f5', padding: '1rem', borderRadius: '4px', marginBottom: '1rem' }}>
+            <h4 style={{ marginBottom: '0.75rem' }}>Quorum Approvals (DANGEROUS tools)</h4>
+            <div className="form-group">
+              <label>Required Approvers</label>
+              <input
+                type="number"
+                value={governance.quorumRequiredApprovals}
+                onChange={e => handleChange('quorumRequiredApprovals', parseInt(e.target.value))}
+                min="1"
+                max="10"
+              />
+            </div>
+
+            <div className="form-group">
+              <label>Approver Roles</label>
+              <div style={{ display: 'flex', gap: '0.5rem' }}>
+                {['admin', 'member'].map(role => (
+                  <label key={role} style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+                    <input
+                      type="checkbox"
+                      checked={governance.quorumApproverRoles.includes(role)}
+                      onChange={e => {
+                        if (e.target.checked) {
+                          handleChange('quorumApproverRoles', [...governance.quorumApproverRoles, role]);
+                        } else {
+                          handleChange('quorumApproverRoles', governance.quorumApproverRoles.filter(r => r !== role));
+                        }
+                      }}
+                    />
+                    {role}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={governance.quorumForCeilingBreaches}
+                  onChange={e => handleChange('quorumForCeilingBreaches', e.target.checked)}
+                />
+                {' '}Hold calls over a numeric ceiling for quorum approval instead of blocking
+              </label>
+            </div>
+          </div>
         </div>
 
         {/* AI Reviewer Configuration */}
@@ -208,6 +286,77 @@ export default function GovernancePanel({ connectorId, onBack }: Props) {
         </div>
       </div>
 
+      {/* Approval Escalation */}
+      <div style={{ marginTop: '2rem' }}>
+        <h3 style={{ marginBottom: '1rem', fontSize: '1.1rem' }}>Approval Escalation</h3>
+        <p className="card-meta" style={{ marginBottom: '1rem' }}>
+          Pending approvals are escalated when no decision is made in time. Approvals that reach their expiry are marked expired.
+        </p>
+
+        <div className="form-group">
+          <label>Approvals expire after (minutes)</label>
+          <input
+            type="number"
+            value={governance.approvalTtlMinutes}
+            onChange={e => handleChange('approvalTtlMinutes', parseInt(e.target.value))}
+            min="1"
+          />
+        </div>
+
+        {governance.approvalEscalationRules.map((rule, index) => (
+          <div key={index} style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '0.5rem' }}>
+            <span>After</span>
+            <input
+              type="number"
+              value={rule.afterMinutes}
+              onChange={e => handleRuleChange(index, { afterMinutes: parseInt(e.target.value) })}
+              min="1"
+              style={{ width: '6rem' }}
+            />
+            <span>minutes</span>
+            <select
+              value={rule.action}
+              onChange={e => handleRuleChange(index, { action: e.target.value as EscalationRule['action'] })}
+            >
+              <option value="notify">Notify approver group</option>
+              <option value="reject">Auto-reject</option>
+            </select>
+            {rule.action === 'notify' && (
+              <select
+                value={rule.notifyRole || 'admin'}
+                onChange={e => handleRuleChange(index, { notifyRole: e.target.value })}
+              >
+                <option value="admin">Admins</option>
+                <option value="member">Members</option>
+              </select>
+            )}
+            <button
+              className="button button-secondary"
+              onClick={() =>
+                handleChange(
+                  'approvalEscalationRules',
+                  governance.approvalEscalationRules.filter((_, i) => i !== index)
+                )
+              }
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+
+        <button
+          className="button button-secondary"
+          onClick={() =>
+            handleChange('approvalEscalationRules', [
+              ...governance.approvalEscalationRules,
+              { afterMinutes: 30, action: 'notify', notifyRole: 'admin' },
+            ])
+          }
+        >
+          + Add Escalation Rule
+        </button>
+      </div>
+
       <div style={{ marginTop: '2rem', paddingTop: '1rem', borderTop: '1px solid #e0e0e0' }}>
         <button className="button button-primary" onClick={handleSave}>
           Save Governance Rules
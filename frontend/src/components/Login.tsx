@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+
+export interface Session {
+  token: string;
+  email: string;
+  organizationName: string;
+}
+
+interface Props {
+  onLogin: (session: Session) => void;
+  notice?: string; // why the user was signed out
+}
+
+export default function Login({ onLogin, notice }: Props) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await axios.post('http://localhost:3000/api/auth/login', { email, password });
+
+      onLogin({
+        token: response.data.token,
+        email: response.data.user.email,
+        organizationName: response.data.organization.organizationName,
+      });
+    } catch (err) {
+      const message = axios.isAxiosError(err) && typeof err.response?.data?.error === 'string'
+        ? err.response.data.error
+        : (err as Error).message;
+      setError(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <h2>Sign In</h2>
+      </div>
+
+      {error && <div className="alert alert-error">{error}</div>}
+      {notice && !error && <div className="alert alert-info">{notice}</div>}
+
+      <form onSubmit={handleSubmit}>
+        <div className="form-group">
+          <label>Email</label>
+          <input
+            type="email"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            autoComplete="username"
+            required
+          />
+        </div>
+
+        <div className="form-group">
+          <label>Password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+          />
+        </div>
+
+        <button type="submit" className="button button-primary" disabled={loading}>
+          {loading ? 'Signing in...' : 'Sign In'}
+        </button>
+      </form>
+    </div>
+  );
+}
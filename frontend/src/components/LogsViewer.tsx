@@ -20,7 +20,7 @@ interface LogEntry {
 export default function LogsViewer() {
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<'all' | 'allowed' | 'blocked' | 'pending'>('all');
+  const [filter, setFilter] = useState<'all' | 'allowed' | 'blocked' | 'pending' | 'rejected' | 'expired'>('all');
   const [selectedLog, setSelectedLog] = useState<string | null>(null);
 
   useEffect(() => {
@@ -90,7 +90,7 @@ export default function LogsViewer() {
 
   const getDecisionBadgeClass = (decision: string) => {
     if (decision === 'allowed') return 'badge-success';
-    if (decision === 'blocked') return 'badge-danger';
+    if (decision === 'blocked' || decision === 'rejected') return 'badge-danger';
     return 'badge-warning';
   };
 
@@ -108,7 +108,7 @@ export default function LogsViewer() {
       <div className="panel-header">
         <h2>Invocation Logs</h2>
         <div style={{ display: 'flex', gap: '0.5rem' }}>
-          {(['all', 'allowed', 'blocked', 'pending'] as const).map(f => (
+          {(['all', 'allowed', 'blocked', 'pending', 'rejected', 'expired'] as const).map(f => (
             <button
               key={f}
               className={`button ${filter === f ? 'button-primary' : 'button-secondary'}`}
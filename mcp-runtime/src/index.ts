@@ -1,46 +1,41 @@
-import express, { Request, Response } from 'express';
+import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import axios from 'axios';
-import { z } from 'zod';
+import { connectorRegistry } from './utils/connectorRegistry.js';
+import { toolExecutor } from './utils/toolExecutor.js';
+import { getBearerToken, validateToken } from './utils/tokenAuth.js';
+import { ControlPlaneClient } from './utils/controlPlane.js';
+import { configSync } from './utils/configSync.js';
+import { InternalAuth } from './utils/internalAuth.js';
+import mcpRouter from './routes/mcp.js';
+import internalRouter from './routes/internal.js';
 
 dotenv.config();
 
+// Nonces are recorded by the control plane, so replay protection holds across replicas and restarts
+InternalAuth.configure('runtime', {
+  nonces: { remember: (nonce, forgetAt) => ControlPlaneClient.rememberNonce(nonce, forgetAt) },
+});
+
 const app = express();
 const PORT = process.env.MCP_RUNTIME_PORT || 4000;
 
-app.use(cors());
-app.use(express.json());
-
-// Types
-interface MCPTool {
-  name: string;
-  description: string;
-  inputSchema: Record<string, any>;
-}
-
-interface ConnectorConfig {
-  id: string;
-  baseUrl: string;
-  authType: string;
-  authSecret: string;
-  tools: MCPTool[];
-  governance: {
-    allowedVerbs: string[];
-    rateLimitPerMinute: number;
-  };
-}
-
-// In-memory connector store (replace with DB in production)
-const connectors = new Map<string, ConnectorConfig>();
+app.use(cors({ exposedHeaders: ['Mcp-Session-Id'] }));
+// Large enough for base64-encoded file arguments
+// The raw body is kept for internal API signatures
+app.use(express.json({
+  limit: process.env.MCP_MAX_REQUEST_SIZE || '10mb',
+  verify: InternalAuth.captureRawBody,
+}));
 
 /**
- * MCP Protocol: List available tools
+ * Legacy REST: List available tools
+ * Prefer the MCP endpoint at /mcp/:connectorId
  */
 app.post('/mcp/tools/list', (req, res) => {
   try {
     const { connectorId } = req.body;
-    const connector = connectors.get(connectorId);
+    const connector = connectorRegistry.get(connectorId);
 
     if (!connector) {
       return res.status(404).json({ error: 'Connector not found' });
@@ -59,59 +54,76 @@ app.post('/mcp/tools/list', (req, res) => {
 });
 
 /**
- * MCP Protocol: Call a tool
- * This is where governance checks and AI review happen
+ * Legacy REST: Call a tool
+ * Prefer the MCP endpoint at /mcp/:connectorId
  */
 app.post('/mcp/tools/call', async (req, res) => {
   try {
     const { connectorId, toolName, arguments: toolArguments } = req.body;
-    const authToken = req.headers.authorization?.replace('Bearer ', '');
+    const authToken = getBearerToken(req);
 
     // Validate connector
-    const connector = connectors.get(connectorId);
+    const connector = connectorRegistry.get(connectorId);
     if (!connector) {
       return res.status(404).json({ error: 'Connector not found' });
     }
 
     // Validate token
-    if (!authToken || authToken !== process.env[`TOKEN_${connectorId}`]) {
-      return res.status(401).json({ error: 'Invalid or missing token' });
-    }
-
-    // Find tool
-    const tool = connector.tools.find(t => t.name === toolName);
-    if (!tool) {
-      return res.status(404).json({ error: `Tool ${toolName} not found` });
+    const grant = await validateToken(connectorId, authToken);
+    if (!authToken || !grant) {
+      return res.status(401).json({ error: 'Invalid or missing token', code: 'INVALID_TOKEN' });
     }
 
-    // Validate input schema
-    const schemaValidation = validateSchema(toolArguments, tool.inputSchema);
-    if (!schemaValidation.valid) {
-      return res.status(400).json({ error: schemaValidation.error });
+    const deployed = connectorRegistry.get(connectorId, grant.deploymentVersion);
+    if (!deployed) {
+      return res.status(503).json({
+        error: `Deployment version ${grant.deploymentVersion} is not loaded`,
+        code: 'DEPLOYMENT_NOT_LOADED',
+      });
     }
 
-    // TODO: Run governance checks
-    // TODO: Run AI Reviewer if enabled
-    // TODO: Check approval queue if needed
-
-    // Call upstream API
-    const upstreamResponse = await callUpstreamAPI(
-      connector,
-      tool,
-      toolArguments
-    );
-
-    // TODO: Log the invocation
-    // TODO: Redact sensitive fields
-
-    res.json({
-      result: upstreamResponse,
-      metadata: {
-        toolName,
-        connectorId,
-        timestamp: new Date().toISOString(),
-      },
+    const outcome = await toolExecutor.execute(deployed, toolName, toolArguments, {
+      authToken,
+      tokenId: grant.tokenId,
+      scopes: grant.scopes,
     });
+
+    switch (outcome.status) {
+      case 'tool_not_found':
+        return res.status(404).json({ error: outcome.error, code: 'TOOL_NOT_FOUND' });
+      case 'forbidden':
+        return res.status(403).json({ error: outcome.error, code: 'TOOL_NOT_PERMITTED' });
+      case 'invalid_arguments':
+        return res.status(400).json({ error: outcome.error, code: 'SCHEMA_VALIDATION_ERROR', errors: outcome.errors });
+      case 'blocked':
+        return res.status(403).json({
+          error: outcome.error,
+          code: 'GOVERNANCE_VIOLATION',
+          metadata: outcome.metadata,
+        });
+      case 'pending_approval':
+        return res.status(202).json({
+          status: 'pending_approval',
+          code: 'APPROVAL_REQUIRED',
+          message: outcome.message,
+          approval: outcome.approval,
+          metadata: outcome.metadata,
+        });
+      case 'invalid_response':
+        return res.status(502).json({
+          error: outcome.error,
+          code: 'RESPONSE_SCHEMA_MISMATCH',
+          errors: outcome.errors,
+          metadata: outcome.metadata,
+        });
+      case 'success':
+        return res.json({
+          result: outcome.result,
+          ...(outcome.drift ? { drift: outcome.drift } : {}),
+          ...(outcome.shaping ? { shaping: outcome.shaping } : {}),
+          metadata: outcome.metadata,
+        });
+    }
   } catch (error) {
     console.error('Tool call error:', error);
     res.status(500).json({
@@ -122,110 +134,79 @@ app.post('/mcp/tools/call', async (req, res) => {
 });
 
 /**
- * Health check
+ * Legacy REST: Get the outcome of a call held for approval
+ * Prefer the get_approval_status tool on the MCP endpoint
  */
-app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
-
-/**
- * Register a connector (called by control plane)
- */
-app.post('/internal/connectors/register', (req, res) => {
+app.post('/mcp/approvals/status', async (req, res) => {
   try {
-    const { id, baseUrl, authType, authSecret, tools, governance } = req.body;
-
-    connectors.set(id, {
-      id,
-      baseUrl,
-      authType,
-      authSecret,
-      tools,
-      governance,
-    });
+    const { connectorId, requestId } = req.body;
+    const authToken = getBearerToken(req);
 
-    res.json({
-      id,
-      status: 'registered',
-      mcpUrl: `${process.env.MCP_RUNTIME_URL || 'http://localhost:4000'}/mcp/${id}`,
-    });
-  } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
-  }
-});
+    const connector = connectorRegistry.get(connectorId);
+    if (!connector) {
+      return res.status(404).json({ error: 'Connector not found' });
+    }
 
-/**
- * Validate input against schema
- */
-function validateSchema(
-  input: any,
-  schema: Record<string, any>
-): { valid: boolean; error?: string } {
-  try {
-    if (schema.type === 'object' && typeof input !== 'object') {
-      return { valid: false, error: 'Input must be an object' };
+    const grant = await validateToken(connectorId, authToken);
+    if (!grant) {
+      return res.status(401).json({ error: 'Invalid or missing token', code: 'INVALID_TOKEN' });
+    }
+
+    if (typeof requestId !== 'string' || !requestId) {
+      return res.status(400).json({ error: 'requestId is required' });
     }
 
-    if (schema.required && Array.isArray(schema.required)) {
-      for (const field of schema.required) {
-        if (!(field in input)) {
-          return { valid: false, error: `Missing required field: ${field}` };
-        }
-      }
+    const approval = await ControlPlaneClient.getApprovalStatus(connector.id, grant.tokenId, requestId);
+    if (!approval) {
+      return res.status(404).json({ error: 'Approval not found', code: 'APPROVAL_NOT_FOUND' });
     }
 
-    return { valid: true };
+    res.json({ approval });
   } catch (error) {
-    return { valid: false, error: (error as Error).message };
+    res.status(500).json({ error: (error as Error).message });
   }
-}
+});
 
 /**
- * Call upstream API
+ * MCP Protocol: JSON-RPC endpoint per connector
  */
-async function callUpstreamAPI(
-  connector: ConnectorConfig,
-  tool: MCPTool,
-  arguments_: Record<string, any>
-): Promise<any> {
-  try {
-    // Extract HTTP method and path from tool
-    const method = tool.name.split('_')[0].toUpperCase(); // Simplified
-    const path = arguments_.path || '/'; // Would be extracted from tool metadata
-
-    // Build request
-    const url = `${connector.baseUrl}${path}`;
-    const headers: Record<string, string> = {};
-
-    // Add authentication
-    if (connector.authType === 'bearer_token') {
-      headers.Authorization = `Bearer ${connector.authSecret}`;
-    } else if (connector.authType === 'api_key') {
-      headers['X-API-Key'] = connector.authSecret;
-    }
+app.use('/mcp', mcpRouter);
 
-    // Make request
-    const response = await axios({
-      method: method as any,
-      url,
-      data: arguments_,
-      headers,
-      timeout: 30000,
-    });
+/**
+ * Health check
+ */
+app.get('/health', (req, res) => {
+  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
 
-    return response.data;
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      throw new Error(`Upstream API error: ${error.response?.status} ${error.message}`);
-    }
-    throw error;
+/**
+ * Internal API (called by control plane), signed with the shared internal API key
+ */
+app.use('/internal', InternalAuth.requireSignature, internalRouter);
+
+// Error handling middleware
+app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  // Malformed JSON on the MCP endpoint is a JSON-RPC parse error
+  if (err.type === 'entity.parse.failed' && req.path.startsWith('/mcp/')) {
+    return res.status(400).json({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: -32700, message: 'Parse error' },
+    });
   }
-}
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`MCP Runtime listening on port ${PORT}`);
-  console.log(`Health check: http://localhost:${PORT}/health`);
+  console.error('Error:', err);
+  res.status(err.status || 500).json({
+    error: err.message || 'Internal server error',
+  });
+});
+
+// Start server once connectors are loaded, so a restart does not answer 404s
+configSync.start().finally(() => {
+  app.listen(PORT, () => {
+    console.log(`MCP Runtime listening on port ${PORT}`);
+    console.log(`Health check: http://localhost:${PORT}/health`);
+  });
 });
 
 export default app;
@@ -0,0 +1,220 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { connectorRegistry } from '../utils/connectorRegistry.js';
+import { toolExecutor, ApprovedCallError } from '../utils/toolExecutor.js';
+import { approvalNotifier } from '../utils/approvalNotifier.js';
+import { SecretEnvelope } from '../utils/secretEnvelope.js';
+import { ApprovalStatus, ControlPlaneClient, ExecutionClaim } from '../utils/controlPlane.js';
+import { OAuthClient } from '../utils/oauthClient.js';
+import { oauthTokenManager } from '../utils/oauthTokenManager.js';
+import { requestSigner } from '../utils/requestSigner.js';
+import { OAuthConfigSchema, RegistrationError, parseRegistration } from '../utils/connectorRegistration.js';
+
+/**
+ * Internal endpoints called by the control plane
+ */
+const router = Router();
+
+const ExecuteApprovalSchema = z.object({
+  connectorId: z.string().min(1),
+  requestId: z.string().min(1),
+  toolName: z.string().min(1),
+  arguments: z.record(z.any()),
+  reviewerDecision: z.string().nullable().optional(),
+  reviewerRiskScore: z.number().nullable().optional(),
+  reviewerReasons: z.array(z.string()).nullable().optional(),
+  approvalNotes: z.string().nullable().optional(),
+  decidedAt: z.string().nullable().optional(),
+  deploymentVersion: z.number().int().nullable().optional(), // the version the call was made on
+});
+
+const ApprovalDecisionSchema = z.object({
+  connectorId: z.string().min(1),
+  requestId: z.string().min(1),
+  toolName: z.string().min(1),
+  status: z.enum(['rejected', 'expired']),
+  approvalNotes: z.string().nullable().optional(),
+  decidedAt: z.string().nullable().optional(),
+  expiresAt: z.string().nullable().optional(),
+});
+
+const OAuthExchangeSchema = z.object({
+  connectorId: z.string().min(1),
+  oauth: OAuthConfigSchema,
+  encryptedClientSecret: z.string().min(1),
+  code: z.string().min(1),
+  codeVerifier: z.string().min(1),
+  redirectUri: z.string().url(),
+});
+
+/**
+ * POST /internal/connectors/register
+ * Register a connector, or a deployment version of it
+ */
+router.post('/connectors/register', (req, res) => {
+  try {
+    const { config, activate } = parseRegistration(req.body);
+
+    connectorRegistry.register(config, activate);
+    oauthTokenManager.reset(config.id);
+    requestSigner.reset(config.id);
+
+    res.json({
+      id: config.id,
+      status: 'registered',
+      version: config.version,
+      active: connectorRegistry.get(config.id) === connectorRegistry.get(config.id, config.version),
+      versions: connectorRegistry.listVersions(config.id),
+      mcpUrl: `${process.env.MCP_RUNTIME_URL || 'http://localhost:4000'}/mcp/${config.id}`,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof RegistrationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /internal/oauth/exchange
+ * Exchange an OAuth2 authorization code; returns the refresh token for the control plane to store
+ */
+router.post('/oauth/exchange', async (req, res) => {
+  try {
+    const input = OAuthExchangeSchema.parse(req.body);
+
+    let tokens;
+    try {
+      tokens = await OAuthClient.exchangeCode(
+        input.oauth,
+        SecretEnvelope.decrypt(input.encryptedClientSecret),
+        input
+      );
+    } catch (error) {
+      return res.status(502).json({ error: (error as Error).message });
+    }
+
+    // Registered connectors can use the new tokens right away
+    if (connectorRegistry.get(input.connectorId)) {
+      oauthTokenManager.store(input.connectorId, tokens);
+    }
+
+    res.json({ connectorId: input.connectorId, refreshToken: tokens.refreshToken });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /internal/approvals/:id/execute
+ * Execute a stored call after human approval, on the connector version it was
+ * made on. The call is claimed with the control plane first; a call executed
+ * before is not executed again, its stored outcome is returned instead.
+ */
+router.post('/approvals/:id/execute', async (req, res) => {
+  try {
+    const input = ExecuteApprovalSchema.parse(req.body);
+    const approvalId = req.params.id;
+
+    const connector = connectorRegistry.get(input.connectorId, input.deploymentVersion);
+    if (!connector) {
+      return res.status(404).json({
+        error: input.deploymentVersion == null
+          ? 'Connector not found'
+          : `Connector version ${input.deploymentVersion} is not served`,
+      });
+    }
+
+    let claim: ExecutionClaim | null;
+    try {
+      claim = await ControlPlaneClient.claimExecution(approvalId);
+    } catch (error) {
+      return res.status(503).json({ error: (error as Error).message });
+    }
+    if (!claim) {
+      return res.status(404).json({ error: 'Approved call not found' });
+    }
+    if (!claim.claimed) {
+      const { execution } = claim;
+      if (execution.status === 'executed') {
+        return res.json({ approvalId, requestId: input.requestId, status: 'executed', result: execution.result });
+      }
+      return execution.status === 'failed'
+        ? res.status(502).json({ error: execution.error })
+        : res.status(409).json({ error: 'Approved call is being executed' });
+    }
+
+    const approved: Omit<ApprovalStatus, 'execution'> = {
+      approvalId,
+      requestId: input.requestId,
+      toolName: input.toolName,
+      status: 'approved',
+      approvalNotes: input.approvalNotes,
+      decidedAt: input.decidedAt,
+    };
+
+    let result: any;
+    try {
+      result = await toolExecutor.executeApproved(connector, { ...input, approvalId });
+    } catch (error) {
+      const message = (error as Error).message;
+      await ControlPlaneClient.recordExecution(approvalId, { status: 'failed', error: message });
+      approvalNotifier.notify(connector.id, {
+        ...approved,
+        execution: { status: 'failed', error: message, executedAt: new Date().toISOString() },
+      });
+      throw error;
+    }
+
+    await ControlPlaneClient.recordExecution(approvalId, { status: 'executed', result });
+    approvalNotifier.notify(connector.id, {
+      ...approved,
+      execution: { status: 'executed', result, executedAt: new Date().toISOString() },
+    });
+
+    res.json({
+      approvalId,
+      requestId: input.requestId,
+      status: 'executed',
+      result,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof ApprovedCallError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    res.status(502).json({ error: (error as Error).message, code: 'UPSTREAM_ERROR' });
+  }
+});
+
+/**
+ * POST /internal/approvals/:id/decision
+ * Notify waiting MCP clients of an approval that will not be executed
+ */
+router.post('/approvals/:id/decision', (req, res) => {
+  try {
+    const { connectorId, ...decision } = ApprovalDecisionSchema.parse(req.body);
+
+    const delivered = approvalNotifier.notify(connectorId, {
+      approvalId: req.params.id,
+      ...decision,
+    });
+
+    res.json({ approvalId: req.params.id, delivered });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+export default router;
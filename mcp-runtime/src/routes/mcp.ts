@@ -0,0 +1,277 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ConnectorConfig } from '../types.js';
+import { connectorRegistry } from '../utils/connectorRegistry.js';
+import { getBearerToken, validateToken } from '../utils/tokenAuth.js';
+import { TokenGrant } from '../utils/controlPlane.js';
+import { mcpSessions, McpSession } from '../utils/mcpSessions.js';
+import { toolExecutor } from '../utils/toolExecutor.js';
+import {
+  McpProtocolHandler,
+  JsonRpcMessage,
+  JsonRpcResponse,
+  JSON_RPC_ERRORS,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  isJsonRpcMessage,
+  isJsonRpcRequest,
+  jsonRpcError,
+} from '../utils/mcpProtocol.js';
+
+/**
+ * MCP server endpoint per connector
+ *
+ * Streamable HTTP (2025-03-26 and later):
+ *   POST   /mcp/:connectorId  JSON-RPC messages, JSON responses
+ *   GET    /mcp/:connectorId  SSE stream for server-initiated messages
+ *   DELETE /mcp/:connectorId  terminate the session
+ *
+ * HTTP+SSE fallback (2024-11-05):
+ *   GET  /mcp/:connectorId/sse       SSE stream, announces the message endpoint
+ *   POST /mcp/:connectorId/messages  JSON-RPC messages, responses sent on the stream
+ */
+const router = Router();
+
+const protocolHandler = new McpProtocolHandler(toolExecutor);
+
+interface AuthenticatedLocals {
+  connector: ConnectorConfig;
+  authToken: string;
+  grant: TokenGrant;
+}
+
+/**
+ * Reject browser requests from origins that are not explicitly allowed
+ * (DNS rebinding protection). Requests without an Origin header, from
+ * non-browser clients, pass.
+ */
+function checkOrigin(req: Request, res: Response, next: NextFunction) {
+  const origin = req.headers.origin;
+  const allowedOrigins = (process.env.MCP_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(o => o.trim())
+    .filter(Boolean);
+
+  if (origin && !allowedOrigins.includes(origin)) {
+    return res.status(403).json(jsonRpcError(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Origin not allowed'));
+  }
+  next();
+}
+
+/**
+ * Resolve the connector and validate the MCP bearer token
+ */
+async function authenticate(req: Request, res: Response, next: NextFunction) {
+  const connector = connectorRegistry.get(req.params.connectorId);
+  if (!connector) {
+    return res.status(404).json(jsonRpcError(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Connector not found'));
+  }
+
+  const authToken = getBearerToken(req);
+  let grant: TokenGrant | null;
+  try {
+    grant = await validateToken(connector.id, authToken);
+  } catch (error) {
+    console.error('Token validation failed:', (error as Error).message);
+    return res.status(503).json(jsonRpcError(null, JSON_RPC_ERRORS.INTERNAL_ERROR, 'Token validation unavailable'));
+  }
+  if (!authToken || !grant) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    return res.status(401).json(jsonRpcError(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid or missing token'));
+  }
+
+  // Tokens pinned to a deployment version see that version's tools and governance
+  const deployed = connectorRegistry.get(connector.id, grant.deploymentVersion);
+  if (!deployed) {
+    return res.status(503).json(jsonRpcError(
+      null,
+      JSON_RPC_ERRORS.INTERNAL_ERROR,
+      `Deployment version ${grant.deploymentVersion} is not loaded`
+    ));
+  }
+
+  res.locals.connector = deployed;
+  res.locals.authToken = authToken;
+  res.locals.grant = grant;
+  next();
+}
+
+/**
+ * Reject protocol versions this server does not speak
+ */
+function checkProtocolVersion(req: Request, res: Response, next: NextFunction) {
+  const version = req.headers['mcp-protocol-version'];
+  if (typeof version === 'string' && !SUPPORTED_PROTOCOL_VERSIONS.includes(version)) {
+    return res.status(400).json(
+      jsonRpcError(null, JSON_RPC_ERRORS.INVALID_REQUEST, `Unsupported protocol version: ${version}`)
+    );
+  }
+  next();
+}
+
+/**
+ * Resolve the Streamable HTTP session from the Mcp-Session-Id header
+ */
+function getSession(req: Request, res: Response): McpSession | undefined {
+  const { connector, authToken } = res.locals as AuthenticatedLocals;
+  const sessionId = req.headers['mcp-session-id'];
+
+  if (typeof sessionId !== 'string') {
+    res.status(400).json(jsonRpcError(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Missing Mcp-Session-Id header'));
+    return undefined;
+  }
+
+  const session = mcpSessions.get(sessionId, connector.id, authToken);
+  if (!session) {
+    res.status(404).json(jsonRpcError(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Session not found'));
+    return undefined;
+  }
+
+  return session;
+}
+
+/**
+ * Split a request body into JSON-RPC messages, or an error response if malformed
+ */
+function parseMessages(body: any): { messages: JsonRpcMessage[]; batch: boolean } | JsonRpcResponse {
+  const batch = Array.isArray(body);
+  const messages = batch ? body : [body];
+
+  if (messages.length === 0 || !messages.every(isJsonRpcMessage)) {
+    return jsonRpcError(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid JSON-RPC message');
+  }
+
+  return { messages, batch };
+}
+
+async function handleMessages(
+  messages: JsonRpcMessage[],
+  session: McpSession,
+  { connector, authToken, grant }: AuthenticatedLocals
+): Promise<JsonRpcResponse[]> {
+  const responses: JsonRpcResponse[] = [];
+  for (const message of messages) {
+    const response = await protocolHandler.handle(message, { connector, session, authToken, grant });
+    if (response) {
+      responses.push(response);
+    }
+  }
+  return responses;
+}
+
+router.use('/:connectorId', checkOrigin, authenticate, checkProtocolVersion);
+
+/**
+ * POST /mcp/:connectorId
+ * Streamable HTTP: receive JSON-RPC messages
+ */
+router.post('/:connectorId', async (req, res) => {
+  try {
+    const { connector, authToken } = res.locals as AuthenticatedLocals;
+
+    const parsed = parseMessages(req.body);
+    if (!('messages' in parsed)) {
+      return res.status(400).json(parsed);
+    }
+    const { messages, batch } = parsed;
+
+    // initialize opens a new session, every other message must carry one
+    let session: McpSession | undefined;
+    if (messages.some(m => m.method === 'initialize')) {
+      if (messages.length > 1) {
+        return res.status(400).json(
+          jsonRpcError(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'initialize must not be batched')
+        );
+      }
+      session = mcpSessions.create(connector.id, authToken, 'streamable-http');
+      res.setHeader('Mcp-Session-Id', session.id);
+    } else {
+      session = getSession(req, res);
+      if (!session) return;
+    }
+
+    const responses = await handleMessages(messages, session, res.locals as AuthenticatedLocals);
+
+    // Only notifications or responses: acknowledge without a body
+    if (!messages.some(isJsonRpcRequest)) {
+      return res.status(202).end();
+    }
+
+    res.json(batch ? responses : responses[0]);
+  } catch (error) {
+    console.error('MCP transport error:', error);
+    res.status(500).json(jsonRpcError(null, JSON_RPC_ERRORS.INTERNAL_ERROR, (error as Error).message));
+  }
+});
+
+/**
+ * GET /mcp/:connectorId
+ * Streamable HTTP: open an SSE stream for server-initiated messages
+ */
+router.get('/:connectorId', (req, res) => {
+  if (!(req.headers.accept || '').includes('text/event-stream')) {
+    return res.status(405).set('Allow', 'POST, DELETE').end();
+  }
+
+  const session = getSession(req, res);
+  if (!session) return;
+
+  mcpSessions.attachStream(session, res);
+});
+
+/**
+ * DELETE /mcp/:connectorId
+ * Streamable HTTP: terminate the session
+ */
+router.delete('/:connectorId', (req, res) => {
+  const session = getSession(req, res);
+  if (!session) return;
+
+  mcpSessions.delete(session.id);
+  res.status(200).end();
+});
+
+/**
+ * GET /mcp/:connectorId/sse
+ * HTTP+SSE fallback: open the event stream and announce the message endpoint
+ */
+router.get('/:connectorId/sse', (req, res) => {
+  const { connector, authToken } = res.locals as AuthenticatedLocals;
+
+  const session = mcpSessions.create(connector.id, authToken, 'sse');
+  mcpSessions.attachStream(session, res);
+  mcpSessions.writeEvent(
+    res,
+    'endpoint',
+    `${req.baseUrl}/${encodeURIComponent(connector.id)}/messages?sessionId=${session.id}`
+  );
+});
+
+/**
+ * POST /mcp/:connectorId/messages
+ * HTTP+SSE fallback: receive JSON-RPC messages, reply on the event stream
+ */
+router.post('/:connectorId/messages', async (req, res) => {
+  const { connector, authToken } = res.locals as AuthenticatedLocals;
+
+  const session = mcpSessions.get(String(req.query.sessionId || ''), connector.id, authToken);
+  if (!session || session.transport !== 'sse') {
+    return res.status(404).json(jsonRpcError(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Session not found'));
+  }
+
+  const parsed = parseMessages(req.body);
+  if (!('messages' in parsed)) {
+    return res.status(400).json(parsed);
+  }
+
+  res.status(202).send('Accepted');
+
+  try {
+    const responses = await handleMessages(parsed.messages, session, res.locals as AuthenticatedLocals);
+    for (const response of responses) {
+      mcpSessions.send(session, response);
+    }
+  } catch (error) {
+    console.error('MCP transport error:', error);
+  }
+});
+
+export default router;
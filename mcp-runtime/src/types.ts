@@ -0,0 +1,216 @@
+// Shared runtime types
+
+export type ParameterLocation = 'path' | 'query' | 'header' | 'body';
+
+export interface MCPTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, any>;
+  category: 'READ' | 'WRITE' | 'DANGEROUS';
+  method: string;
+  path: string;
+  dangerTags: string[];
+  // Where each argument goes in the upstream request; inferred when absent
+  parameterLocations?: Record<string, ParameterLocation>;
+  // How `body` is sent when it is not plain application/json
+  bodyEncoding?: BodyEncoding;
+  // JSON Schema of the structured content of a successful response
+  outputSchema?: Record<string, any>;
+  // Non-object responses are wrapped in this property of the structured content
+  outputProperty?: string;
+  // How the endpoint pages through results (detected from the spec)
+  pagination?: PaginationConfig;
+  // OpenAPI security requirements; the connector's own auth applies when absent
+  security?: SecurityRequirement[];
+  // Curated tools: the generated name, which keys token scopes and response shaping
+  sourceName?: string;
+  override?: ToolOverride;
+}
+
+/**
+ * Curation of a generated tool, kept by its generated name across spec re-imports
+ */
+export interface ToolOverride {
+  name?: string;
+  description?: string;
+  hiddenParameters?: string[]; // left out of the input schema
+  fixedArguments?: Record<string, any>; // always sent; left out of the input schema
+  defaults?: Record<string, any>; // sent when the caller leaves the argument out
+}
+
+/**
+ * The request body media type: a JSON variant, form-urlencoded,
+ * multipart/form-data, text or binary. Files are passed as
+ * `{ data (base64), filename?, contentType? }`.
+ */
+export interface BodyEncoding {
+  mediaType: string;
+  fileFields?: string[]; // multipart: fields sent as file parts
+}
+
+/**
+ * Pagination pattern of a list endpoint. Paths are JSONPath (see jsonPath.ts).
+ */
+export interface PaginationConfig {
+  style: 'cursor' | 'offset' | 'page' | 'link';
+  itemsPath: string; // the item array; '$' when the response is the array
+  cursorParam?: string; // cursor: query parameter taking the next cursor
+  nextCursorPath?: string; // cursor: the next cursor in the response
+  offsetParam?: string; // offset
+  limitParam?: string; // offset: page size parameter
+  pageParam?: string; // page: page number parameter
+}
+
+/**
+ * Per-tool limits on what is returned to the agent
+ */
+export interface ResponseShaping {
+  fields?: string[]; // JSONPaths to keep; everything else is dropped
+  maxItems?: number; // per array
+  maxBytes?: number; // of the serialized response
+  maxPages?: number; // pages followed on paginated tools; 1 when absent
+}
+
+/**
+ * Alternatives are ORed; the schemes within one requirement are ANDed.
+ * An empty list means the operation needs no authentication.
+ */
+export type SecurityRequirement = Record<string, string[]>;
+
+/**
+ * A security scheme from the connector's OpenAPI spec
+ */
+export type AuthScheme =
+  | { type: 'apiKey'; in: 'header' | 'query' | 'cookie'; name: string }
+  | { type: 'http'; scheme: 'basic' | 'bearer' }
+  | { type: 'oauth2'; flow: 'clientCredentials' | 'authorizationCode'; tokenUrl: string; scopes: string[] };
+
+export type ReviewerDecision = 'ALLOW' | 'REQUIRE_HUMAN_APPROVAL' | 'BLOCK';
+
+/**
+ * Governance settings as stored in `governance_configs` on the control plane
+ */
+export interface ConnectorGovernance {
+  allowedVerbs: string[];
+  allowedPaths: string[];
+  rateLimitPerMinute: number;
+  numericCeilings: Record<string, number>;
+  requireApprovalForWrites: boolean;
+  requireApprovalForHighRisk: boolean;
+  enabled: boolean;
+  dryRunMode: boolean;
+  redactSensitiveFields: boolean;
+  // Upstream responses checked against the tool's output schema
+  responseValidation: ResponseValidationMode;
+
+  // Quorum approvals for DANGEROUS tools and ceiling breaches
+  quorumRequiredApprovals: number;
+  quorumApproverRoles: string[];
+  quorumForCeilingBreaches: boolean;
+  // Pending approvals expire this long after the call was queued
+  approvalTtlMinutes: number;
+
+  // AI Reviewer configuration
+  aiReviewerEnabled: boolean;
+  aiReviewerMode: 'ADVISORY' | 'ENFORCING';
+  aiReviewerWriteCallsOnly: boolean;
+  aiReviewerHighRiskOnly: boolean;
+  aiReviewerTimeoutMs: number;
+  aiReviewerFallback: ReviewerDecision;
+  aiReviewerAllowMaxRisk: number;
+  aiReviewerApprovalMinRisk: number;
+  aiReviewerBlockMinRisk: number;
+  aiReviewerAllowedBusinessPurpose?: string;
+  aiReviewerForbiddenActions?: string;
+}
+
+/**
+ * off: no check; flag: log responses that drift from the output schema;
+ * block: withhold them from the caller
+ */
+export type ResponseValidationMode = 'off' | 'flag' | 'block';
+
+export type AuthType =
+  | 'api_key'
+  | 'bearer_token'
+  | 'basic'
+  | 'hmac'
+  | 'oauth2_client_credentials'
+  | 'oauth2_authorization_code';
+
+/**
+ * OAuth2 settings of a connector; the client secret is the connector's auth secret
+ */
+export interface OAuthConfig {
+  tokenUrl: string;
+  clientId: string;
+  scopes?: string[];
+  audience?: string;
+  clientAuthMethod?: 'client_secret_basic' | 'client_secret_post';
+  authorizationUrl?: string;
+}
+
+/**
+ * HMAC request signing settings; the signing secret is the connector's auth secret.
+ * Templates use `{placeholder}`s filled in per request (see requestSigner.ts).
+ */
+export interface SigningConfig {
+  algorithm: 'sha256' | 'sha384' | 'sha512';
+  secretEncoding: 'utf8' | 'base64' | 'hex';
+  signatureEncoding: 'hex' | 'base64';
+  canonicalTemplate: string; // the string that is signed
+  signatureHeader: string;
+  signatureTemplate: string; // value of the signature header
+  timestampHeader?: string;
+  timestampFormat: 'unix_seconds' | 'unix_millis' | 'iso8601';
+  nonceHeader?: string;
+  keyId?: string; // public API key, sent in keyIdHeader
+  keyIdHeader?: string;
+  clockSkewToleranceMs?: number;
+}
+
+export interface ConnectorConfig {
+  id: string;
+  name: string;
+  version?: number; // deployment version; unset for unversioned registrations
+  baseUrl: string;
+  authType: AuthType;
+  authHeaderName?: string; // api_key: header, query parameter or cookie name
+  authLocation?: 'header' | 'query' | 'cookie';
+  securitySchemes?: Record<string, AuthScheme>;
+  // Envelope-encrypted; decrypted only when calling upstream
+  encryptedAuthSecret: string;
+  oauth?: OAuthConfig;
+  encryptedRefreshToken?: string; // authorization code flow
+  signing?: SigningConfig; // hmac
+  tools: MCPTool[];
+  responseShaping?: Record<string, ResponseShaping>; // by generated tool name
+  governance: ConnectorGovernance;
+}
+
+// Secure defaults, mirroring the column defaults of `governance_configs`
+export const DEFAULT_GOVERNANCE: ConnectorGovernance = {
+  allowedVerbs: ['GET'],
+  allowedPaths: [],
+  rateLimitPerMinute: 60,
+  numericCeilings: {},
+  requireApprovalForWrites: true,
+  requireApprovalForHighRisk: true,
+  enabled: true,
+  dryRunMode: false,
+  redactSensitiveFields: true,
+  responseValidation: 'flag',
+  quorumRequiredApprovals: 2,
+  quorumApproverRoles: ['admin'],
+  quorumForCeilingBreaches: true,
+  approvalTtlMinutes: 24 * 60,
+  aiReviewerEnabled: true,
+  aiReviewerMode: 'ENFORCING',
+  aiReviewerWriteCallsOnly: true,
+  aiReviewerHighRiskOnly: true,
+  aiReviewerTimeoutMs: 2000,
+  aiReviewerFallback: 'REQUIRE_HUMAN_APPROVAL',
+  aiReviewerAllowMaxRisk: 30,
+  aiReviewerApprovalMinRisk: 31,
+  aiReviewerBlockMinRisk: 71,
+};
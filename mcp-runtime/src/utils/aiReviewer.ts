@@ -1,11 +1,12 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { MCPTool } from './openApiParser.js';
 
 export interface ReviewerInput {
   connector: {
     id: string;
     name: string;
     baseUrlHost: string;
+    allowedBusinessPurpose?: string;
+    forbiddenActions?: string;
   };
   tool: {
     name: string;
@@ -57,47 +58,38 @@ export class AIReviewer {
     input: ReviewerInput,
     timeoutMs: number = 2000
   ): Promise<ReviewerOutput> {
+    const systemPrompt = this.buildSystemPrompt(input);
+    const userPrompt = this.buildUserPrompt(input);
+
+    // Errors, including the timeout, go to the caller's fallback handling
+    let timer: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('AI Reviewer timeout')), timeoutMs);
+    });
+
     try {
-      const systemPrompt = this.buildSystemPrompt(input);
-      const userPrompt = this.buildUserPrompt(input);
-
-      // Create a promise that rejects after timeout
-      const timeoutPromise = new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error('AI Reviewer timeout')), timeoutMs)
-      );
-
-      try {
-        const model = this.client.getGenerativeModel({ model: this.model });
-        
-        const responsePromise = model.generateContent({
-          contents: [
-            {
-              role: 'user',
-              parts: [
-                { text: `${systemPrompt}\n\n${userPrompt}` },
-              ],
-            },
-          ],
-          generationConfig: {
-            temperature: 0.3,
-            maxOutputTokens: 500,
+      const model = this.client.getGenerativeModel({ model: this.model });
+
+      const responsePromise = model.generateContent({
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              { text: `${systemPrompt}\n\n${userPrompt}` },
+            ],
           },
-        });
-
-        const response = await Promise.race([responsePromise, timeoutPromise]);
-        const content = response.response.text() || '{}';
-        const result = this.parseReviewerResponse(content);
-
-        return result;
-      } catch (error) {
-        if ((error as Error).message === 'AI Reviewer timeout') {
-          throw error;
-        }
-        throw error;
-      }
-    } catch (error) {
-      console.error('AI Reviewer error:', error);
-      throw error;
+        ],
+        generationConfig: {
+          temperature: 0.3,
+          maxOutputTokens: 500,
+        },
+      });
+
+      const response = await Promise.race([responsePromise, timeoutPromise]);
+      const content = response.response.text() || '{}';
+      return this.parseReviewerResponse(content);
+    } finally {
+      clearTimeout(timer);
     }
   }
 
@@ -105,8 +97,9 @@ export class AIReviewer {
    * Build system prompt for reviewer
    */
   private buildSystemPrompt(input: ReviewerInput): string {
-    const businessPurpose = input.connector.name;
-    const forbiddenExamples = 'Unauthorized access, data exfiltration, malicious modifications';
+    const businessPurpose = input.connector.allowedBusinessPurpose || input.connector.name;
+    const forbiddenExamples = input.connector.forbiddenActions
+      || 'Unauthorized access, data exfiltration, malicious modifications';
 
     return `You are a strict safety reviewer for API tool calls in a Model Context Protocol (MCP) server.
 
@@ -222,8 +215,7 @@ Is this tool invocation safe to execute? Respond with JSON only.`;
         reasons,
         suggestedChanges: parsed.suggestedChanges || [],
       };
-    } catch (error) {
-      console.error('Failed to parse reviewer response:', error);
+    } catch {
       // Return safe default on parse error
       return {
         decision: 'REQUIRE_HUMAN_APPROVAL',
@@ -0,0 +1,76 @@
+import { ApprovalStatus } from './controlPlane.js';
+import { mcpSessions, McpSession, LOG_LEVELS } from './mcpSessions.js';
+
+interface ApprovalWatcher {
+  sessionId: string;
+  connectorId: string;
+  authToken: string;
+  expiresAt: number;
+}
+
+// Keep watchers a little past approval expiry so the expiry itself can be reported
+const WATCHER_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * Pushes approval outcomes to the MCP sessions that queued the calls. Watchers
+ * are per process, so only sessions on the replica the control plane sends the
+ * outcome to are notified; `get_approval_status` works from any replica.
+ */
+export class ApprovalNotifier {
+  private watchers = new Map<string, ApprovalWatcher>();
+
+  /**
+   * Remember which session is waiting on a queued request
+   */
+  watch(requestId: string, session: McpSession, expiresAt: string): void {
+    this.sweep();
+    this.watchers.set(requestId, {
+      sessionId: session.id,
+      connectorId: session.connectorId,
+      authToken: session.authToken,
+      expiresAt: new Date(expiresAt).getTime() + WATCHER_GRACE_MS,
+    });
+  }
+
+  /**
+   * Send the outcome to the waiting session as a `notifications/message`.
+   * Returns false when nobody is listening; clients can still poll with `get_approval_status`.
+   */
+  notify(connectorId: string, approval: ApprovalStatus): boolean {
+    const watcher = this.watchers.get(approval.requestId);
+    if (!watcher || watcher.connectorId !== connectorId) {
+      return false;
+    }
+    this.watchers.delete(approval.requestId);
+
+    const session = mcpSessions.get(watcher.sessionId, watcher.connectorId, watcher.authToken);
+    if (!session || !this.isLevelEnabled(session, 'info')) {
+      return false;
+    }
+
+    return mcpSessions.send(session, {
+      jsonrpc: '2.0',
+      method: 'notifications/message',
+      params: {
+        level: 'info',
+        logger: 'approvals',
+        data: { type: 'approval_decided', ...approval },
+      },
+    });
+  }
+
+  private isLevelEnabled(session: McpSession, level: string): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(session.logLevel || 'info');
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [requestId, watcher] of this.watchers) {
+      if (watcher.expiresAt < now) {
+        this.watchers.delete(requestId);
+      }
+    }
+  }
+}
+
+export const approvalNotifier = new ApprovalNotifier();
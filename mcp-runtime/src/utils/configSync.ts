@@ -0,0 +1,98 @@
+import { ControlPlaneClient, ConfigBundle } from './controlPlane.js';
+import { connectorRegistry, Registration } from './connectorRegistry.js';
+import { parseRegistration } from './connectorRegistration.js';
+import { oauthTokenManager } from './oauthTokenManager.js';
+import { requestSigner } from './requestSigner.js';
+
+const DEFAULT_INTERVAL_MS = 10 * 1000;
+
+/**
+ * Keeps the connector registry in line with the control plane: loads the
+ * config bundle at startup, then polls for new revisions. A restarted runtime
+ * serves what it served before, and replicas converge on the same connectors.
+ */
+export class ConfigSync {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private revision?: string;
+  private credentials = new Map<string, string>(); // by connector id
+
+  /**
+   * Load the bundle, then poll every `intervalMs`; 0 turns syncing off
+   */
+  async start(intervalMs: number = Number(process.env.CONFIG_SYNC_INTERVAL_MS ?? DEFAULT_INTERVAL_MS)): Promise<void> {
+    if (this.timer || intervalMs <= 0) return;
+    this.timer = setInterval(() => this.runOnce(), intervalMs);
+    this.timer.unref();
+    await this.runOnce();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Fetch and apply the bundle if it changed. Overlapping runs are skipped.
+   */
+  async runOnce(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const bundle = await ControlPlaneClient.getConfigBundle(this.revision);
+      if (bundle) {
+        this.apply(bundle);
+      }
+    } catch (error) {
+      // The last loaded config keeps being served until the control plane is back
+      console.error('Config sync failed:', (error as Error).message);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private apply(bundle: ConfigBundle): void {
+    const registrations: Registration[] = [];
+    for (const entry of bundle.connectors) {
+      try {
+        registrations.push(parseRegistration(entry));
+      } catch (error) {
+        // An entry the runtime cannot serve does not take down what it already serves
+        const loaded = connectorRegistry.get(entry.id, entry.version);
+        console.error(`Invalid config for connector ${entry.id} version ${entry.version}:`, (error as Error).message);
+        if (loaded) {
+          registrations.push({ config: loaded, activate: connectorRegistry.get(entry.id) === loaded });
+        }
+      }
+    }
+
+    connectorRegistry.replaceAll(registrations);
+    this.resetChangedCredentials(registrations);
+    this.revision = bundle.revision;
+  }
+
+  /**
+   * Cached upstream tokens and clock offsets belong to the credentials they were made with
+   */
+  private resetChangedCredentials(registrations: Registration[]): void {
+    for (const { config, activate } of registrations) {
+      if (!activate) continue;
+
+      const fingerprint = JSON.stringify([
+        config.encryptedAuthSecret,
+        config.oauth,
+        config.encryptedRefreshToken,
+        config.signing,
+      ]);
+      const previous = this.credentials.get(config.id);
+      if (previous !== undefined && previous !== fingerprint) {
+        oauthTokenManager.reset(config.id);
+        requestSigner.reset(config.id);
+      }
+      this.credentials.set(config.id, fingerprint);
+    }
+  }
+}
+
+export const configSync = new ConfigSync();
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { DEFAULT_GOVERNANCE } from '../types.js';
+import { Registration } from './connectorRegistry.js';
+import { SecretEnvelope } from './secretEnvelope.js';
+import { SIGNING_PLACEHOLDERS } from './requestSigner.js';
+import { parseJsonPath } from './jsonPath.js';
+import { ToolCuration } from './toolCuration.js';
+
+/**
+ * A connector registration the runtime cannot serve
+ */
+export class RegistrationError extends Error {}
+
+export const OAuthConfigSchema = z.object({
+  tokenUrl: z.string().url(),
+  clientId: z.string().min(1),
+  scopes: z.array(z.string()).optional(),
+  audience: z.string().optional(),
+  clientAuthMethod: z.enum(['client_secret_basic', 'client_secret_post']).optional(),
+  authorizationUrl: z.string().url().optional(),
+});
+
+const SigningTemplateSchema = z.string().min(1).refine(
+  template => [...template.matchAll(/\{(\w+)\}/g)].every(match => SIGNING_PLACEHOLDERS.includes(match[1])),
+  { message: `Unknown placeholder; use ${SIGNING_PLACEHOLDERS.map(name => `{${name}}`).join(', ')}` }
+);
+
+const SigningConfigSchema = z.object({
+  algorithm: z.enum(['sha256', 'sha384', 'sha512']).default('sha256'),
+  secretEncoding: z.enum(['utf8', 'base64', 'hex']).default('utf8'),
+  signatureEncoding: z.enum(['hex', 'base64']).default('hex'),
+  canonicalTemplate: SigningTemplateSchema.default('{timestamp}{method}{pathWithQuery}{body}'),
+  signatureHeader: z.string().min(1).default('X-Signature'),
+  signatureTemplate: SigningTemplateSchema.default('{signature}'),
+  timestampHeader: z.string().min(1).optional(),
+  timestampFormat: z.enum(['unix_seconds', 'unix_millis', 'iso8601']).default('unix_seconds'),
+  nonceHeader: z.string().min(1).optional(),
+  keyId: z.string().min(1).optional(),
+  keyIdHeader: z.string().min(1).optional(),
+  clockSkewToleranceMs: z.number().int().positive().optional(),
+});
+
+const JsonPathSchema = z.string().refine(path => {
+  try {
+    parseJsonPath(path);
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: "Unsupported JSONPath; use $, .name, ['name'], [0], [*] and .*" });
+
+const ResponseShapingSchema = z.record(z.object({
+  fields: z.array(JsonPathSchema).min(1).optional(),
+  maxItems: z.number().int().positive().optional(),
+  maxBytes: z.number().int().positive().optional(),
+  maxPages: z.number().int().min(1).max(50).optional(),
+}));
+
+// By generated tool name
+const ToolOverridesSchema = z.record(z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/).optional(),
+  description: z.string().min(1).optional(),
+  hiddenParameters: z.array(z.string().min(1)).optional(),
+  fixedArguments: z.record(z.any()).optional(),
+  defaults: z.record(z.any()).optional(),
+}));
+
+// Versioned registrations are kept, so tokens pinned to a version keep working
+// after another one is activated
+const DeploymentSchema = z.object({
+  version: z.number().int().positive().optional(),
+  activate: z.boolean().default(true),
+});
+
+/**
+ * Validate a connector registration, as pushed by the control plane or loaded
+ * from its config bundle, and curate its tools
+ */
+export function parseRegistration(registration: Record<string, any>): Registration {
+  const {
+    id, name, baseUrl, authType, authHeaderName, authLocation, securitySchemes,
+    encryptedAuthSecret, oauth, encryptedRefreshToken, signing, tools, toolOverrides, responseShaping, governance,
+  } = registration;
+
+  if (typeof encryptedAuthSecret !== 'string' || !SecretEnvelope.isEnvelope(encryptedAuthSecret)) {
+    throw new RegistrationError('encryptedAuthSecret must be an encrypted secret envelope');
+  }
+  if (encryptedRefreshToken && !SecretEnvelope.isEnvelope(encryptedRefreshToken)) {
+    throw new RegistrationError('encryptedRefreshToken must be an encrypted secret envelope');
+  }
+  if (String(authType).startsWith('oauth2_') && !OAuthConfigSchema.safeParse(oauth).success) {
+    throw new RegistrationError('OAuth2 connectors require oauth.tokenUrl and oauth.clientId');
+  }
+  const signingConfig = authType === 'hmac'
+    ? SigningConfigSchema.parse(signing ?? {}, { path: ['signing'] })
+    : undefined;
+  const deployment = DeploymentSchema.parse({ version: registration.version, activate: registration.activate });
+  const shaping = ResponseShapingSchema.parse(responseShaping ?? {}, { path: ['responseShaping'] });
+  const overrides = ToolOverridesSchema.parse(toolOverrides ?? {}, { path: ['toolOverrides'] });
+  const curatedTools = ToolCuration.apply(tools, overrides);
+
+  const names = curatedTools.map(tool => tool.name);
+  const duplicates = names.filter((name, index) => names.indexOf(name) !== index);
+  if (duplicates.length) {
+    throw new RegistrationError(`Duplicate tool names: ${[...new Set(duplicates)].join(', ')}`);
+  }
+
+  return {
+    config: {
+      id,
+      name: name || id,
+      version: deployment.version,
+      baseUrl,
+      authType,
+      authHeaderName,
+      authLocation,
+      securitySchemes,
+      encryptedAuthSecret,
+      oauth,
+      encryptedRefreshToken: encryptedRefreshToken || undefined,
+      signing: signingConfig,
+      tools: curatedTools,
+      responseShaping: shaping,
+      governance: { ...DEFAULT_GOVERNANCE, ...governance },
+    },
+    activate: deployment.activate,
+  };
+}
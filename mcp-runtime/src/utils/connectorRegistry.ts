@@ -0,0 +1,73 @@
+import { ConnectorConfig } from '../types.js';
+
+export interface Registration {
+  config: ConnectorConfig;
+  activate: boolean;
+}
+
+/**
+ * In-memory connector store, filled by control plane pushes and config sync.
+ * Keeps every deployed version of a connector; MCP clients get the active one
+ * unless their token is pinned to another.
+ */
+export class ConnectorRegistry {
+  private active = new Map<string, ConnectorConfig>();
+  private versions = new Map<string, Map<number, ConnectorConfig>>();
+
+  /**
+   * The active connector, or a specific deployed version of it
+   */
+  get(id: string, version?: number | null): ConnectorConfig | undefined {
+    if (version == null) {
+      return this.active.get(id);
+    }
+    return this.versions.get(id)?.get(version);
+  }
+
+  /**
+   * Store a connector; unversioned registrations are always active
+   */
+  register(config: ConnectorConfig, activate = true): void {
+    this.store(this.active, this.versions, { config, activate });
+  }
+
+  /**
+   * Replace every connector with a config bundle's. The maps are swapped at
+   * once; calls in flight keep the config they started with.
+   */
+  replaceAll(registrations: Registration[]): void {
+    const active = new Map<string, ConnectorConfig>();
+    const versions = new Map<string, Map<number, ConnectorConfig>>();
+    for (const registration of registrations) {
+      this.store(active, versions, registration);
+    }
+
+    this.active = active;
+    this.versions = versions;
+  }
+
+  /**
+   * Deployed versions of a connector, oldest first
+   */
+  listVersions(id: string): number[] {
+    return [...(this.versions.get(id)?.keys() || [])].sort((a, b) => a - b);
+  }
+
+  private store(
+    active: Map<string, ConnectorConfig>,
+    versions: Map<string, Map<number, ConnectorConfig>>,
+    { config, activate }: Registration
+  ): void {
+    if (config.version !== undefined) {
+      if (!versions.has(config.id)) {
+        versions.set(config.id, new Map());
+      }
+      versions.get(config.id)!.set(config.version, config);
+    }
+    if (activate || config.version === undefined) {
+      active.set(config.id, config);
+    }
+  }
+}
+
+export const connectorRegistry = new ConnectorRegistry();
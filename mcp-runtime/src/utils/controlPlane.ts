@@ -0,0 +1,270 @@
+import axios from 'axios';
+import { InternalAuth, INTERNAL_AUTH_HEADERS } from './internalAuth.js';
+
+export interface InvocationLogEntry {
+  connectorId: string;
+  tokenId?: string;
+  toolName: string;
+  method: string;
+  path: string;
+  deterministicDecision: 'allowed' | 'blocked' | 'pending';
+  reviewerDecision?: string;
+  reviewerRiskScore?: number;
+  reviewerReasons?: string[];
+  finalDecision: string;
+  reviewLatencyMs?: number;
+  executionLatencyMs?: number;
+  requestPayload?: any;
+  responsePayload?: any;
+  errorCode?: string;
+  errorMessage?: string;
+  approvalId?: string;
+  humanApproved?: boolean;
+}
+
+export interface ApprovalRequest {
+  connectorId: string;
+  requestId: string;
+  toolName: string;
+  method: string;
+  path: string;
+  arguments: Record<string, any>;
+  reviewerDecision?: string;
+  reviewerRiskScore?: number;
+  reviewerReasons?: string[];
+  tokenId?: string;
+  deploymentVersion?: number; // the approved call is executed on this connector version
+  // Quorum: approvals needed and roles allowed to give them (any member when omitted)
+  requiredApprovals: number;
+  approverRoles?: string[];
+  expiresAt: string;
+}
+
+export interface ApprovalHandle {
+  approvalId: string;
+  requestId: string;
+  status: 'pending';
+  requiredApprovals: number;
+  expiresAt: string;
+}
+
+/**
+ * A validated MCP token
+ */
+export interface TokenGrant {
+  tokenId: string;
+  scopes: string[] | null; // tool names the token may call; null = all tools
+  expiresAt: string | null;
+  deploymentVersion: number | null; // pinned connector version; null = the active one
+}
+
+/**
+ * Outcome of a queued call, as tracked by the control plane
+ */
+export interface ApprovalStatus {
+  approvalId: string;
+  requestId: string;
+  toolName: string;
+  status: 'pending' | 'approved' | 'rejected' | 'expired';
+  requiredApprovals?: number;
+  approvalsReceived?: number;
+  approvalNotes?: string | null;
+  decidedAt?: string | null;
+  expiresAt?: string | null;
+  execution?: ApprovalExecution;
+}
+
+/**
+ * Execution of an approved call; `executing` while a runtime has claimed it
+ */
+export interface ApprovalExecution {
+  status: 'executing' | 'executed' | 'failed';
+  result?: any;
+  error?: string | null;
+  executedAt?: string | null;
+}
+
+/**
+ * Whether this runtime may execute an approved call, else how it was executed
+ */
+export type ExecutionClaim = { claimed: true } | { claimed: false; execution: ApprovalExecution };
+
+/**
+ * Every connector version the runtime should serve, as registration payloads
+ */
+export interface ConfigBundle {
+  revision: string;
+  connectors: Record<string, any>[];
+}
+
+const internalHttp = InternalAuth.createClient();
+
+/**
+ * Client for the control plane's internal API
+ */
+export class ControlPlaneClient {
+  private static get baseUrl(): string {
+    return process.env.CONTROL_PLANE_URL || 'http://localhost:3000';
+  }
+
+  /**
+   * Record a tool invocation. Logging failures never fail the tool call.
+   */
+  static async logInvocation(entry: InvocationLogEntry): Promise<void> {
+    try {
+      await internalHttp.post(`${this.baseUrl}/internal/logs`, entry, { timeout: 5000 });
+    } catch (error) {
+      console.error('Failed to record invocation log:', (error as Error).message);
+    }
+  }
+
+  /**
+   * Queue a call for human approval. Throws if the approval could not be stored,
+   * since the call must not be reported as pending without a queue entry.
+   */
+  static async createApproval(request: ApprovalRequest): Promise<ApprovalHandle> {
+    try {
+      const response = await internalHttp.post(`${this.baseUrl}/internal/approvals`, request, { timeout: 5000 });
+      return {
+        approvalId: response.data.id,
+        requestId: request.requestId,
+        status: 'pending',
+        requiredApprovals: request.requiredApprovals,
+        expiresAt: request.expiresAt,
+      };
+    } catch (error) {
+      throw new Error(`Could not queue request for approval: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Claim an approved call for execution, so that it runs once across replicas
+   * and restarts. Returns null unless the call is approved; throws if the
+   * control plane cannot be reached, since the call must not run unclaimed.
+   */
+  static async claimExecution(approvalId: string): Promise<ExecutionClaim | null> {
+    try {
+      const response = await internalHttp.post(`${this.baseUrl}/internal/approvals/${approvalId}/claim`, {}, { timeout: 5000 });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw new Error(`Could not claim approved call: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Store the outcome of a claimed call. Failures are logged; the control plane
+   * records the outcome it is answered with as well.
+   */
+  static async recordExecution(
+    approvalId: string,
+    execution: { status: 'executed' | 'failed'; result?: any; error?: string }
+  ): Promise<void> {
+    try {
+      await internalHttp.post(`${this.baseUrl}/internal/approvals/${approvalId}/execution`, execution, { timeout: 5000 });
+    } catch (error) {
+      console.error(`Failed to record execution of approval ${approvalId}:`, (error as Error).message);
+    }
+  }
+
+  /**
+   * Fetch the connector config bundle. Returns null if it is still at `revision`.
+   */
+  static async getConfigBundle(revision?: string): Promise<ConfigBundle | null> {
+    try {
+      const response = await internalHttp.get(`${this.baseUrl}/internal/runtime/config`, {
+        headers: revision ? { 'If-None-Match': `"${revision}"` } : {},
+        validateStatus: status => status === 200 || status === 304,
+        // Kept as text: the signature covers the body as sent
+        responseType: 'text',
+        transformResponse: data => data,
+        timeout: 10000,
+      });
+      if (response.status === 304) {
+        return null;
+      }
+
+      const nonce = response.config.headers.get(INTERNAL_AUTH_HEADERS.nonce);
+      if (!InternalAuth.verifyResponse(String(nonce), response.data, response.headers['x-internal-signature'])) {
+        throw new Error('bundle is not signed by the control plane');
+      }
+      return JSON.parse(response.data);
+    } catch (error) {
+      throw new Error(`Could not fetch connector config: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Validate an MCP bearer token. Returns null if the control plane rejects it;
+   * throws if the control plane cannot be reached.
+   */
+  static async validateToken(connectorId: string, token: string): Promise<TokenGrant | null> {
+    try {
+      const response = await internalHttp.post(
+        `${this.baseUrl}/internal/tokens/validate`,
+        { connectorId, token },
+        { timeout: 5000 }
+      );
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 401) {
+        return null;
+      }
+      throw new Error(`Could not validate token: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Record the nonce of an internal API request this runtime received; false
+   * when it was recorded before (a replay). A NonceStore shared by every replica
+   * and kept across restarts. Throws if the control plane cannot be reached.
+   */
+  static async rememberNonce(nonce: string, forgetAt: Date): Promise<boolean> {
+    try {
+      const response = await internalHttp.post(
+        `${this.baseUrl}/internal/nonces`,
+        { nonce, forgetAt: forgetAt.toISOString() },
+        { timeout: 5000 }
+      );
+      return response.data.recorded === true;
+    } catch (error) {
+      throw new Error(`Could not record internal API nonce: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Persist a refresh token rotated by an upstream token server. Failures are logged;
+   * the runtime keeps using the new token until the connector is re-registered.
+   */
+  static async storeRefreshToken(connectorId: string, refreshToken: string): Promise<void> {
+    try {
+      await internalHttp.put(
+        `${this.baseUrl}/internal/connectors/${connectorId}/oauth/refresh-token`,
+        { refreshToken },
+        { timeout: 5000 }
+      );
+    } catch (error) {
+      console.error(`Failed to store rotated refresh token for connector ${connectorId}:`, (error as Error).message);
+    }
+  }
+
+  /**
+   * Look up the outcome of a queued call. Returns null unless the token made such a request on the connector.
+   */
+  static async getApprovalStatus(connectorId: string, tokenId: string, requestId: string): Promise<ApprovalStatus | null> {
+    try {
+      const response = await internalHttp.get(
+        `${this.baseUrl}/internal/approvals/${encodeURIComponent(requestId)}`,
+        { params: { connectorId, tokenId }, timeout: 5000 }
+      );
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw new Error(`Could not fetch approval status: ${(error as Error).message}`);
+    }
+  }
+}
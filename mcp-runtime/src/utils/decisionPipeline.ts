@@ -0,0 +1,240 @@
+import { GovernanceEngine } from './governanceEngine.js';
+import { AIReviewer, ReviewerOutput } from './aiReviewer.js';
+import { ConnectorConfig, MCPTool, ReviewerDecision } from '../types.js';
+
+export interface DeterministicOutcome {
+  decision: 'allowed' | 'blocked' | 'pending';
+  reason: string;
+  violations: string[];
+  requiresApproval: boolean;
+  requiresQuorum: boolean;
+}
+
+export interface ReviewerOutcome {
+  status: 'skipped' | 'completed' | 'failed';
+  mode: 'ADVISORY' | 'ENFORCING';
+  enforced: boolean;
+  decision?: ReviewerDecision;
+  riskScore?: number;
+  reasons?: string[];
+  suggestedChanges?: ReviewerOutput['suggestedChanges'];
+  latencyMs?: number;
+  skipReason?: string;
+  error?: string;
+}
+
+export interface PipelineResult {
+  finalDecision: ReviewerDecision;
+  deterministic: DeterministicOutcome;
+  reviewer: ReviewerOutcome;
+}
+
+const DECISION_SEVERITY: Record<ReviewerDecision, number> = {
+  ALLOW: 0,
+  REQUIRE_HUMAN_APPROVAL: 1,
+  BLOCK: 2,
+};
+
+const HISTORY_SIZE = 10;
+
+/**
+ * Runs a tool invocation through deterministic governance checks and,
+ * when configured, the AI Reviewer, producing a single final decision.
+ */
+export class DecisionPipeline {
+  private governanceEngine = new GovernanceEngine();
+  private reviewer: AIReviewer | null = null;
+  private history = new Map<string, Array<{ tool: string; result: string }>>();
+
+  /**
+   * Evaluate a tool invocation
+   */
+  async evaluate(
+    connector: ConnectorConfig,
+    tool: MCPTool,
+    arguments_: Record<string, any>,
+    rateLimitKey: string
+  ): Promise<PipelineResult> {
+    const config = connector.governance;
+
+    // Stage 1: deterministic checks
+    const check = this.governanceEngine.checkGovernance(
+      tool,
+      arguments_,
+      config,
+      connector.baseUrl,
+      rateLimitKey
+    );
+
+    const deterministic: DeterministicOutcome = {
+      decision: !check.allowed ? 'blocked' : check.requiresApproval ? 'pending' : 'allowed',
+      reason: check.reason,
+      violations: check.violations,
+      requiresApproval: check.requiresApproval,
+      requiresQuorum: check.requiresQuorum,
+    };
+
+    const mode = config.aiReviewerMode;
+
+    if (!check.allowed) {
+      return {
+        finalDecision: 'BLOCK',
+        deterministic,
+        reviewer: {
+          status: 'skipped',
+          mode,
+          enforced: false,
+          skipReason: 'Deterministic checks failed',
+        },
+      };
+    }
+
+    // Stage 2: optional AI review
+    const reviewer = await this.runReviewer(connector, tool, arguments_, rateLimitKey);
+
+    // Stage 3: combine outcomes, the most restrictive decision wins
+    let finalDecision: ReviewerDecision = check.requiresApproval ? 'REQUIRE_HUMAN_APPROVAL' : 'ALLOW';
+    if (reviewer.enforced && reviewer.decision) {
+      finalDecision = this.mostRestrictive(finalDecision, reviewer.decision);
+    }
+
+    return { finalDecision, deterministic, reviewer };
+  }
+
+  /**
+   * Record the outcome of a call so later reviews see recent history
+   */
+  recordOutcome(connectorId: string, toolName: string, result: string): void {
+    const entries = this.history.get(connectorId) || [];
+    entries.push({ tool: toolName, result });
+    this.history.set(connectorId, entries.slice(-HISTORY_SIZE));
+  }
+
+  /**
+   * Run the AI Reviewer stage, honoring the connector's reviewer settings
+   */
+  private async runReviewer(
+    connector: ConnectorConfig,
+    tool: MCPTool,
+    arguments_: Record<string, any>,
+    rateLimitKey: string
+  ): Promise<ReviewerOutcome> {
+    const config = connector.governance;
+    const mode = config.aiReviewerMode;
+    const enforcing = mode === 'ENFORCING';
+
+    const skipReason = this.getSkipReason(connector, tool, arguments_);
+    if (skipReason) {
+      return { status: 'skipped', mode, enforced: false, skipReason };
+    }
+
+    const startTime = Date.now();
+
+    try {
+      const reviewer = this.getReviewer();
+      const redactedArguments = this.governanceEngine.redactSensitiveFields(arguments_);
+
+      const output = await reviewer.review(
+        {
+          connector: {
+            id: connector.id,
+            name: connector.name,
+            baseUrlHost: new URL(connector.baseUrl).host,
+            allowedBusinessPurpose: config.aiReviewerAllowedBusinessPurpose,
+            forbiddenActions: config.aiReviewerForbiddenActions,
+          },
+          tool: {
+            name: tool.name,
+            method: tool.method,
+            path: tool.path,
+            category: tool.category,
+            dangerTags: tool.dangerTags,
+          },
+          request: { arguments: redactedArguments },
+          governanceContext: {
+            deterministicChecksPassed: true,
+            limitsRemaining: {
+              rateLimit: this.governanceEngine.getRateLimitRemaining(rateLimitKey, config.rateLimitPerMinute),
+            },
+            selectedEndpointsOnly: true,
+          },
+          history: {
+            recentCallsSummary: this.history.get(connector.id) || [],
+          },
+        },
+        config.aiReviewerTimeoutMs
+      );
+
+      const decision = AIReviewer.determineFinalDecision(
+        output,
+        config.aiReviewerAllowMaxRisk,
+        config.aiReviewerApprovalMinRisk,
+        config.aiReviewerBlockMinRisk
+      );
+
+      return {
+        status: 'completed',
+        mode,
+        enforced: enforcing,
+        decision,
+        riskScore: output.riskScore,
+        reasons: output.reasons,
+        suggestedChanges: output.suggestedChanges,
+        latencyMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      // Reviewer unavailable or timed out: apply the configured fallback
+      return {
+        status: 'failed',
+        mode,
+        enforced: enforcing,
+        decision: config.aiReviewerFallback,
+        reasons: [`AI Reviewer unavailable - fallback ${config.aiReviewerFallback} applied`],
+        latencyMs: Date.now() - startTime,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * Decide whether the reviewer should run for this call
+   */
+  private getSkipReason(
+    connector: ConnectorConfig,
+    tool: MCPTool,
+    arguments_: Record<string, any>
+  ): string | undefined {
+    const config = connector.governance;
+
+    if (!config.aiReviewerEnabled) {
+      return 'AI Reviewer disabled';
+    }
+
+    if (config.aiReviewerWriteCallsOnly && tool.category === 'READ') {
+      return 'Read-only call (reviewer limited to write calls)';
+    }
+
+    if (config.aiReviewerHighRiskOnly) {
+      const riskScore = this.governanceEngine.calculateRiskScore(tool, arguments_);
+      if (tool.category !== 'DANGEROUS' && riskScore <= config.aiReviewerAllowMaxRisk) {
+        return `Risk score ${riskScore} below high-risk threshold (reviewer limited to high-risk calls)`;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Lazily create the reviewer so the runtime starts without GOOGLE_API_KEY
+   */
+  private getReviewer(): AIReviewer {
+    if (!this.reviewer) {
+      this.reviewer = new AIReviewer();
+    }
+    return this.reviewer;
+  }
+
+  private mostRestrictive(a: ReviewerDecision, b: ReviewerDecision): ReviewerDecision {
+    return DECISION_SEVERITY[a] >= DECISION_SEVERITY[b] ? a : b;
+  }
+}
@@ -1,4 +1,5 @@
-import { MCPTool } from './openApiParser.js';
+import { MCPTool } from '../types.js';
+import { SchemaValidator, schemaValidator } from './schemaValidator.js';
 
 export interface GovernanceConfig {
   allowedVerbs: string[];
@@ -10,12 +11,15 @@ export interface GovernanceConfig {
   enabled: boolean;
   dryRunMode: boolean;
   redactSensitiveFields: boolean;
+  quorumForCeilingBreaches?: boolean;
 }
 
 export interface GovernanceCheckResult {
   allowed: boolean;
   reason: string;
   requiresApproval: boolean;
+  // Approval needs several approvers (DANGEROUS tools, ceiling breaches)
+  requiresQuorum: boolean;
   violations: string[];
 }
 
@@ -24,6 +28,32 @@ export interface RateLimitState {
   resetTime: number;
 }
 
+// Amounts and sizes, subject to numeric ceilings and counted in the risk score
+const NUMERIC_FIELDS = ['amount', 'notional', 'qty', 'quantity', 'size'];
+
+/**
+ * Numeric values of NUMERIC_FIELDS at any depth of the arguments (request
+ * bodies are under `body`), with their paths such as `body.items[0].quantity`
+ */
+function findNumericFields(arguments_: Record<string, any>): { field: string; path: string; value: number }[] {
+  const found: { field: string; path: string; value: number }[] = [];
+
+  const walk = (node: unknown, path: string) => {
+    if (typeof node !== 'object' || node === null) return;
+    for (const [key, value] of Object.entries(node)) {
+      const childPath = Array.isArray(node) ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+      if (NUMERIC_FIELDS.includes(key) && typeof value === 'number') {
+        found.push({ field: key, path: childPath, value });
+      } else {
+        walk(value, childPath);
+      }
+    }
+  };
+
+  walk(arguments_, '');
+  return found;
+}
+
 export class GovernanceEngine {
   private rateLimitMap = new Map<string, RateLimitState>();
 
@@ -45,6 +75,7 @@ export class GovernanceEngine {
         allowed: false,
         reason: 'Connector is disabled',
         requiresApproval: false,
+        requiresQuorum: false,
         violations: ['Connector disabled'],
       };
     }
@@ -75,25 +106,45 @@ export class GovernanceEngine {
 
     // Numeric ceiling check
     const ceilingCheck = this.checkNumericCeilings(arguments_, config.numericCeilings);
-    if (!ceilingCheck.allowed) {
+    const ceilingBreached = !ceilingCheck.allowed;
+    if (ceilingBreached && !config.quorumForCeilingBreaches) {
       violations.push(ceilingCheck.reason);
     }
 
     // Determine if approval is needed
     let requiresApproval = false;
+    let requiresQuorum = false;
     if (config.requireApprovalForWrites && tool.category === 'WRITE') {
       requiresApproval = true;
     }
     if (config.requireApprovalForHighRisk && tool.category === 'DANGEROUS') {
       requiresApproval = true;
+      requiresQuorum = true;
+    }
+    // Over-ceiling calls are held for quorum approval instead of blocked
+    if (ceilingBreached && config.quorumForCeilingBreaches) {
+      requiresApproval = true;
+      requiresQuorum = true;
     }
 
     const allowed = violations.length === 0;
 
+    let reason = `Governance violations: ${violations.join('; ')}`;
+    if (allowed) {
+      if (ceilingBreached) {
+        reason = `${ceilingCheck.reason} (quorum approval required)`;
+      } else if (requiresApproval) {
+        reason = `${tool.category} call requires ${requiresQuorum ? 'quorum ' : ''}approval by governance policy`;
+      } else {
+        reason = 'All checks passed';
+      }
+    }
+
     return {
       allowed,
-      reason: allowed ? 'All checks passed' : `Governance violations: ${violations.join('; ')}`,
+      reason,
       requiresApproval: allowed ? requiresApproval : false,
+      requiresQuorum: allowed ? requiresQuorum : false,
       violations,
     };
   }
@@ -175,6 +226,17 @@ export class GovernanceEngine {
     };
   }
 
+  /**
+   * Remaining requests in the current rate limit window
+   */
+  getRateLimitRemaining(key: string, limitPerMinute: number): number {
+    const state = this.rateLimitMap.get(key);
+    if (!state || Date.now() > state.resetTime) {
+      return limitPerMinute;
+    }
+    return Math.max(0, limitPerMinute - state.requestCount);
+  }
+
   /**
    * Check endpoint allowlist
    */
@@ -217,84 +279,26 @@ export class GovernanceEngine {
   }
 
   /**
-   * Validate arguments against schema
+   * Validate arguments against the tool's input schema
    */
   private validateSchema(arguments_: Record<string, any>, schema: Record<string, any>): { allowed: boolean; reason: string } {
-    try {
-      // Basic type checking
-      if (schema.type === 'object' && typeof arguments_ !== 'object') {
-        return {
-          allowed: false,
-          reason: 'Arguments must be an object',
-        };
-      }
-
-      // Check required fields
-      if (schema.required && Array.isArray(schema.required)) {
-        for (const field of schema.required) {
-          if (!(field in arguments_)) {
-            return {
-              allowed: false,
-              reason: `Missing required field: ${field}`,
-            };
-          }
-        }
-      }
-
-      // Check property types
-      if (schema.properties) {
-        for (const [key, value] of Object.entries(schema.properties)) {
-          if (key in arguments_) {
-            const propSchema = value as any;
-            const propValue = arguments_[key];
-
-            if (!this.validateType(propValue, propSchema.type)) {
-              return {
-                allowed: false,
-                reason: `Field ${key} has invalid type, expected ${propSchema.type}`,
-              };
-            }
-          }
-        }
-      }
-
-      return {
-        allowed: true,
-        reason: 'Schema validation passed',
-      };
-    } catch (error) {
-      return {
-        allowed: false,
-        reason: `Schema validation error: ${(error as Error).message}`,
-      };
-    }
-  }
-
-  /**
-   * Validate value type
-   */
-  private validateType(value: any, expectedType: string): boolean {
-    const actualType = Array.isArray(value) ? 'array' : typeof value;
-    return actualType === expectedType;
+    const result = schemaValidator.validate(schema, arguments_);
+    return result.valid
+      ? { allowed: true, reason: 'Schema validation passed' }
+      : { allowed: false, reason: `Invalid arguments: ${SchemaValidator.format(result.errors)}` };
   }
 
   /**
-   * Check numeric ceilings
+   * Check numeric ceilings, wherever the fields appear in the arguments
    */
   private checkNumericCeilings(arguments_: Record<string, any>, ceilings: Record<string, number>): { allowed: boolean; reason: string } {
-    const ceilingFields = ['amount', 'notional', 'qty', 'quantity', 'size'];
-
-    for (const field of ceilingFields) {
-      if (field in arguments_ && field in ceilings) {
-        const value = arguments_[field];
-        const ceiling = ceilings[field];
-
-        if (typeof value === 'number' && value > ceiling) {
-          return {
-            allowed: false,
-            reason: `Field ${field} value ${value} exceeds ceiling ${ceiling}`,
-          };
-        }
+    for (const { field, path, value } of findNumericFields(arguments_)) {
+      const ceiling = ceilings[field];
+      if (ceiling !== undefined && value > ceiling) {
+        return {
+          allowed: false,
+          reason: `Field ${path} value ${value} exceeds ceiling ${ceiling}`,
+        };
       }
     }
 
@@ -341,14 +345,13 @@ export class GovernanceEngine {
     // Danger tags
     score += tool.dangerTags.length * 10;
 
-    // Large numeric values
-    const numericFields = ['amount', 'notional', 'qty', 'quantity', 'size'];
-    for (const field of numericFields) {
-      if (field in arguments_ && typeof arguments_[field] === 'number') {
-        if (arguments_[field] > 100000) score += 15;
-        else if (arguments_[field] > 10000) score += 10;
-        else if (arguments_[field] > 1000) score += 5;
-      }
+    // Large numeric values, the largest of each field
+    const found = findNumericFields(arguments_);
+    for (const field of NUMERIC_FIELDS) {
+      const value = Math.max(...found.filter(entry => entry.field === field).map(entry => entry.value));
+      if (value > 100000) score += 15;
+      else if (value > 10000) score += 10;
+      else if (value > 1000) score += 5;
     }
 
     // Cap at 100
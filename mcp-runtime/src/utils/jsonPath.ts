@@ -0,0 +1,158 @@
+/**
+ * The JSONPath subset used for response shaping and pagination:
+ * `$`, `.name`, `['name']`, `[0]`, `[*]` and `.*`
+ */
+export type PathSegment =
+  | { type: 'name'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' };
+
+const SEGMENT = /^(?:\.([A-Za-z_$][\w$]*)|\.\*|\[(\d+)\]|\[\*\]|\['((?:[^'\\]|\\.)*)'\])/;
+
+const parsed = new Map<string, PathSegment[]>();
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse a path; throws on syntax outside the supported subset
+ */
+export function parseJsonPath(path: string): PathSegment[] {
+  const cached = parsed.get(path);
+  if (cached) return cached;
+
+  if (!path.startsWith('$')) {
+    throw new Error(`Invalid JSONPath ${path}: must start with $`);
+  }
+
+  const segments: PathSegment[] = [];
+  let rest = path.slice(1);
+  while (rest) {
+    const match = SEGMENT.exec(rest);
+    if (!match) {
+      throw new Error(`Invalid JSONPath ${path} at "${rest}"`);
+    }
+    if (match[1] !== undefined) {
+      segments.push({ type: 'name', name: match[1] });
+    } else if (match[2] !== undefined) {
+      segments.push({ type: 'index', index: Number(match[2]) });
+    } else if (match[3] !== undefined) {
+      segments.push({ type: 'name', name: match[3].replace(/\\(.)/g, '$1') });
+    } else {
+      segments.push({ type: 'wildcard' });
+    }
+    rest = rest.slice(match[0].length);
+  }
+
+  parsed.set(path, segments);
+  return segments;
+}
+
+/**
+ * The value at a path without wildcards; undefined if there is none
+ */
+export function evaluateJsonPath(value: unknown, path: string): unknown {
+  let node: any = value;
+  for (const segment of parseJsonPath(path)) {
+    if (segment.type === 'name' && isObject(node) && Object.prototype.hasOwnProperty.call(node, segment.name)) {
+      node = node[segment.name];
+    } else if (segment.type === 'index' && Array.isArray(node) && segment.index < node.length) {
+      node = node[segment.index];
+    } else {
+      return undefined;
+    }
+  }
+  return node;
+}
+
+/**
+ * A copy of `value` with the value at a path (without wildcards) replaced.
+ * Returns `value` unchanged if the path does not exist.
+ */
+export function replaceAtJsonPath(value: unknown, path: string, replacement: unknown): unknown {
+  const replace = (node: any, segments: PathSegment[]): any => {
+    if (!segments.length) return replacement;
+
+    const [segment, ...rest] = segments;
+    if (segment.type === 'name' && isObject(node) && Object.prototype.hasOwnProperty.call(node, segment.name)) {
+      return { ...node, [segment.name]: replace(node[segment.name], rest) };
+    }
+    if (segment.type === 'index' && Array.isArray(node) && segment.index < node.length) {
+      return node.map((item, index) => (index === segment.index ? replace(item, rest) : item));
+    }
+    return node;
+  };
+  return replace(value, parseJsonPath(path));
+}
+
+/**
+ * Keep only the parts of `value` the paths select, in their original structure.
+ * E.g. `$.data[*].id` and `$.data[*].name` keep the id and name of every item.
+ */
+export function projectJsonPaths(value: unknown, paths: string[]): unknown {
+  let projection: unknown;
+  for (const path of paths) {
+    projection = merge(projection, project(value, parseJsonPath(path)));
+  }
+  return compact(projection);
+}
+
+function project(node: unknown, segments: PathSegment[]): unknown {
+  if (!segments.length) return node;
+
+  const [segment, ...rest] = segments;
+  switch (segment.type) {
+    case 'name': {
+      if (!isObject(node) || !Object.prototype.hasOwnProperty.call(node, segment.name)) return undefined;
+      const child = project(node[segment.name], rest);
+      return child === undefined ? undefined : { [segment.name]: child };
+    }
+    case 'index': {
+      if (!Array.isArray(node) || segment.index >= node.length) return undefined;
+      const child = project(node[segment.index], rest);
+      return child === undefined ? undefined : [child];
+    }
+    case 'wildcard':
+      if (Array.isArray(node)) {
+        // Positions are kept so that several paths into the same items line up
+        return node.map(item => project(item, rest));
+      }
+      if (isObject(node)) {
+        const entries = Object.entries(node)
+          .map(([name, child]) => [name, project(child, rest)])
+          .filter(([, child]) => child !== undefined);
+        return entries.length ? Object.fromEntries(entries) : undefined;
+      }
+      return undefined;
+  }
+}
+
+function merge(target: unknown, source: unknown): unknown {
+  if (target === undefined) return source;
+  if (source === undefined) return target;
+  if (Array.isArray(target) && Array.isArray(source)) {
+    return Array.from({ length: Math.max(target.length, source.length) }, (_, index) => merge(target[index], source[index]));
+  }
+  if (isObject(target) && isObject(source)) {
+    const merged: Record<string, unknown> = { ...target };
+    for (const [name, child] of Object.entries(source)) {
+      merged[name] = merge(merged[name], child);
+    }
+    return merged;
+  }
+  return source;
+}
+
+/**
+ * Drop the array positions no path matched
+ */
+function compact(node: unknown): unknown {
+  if (Array.isArray(node)) {
+    return node.filter(item => item !== undefined).map(compact);
+  }
+  if (isObject(node)) {
+    return Object.fromEntries(Object.entries(node).map(([name, child]) => [name, compact(child)]));
+  }
+  return node;
+}
@@ -0,0 +1,357 @@
+import { ConnectorConfig } from '../types.js';
+import { McpSession, LOG_LEVELS } from './mcpSessions.js';
+import { ToolExecutor, ToolCallOutcome } from './toolExecutor.js';
+import { ControlPlaneClient, TokenGrant } from './controlPlane.js';
+import { isToolInScope } from './tokenAuth.js';
+import { approvalNotifier } from './approvalNotifier.js';
+import { ResponseShaper } from './responseShaper.js';
+import { SchemaValidator } from './schemaValidator.js';
+import { toolId } from './toolCuration.js';
+
+export const LATEST_PROTOCOL_VERSION = '2025-06-18';
+export const SUPPORTED_PROTOCOL_VERSIONS = [LATEST_PROTOCOL_VERSION, '2025-03-26', '2024-11-05'];
+
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+} as const;
+
+/**
+ * Built-in tool for polling the outcome of calls held for approval
+ */
+export const APPROVAL_STATUS_TOOL = {
+  name: 'get_approval_status',
+  description: 'Check whether a call held for human approval was approved, rejected or expired. '
+    + 'Returns the upstream response for approved calls and the approver notes.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      requestId: { type: 'string', description: 'Request ID returned when the call was queued' },
+    },
+    required: ['requestId'],
+  },
+};
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: JsonRpcId;
+  method?: string;
+  params?: Record<string, any>;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+}
+
+export interface McpRequestContext {
+  connector: ConnectorConfig;
+  session: McpSession;
+  authToken: string;
+  grant: TokenGrant;
+}
+
+export function jsonRpcError(id: JsonRpcId, code: number, message: string, data?: any): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: data === undefined ? { code, message } : { code, message, data } };
+}
+
+export function isJsonRpcMessage(message: any): message is JsonRpcMessage {
+  return typeof message === 'object' && message !== null && !Array.isArray(message) && message.jsonrpc === '2.0';
+}
+
+/**
+ * Requests carry both a method and an id; notifications only a method
+ */
+export function isJsonRpcRequest(message: JsonRpcMessage): boolean {
+  return typeof message.method === 'string' && message.id !== undefined;
+}
+
+/**
+ * MCP server-side JSON-RPC method dispatch, independent of the transport
+ */
+export class McpProtocolHandler {
+  constructor(private executor: ToolExecutor) {}
+
+  /**
+   * Handle a single JSON-RPC message.
+   * Returns null for notifications and client responses.
+   */
+  async handle(message: JsonRpcMessage, context: McpRequestContext): Promise<JsonRpcResponse | null> {
+    if (!isJsonRpcRequest(message)) {
+      // Notifications (initialized, cancelled, ...) and responses need no reply
+      return null;
+    }
+
+    const id = message.id as JsonRpcId;
+    const params = message.params || {};
+
+    try {
+      switch (message.method) {
+        case 'initialize':
+          return { jsonrpc: '2.0', id, result: this.initialize(params, context) };
+        case 'ping':
+          return { jsonrpc: '2.0', id, result: {} };
+        case 'tools/list':
+          return { jsonrpc: '2.0', id, result: this.listTools(context) };
+        case 'tools/call':
+          return await this.callTool(id, params, context);
+        case 'logging/setLevel':
+          return this.setLogLevel(id, params, context);
+        default:
+          return jsonRpcError(id, JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${message.method}`);
+      }
+    } catch (error) {
+      console.error('MCP request error:', error);
+      return jsonRpcError(id, JSON_RPC_ERRORS.INTERNAL_ERROR, (error as Error).message);
+    }
+  }
+
+  /**
+   * Negotiate the protocol version and advertise server capabilities
+   */
+  private initialize(params: Record<string, any>, context: McpRequestContext) {
+    const requested = params.protocolVersion;
+    const protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+      ? requested
+      : LATEST_PROTOCOL_VERSION;
+
+    context.session.protocolVersion = protocolVersion;
+    context.session.clientInfo = params.clientInfo;
+
+    return {
+      protocolVersion,
+      capabilities: {
+        tools: { listChanged: false },
+        logging: {},
+      },
+      serverInfo: {
+        name: `mcp-connector-${context.connector.name}`,
+        version: '1.0.0',
+      },
+      instructions: `Tools for ${context.connector.name}. Calls are governed: some may be blocked or held for human approval.`,
+    };
+  }
+
+  private listTools(context: McpRequestContext) {
+    return {
+      tools: [
+        ...context.connector.tools
+          .filter(tool => isToolInScope(context.grant, toolId(tool)))
+          .map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            inputSchema: tool.inputSchema,
+            ...(tool.outputSchema && this.supportsStructuredContent(context) ? { outputSchema: tool.outputSchema } : {}),
+          })),
+        APPROVAL_STATUS_TOOL,
+      ],
+    };
+  }
+
+  private setLogLevel(id: JsonRpcId, params: Record<string, any>, context: McpRequestContext): JsonRpcResponse {
+    if (!LOG_LEVELS.includes(params.level)) {
+      return jsonRpcError(id, JSON_RPC_ERRORS.INVALID_PARAMS, `Invalid log level: ${params.level}`);
+    }
+    context.session.logLevel = params.level;
+    return { jsonrpc: '2.0', id, result: {} };
+  }
+
+  /**
+   * Report the outcome of a call held for approval
+   */
+  private async getApprovalStatus(
+    id: JsonRpcId,
+    args: Record<string, any>,
+    context: McpRequestContext
+  ): Promise<JsonRpcResponse> {
+    if (typeof args.requestId !== 'string' || !args.requestId) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+          content: [{ type: 'text', text: 'Invalid arguments: requestId is required' }],
+          isError: true,
+        },
+      };
+    }
+
+    // Only calls made with the caller's own token are found
+    const approval = await ControlPlaneClient.getApprovalStatus(context.connector.id, context.grant.tokenId, args.requestId);
+    if (!approval) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+          content: [{ type: 'text', text: `No queued call with request ID ${args.requestId}` }],
+          isError: true,
+        },
+      };
+    }
+
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        content: [{ type: 'text', text: this.toText(approval) }],
+        _meta: { approval },
+      },
+    };
+  }
+
+  private async callTool(
+    id: JsonRpcId,
+    params: Record<string, any>,
+    context: McpRequestContext
+  ): Promise<JsonRpcResponse> {
+    if (typeof params.name !== 'string') {
+      return jsonRpcError(id, JSON_RPC_ERRORS.INVALID_PARAMS, 'Missing tool name');
+    }
+
+    let outcome: ToolCallOutcome;
+    try {
+      if (params.name === APPROVAL_STATUS_TOOL.name) {
+        return await this.getApprovalStatus(id, params.arguments || {}, context);
+      }
+
+      outcome = await this.executor.execute(
+        context.connector,
+        params.name,
+        params.arguments || {},
+        { authToken: context.authToken, tokenId: context.grant.tokenId, scopes: context.grant.scopes }
+      );
+    } catch (error) {
+      // Execution failures are reported to the model, not as protocol errors
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+          content: [{ type: 'text', text: (error as Error).message }],
+          isError: true,
+        },
+      };
+    }
+
+    switch (outcome.status) {
+      case 'tool_not_found':
+        return jsonRpcError(id, JSON_RPC_ERRORS.INVALID_PARAMS, outcome.error);
+      case 'forbidden':
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            content: [{ type: 'text', text: outcome.error }],
+            isError: true,
+          },
+        };
+      case 'invalid_arguments':
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            content: [{ type: 'text', text: `Invalid arguments: ${outcome.error}` }],
+            isError: true,
+          },
+        };
+      case 'blocked':
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            content: [{ type: 'text', text: `Call blocked by governance: ${outcome.error}` }],
+            isError: true,
+            _meta: outcome.metadata,
+          },
+        };
+      case 'pending_approval':
+        approvalNotifier.watch(outcome.approval.requestId, context.session, outcome.approval.expiresAt);
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            content: [{
+              type: 'text',
+              text: `${outcome.message}. Request ID: ${outcome.approval.requestId} `
+                + `(expires ${outcome.approval.expiresAt}). `
+                + `Call ${APPROVAL_STATUS_TOOL.name} with this request ID to get the outcome.`,
+            }],
+            _meta: { ...outcome.metadata, approval: outcome.approval },
+          },
+        };
+      case 'invalid_response':
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            content: [{ type: 'text', text: `Response withheld: ${outcome.error}` }],
+            isError: true,
+            _meta: { ...outcome.metadata, drift: outcome.errors },
+          },
+        };
+      case 'success': {
+        const truncation = outcome.shaping && ResponseShaper.describe(outcome.shaping);
+        // Clients given the output schema get structured content conforming to it, or an error
+        if (outcome.outputErrors && this.supportsStructuredContent(context)) {
+          return {
+            jsonrpc: '2.0',
+            id,
+            result: {
+              content: [
+                {
+                  type: 'text',
+                  text: `Response does not match the tool's output schema: ${SchemaValidator.format(outcome.outputErrors)}`,
+                },
+                { type: 'text', text: this.toText(outcome.result) },
+                ...(truncation ? [{ type: 'text', text: truncation }] : []),
+              ],
+              isError: true,
+              _meta: {
+                ...outcome.metadata,
+                outputErrors: outcome.outputErrors,
+                ...(outcome.drift ? { drift: outcome.drift } : {}),
+                ...(outcome.shaping ? { shaping: outcome.shaping } : {}),
+              },
+            },
+          };
+        }
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            content: [
+              { type: 'text', text: this.toText(outcome.result) },
+              ...(truncation ? [{ type: 'text', text: truncation }] : []),
+            ],
+            ...(outcome.structuredContent && this.supportsStructuredContent(context)
+              ? { structuredContent: outcome.structuredContent }
+              : {}),
+            _meta: {
+              ...outcome.metadata,
+              ...(outcome.drift ? { drift: outcome.drift } : {}),
+              ...(outcome.shaping ? { shaping: outcome.shaping } : {}),
+            },
+          },
+        };
+      }
+    }
+  }
+
+  /**
+   * Output schemas and structured content were added in protocol version 2025-06-18
+   */
+  private supportsStructuredContent(context: McpRequestContext): boolean {
+    return (context.session.protocolVersion ?? LATEST_PROTOCOL_VERSION) >= '2025-06-18';
+  }
+
+  private toText(result: any): string {
+    return typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+  }
+}
@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import { Response } from 'express';
+
+export interface McpSession {
+  id: string;
+  connectorId: string;
+  authToken: string;
+  transport: 'streamable-http' | 'sse';
+  protocolVersion?: string;
+  clientInfo?: { name?: string; version?: string };
+  // Minimum severity of `notifications/message` sent to the client
+  logLevel?: string;
+  streams: Set<Response>;
+  lastActivityAt: number;
+}
+
+// RFC 5424 severities used by MCP logging, most verbose first
+export const LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+const KEEPALIVE_INTERVAL_MS = 25000;
+const IDLE_SESSION_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Tracks MCP sessions and their open SSE streams
+ */
+export class McpSessionStore {
+  private sessions = new Map<string, McpSession>();
+
+  constructor() {
+    // Drop sessions that have no open stream and have been idle too long
+    const sweeper = setInterval(() => this.sweepIdleSessions(), IDLE_SESSION_TTL_MS / 4);
+    sweeper.unref();
+  }
+
+  create(
+    connectorId: string,
+    authToken: string,
+    transport: McpSession['transport']
+  ): McpSession {
+    const session: McpSession = {
+      id: crypto.randomUUID(),
+      connectorId,
+      authToken,
+      transport,
+      streams: new Set(),
+      lastActivityAt: Date.now(),
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Look up a session, ensuring it belongs to the connector and token
+   */
+  get(id: string, connectorId: string, authToken: string): McpSession | undefined {
+    const session = this.sessions.get(id);
+    if (!session || session.connectorId !== connectorId || session.authToken !== authToken) {
+      return undefined;
+    }
+    session.lastActivityAt = Date.now();
+    return session;
+  }
+
+  delete(id: string): void {
+    const session = this.sessions.get(id);
+    if (!session) return;
+
+    for (const stream of session.streams) {
+      stream.end();
+    }
+    this.sessions.delete(id);
+  }
+
+  /**
+   * Turn a response into an SSE stream attached to the session
+   */
+  attachStream(session: McpSession, res: Response): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'Mcp-Session-Id': session.id,
+    });
+    res.flushHeaders();
+
+    session.streams.add(res);
+
+    const keepalive = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_INTERVAL_MS);
+
+    res.on('close', () => {
+      clearInterval(keepalive);
+      session.streams.delete(res);
+      session.lastActivityAt = Date.now();
+
+      // Legacy SSE sessions only live as long as their stream
+      if (session.transport === 'sse') {
+        this.sessions.delete(session.id);
+      }
+    });
+  }
+
+  /**
+   * Send a JSON-RPC message over the session's SSE stream.
+   * Returns false when the session has no open stream.
+   */
+  send(session: McpSession, message: Record<string, any>): boolean {
+    const [stream] = session.streams;
+    if (!stream) {
+      return false;
+    }
+    this.writeEvent(stream, 'message', JSON.stringify(message));
+    return true;
+  }
+
+  writeEvent(stream: Response, event: string, data: string): void {
+    stream.write(`event: ${event}\ndata: ${data}\n\n`);
+  }
+
+  private sweepIdleSessions(): void {
+    const cutoff = Date.now() - IDLE_SESSION_TTL_MS;
+    for (const session of this.sessions.values()) {
+      if (session.streams.size === 0 && session.lastActivityAt < cutoff) {
+        this.sessions.delete(session.id);
+      }
+    }
+  }
+}
+
+export const mcpSessions = new McpSessionStore();
@@ -0,0 +1,82 @@
+import axios from 'axios';
+import { OAuthConfig } from '../types.js';
+
+export interface OAuthTokenResponse {
+  accessToken: string;
+  refreshToken?: string;
+  expiresIn?: number; // seconds
+}
+
+/**
+ * Minimal OAuth2 token endpoint client (RFC 6749 section 4)
+ */
+export class OAuthClient {
+  static async clientCredentials(config: OAuthConfig, clientSecret: string): Promise<OAuthTokenResponse> {
+    return this.requestToken(config, clientSecret, {
+      grant_type: 'client_credentials',
+      ...(config.scopes?.length ? { scope: config.scopes.join(' ') } : {}),
+      ...(config.audience ? { audience: config.audience } : {}),
+    });
+  }
+
+  static async refresh(config: OAuthConfig, clientSecret: string, refreshToken: string): Promise<OAuthTokenResponse> {
+    return this.requestToken(config, clientSecret, {
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    });
+  }
+
+  static async exchangeCode(
+    config: OAuthConfig,
+    clientSecret: string,
+    exchange: { code: string; codeVerifier: string; redirectUri: string }
+  ): Promise<OAuthTokenResponse> {
+    return this.requestToken(config, clientSecret, {
+      grant_type: 'authorization_code',
+      code: exchange.code,
+      code_verifier: exchange.codeVerifier,
+      redirect_uri: exchange.redirectUri,
+    });
+  }
+
+  private static async requestToken(
+    config: OAuthConfig,
+    clientSecret: string,
+    params: Record<string, string>
+  ): Promise<OAuthTokenResponse> {
+    const body = new URLSearchParams(params);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+
+    if (config.clientAuthMethod === 'client_secret_post') {
+      body.set('client_id', config.clientId);
+      body.set('client_secret', clientSecret);
+    } else {
+      const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    try {
+      const response = await axios.post(config.tokenUrl, body.toString(), { headers, timeout: 10000 });
+      const data = response.data || {};
+      if (typeof data.access_token !== 'string') {
+        throw new Error('Token response has no access_token');
+      }
+
+      return {
+        accessToken: data.access_token,
+        refreshToken: typeof data.refresh_token === 'string' ? data.refresh_token : undefined,
+        expiresIn: typeof data.expires_in === 'number' ? data.expires_in : Number(data.expires_in) || undefined,
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const reason = error.response?.data?.error_description || error.response?.data?.error || error.message;
+        const status = error.response?.status;
+        throw new Error(`OAuth token request failed${status ? ` (${status})` : ''}: ${reason}`);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { ConnectorConfig } from '../types.js';
+import { OAuthClient, OAuthTokenResponse } from './oauthClient.js';
+import { ControlPlaneClient } from './controlPlane.js';
+import { SecretEnvelope } from './secretEnvelope.js';
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+// Refresh this long before the token server's expiry
+const REFRESH_MARGIN_MS = 60 * 1000;
+// Used when the token server does not say how long a token lives
+const DEFAULT_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Fetches, caches and refreshes upstream OAuth2 access tokens per connector
+ */
+export class OAuthTokenManager {
+  private tokens = new Map<string, CachedToken>();
+  private inFlight = new Map<string, Promise<string>>();
+  // Refresh tokens rotated by the token server since the connector was registered
+  private refreshTokens = new Map<string, string>();
+
+  /**
+   * Get a valid access token, fetching a new one when missing or about to expire.
+   * Concurrent calls for the same connector share one token request.
+   */
+  async getAccessToken(connector: ConnectorConfig): Promise<string> {
+    const cached = this.tokens.get(connector.id);
+    if (cached && cached.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+      return cached.accessToken;
+    }
+
+    let pending = this.inFlight.get(connector.id);
+    if (!pending) {
+      pending = this.fetchToken(connector).finally(() => this.inFlight.delete(connector.id));
+      this.inFlight.set(connector.id, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Drop the cached access token, e.g. after the upstream API rejected it
+   */
+  invalidate(connectorId: string): void {
+    this.tokens.delete(connectorId);
+  }
+
+  /**
+   * Forget everything about a connector (re-registration)
+   */
+  reset(connectorId: string): void {
+    this.tokens.delete(connectorId);
+    this.refreshTokens.delete(connectorId);
+  }
+
+  /**
+   * Use the tokens from a completed authorization code flow
+   */
+  store(connectorId: string, response: OAuthTokenResponse): void {
+    this.cache(connectorId, response);
+    if (response.refreshToken) {
+      this.refreshTokens.set(connectorId, response.refreshToken);
+    }
+  }
+
+  private async fetchToken(connector: ConnectorConfig): Promise<string> {
+    if (!connector.oauth) {
+      throw new Error('Connector has no OAuth settings');
+    }
+    const clientSecret = SecretEnvelope.decrypt(connector.encryptedAuthSecret);
+
+    if (connector.authType === 'oauth2_client_credentials') {
+      const response = await OAuthClient.clientCredentials(connector.oauth, clientSecret);
+      return this.cache(connector.id, response);
+    }
+
+    const refreshToken = this.refreshTokens.get(connector.id)
+      ?? (connector.encryptedRefreshToken ? SecretEnvelope.decrypt(connector.encryptedRefreshToken) : undefined);
+    if (!refreshToken) {
+      throw new Error('Connector is not authorized yet: complete the OAuth authorization flow');
+    }
+
+    const response = await OAuthClient.refresh(connector.oauth, clientSecret, refreshToken);
+    if (response.refreshToken && response.refreshToken !== refreshToken) {
+      // The token server rotated the refresh token; the old one may stop working
+      this.refreshTokens.set(connector.id, response.refreshToken);
+      ControlPlaneClient.storeRefreshToken(connector.id, response.refreshToken);
+    }
+    return this.cache(connector.id, response);
+  }
+
+  private cache(connectorId: string, response: OAuthTokenResponse): string {
+    const ttlMs = response.expiresIn ? response.expiresIn * 1000 : DEFAULT_TOKEN_TTL_MS;
+    this.tokens.set(connectorId, { accessToken: response.accessToken, expiresAt: Date.now() + ttlMs });
+    return response.accessToken;
+  }
+}
+
+export const oauthTokenManager = new OAuthTokenManager();
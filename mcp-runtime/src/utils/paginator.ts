@@ -0,0 +1,99 @@
+import { ConnectorConfig, PaginationConfig } from '../types.js';
+import { evaluateJsonPath, replaceAtJsonPath } from './jsonPath.js';
+
+export interface UpstreamPage {
+  data: any;
+  headers: Record<string, any>;
+}
+
+/**
+ * Where the next page is: new tool arguments, or the URL of a Link header
+ */
+export interface NextPage {
+  arguments: Record<string, any>;
+  url?: string;
+}
+
+/**
+ * Follows the pagination pattern of list endpoints (cursor, offset, page number, Link header)
+ */
+export class Paginator {
+  /**
+   * The request for the page after `page`, or null if it was the last one
+   */
+  static next(
+    connector: ConnectorConfig,
+    pagination: PaginationConfig,
+    arguments_: Record<string, any>,
+    page: UpstreamPage
+  ): NextPage | null {
+    const items = this.items(pagination, page.data);
+    if (!items?.length) return null;
+
+    switch (pagination.style) {
+      case 'cursor': {
+        const cursor = pagination.nextCursorPath ? evaluateJsonPath(page.data, pagination.nextCursorPath) : undefined;
+        if (!pagination.cursorParam || (typeof cursor !== 'string' && typeof cursor !== 'number') || cursor === '') {
+          return null;
+        }
+        return { arguments: { ...arguments_, [pagination.cursorParam]: cursor } };
+      }
+      case 'offset': {
+        const offset = Number(arguments_[pagination.offsetParam!] ?? 0);
+        const limit = pagination.limitParam ? Number(arguments_[pagination.limitParam]) : NaN;
+        if (!Number.isFinite(offset) || items.length < limit) return null;
+        return { arguments: { ...arguments_, [pagination.offsetParam!]: offset + items.length } };
+      }
+      case 'page': {
+        const pageNumber = Number(arguments_[pagination.pageParam!] ?? 1);
+        if (!Number.isFinite(pageNumber)) return null;
+        return { arguments: { ...arguments_, [pagination.pageParam!]: pageNumber + 1 } };
+      }
+      case 'link': {
+        const url = this.nextLink(connector, page.headers.link);
+        return url ? { arguments: arguments_, url } : null;
+      }
+    }
+  }
+
+  /**
+   * The first page with the items of all pages. Cursor pagination keeps the last
+   * page's cursor, so the caller can continue from there.
+   */
+  static combine(pagination: PaginationConfig, pages: any[]): any {
+    if (pages.length === 1) return pages[0];
+
+    const items = pages.flatMap(page => this.items(pagination, page) || []);
+    let combined = replaceAtJsonPath(pages[0], pagination.itemsPath, items);
+    if (pagination.style === 'cursor' && pagination.nextCursorPath) {
+      const cursor = evaluateJsonPath(pages[pages.length - 1], pagination.nextCursorPath);
+      combined = replaceAtJsonPath(combined, pagination.nextCursorPath, cursor ?? null);
+    }
+    return combined;
+  }
+
+  private static items(pagination: PaginationConfig, data: any): any[] | undefined {
+    const items = evaluateJsonPath(data, pagination.itemsPath);
+    return Array.isArray(items) ? items : undefined;
+  }
+
+  /**
+   * The rel="next" URL of an RFC 8288 Link header, if it stays on the connector's origin
+   */
+  private static nextLink(connector: ConnectorConfig, header: unknown): string | undefined {
+    if (typeof header !== 'string') return undefined;
+
+    for (const link of header.split(/,(?=\s*<)/)) {
+      const match = /^\s*<([^>]*)>(.*)$/.exec(link);
+      if (!match || !/;\s*rel="?([^";]*\s)?next(\s[^";]*)?"?\s*(;|$)/i.test(match[2])) continue;
+
+      try {
+        const url = new URL(match[1], connector.baseUrl);
+        return url.origin === new URL(connector.baseUrl).origin ? url.toString() : undefined;
+      } catch {
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,229 @@
+import type { Method } from 'axios';
+import crypto from 'crypto';
+import { ConnectorConfig, MCPTool, ParameterLocation } from '../types.js';
+
+export interface UpstreamRequest {
+  method: Method;
+  url: string;
+  headers: Record<string, string>;
+  data?: any;
+}
+
+interface FileArgument {
+  data: string; // base64
+  filename?: string;
+  contentType?: string;
+}
+
+// The methods tools are generated for (the OpenAPI operations)
+const HTTP_METHODS: readonly string[] = ['GET', 'PUT', 'POST', 'DELETE', 'OPTIONS', 'HEAD', 'PATCH'];
+
+function isHttpMethod(method: string): method is Method {
+  return HTTP_METHODS.includes(method);
+}
+
+/**
+ * How a request body media type is encoded
+ */
+export function bodyKind(mediaType: string): 'json' | 'form' | 'multipart' | 'text' | 'binary' {
+  const type = mediaType.split(';')[0].trim().toLowerCase();
+  if (type === 'application/json' || type.endsWith('+json')) return 'json';
+  if (type === 'application/x-www-form-urlencoded') return 'form';
+  if (type === 'multipart/form-data') return 'multipart';
+  if (type.startsWith('text/') || type === 'application/xml' || type.endsWith('+xml')) return 'text';
+  return 'binary';
+}
+
+/**
+ * Builds upstream HTTP requests from tool metadata and tool arguments
+ */
+export class RequestBuilder {
+  /**
+   * Build the upstream request for a tool call (without authentication)
+   */
+  static build(
+    connector: ConnectorConfig,
+    tool: MCPTool,
+    arguments_: Record<string, any>
+  ): UpstreamRequest {
+    const method = tool.method.toUpperCase();
+    if (!isHttpMethod(method)) {
+      throw new Error(`Unsupported HTTP method: ${tool.method}`);
+    }
+
+    const locations = this.resolveLocations(tool);
+    const headers: Record<string, string> = {};
+    const query = new URLSearchParams();
+    let data: any;
+
+    // Substitute {param} placeholders in the path
+    const path = tool.path.replace(/\{([^}]+)\}/g, (_, name: string) => {
+      const value = arguments_[name];
+      if (value === undefined || value === null || value === '') {
+        throw new Error(`Missing path parameter: ${name}`);
+      }
+      return encodeURIComponent(String(value));
+    });
+
+    for (const [name, location] of Object.entries(locations)) {
+      const value = arguments_[name];
+      if (value === undefined || value === null) continue;
+
+      switch (location) {
+        case 'query':
+          this.appendQuery(query, name, value);
+          break;
+        case 'header':
+          headers[name] = Array.isArray(value) ? value.map(String).join(',') : this.toParamString(value);
+          break;
+        case 'body':
+          data = value;
+          break;
+      }
+    }
+
+    if (data !== undefined) {
+      const body = this.encodeBody(tool, data);
+      data = body.data;
+      headers['Content-Type'] = body.contentType;
+    }
+
+    const queryString = query.toString();
+    const url = `${connector.baseUrl.replace(/\/+$/, '')}${path}${queryString ? `?${queryString}` : ''}`;
+
+    return {
+      method,
+      url,
+      headers,
+      data,
+    };
+  }
+
+  /**
+   * Parameter locations from the tool definition, or inferred for tools
+   * registered without them: `{name}` placeholders are path parameters,
+   * `body` is the payload and everything else goes in the query string.
+   */
+  static resolveLocations(tool: MCPTool): Record<string, ParameterLocation> {
+    const locations: Record<string, ParameterLocation> = { ...(tool.parameterLocations || {}) };
+
+    for (const match of tool.path.matchAll(/\{([^}]+)\}/g)) {
+      locations[match[1]] = 'path';
+    }
+
+    if (!tool.parameterLocations) {
+      for (const name of Object.keys(tool.inputSchema?.properties || {})) {
+        if (!(name in locations)) {
+          locations[name] = name === 'body' ? 'body' : 'query';
+        }
+      }
+    }
+
+    return locations;
+  }
+
+  /**
+   * Encode the `body` argument for the tool's media type. JSON bodies are left
+   * as objects for axios to serialize.
+   */
+  static encodeBody(tool: MCPTool, value: any): { data: any; contentType: string } {
+    const mediaType = tool.bodyEncoding?.mediaType || 'application/json';
+
+    switch (bodyKind(mediaType)) {
+      case 'json':
+        return { data: value, contentType: mediaType };
+      case 'text':
+        return { data: typeof value === 'string' ? value : JSON.stringify(value), contentType: mediaType };
+      case 'binary': {
+        const file = value as FileArgument;
+        const fallback = mediaType.includes('*') ? 'application/octet-stream' : mediaType;
+        return { data: this.decodeFile(file, 'body'), contentType: file.contentType || fallback };
+      }
+      case 'form': {
+        const form = new URLSearchParams();
+        for (const [name, fieldValue] of Object.entries(this.requireObject(value))) {
+          if (fieldValue === undefined || fieldValue === null) continue;
+          this.appendQuery(form, name, fieldValue);
+        }
+        return { data: form.toString(), contentType: 'application/x-www-form-urlencoded' };
+      }
+      case 'multipart':
+        return this.encodeMultipart(this.requireObject(value), tool.bodyEncoding?.fileFields || []);
+    }
+  }
+
+  /**
+   * multipart/form-data (RFC 7578): file fields become file parts, objects JSON parts
+   */
+  private static encodeMultipart(value: Record<string, any>, fileFields: string[]): { data: Buffer; contentType: string } {
+    const boundary = `----mcp-${crypto.randomBytes(12).toString('hex')}`;
+    const parts: Buffer[] = [];
+    const addPart = (headers: string[], content: Buffer | string) => {
+      parts.push(Buffer.from(`--${boundary}\r\n${headers.join('\r\n')}\r\n\r\n`), Buffer.from(content), Buffer.from('\r\n'));
+    };
+
+    for (const [name, fieldValue] of Object.entries(value)) {
+      if (fieldValue === undefined || fieldValue === null) continue;
+      const items = Array.isArray(fieldValue) ? fieldValue : [fieldValue];
+
+      for (const item of items) {
+        if (fileFields.includes(name)) {
+          const file = item as FileArgument;
+          addPart([
+            `Content-Disposition: form-data; name="${this.quote(name)}"; filename="${this.quote(file.filename || name)}"`,
+            `Content-Type: ${file.contentType || 'application/octet-stream'}`,
+          ], this.decodeFile(file, name));
+        } else if (typeof item === 'object') {
+          addPart([
+            `Content-Disposition: form-data; name="${this.quote(name)}"`,
+            'Content-Type: application/json',
+          ], JSON.stringify(item));
+        } else {
+          addPart([`Content-Disposition: form-data; name="${this.quote(name)}"`], String(item));
+        }
+      }
+    }
+    parts.push(Buffer.from(`--${boundary}--\r\n`));
+
+    return { data: Buffer.concat(parts), contentType: `multipart/form-data; boundary=${boundary}` };
+  }
+
+  private static decodeFile(file: FileArgument, name: string): Buffer {
+    const data = typeof file?.data === 'string' ? file.data.replace(/\s+/g, '') : undefined;
+    if (data === undefined || !/^[A-Za-z0-9+/]*={0,2}$/.test(data)) {
+      throw new Error(`${name} must be a file with base64-encoded data`);
+    }
+    return Buffer.from(data, 'base64');
+  }
+
+  private static requireObject(value: any): Record<string, any> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error('Form bodies must be objects');
+    }
+    return value;
+  }
+
+  /**
+   * Escape a name for a Content-Disposition parameter
+   */
+  private static quote(name: string): string {
+    return name.replace(/"/g, '%22').replace(/[\r\n]/g, ' ');
+  }
+
+  /**
+   * Arrays are repeated (`ids=1&ids=2`), objects are sent as JSON
+   */
+  private static appendQuery(query: URLSearchParams, name: string, value: any): void {
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        query.append(name, this.toParamString(item));
+      }
+      return;
+    }
+    query.append(name, this.toParamString(value));
+  }
+
+  private static toParamString(value: any): string {
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
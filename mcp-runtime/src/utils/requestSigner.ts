@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import { ConnectorConfig, SigningConfig } from '../types.js';
+import { UpstreamRequest } from './requestBuilder.js';
+
+// Placeholders available in the canonical string and signature templates
+export const SIGNING_PLACEHOLDERS = [
+  'method', 'path', 'query', 'pathWithQuery', 'host',
+  'timestamp', 'nonce', 'body', 'bodySha256', 'keyId', 'signature',
+];
+
+const DEFAULT_CLOCK_SKEW_TOLERANCE_MS = 5000;
+// The Date header has one-second resolution
+const DATE_HEADER_RESOLUTION_MS = 1000;
+
+/**
+ * Signs upstream requests with an HMAC over a configurable canonical string.
+ * Keeps a per-connector clock offset learned from the upstream's Date header,
+ * so requests rejected for a skewed timestamp can be re-signed.
+ */
+export class RequestSigner {
+  private clockOffsets = new Map<string, number>();
+
+  /**
+   * Add the signature (and timestamp, nonce and key ID headers) to a request.
+   * The body is serialized here so the signed bytes are the ones sent.
+   */
+  sign(connector: ConnectorConfig, request: UpstreamRequest, secret: string): void {
+    const config = connector.signing;
+    if (!config) {
+      throw new Error('Connector has no request signing settings');
+    }
+
+    let body: string | Buffer = '';
+    if (request.data !== undefined) {
+      body = typeof request.data === 'string' || Buffer.isBuffer(request.data)
+        ? request.data
+        : JSON.stringify(request.data);
+      request.data = body;
+    }
+
+    const url = new URL(request.url);
+    const values: Record<string, string> = {
+      method: request.method.toUpperCase(),
+      path: url.pathname,
+      query: url.search.replace(/^\?/, ''),
+      pathWithQuery: `${url.pathname}${url.search}`,
+      host: url.host,
+      timestamp: this.formatTimestamp(Date.now() + this.offsetFor(connector.id), config.timestampFormat),
+      nonce: crypto.randomUUID(),
+      body: body.toString(),
+      bodySha256: crypto.createHash('sha256').update(body).digest('hex'),
+      keyId: config.keyId ?? '',
+    };
+
+    const key = Buffer.from(secret, config.secretEncoding);
+    values.signature = crypto
+      .createHmac(config.algorithm, key)
+      .update(this.render(config.canonicalTemplate, values))
+      .digest(config.signatureEncoding);
+
+    request.headers[config.signatureHeader] = this.render(config.signatureTemplate, values);
+    if (config.timestampHeader) {
+      request.headers[config.timestampHeader] = values.timestamp;
+    }
+    if (config.nonceHeader) {
+      request.headers[config.nonceHeader] = values.nonce;
+    }
+    if (config.keyIdHeader && config.keyId) {
+      request.headers[config.keyIdHeader] = config.keyId;
+    }
+  }
+
+  /**
+   * Learn the upstream's clock from the Date header of a rejected request.
+   * Returns true if the offset moved by more than the tolerance, i.e. re-signing
+   * the request with the corrected clock may succeed.
+   */
+  syncClock(connector: ConnectorConfig, dateHeader: string | undefined): boolean {
+    const serverTime = dateHeader ? Date.parse(dateHeader) : NaN;
+    if (Number.isNaN(serverTime)) {
+      return false;
+    }
+
+    const tolerance = connector.signing?.clockSkewToleranceMs ?? DEFAULT_CLOCK_SKEW_TOLERANCE_MS;
+    const measured = serverTime + DATE_HEADER_RESOLUTION_MS / 2 - Date.now();
+    const offset = Math.abs(measured) < tolerance ? 0 : measured;
+    const previous = this.offsetFor(connector.id);
+
+    this.clockOffsets.set(connector.id, offset);
+    return Math.abs(offset - previous) >= tolerance;
+  }
+
+  /**
+   * Forget the learned clock offset (re-registration)
+   */
+  reset(connectorId: string): void {
+    this.clockOffsets.delete(connectorId);
+  }
+
+  private offsetFor(connectorId: string): number {
+    return this.clockOffsets.get(connectorId) ?? 0;
+  }
+
+  private formatTimestamp(time: number, format: SigningConfig['timestampFormat']): string {
+    switch (format) {
+      case 'unix_millis':
+        return String(Math.floor(time));
+      case 'iso8601':
+        return new Date(time).toISOString();
+      default:
+        return String(Math.floor(time / 1000));
+    }
+  }
+
+  private render(template: string, values: Record<string, string>): string {
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+  }
+}
+
+export const requestSigner = new RequestSigner();
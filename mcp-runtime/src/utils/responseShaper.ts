@@ -0,0 +1,90 @@
+import { ResponseShaping } from '../types.js';
+import { projectJsonPaths } from './jsonPath.js';
+
+/**
+ * What was left out of a response
+ */
+export interface ShapingReport {
+  pages?: number; // pages fetched, when more than one
+  morePages?: boolean; // the page cap was reached
+  truncatedArrays?: { path: string; total: number; kept: number }[]; // by JSON pointer
+  truncatedBytes?: { total: number; kept: number };
+}
+
+/**
+ * Cuts upstream responses down before they reach the agent: field projection,
+ * then item limits per array, then a byte limit on the serialized response
+ */
+export class ResponseShaper {
+  static shape(data: any, shaping: ResponseShaping, report: ShapingReport = {}): { data: any; report: ShapingReport } {
+    let shaped = data;
+
+    if (shaping.fields?.length) {
+      shaped = projectJsonPaths(shaped, shaping.fields) ?? null;
+    }
+
+    if (shaping.maxItems !== undefined) {
+      const truncatedArrays: NonNullable<ShapingReport['truncatedArrays']> = [];
+      shaped = this.limitItems(shaped, shaping.maxItems, '', truncatedArrays);
+      if (truncatedArrays.length) report.truncatedArrays = truncatedArrays;
+    }
+
+    if (shaping.maxBytes !== undefined) {
+      const serialized = Buffer.from(JSON.stringify(shaped) ?? '');
+      if (serialized.length > shaping.maxBytes) {
+        // A multi-byte character split by the cut decodes to U+FFFD, which is dropped
+        shaped = serialized.subarray(0, shaping.maxBytes).toString('utf8').replace(/\uFFFD$/, '');
+        report.truncatedBytes = { total: serialized.length, kept: shaping.maxBytes };
+      }
+    }
+
+    return { data: shaped, report };
+  }
+
+  /**
+   * A one-line marker for the agent if anything was left out,
+   * e.g. "[Response truncated: /data kept 50 of 200 items]"
+   */
+  static describe(report: ShapingReport): string | undefined {
+    if (!report.morePages && !report.truncatedArrays && !report.truncatedBytes) {
+      return undefined;
+    }
+
+    const notes: string[] = [];
+    if (report.pages) {
+      notes.push(`${report.pages} pages fetched${report.morePages ? ', more available' : ''}`);
+    } else if (report.morePages) {
+      notes.push('more pages available');
+    }
+    for (const array of report.truncatedArrays || []) {
+      notes.push(`${array.path || '/'} kept ${array.kept} of ${array.total} items`);
+    }
+    if (report.truncatedBytes) {
+      notes.push(`cut to ${report.truncatedBytes.kept} of ${report.truncatedBytes.total} bytes`);
+    }
+    return notes.length ? `[Response truncated: ${notes.join('; ')}]` : undefined;
+  }
+
+  private static limitItems(
+    node: any,
+    maxItems: number,
+    path: string,
+    truncated: NonNullable<ShapingReport['truncatedArrays']>
+  ): any {
+    if (Array.isArray(node)) {
+      if (node.length > maxItems) {
+        truncated.push({ path, total: node.length, kept: maxItems });
+      }
+      return node.slice(0, maxItems).map((item, index) => this.limitItems(item, maxItems, `${path}/${index}`, truncated));
+    }
+    if (typeof node === 'object' && node !== null) {
+      return Object.fromEntries(
+        Object.entries(node).map(([name, child]) => [
+          name,
+          this.limitItems(child, maxItems, `${path}/${name.replace(/~/g, '~0').replace(/\//g, '~1')}`, truncated),
+        ])
+      );
+    }
+    return node;
+  }
+}
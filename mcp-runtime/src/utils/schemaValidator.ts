@@ -0,0 +1,153 @@
+import Ajv2020, { ErrorObject, ValidateFunction } from 'ajv/dist/2020.js';
+import addFormats from 'ajv-formats';
+
+export interface SchemaError {
+  path: string; // JSON pointer into the validated value; '' is the value itself
+  message: string;
+}
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: SchemaError[];
+}
+
+// Branches of these keywords describe the same object as their parent
+const IN_PLACE_KEYWORDS = ['allOf', 'anyOf', 'oneOf', 'then', 'else'];
+const SUBSCHEMA_KEYWORDS = ['items', 'additionalProperties', 'contains', 'not', 'if', 'unevaluatedItems'];
+const SUBSCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', '$defs'];
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describesObject(schema: Record<string, any>): boolean {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return types.includes('object')
+    || schema.properties !== undefined
+    || IN_PLACE_KEYWORDS.some(keyword => [schema[keyword]].flat().some(branch => isObject(branch) && describesObject(branch)));
+}
+
+/**
+ * Copy of a schema that rejects properties it does not declare: object schemas
+ * that allow any additional property get `unevaluatedProperties: false`.
+ * Branches of allOf/anyOf/oneOf are left open, their parent is closed.
+ */
+function closeSchema(schema: unknown, inPlace = false): unknown {
+  if (!isObject(schema)) return schema;
+
+  const closed: Record<string, any> = { ...schema };
+  for (const keyword of IN_PLACE_KEYWORDS) {
+    if (Array.isArray(schema[keyword])) {
+      closed[keyword] = schema[keyword].map((branch: unknown) => closeSchema(branch, true));
+    } else if (schema[keyword] !== undefined) {
+      closed[keyword] = closeSchema(schema[keyword], true);
+    }
+  }
+  for (const keyword of SUBSCHEMA_KEYWORDS) {
+    if (schema[keyword] !== undefined) closed[keyword] = closeSchema(schema[keyword]);
+  }
+  if (Array.isArray(schema.prefixItems)) {
+    closed.prefixItems = schema.prefixItems.map((item: unknown) => closeSchema(item));
+  }
+  for (const keyword of SUBSCHEMA_MAP_KEYWORDS) {
+    if (isObject(schema[keyword])) {
+      closed[keyword] = Object.fromEntries(
+        Object.entries(schema[keyword]).map(([name, subschema]) => [name, closeSchema(subschema)])
+      );
+    }
+  }
+
+  if (!inPlace && describesObject(schema) && schema.additionalProperties === undefined && schema.unevaluatedProperties === undefined) {
+    closed.unevaluatedProperties = false;
+  }
+  return closed;
+}
+
+/**
+ * JSON Schema (draft 2020-12) validation of tool arguments and upstream responses. Schemas are compiled
+ * once per tool definition; re-registering a connector brings new definitions,
+ * which are compiled on first use.
+ */
+export class SchemaValidator {
+  private ajv: Ajv2020;
+  private compiled = new WeakMap<object, ValidateFunction | Error>();
+  private closed = new WeakMap<object, Record<string, any>>();
+
+  constructor() {
+    // Not strict: OpenAPI annotations such as `discriminator` are allowed and ignored
+    this.ajv = new Ajv2020({ allErrors: true, strict: false });
+    addFormats(this.ajv);
+  }
+
+  validate(schema: Record<string, any> | undefined, value: unknown): SchemaValidationResult {
+    if (!schema) {
+      return { valid: true, errors: [] };
+    }
+
+    const validate = this.compile(schema);
+    if (validate instanceof Error) {
+      return { valid: false, errors: [{ path: '', message: `Tool schema is invalid: ${validate.message}` }] };
+    }
+    if (validate(value)) {
+      return { valid: true, errors: [] };
+    }
+    return { valid: false, errors: (validate.errors || []).map(error => this.toSchemaError(error)) };
+  }
+
+  /**
+   * Validate, also reporting properties the schema does not declare (drift of
+   * upstream responses, such as newly added fields)
+   */
+  validateClosed(schema: Record<string, any> | undefined, value: unknown): SchemaValidationResult {
+    if (!schema) {
+      return { valid: true, errors: [] };
+    }
+
+    let closed = this.closed.get(schema);
+    if (!closed) {
+      closed = closeSchema(schema) as Record<string, any>;
+      this.closed.set(schema, closed);
+    }
+    return this.validate(closed, value);
+  }
+
+  /**
+   * One line per error, e.g. "/body/amount: must be >= 0"
+   */
+  static format(errors: SchemaError[]): string {
+    return errors.map(error => `${error.path || '/'}: ${error.message}`).join('; ');
+  }
+
+  private compile(schema: Record<string, any>): ValidateFunction | Error {
+    let validate = this.compiled.get(schema);
+    if (!validate) {
+      try {
+        validate = this.ajv.compile(schema);
+      } catch (error) {
+        validate = error as Error;
+      }
+      this.compiled.set(schema, validate);
+    }
+    return validate;
+  }
+
+  private toSchemaError(error: ErrorObject): SchemaError {
+    const { missingProperty, additionalProperty, unevaluatedProperty } = error.params as Record<string, string>;
+    const property = missingProperty ?? additionalProperty ?? unevaluatedProperty;
+    const path = property === undefined
+      ? error.instancePath
+      : `${error.instancePath}/${property.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+
+    let message = error.message || 'is invalid';
+    if (error.keyword === 'enum') {
+      message = `must be one of ${(error.params as { allowedValues: unknown[] }).allowedValues.map(v => JSON.stringify(v)).join(', ')}`;
+    } else if (additionalProperty !== undefined || unevaluatedProperty !== undefined) {
+      message = 'is not allowed';
+    } else if (missingProperty !== undefined) {
+      message = 'is required';
+    }
+    return { path, message };
+  }
+}
+
+export const schemaValidator = new SchemaValidator();
@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import fs from 'fs';
+
+/**
+ * Decryption of envelope-encrypted connector secrets
+ *
+ * Each secret is encrypted with its own random data key (AES-256-GCM); the
+ * data key is wrapped with the master key. Stored format:
+ *   v1.<masterKeyId>.<wrappedDataKey>.<iv>.<authTag>.<ciphertext>   (base64url parts)
+ *
+ * Master keys come from SECRETS_MASTER_KEY (base64, 32 bytes) or the first line
+ * of SECRETS_MASTER_KEY_FILE. Keys being rotated out are listed in
+ * SECRETS_PREVIOUS_MASTER_KEYS (comma-separated) or the following lines of the file.
+ *
+ * Envelopes are created by the control plane; the runtime only decrypts them,
+ * at call time.
+ */
+
+const VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+interface Keyring {
+  current: MasterKey;
+  byId: Map<string, MasterKey>;
+}
+
+export class SecretEnvelopeError extends Error {}
+
+export class SecretEnvelope {
+  private static keyring: Keyring | null = null;
+
+  /**
+   * Decrypt an envelope with whichever known master key wrapped it
+   */
+  static decrypt(envelope: string): string {
+    const parts = this.parse(envelope);
+    const dataKey = this.unwrapDataKey(parts.keyId, parts.wrappedKey);
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, dataKey, Buffer.from(parts.iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(parts.tag, 'base64url'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(parts.ciphertext, 'base64url')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  static isEnvelope(value: string): boolean {
+    return value.startsWith(`${VERSION}.`) && value.split('.').length === 6;
+  }
+
+  private static unwrapDataKey(keyId: string, wrappedKey: string): Buffer {
+    const masterKey = this.getKeyring().byId.get(keyId);
+    if (!masterKey) {
+      throw new SecretEnvelopeError(`Unknown master key ${keyId}`);
+    }
+
+    const raw = Buffer.from(wrappedKey, 'base64url');
+    const decipher = crypto.createDecipheriv(ALGORITHM, masterKey.key, raw.subarray(0, IV_BYTES));
+    decipher.setAAD(Buffer.from(keyId));
+    decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + 16));
+    return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + 16)), decipher.final()]);
+  }
+
+  private static parse(envelope: string) {
+    if (!this.isEnvelope(envelope)) {
+      throw new SecretEnvelopeError('Value is not an encrypted secret envelope');
+    }
+    const [, keyId, wrappedKey, iv, tag, ciphertext] = envelope.split('.');
+    return { keyId, wrappedKey, iv, tag, ciphertext };
+  }
+
+  private static getKeyring(): Keyring {
+    if (!this.keyring) {
+      this.keyring = this.loadKeyring();
+    }
+    return this.keyring;
+  }
+
+  private static loadKeyring(): Keyring {
+    let encodedKeys: string[] = [];
+
+    if (process.env.SECRETS_MASTER_KEY_FILE) {
+      encodedKeys = fs.readFileSync(process.env.SECRETS_MASTER_KEY_FILE, 'utf8').split('\n');
+    } else if (process.env.SECRETS_MASTER_KEY) {
+      encodedKeys = [
+        process.env.SECRETS_MASTER_KEY,
+        ...(process.env.SECRETS_PREVIOUS_MASTER_KEYS || '').split(','),
+      ];
+    }
+
+    const keys = encodedKeys.map(k => k.trim()).filter(Boolean).map(k => this.toMasterKey(k));
+    if (keys.length === 0) {
+      throw new SecretEnvelopeError('No master key configured (set SECRETS_MASTER_KEY or SECRETS_MASTER_KEY_FILE)');
+    }
+
+    return { current: keys[0], byId: new Map(keys.map(k => [k.id, k])) };
+  }
+
+  private static toMasterKey(encoded: string): MasterKey {
+    const key = Buffer.from(encoded, 'base64');
+    if (key.length !== KEY_BYTES) {
+      throw new SecretEnvelopeError(`Master keys must be ${KEY_BYTES} bytes, base64 encoded`);
+    }
+    // Key IDs are derived from the key so they never have to be managed separately
+    const id = crypto.createHash('sha256').update(key).digest('hex').substring(0, 16);
+    return { id, key };
+  }
+}
@@ -0,0 +1,52 @@
+import { Request } from 'express';
+import crypto from 'crypto';
+import { ControlPlaneClient, TokenGrant } from './controlPlane.js';
+
+// Revocations take effect once the cached grant expires
+const CACHE_TTL_MS = 30 * 1000;
+
+interface CachedGrant {
+  grant: TokenGrant;
+  cachedUntil: number;
+}
+
+const grantCache = new Map<string, CachedGrant>();
+
+/**
+ * Extract the MCP bearer token from a request
+ */
+export function getBearerToken(req: Request): string | undefined {
+  return req.headers.authorization?.replace('Bearer ', '') || undefined;
+}
+
+/**
+ * Check an MCP token with the control plane.
+ * Returns the token's grant, or null if the token is unknown, revoked or expired.
+ */
+export async function validateToken(connectorId: string, authToken: string | undefined): Promise<TokenGrant | null> {
+  if (!authToken) {
+    return null;
+  }
+
+  const now = Date.now();
+  const cacheKey = `${connectorId}:${crypto.createHash('sha256').update(authToken).digest('hex')}`;
+  const cached = grantCache.get(cacheKey);
+  if (cached && cached.cachedUntil > now) {
+    return cached.grant;
+  }
+  grantCache.delete(cacheKey);
+
+  const grant = await ControlPlaneClient.validateToken(connectorId, authToken);
+  if (grant) {
+    const expiresAt = grant.expiresAt ? new Date(grant.expiresAt).getTime() : Infinity;
+    grantCache.set(cacheKey, { grant, cachedUntil: Math.min(now + CACHE_TTL_MS, expiresAt) });
+  }
+  return grant;
+}
+
+/**
+ * Whether a token may call a tool. Tokens without scopes may call every tool.
+ */
+export function isToolInScope(grant: TokenGrant, toolName: string): boolean {
+  return !grant.scopes || grant.scopes.includes(toolName);
+}
@@ -0,0 +1,75 @@
+import { MCPTool, ToolOverride } from '../types.js';
+import { RequestBuilder } from './requestBuilder.js';
+
+/**
+ * The generated name of a tool, also after it was renamed
+ */
+export function toolId(tool: MCPTool): string {
+  return tool.sourceName ?? tool.name;
+}
+
+/**
+ * Applies the connector's tool overrides: names, descriptions, hidden
+ * parameters, pinned arguments and defaults. Curated tools are what MCP
+ * clients list and call.
+ */
+export class ToolCuration {
+  /**
+   * Curate tools with overrides keyed by generated tool name.
+   * Overrides of tools that no longer exist are ignored.
+   */
+  static apply(tools: MCPTool[], overrides: Record<string, ToolOverride> = {}): MCPTool[] {
+    return tools.map(tool => {
+      const override = overrides[tool.name];
+      if (!override) return tool;
+
+      return {
+        ...tool,
+        name: override.name || tool.name,
+        description: override.description || tool.description,
+        inputSchema: this.curateSchema(tool.inputSchema, override),
+        // Hidden parameters are no longer in the schema to infer locations from
+        parameterLocations: RequestBuilder.resolveLocations(tool),
+        sourceName: tool.name,
+        override,
+      };
+    });
+  }
+
+  /**
+   * The arguments sent upstream: the caller's, without hidden parameters,
+   * with defaults filled in and pinned values on top
+   */
+  static resolveArguments(tool: MCPTool, arguments_: Record<string, any>): Record<string, any> {
+    const override = tool.override;
+    if (!override) return arguments_;
+
+    const resolved: Record<string, any> = { ...override.defaults };
+    for (const [name, value] of Object.entries(arguments_)) {
+      if (!override.hiddenParameters?.includes(name) && value !== undefined) {
+        resolved[name] = value;
+      }
+    }
+    return { ...resolved, ...override.fixedArguments };
+  }
+
+  /**
+   * Leave hidden and pinned parameters out of the schema; parameters with a
+   * default are no longer required and document the default
+   */
+  private static curateSchema(schema: Record<string, any>, override: ToolOverride): Record<string, any> {
+    const removed = new Set([...(override.hiddenParameters || []), ...Object.keys(override.fixedArguments || {})]);
+    const defaults = override.defaults || {};
+
+    const properties: Record<string, any> = {};
+    for (const [name, property] of Object.entries<any>(schema.properties || {})) {
+      if (removed.has(name)) continue;
+      properties[name] = name in defaults && typeof property === 'object'
+        ? { ...property, default: defaults[name] }
+        : property;
+    }
+
+    const required = (schema.required || []).filter((name: string) => !removed.has(name) && !(name in defaults));
+    return { ...schema, properties, required };
+  }
+}
@@ -0,0 +1,473 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { ConnectorConfig, MCPTool } from '../types.js';
+import { DecisionPipeline, PipelineResult } from './decisionPipeline.js';
+import { GovernanceEngine } from './governanceEngine.js';
+import { ControlPlaneClient, InvocationLogEntry, ApprovalHandle } from './controlPlane.js';
+import { RequestBuilder, UpstreamRequest } from './requestBuilder.js';
+import { UpstreamAuth } from './upstreamAuth.js';
+import { SchemaError, SchemaValidator, schemaValidator } from './schemaValidator.js';
+import { Paginator, UpstreamPage } from './paginator.js';
+import { ResponseShaper, ShapingReport } from './responseShaper.js';
+import { ToolCuration, toolId } from './toolCuration.js';
+
+export interface ToolCallMetadata {
+  toolName: string;
+  connectorId: string;
+  timestamp: string;
+  decision: PipelineResult;
+}
+
+export type ToolCallOutcome =
+  | {
+      status: 'success';
+      result: any;
+      // The result as the tool's output schema describes it, if it conforms
+      structuredContent?: Record<string, any>;
+      // Why the result does not conform to the tool's output schema
+      outputErrors?: SchemaError[];
+      drift?: SchemaError[];
+      // Pages fetched and what was cut by the tool's response shaping
+      shaping?: ShapingReport;
+      metadata: ToolCallMetadata;
+    }
+  | { status: 'pending_approval'; message: string; approval: ApprovalHandle; metadata: ToolCallMetadata }
+  | { status: 'blocked'; error: string; metadata: ToolCallMetadata }
+  | { status: 'tool_not_found'; error: string }
+  | { status: 'forbidden'; error: string }
+  | { status: 'invalid_arguments'; error: string; errors: SchemaError[] }
+  | { status: 'invalid_response'; error: string; errors: SchemaError[]; metadata: ToolCallMetadata };
+
+/**
+ * An upstream response, all pages combined
+ */
+interface UpstreamResult {
+  data: any;
+  report: ShapingReport;
+}
+
+export interface ToolCallContext {
+  authToken: string;
+  tokenId: string;
+  scopes: string[] | null; // tools the token may call; null = all tools
+}
+
+/**
+ * A call stored in the approval queue and approved by a human
+ */
+export interface ApprovedCall {
+  approvalId: string;
+  requestId: string;
+  toolName: string;
+  arguments: Record<string, any>;
+  reviewerDecision?: string | null;
+  reviewerRiskScore?: number | null;
+  reviewerReasons?: string[] | null;
+}
+
+export class ApprovedCallError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+const FINAL_DECISION_LABELS = {
+  ALLOW: 'allowed',
+  REQUIRE_HUMAN_APPROVAL: 'pending',
+  BLOCK: 'blocked',
+} as const;
+
+/**
+ * Executes tool calls: validation, decision pipeline, upstream call and logging.
+ * Shared by every transport the runtime exposes.
+ */
+export class ToolExecutor {
+  private pipeline = new DecisionPipeline();
+  private governanceEngine = new GovernanceEngine();
+
+  /**
+   * Execute a tool call on a connector
+   * Upstream failures are logged and rethrown to the caller.
+   */
+  async execute(
+    connector: ConnectorConfig,
+    toolName: string,
+    toolArguments: Record<string, any>,
+    context: ToolCallContext
+  ): Promise<ToolCallOutcome> {
+    // Find tool
+    const tool = connector.tools.find(t => t.name === toolName);
+    if (!tool) {
+      return { status: 'tool_not_found', error: `Tool ${toolName} not found` };
+    }
+
+    if (context.scopes && !context.scopes.includes(toolId(tool))) {
+      return { status: 'forbidden', error: `Token is not permitted to call ${toolName}` };
+    }
+
+    // Validate input schema
+    const schemaValidation = schemaValidator.validate(tool.inputSchema, toolArguments);
+    if (!schemaValidation.valid) {
+      return {
+        status: 'invalid_arguments',
+        error: SchemaValidator.format(schemaValidation.errors),
+        errors: schemaValidation.errors,
+      };
+    }
+
+    // From here on, the arguments as sent upstream (pinned values and defaults applied)
+    toolArguments = ToolCuration.resolveArguments(tool, toolArguments);
+
+    // Governance checks and AI review
+    const decision = await this.pipeline.evaluate(
+      connector,
+      tool,
+      toolArguments,
+      `${connector.id}:${context.tokenId}` // rate limited per token
+    );
+
+    const metadata: ToolCallMetadata = {
+      toolName,
+      connectorId: connector.id,
+      timestamp: new Date().toISOString(),
+      decision,
+    };
+    const logFields = { ...this.decisionLogFields(decision), tokenId: context.tokenId };
+
+    if (decision.finalDecision === 'BLOCK') {
+      this.pipeline.recordOutcome(connector.id, toolName, 'blocked');
+      this.logInvocation(connector, tool, toolArguments, logFields);
+      return {
+        status: 'blocked',
+        error: decision.deterministic.decision === 'blocked'
+          ? decision.deterministic.reason
+          : `Blocked by AI Reviewer: ${(decision.reviewer.reasons || []).join('; ')}`,
+        metadata,
+      };
+    }
+
+    if (decision.finalDecision === 'REQUIRE_HUMAN_APPROVAL') {
+      const quorum = decision.deterministic.requiresQuorum;
+      const approval = await ControlPlaneClient.createApproval({
+        connectorId: connector.id,
+        requestId: crypto.randomUUID(),
+        toolName,
+        method: tool.method,
+        path: tool.path,
+        arguments: toolArguments,
+        reviewerDecision: decision.reviewer.decision,
+        reviewerRiskScore: decision.reviewer.riskScore,
+        reviewerReasons: decision.reviewer.reasons || [decision.deterministic.reason],
+        tokenId: context.tokenId,
+        deploymentVersion: connector.version,
+        requiredApprovals: quorum ? connector.governance.quorumRequiredApprovals : 1,
+        approverRoles: quorum ? connector.governance.quorumApproverRoles : undefined,
+        // The control plane's scheduler expires the approval at this time
+        expiresAt: new Date(Date.now() + connector.governance.approvalTtlMinutes * 60 * 1000).toISOString(),
+      });
+
+      this.pipeline.recordOutcome(connector.id, toolName, 'pending approval');
+      this.logInvocation(connector, tool, toolArguments, {
+        ...logFields,
+        approvalId: approval.approvalId,
+      });
+      return {
+        status: 'pending_approval',
+        message: quorum
+          ? `This call requires approval by ${approval.requiredApprovals} approvers before it is executed`
+          : 'This call requires human approval before it is executed',
+        approval,
+        metadata,
+      };
+    }
+
+    // Safe mode: report what would have been sent without calling upstream
+    if (connector.governance.dryRunMode) {
+      this.pipeline.recordOutcome(connector.id, toolName, 'dry run');
+      this.logInvocation(connector, tool, toolArguments, logFields);
+      const request = RequestBuilder.build(connector, tool, toolArguments);
+      return {
+        status: 'success',
+        result: {
+          dryRun: true,
+          method: request.method,
+          url: request.url,
+          headers: request.headers,
+          body: request.data,
+        },
+        metadata,
+      };
+    }
+
+    // Call upstream API
+    const executionStart = Date.now();
+    let upstreamResponse: UpstreamResult;
+    try {
+      upstreamResponse = await this.fetchUpstream(connector, tool, toolArguments);
+    } catch (error) {
+      this.pipeline.recordOutcome(connector.id, toolName, 'error');
+      this.logInvocation(connector, tool, toolArguments, {
+        ...logFields,
+        executionLatencyMs: Date.now() - executionStart,
+        errorCode: 'UPSTREAM_ERROR',
+        errorMessage: (error as Error).message,
+      });
+      throw error;
+    }
+
+    const drift = this.checkDrift(connector, tool, upstreamResponse.data);
+    const withheld = drift.length > 0 && connector.governance.responseValidation === 'block';
+    this.pipeline.recordOutcome(connector.id, toolName, withheld ? 'response withheld' : 'success');
+
+    this.logInvocation(connector, tool, toolArguments, {
+      ...logFields,
+      executionLatencyMs: Date.now() - executionStart,
+      responsePayload: upstreamResponse.data,
+      ...this.driftLogFields(drift),
+    });
+
+    if (withheld) {
+      return {
+        status: 'invalid_response',
+        error: `Upstream response does not match the tool's output schema: ${SchemaValidator.format(drift)}`,
+        errors: drift,
+        metadata,
+      };
+    }
+
+    const shaped = this.shapeResponse(connector, tool, upstreamResponse);
+    return {
+      status: 'success',
+      result: shaped.data,
+      ...this.structuredContent(tool, shaped.data),
+      ...(drift.length ? { drift } : {}),
+      ...(Object.keys(shaped.report).length ? { shaping: shaped.report } : {}),
+      metadata,
+    };
+  }
+
+  /**
+   * Replay a human-approved call exactly as it was stored.
+   * The decision pipeline is not re-run; the kill switch still applies.
+   */
+  async executeApproved(connector: ConnectorConfig, call: ApprovedCall): Promise<any> {
+    // Approvals queued before the tool was renamed carry its generated name
+    const tool = connector.tools.find(t => t.name === call.toolName || t.sourceName === call.toolName);
+    if (!tool) {
+      throw new ApprovedCallError(`Tool ${call.toolName} not found`, 404);
+    }
+
+    if (!connector.governance.enabled) {
+      throw new ApprovedCallError('Connector is disabled', 409);
+    }
+
+    const approvalFields = {
+      deterministicDecision: 'pending' as const,
+      reviewerDecision: call.reviewerDecision || undefined,
+      reviewerRiskScore: call.reviewerRiskScore ?? undefined,
+      reviewerReasons: call.reviewerReasons || undefined,
+      finalDecision: 'allowed',
+      approvalId: call.approvalId,
+      humanApproved: true,
+    };
+
+    const executionStart = Date.now();
+    let upstreamResponse: UpstreamResult;
+    try {
+      upstreamResponse = await this.fetchUpstream(connector, tool, call.arguments);
+    } catch (error) {
+      this.pipeline.recordOutcome(connector.id, tool.name, 'error');
+      this.logInvocation(connector, tool, call.arguments, {
+        ...approvalFields,
+        executionLatencyMs: Date.now() - executionStart,
+        errorCode: 'UPSTREAM_ERROR',
+        errorMessage: (error as Error).message,
+      });
+      throw error;
+    }
+
+    const drift = this.checkDrift(connector, tool, upstreamResponse.data);
+    const withheld = drift.length > 0 && connector.governance.responseValidation === 'block';
+    this.pipeline.recordOutcome(connector.id, tool.name, withheld ? 'response withheld' : 'success (human approved)');
+
+    this.logInvocation(connector, tool, call.arguments, {
+      ...approvalFields,
+      executionLatencyMs: Date.now() - executionStart,
+      responsePayload: upstreamResponse.data,
+      ...this.driftLogFields(drift),
+    });
+
+    if (withheld) {
+      throw new ApprovedCallError(
+        `Upstream response does not match the tool's output schema: ${SchemaValidator.format(drift)}`,
+        502
+      );
+    }
+    return this.shapeResponse(connector, tool, upstreamResponse).data;
+  }
+
+  /**
+   * Differences between a response and the tool's output schema, including
+   * undeclared properties. None when the connector's responseValidation is 'off'.
+   */
+  private checkDrift(connector: ConnectorConfig, tool: MCPTool, response: any): SchemaError[] {
+    if (!tool.outputSchema || connector.governance.responseValidation === 'off') {
+      return [];
+    }
+    return schemaValidator.validateClosed(tool.outputSchema, this.toOutputValue(tool, response)).errors;
+  }
+
+  /**
+   * The result as MCP structured content, or why it does not conform to the
+   * tool's output schema (e.g. a mismatch flagged but not blocked, or fields
+   * cut by response shaping)
+   */
+  private structuredContent(
+    tool: MCPTool,
+    result: any
+  ): { structuredContent?: Record<string, any>; outputErrors?: SchemaError[] } {
+    if (!tool.outputSchema) return {};
+
+    const value = this.toOutputValue(tool, result);
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return { outputErrors: [{ path: '', message: 'must be object' }] };
+    }
+    const { valid, errors } = schemaValidator.validate(tool.outputSchema, value);
+    return valid ? { structuredContent: value } : { outputErrors: errors };
+  }
+
+  private toOutputValue(tool: MCPTool, response: any): any {
+    return tool.outputProperty ? { [tool.outputProperty]: response } : response;
+  }
+
+  private driftLogFields(drift: SchemaError[]): Partial<InvocationLogEntry> {
+    return drift.length
+      ? { errorCode: 'RESPONSE_DRIFT', errorMessage: SchemaValidator.format(drift) }
+      : {};
+  }
+
+  /**
+   * Apply the tool's response shaping, if any
+   */
+  private shapeResponse(connector: ConnectorConfig, tool: MCPTool, response: UpstreamResult): UpstreamResult {
+    const shaping = connector.responseShaping?.[toolId(tool)];
+    return shaping ? ResponseShaper.shape(response.data, shaping, response.report) : response;
+  }
+
+  /**
+   * Call upstream, following pagination up to the tool's `maxPages`
+   */
+  private async fetchUpstream(
+    connector: ConnectorConfig,
+    tool: MCPTool,
+    arguments_: Record<string, any>
+  ): Promise<UpstreamResult> {
+    const maxPages = connector.responseShaping?.[toolId(tool)]?.maxPages ?? 1;
+    let page = await this.callUpstreamAPI(connector, tool, arguments_);
+    if (!tool.pagination || maxPages <= 1) {
+      return { data: page.data, report: {} };
+    }
+
+    const pages = [page.data];
+    let next = Paginator.next(connector, tool.pagination, arguments_, page);
+    while (next && pages.length < maxPages) {
+      const pageArguments = next.arguments;
+      page = await this.callUpstreamAPI(connector, tool, pageArguments, next.url);
+      pages.push(page.data);
+      next = Paginator.next(connector, tool.pagination, pageArguments, page);
+    }
+
+    return {
+      data: Paginator.combine(tool.pagination, pages),
+      report: { ...(pages.length > 1 ? { pages: pages.length } : {}), ...(next ? { morePages: true } : {}) },
+    };
+  }
+
+  /**
+   * Log fields describing a pipeline decision
+   */
+  private decisionLogFields(decision: PipelineResult) {
+    return {
+      deterministicDecision: decision.deterministic.decision,
+      reviewerDecision: decision.reviewer.decision,
+      reviewerRiskScore: decision.reviewer.riskScore,
+      reviewerReasons: decision.reviewer.reasons,
+      finalDecision: FINAL_DECISION_LABELS[decision.finalDecision],
+      reviewLatencyMs: decision.reviewer.latencyMs,
+    };
+  }
+
+  /**
+   * Record an invocation with the control plane (fire-and-forget)
+   */
+  private logInvocation(
+    connector: ConnectorConfig,
+    tool: MCPTool,
+    arguments_: Record<string, any>,
+    details: Pick<InvocationLogEntry, 'deterministicDecision' | 'finalDecision'> & Partial<InvocationLogEntry>
+  ): void {
+    const redact = (payload: any) =>
+      connector.governance.redactSensitiveFields && payload && typeof payload === 'object'
+        ? this.governanceEngine.redactSensitiveFields(payload)
+        : payload;
+
+    ControlPlaneClient.logInvocation({
+      connectorId: connector.id,
+      toolName: tool.name,
+      method: tool.method,
+      path: tool.path,
+      ...details,
+      requestPayload: redact(arguments_),
+      responsePayload: redact(details.responsePayload),
+    });
+  }
+
+  /**
+   * Call upstream API
+   */
+  private async callUpstreamAPI(
+    connector: ConnectorConfig,
+    tool: MCPTool,
+    arguments_: Record<string, any>,
+    url?: string // a next page link
+  ): Promise<UpstreamPage> {
+    const send = async () => {
+      const request = RequestBuilder.build(connector, tool, arguments_);
+      if (url) {
+        request.url = url;
+      }
+      await UpstreamAuth.apply(connector, tool, request);
+      return this.send(request);
+    };
+
+    try {
+      try {
+        return await send();
+      } catch (error) {
+        // Retry once if fresh credentials may be accepted
+        if (!axios.isAxiosError(error) || !error.response || !UpstreamAuth.recover(connector, error.response)) {
+          throw error;
+        }
+        return await send();
+      }
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(`Upstream API error: ${error.response?.status} ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  private async send(request: UpstreamRequest): Promise<UpstreamPage> {
+    const response = await axios({
+      method: request.method,
+      url: request.url,
+      data: request.data,
+      headers: request.headers,
+      timeout: 30000,
+    });
+    return { data: response.data, headers: response.headers };
+  }
+}
+
+export const toolExecutor = new ToolExecutor();
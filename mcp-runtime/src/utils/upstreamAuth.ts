@@ -0,0 +1,155 @@
+import { AuthScheme, ConnectorConfig, MCPTool } from '../types.js';
+import { UpstreamRequest } from './requestBuilder.js';
+import { SecretEnvelope } from './secretEnvelope.js';
+import { oauthTokenManager } from './oauthTokenManager.js';
+import { requestSigner } from './requestSigner.js';
+
+export interface UpstreamRejection {
+  status: number;
+  headers: Record<string, any>;
+}
+
+/**
+ * Adds upstream credentials to a request, following the tool's OpenAPI security
+ * requirements when it has them and the connector's auth settings otherwise
+ */
+export class UpstreamAuth {
+  static async apply(connector: ConnectorConfig, tool: MCPTool, request: UpstreamRequest): Promise<void> {
+    // Decrypt the secret only for this request, and only if a scheme needs it
+    let secret: string | undefined;
+    const getSecret = () => (secret ??= SecretEnvelope.decrypt(connector.encryptedAuthSecret));
+
+    // A signature covers the whole request, so it replaces the spec's schemes
+    if (connector.authType === 'hmac') {
+      if (tool.security?.length !== 0) {
+        requestSigner.sign(connector, request, getSecret());
+      }
+      return;
+    }
+
+    const schemes = this.selectSchemes(connector, tool) ?? [this.defaultScheme(connector)];
+    for (const scheme of schemes) {
+      await this.applyScheme(connector, scheme, request, getSecret);
+    }
+  }
+
+  static usesOAuth(connector: ConnectorConfig): boolean {
+    return connector.authType === 'oauth2_client_credentials' || connector.authType === 'oauth2_authorization_code';
+  }
+
+  /**
+   * Whether a request the upstream API rejected is worth sending again with
+   * fresh credentials: a new OAuth access token (it may have been revoked
+   * before it expired) or a signature over a clock-corrected timestamp
+   */
+  static recover(connector: ConnectorConfig, rejection: UpstreamRejection): boolean {
+    if (this.usesOAuth(connector) && rejection.status === 401) {
+      oauthTokenManager.invalidate(connector.id);
+      return true;
+    }
+    if (connector.authType === 'hmac' && (rejection.status === 401 || rejection.status === 403)) {
+      return requestSigner.syncClock(connector, rejection.headers.date);
+    }
+    return false;
+  }
+
+  /**
+   * The first requirement the connector's credentials can satisfy.
+   * Returns null when the tool declares none, or none can be satisfied.
+   */
+  private static selectSchemes(connector: ConnectorConfig, tool: MCPTool): AuthScheme[] | null {
+    if (!tool.security) return null;
+    if (tool.security.length === 0) return [];
+
+    let anonymousAllowed = false;
+    for (const requirement of tool.security) {
+      const names = Object.keys(requirement);
+      if (names.length === 0) {
+        anonymousAllowed = true;
+        continue;
+      }
+
+      const schemes = names.map(name => connector.securitySchemes?.[name]);
+      if (schemes.every(scheme => scheme && this.canSatisfy(connector, scheme))) {
+        return schemes as AuthScheme[];
+      }
+    }
+
+    return anonymousAllowed ? [] : null;
+  }
+
+  /**
+   * Whether the connector's configured credentials are what the scheme asks for:
+   * an API key only in the configured location under the configured name
+   */
+  private static canSatisfy(connector: ConnectorConfig, scheme: AuthScheme): boolean {
+    switch (scheme.type) {
+      case 'oauth2':
+        return this.usesOAuth(connector);
+      case 'http':
+        return scheme.scheme === 'basic'
+          ? connector.authType === 'basic'
+          : connector.authType === 'bearer_token' || this.usesOAuth(connector);
+      case 'apiKey': {
+        if (connector.authType !== 'api_key') return false;
+        const configured = this.defaultScheme(connector) as Extract<AuthScheme, { type: 'apiKey' }>;
+        if (scheme.in !== configured.in) return false;
+        // Header names are case-insensitive; query and cookie names are not
+        return scheme.in === 'header'
+          ? scheme.name.toLowerCase() === configured.name.toLowerCase()
+          : scheme.name === configured.name;
+      }
+    }
+  }
+
+  /**
+   * The scheme described by the connector's own auth settings
+   */
+  private static defaultScheme(connector: ConnectorConfig): AuthScheme {
+    switch (connector.authType) {
+      case 'api_key':
+        return {
+          type: 'apiKey',
+          in: connector.authLocation || 'header',
+          name: connector.authHeaderName || 'X-API-Key',
+        };
+      case 'basic':
+        return { type: 'http', scheme: 'basic' };
+      default:
+        return { type: 'http', scheme: 'bearer' };
+    }
+  }
+
+  private static async applyScheme(
+    connector: ConnectorConfig,
+    scheme: AuthScheme,
+    request: UpstreamRequest,
+    getSecret: () => string
+  ): Promise<void> {
+    switch (scheme.type) {
+      case 'apiKey':
+        if (scheme.in === 'header') {
+          request.headers[scheme.name] = getSecret();
+        } else if (scheme.in === 'query') {
+          const url = new URL(request.url);
+          url.searchParams.set(scheme.name, getSecret());
+          request.url = url.toString();
+        } else {
+          const cookie = `${scheme.name}=${encodeURIComponent(getSecret())}`;
+          request.headers.Cookie = request.headers.Cookie ? `${request.headers.Cookie}; ${cookie}` : cookie;
+        }
+        break;
+      case 'http':
+        if (scheme.scheme === 'basic') {
+          request.headers.Authorization = `Basic ${Buffer.from(getSecret()).toString('base64')}`;
+        } else {
+          const token = this.usesOAuth(connector) ? await oauthTokenManager.getAccessToken(connector) : getSecret();
+          request.headers.Authorization = `Bearer ${token}`;
+        }
+        break;
+      case 'oauth2':
+        request.headers.Authorization = `Bearer ${await oauthTokenManager.getAccessToken(connector)}`;
+        break;
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import crypto from 'crypto';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import internalRouter from '../src/routes/internal.js';
+import { connectorRegistry } from '../src/utils/connectorRegistry.js';
+import { ApprovalExecution, ControlPlaneClient } from '../src/utils/controlPlane.js';
+import { loadConnector } from './helpers/connectors.js';
+import { MockServer, startMockServer } from './helpers/mockServer.js';
+
+let server: Server;
+let baseUrl: string;
+let upstream: MockServer;
+const connectorId = crypto.randomUUID();
+
+// Executions as the control plane stores them, shared by every runtime replica
+let executions: Map<string, ApprovalExecution>;
+
+beforeAll(async () => {
+  upstream = await startMockServer(request => ({ status: 201, body: { id: 'ord_1', version: request.url.split('/')[1] } }));
+  connectorRegistry.register(loadConnector('storefront', `${upstream.url}/v1`, { id: connectorId, version: 1 }), false);
+  connectorRegistry.register(loadConnector('storefront', `${upstream.url}/v2`, { id: connectorId, version: 2 }), true);
+
+  const app = express();
+  app.use(express.json());
+  app.use('/internal', internalRouter);
+  server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/internal`;
+});
+
+afterAll(async () => {
+  await upstream.close();
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  upstream.requests.length = 0;
+  executions = new Map();
+  vi.restoreAllMocks();
+  vi.spyOn(ControlPlaneClient, 'logInvocation').mockResolvedValue();
+  vi.spyOn(ControlPlaneClient, 'claimExecution').mockImplementation(async approvalId => {
+    const execution = executions.get(approvalId);
+    if (execution) return { claimed: false, execution };
+    executions.set(approvalId, { status: 'executing' });
+    return { claimed: true };
+  });
+  vi.spyOn(ControlPlaneClient, 'recordExecution').mockImplementation(async (approvalId, execution) => {
+    executions.set(approvalId, execution);
+  });
+});
+
+function execute(approvalId: string, deploymentVersion: number | null) {
+  return fetch(`${baseUrl}/approvals/${approvalId}/execute`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      connectorId,
+      requestId: `req-${approvalId}`,
+      toolName: 'create_order',
+      arguments: { body: { sku: 'A-1', quantity: 1 } },
+      deploymentVersion,
+    }),
+  });
+}
+
+describe('POST /internal/approvals/:id/execute', () => {
+  it('executes an approved call once and answers a replay with the stored result', async () => {
+    const approvalId = crypto.randomUUID();
+
+    const first = await execute(approvalId, 2);
+    const replay = await execute(approvalId, 2);
+
+    expect(first.status).toBe(200);
+    expect(replay.status).toBe(200);
+    expect(await replay.json()).toEqual(await first.json());
+    expect(upstream.requests).toHaveLength(1);
+  });
+
+  it('refuses a call another execution has claimed', async () => {
+    const approvalId = crypto.randomUUID();
+    executions.set(approvalId, { status: 'executing' });
+
+    const response = await execute(approvalId, 2);
+
+    expect(response.status).toBe(409);
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it('executes on the connector version the call was made on', async () => {
+    const response = await execute(crypto.randomUUID(), 1);
+
+    expect((await response.json()).result).toEqual({ id: 'ord_1', version: 'v1' });
+    expect(upstream.requests[0].url).toBe('/v1/orders');
+  });
+
+  it('does not claim a call on a version that is no longer served', async () => {
+    const response = await execute(crypto.randomUUID(), 3);
+
+    expect(response.status).toBe(404);
+    expect(ControlPlaneClient.claimExecution).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,169 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import internalRouter from '../src/routes/internal.js';
+import mcpRouter from '../src/routes/mcp.js';
+import { ConnectorConfig } from '../src/types.js';
+import { connectorRegistry } from '../src/utils/connectorRegistry.js';
+import { ApprovalRequest, ControlPlaneClient } from '../src/utils/controlPlane.js';
+import { DecisionPipeline } from '../src/utils/decisionPipeline.js';
+import { loadConnector } from './helpers/connectors.js';
+
+let server: Server;
+let baseUrl: string;
+let connector: ConnectorConfig;
+const streams: AbortController[] = [];
+
+beforeAll(async () => {
+  connector = loadConnector('storefront', 'https://api.example.com');
+  connectorRegistry.register(connector);
+
+  // Mounted as in src/index.ts, without the internal signature check
+  const app = express();
+  app.use(express.json());
+  app.use('/mcp', mcpRouter);
+  app.use('/internal', internalRouter);
+  server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  streams.forEach(stream => stream.abort());
+  server.closeAllConnections();
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.spyOn(ControlPlaneClient, 'validateToken')
+    .mockResolvedValue({ tokenId: 'token-test', scopes: null, expiresAt: null, deploymentVersion: null });
+  vi.spyOn(ControlPlaneClient, 'logInvocation').mockResolvedValue();
+  vi.spyOn(ControlPlaneClient, 'createApproval').mockImplementation(async (request: ApprovalRequest) => ({
+    approvalId: `approval-${request.requestId}`,
+    requestId: request.requestId,
+    status: 'pending',
+    requiredApprovals: 1,
+    expiresAt: request.expiresAt,
+  }));
+  vi.spyOn(DecisionPipeline.prototype, 'evaluate').mockResolvedValue({
+    finalDecision: 'REQUIRE_HUMAN_APPROVAL',
+    deterministic: { decision: 'pending', reason: 'Writes require approval', violations: [], requiresApproval: true, requiresQuorum: false },
+    reviewer: { status: 'skipped', mode: 'ENFORCING', enforced: false, skipReason: 'Held in tests' },
+  });
+});
+
+function post(path: string, body: unknown, headers: Record<string, string> = {}) {
+  return fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: 'Bearer mcp_test', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+/**
+ * A Streamable HTTP session with its event stream open. `events` collects the
+ * JSON-RPC messages the server pushes on the stream.
+ */
+async function openSession() {
+  const initialized = await post(`/mcp/${connector.id}`, {
+    jsonrpc: '2.0',
+    id: 0,
+    method: 'initialize',
+    params: { protocolVersion: '2025-06-18', clientInfo: { name: 'test' } },
+  });
+  const sessionId = initialized.headers.get('mcp-session-id')!;
+
+  const abort = new AbortController();
+  streams.push(abort);
+  const stream = await fetch(`${baseUrl}/mcp/${connector.id}`, {
+    headers: { Accept: 'text/event-stream', Authorization: 'Bearer mcp_test', 'Mcp-Session-Id': sessionId },
+    signal: abort.signal,
+  });
+  expect(stream.status).toBe(200);
+
+  const events: any[] = [];
+  const reader = stream.body!.pipeThrough(new TextDecoderStream()).getReader();
+  (async () => {
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += value;
+      const frames = buffer.split('\n\n');
+      buffer = frames.pop()!;
+      for (const frame of frames) {
+        const data = frame.split('\n').find(line => line.startsWith('data: '));
+        if (data) events.push(JSON.parse(data.slice('data: '.length)));
+      }
+    }
+  })().catch(() => {});
+
+  return {
+    events,
+    callTool: async (name: string, arguments_: Record<string, any>) => (await (await post(
+      `/mcp/${connector.id}`,
+      { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: arguments_ } },
+      { 'Mcp-Session-Id': sessionId }
+    )).json()).result,
+  };
+}
+
+function decide(approvalId: string, values: Record<string, unknown>) {
+  return post(`/internal/approvals/${approvalId}/decision`, { connectorId: connector.id, toolName: 'create_order', ...values });
+}
+
+describe('approval notifications', () => {
+  it('pushes the outcome to the session that queued the call only', async () => {
+    const waiting = await openSession();
+    const other = await openSession();
+
+    const result = await waiting.callTool('create_order', { body: { sku: 'A-1', quantity: 1 } });
+    const [request] = vi.mocked(ControlPlaneClient.createApproval).mock.calls[0];
+    expect(result._meta.approval).toMatchObject({ requestId: request.requestId, status: 'pending' });
+
+    const response = await decide(`approval-${request.requestId}`, {
+      requestId: request.requestId,
+      status: 'rejected',
+      approvalNotes: 'Not this quarter',
+    });
+
+    expect(await response.json()).toEqual({ approvalId: `approval-${request.requestId}`, delivered: true });
+    await vi.waitFor(() => expect(waiting.events).toHaveLength(1));
+    expect(waiting.events[0]).toEqual({
+      jsonrpc: '2.0',
+      method: 'notifications/message',
+      params: {
+        level: 'info',
+        logger: 'approvals',
+        data: {
+          type: 'approval_decided',
+          approvalId: `approval-${request.requestId}`,
+          requestId: request.requestId,
+          toolName: 'create_order',
+          status: 'rejected',
+          approvalNotes: 'Not this quarter',
+        },
+      },
+    });
+    expect(other.events).toEqual([]);
+  });
+
+  it('delivers an outcome once, and not for requests no session is waiting on', async () => {
+    const waiting = await openSession();
+    await waiting.callTool('create_order', { body: { sku: 'A-1', quantity: 1 } });
+    const [request] = vi.mocked(ControlPlaneClient.createApproval).mock.calls[0];
+    const expired = { requestId: request.requestId, status: 'expired' };
+
+    const deliveries = [
+      await decide('approval-unknown', { ...expired, requestId: 'req-unknown' }),
+      await decide(`approval-${request.requestId}`, { ...expired, connectorId: 'another-connector' }),
+      await decide(`approval-${request.requestId}`, expired),
+      await decide(`approval-${request.requestId}`, expired),
+    ];
+
+    expect(await Promise.all(deliveries.map(async response => (await response.json()).delivered))).toEqual([false, false, true, false]);
+    await vi.waitFor(() => expect(waiting.events).toHaveLength(1));
+  });
+});
@@ -0,0 +1,171 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import crypto from 'crypto';
+import { ConfigSync } from '../src/utils/configSync.js';
+import { connectorRegistry } from '../src/utils/connectorRegistry.js';
+import { InternalAuth } from '../src/utils/internalAuth.js';
+import { oauthTokenManager } from '../src/utils/oauthTokenManager.js';
+import { loadConnector } from './helpers/connectors.js';
+import { MockServer, startMockServer } from './helpers/mockServer.js';
+import { encryptSecret } from './helpers/secrets.js';
+
+const key = crypto.randomBytes(32);
+process.env.INTERNAL_API_KEY = key.toString('base64');
+InternalAuth.configure('runtime');
+
+/**
+ * Sign a response body as the control plane does (see internalAuth.ts)
+ */
+function signAsControlPlane(nonce: string, body: string): string {
+  const keyId = crypto.createHash('sha256').update(key).digest('hex').substring(0, 16);
+  const digest = crypto.createHash('sha256').update(body).digest('hex');
+  const message = ['response', 'control-plane->runtime', nonce, digest].join('\n');
+  return `${keyId}:${crypto.createHmac('sha256', key).update(message).digest('hex')}`;
+}
+
+const { tools } = loadConnector('storefront', 'https://api.example.com');
+
+function entry(id: string, version: number, activate: boolean, settings: Record<string, unknown> = {}) {
+  return {
+    id,
+    name: id,
+    version,
+    activate,
+    baseUrl: 'https://api.example.com',
+    authType: 'bearer_token',
+    encryptedAuthSecret: encryptSecret('upstream-secret'),
+    tools,
+    ...settings,
+  };
+}
+
+let bundle: { revision: string; connectors: Record<string, unknown>[] };
+let signed: boolean;
+let controlPlane: MockServer;
+
+beforeAll(async () => {
+  controlPlane = await startMockServer(request => {
+    if (request.headers['if-none-match'] === `"${bundle.revision}"`) {
+      return { status: 304, body: '' };
+    }
+    const body = JSON.stringify(bundle);
+    const nonce = String(request.headers['x-internal-nonce']);
+    return {
+      headers: {
+        'Content-Type': 'application/json',
+        ETag: `"${bundle.revision}"`,
+        'X-Internal-Signature': signed ? signAsControlPlane(nonce, body) : 'unsigned',
+      },
+      body,
+    };
+  });
+  process.env.CONTROL_PLANE_URL = controlPlane.url;
+});
+
+afterAll(() => controlPlane.close());
+
+beforeEach(() => {
+  controlPlane.requests.length = 0;
+  connectorRegistry.replaceAll([]);
+  signed = true;
+  vi.restoreAllMocks();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('ConfigSync.runOnce', () => {
+  it('loads the bundle, then asks for changes with its revision', async () => {
+    bundle = { revision: 'r1', connectors: [entry('billing', 1, true)] };
+    const sync = new ConfigSync();
+
+    await sync.runOnce();
+    await sync.runOnce();
+
+    expect(connectorRegistry.get('billing')?.version).toBe(1);
+    expect(controlPlane.requests.map(request => request.headers['if-none-match'])).toEqual([undefined, '"r1"']);
+  });
+
+  it('keeps what it serves while the revision is unchanged', async () => {
+    bundle = { revision: 'r1', connectors: [entry('billing', 1, true)] };
+    const sync = new ConfigSync();
+    await sync.runOnce();
+    const loaded = connectorRegistry.get('billing');
+
+    await sync.runOnce();
+
+    expect(connectorRegistry.get('billing')).toBe(loaded);
+  });
+
+  it('swaps in a new revision: activated versions, staged versions and removed connectors', async () => {
+    bundle = { revision: 'r1', connectors: [entry('billing', 1, true), entry('orders', 3, true)] };
+    const sync = new ConfigSync();
+    await sync.runOnce();
+
+    bundle = { revision: 'r2', connectors: [entry('billing', 1, false), entry('billing', 2, true), entry('billing', 3, false)] };
+    await sync.runOnce();
+
+    expect(connectorRegistry.get('billing')?.version).toBe(2);
+    expect(connectorRegistry.listVersions('billing')).toEqual([1, 2, 3]);
+    expect(connectorRegistry.get('orders')).toBeUndefined();
+  });
+
+  it('keeps serving a loaded version whose new entry is invalid', async () => {
+    bundle = { revision: 'r1', connectors: [entry('billing', 1, true)] };
+    const sync = new ConfigSync();
+    await sync.runOnce();
+    const loaded = connectorRegistry.get('billing');
+
+    bundle = {
+      revision: 'r2',
+      connectors: [entry('billing', 1, true, { encryptedAuthSecret: 'plaintext' }), entry('billing', 2, false)],
+    };
+    await sync.runOnce();
+
+    expect(connectorRegistry.get('billing')).toBe(loaded);
+    expect(connectorRegistry.listVersions('billing')).toEqual([1, 2]);
+  });
+
+  it('ignores bundles the control plane did not sign and tries again on the next run', async () => {
+    bundle = { revision: 'r1', connectors: [entry('billing', 1, true)] };
+    const sync = new ConfigSync();
+    await sync.runOnce();
+
+    signed = false;
+    bundle = { revision: 'r2', connectors: [] };
+    await sync.runOnce();
+    expect(connectorRegistry.get('billing')?.version).toBe(1);
+
+    signed = true;
+    await sync.runOnce();
+    expect(connectorRegistry.get('billing')).toBeUndefined();
+    expect(controlPlane.requests.at(-1)?.headers['if-none-match']).toBe('"r1"');
+  });
+
+  it('keeps serving while the control plane is unreachable', async () => {
+    bundle = { revision: 'r1', connectors: [entry('billing', 1, true)] };
+    const sync = new ConfigSync();
+    await sync.runOnce();
+
+    process.env.CONTROL_PLANE_URL = 'http://127.0.0.1:1';
+    try {
+      await sync.runOnce();
+    } finally {
+      process.env.CONTROL_PLANE_URL = controlPlane.url;
+    }
+
+    expect(connectorRegistry.get('billing')?.version).toBe(1);
+  });
+
+  it('forgets cached upstream tokens when the active version has new credentials', async () => {
+    const reset = vi.spyOn(oauthTokenManager, 'reset');
+    bundle = { revision: 'r1', connectors: [entry('billing', 1, true)] };
+    const sync = new ConfigSync();
+    await sync.runOnce();
+
+    bundle = { revision: 'r2', connectors: [bundle.connectors[0], entry('billing', 2, false)] };
+    await sync.runOnce();
+    expect(reset).not.toHaveBeenCalled();
+
+    bundle = { revision: 'r3', connectors: [entry('billing', 2, true)] };
+    await sync.runOnce();
+    expect(reset).toHaveBeenCalledWith('billing');
+  });
+});
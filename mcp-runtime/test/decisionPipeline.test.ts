@@ -0,0 +1,191 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { ConnectorGovernance, DEFAULT_GOVERNANCE, MCPTool } from '../src/types.js';
+import { AIReviewer, ReviewerOutput } from '../src/utils/aiReviewer.js';
+import { DecisionPipeline } from '../src/utils/decisionPipeline.js';
+import { loadConnector } from './helpers/connectors.js';
+
+// The reviewer is stubbed; the key only lets it be constructed
+process.env.GOOGLE_API_KEY ??= 'test-key';
+
+function tool(name: string, category: MCPTool['category'], method: string): MCPTool {
+  return {
+    name,
+    description: name,
+    category,
+    method,
+    path: '/payments',
+    dangerTags: [],
+    inputSchema: { type: 'object', properties: {} },
+    parameterLocations: {},
+  };
+}
+
+const listPayments = tool('list_payments', 'READ', 'GET');
+const createPayment = tool('create_payment', 'WRITE', 'POST'); // risk 25, more for large amounts
+const refundPayment = tool('refund_payment', 'DANGEROUS', 'POST');
+
+// Every call passes the deterministic checks and is reviewed
+const reviewAll: ConnectorGovernance = {
+  ...DEFAULT_GOVERNANCE,
+  allowedVerbs: ['GET', 'POST'],
+  requireApprovalForWrites: false,
+  requireApprovalForHighRisk: false,
+  aiReviewerWriteCallsOnly: false,
+  aiReviewerHighRiskOnly: false,
+};
+
+let review: ReturnType<typeof vi.spyOn>;
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  review = vi.spyOn(AIReviewer.prototype, 'review');
+  reviewerSays('ALLOW', 10);
+});
+
+function reviewerSays(decision: ReviewerOutput['decision'], riskScore: number) {
+  review.mockResolvedValue({ decision, riskScore, reasons: [`reviewer: ${decision} at ${riskScore}`] });
+}
+
+function evaluate(target: MCPTool, governance: Partial<ConnectorGovernance> = {}, arguments_: Record<string, any> = {}) {
+  const connector = loadConnector('storefront', 'https://api.example.com', { governance: { ...reviewAll, ...governance } });
+  return new DecisionPipeline().evaluate(connector, target, arguments_, `test-${Math.random()}`);
+}
+
+describe('DecisionPipeline.evaluate', () => {
+  it('does not call the reviewer when it is off', async () => {
+    const result = await evaluate(createPayment, { aiReviewerEnabled: false });
+
+    expect(review).not.toHaveBeenCalled();
+    expect(result.finalDecision).toBe('ALLOW');
+    expect(result.reviewer).toMatchObject({ status: 'skipped', enforced: false, skipReason: 'AI Reviewer disabled' });
+  });
+
+  it('does not call the reviewer for calls the deterministic checks block', async () => {
+    const result = await evaluate(createPayment, { allowedVerbs: ['GET'] });
+
+    expect(review).not.toHaveBeenCalled();
+    expect(result.finalDecision).toBe('BLOCK');
+    expect(result.reviewer.skipReason).toBe('Deterministic checks failed');
+  });
+
+  it('applies the reviewer\'s decision when enforcing', async () => {
+    reviewerSays('BLOCK', 90);
+
+    const result = await evaluate(createPayment, { aiReviewerMode: 'ENFORCING' });
+
+    expect(result.finalDecision).toBe('BLOCK');
+    expect(result.reviewer).toMatchObject({ status: 'completed', mode: 'ENFORCING', enforced: true, decision: 'BLOCK', riskScore: 90 });
+  });
+
+  it('only records the reviewer\'s decision when advisory', async () => {
+    reviewerSays('BLOCK', 90);
+
+    const result = await evaluate(createPayment, { aiReviewerMode: 'ADVISORY' });
+
+    expect(result.finalDecision).toBe('ALLOW');
+    expect(result.reviewer).toMatchObject({ status: 'completed', mode: 'ADVISORY', enforced: false, decision: 'BLOCK' });
+  });
+
+  it.each([
+    ['ALLOW', 30, 'ALLOW'],
+    ['ALLOW', 31, 'REQUIRE_HUMAN_APPROVAL'],
+    ['ALLOW', 90, 'REQUIRE_HUMAN_APPROVAL'], // an allow above the threshold is held, not blocked
+    ['REQUIRE_HUMAN_APPROVAL', 10, 'ALLOW'],
+    ['REQUIRE_HUMAN_APPROVAL', 50, 'REQUIRE_HUMAN_APPROVAL'],
+    ['REQUIRE_HUMAN_APPROVAL', 71, 'BLOCK'],
+    ['BLOCK', 5, 'BLOCK'],
+  ] as const)('turns %s at risk %i into %s with the default thresholds', async (decision, riskScore, expected) => {
+    reviewerSays(decision, riskScore);
+
+    expect((await evaluate(createPayment)).finalDecision).toBe(expected);
+  });
+
+  it('uses the connector\'s thresholds', async () => {
+    reviewerSays('ALLOW', 50);
+
+    const result = await evaluate(createPayment, { aiReviewerAllowMaxRisk: 60, aiReviewerApprovalMinRisk: 61, aiReviewerBlockMinRisk: 90 });
+
+    expect(result.finalDecision).toBe('ALLOW');
+  });
+
+  it('keeps the deterministic approval requirement when the reviewer allows', async () => {
+    const result = await evaluate(createPayment, { requireApprovalForWrites: true });
+
+    expect(result.deterministic.decision).toBe('pending');
+    expect(result.finalDecision).toBe('REQUIRE_HUMAN_APPROVAL');
+  });
+
+  it('applies the fallback when the reviewer fails', async () => {
+    review.mockRejectedValue(new Error('quota exceeded'));
+
+    const result = await evaluate(createPayment, { aiReviewerFallback: 'BLOCK' });
+
+    expect(result.finalDecision).toBe('BLOCK');
+    expect(result.reviewer).toMatchObject({
+      status: 'failed',
+      enforced: true,
+      decision: 'BLOCK',
+      error: 'quota exceeded',
+      reasons: ['AI Reviewer unavailable - fallback BLOCK applied'],
+    });
+  });
+
+  it('records but does not apply the fallback when advisory', async () => {
+    review.mockRejectedValue(new Error('quota exceeded'));
+
+    const result = await evaluate(createPayment, { aiReviewerMode: 'ADVISORY', aiReviewerFallback: 'BLOCK' });
+
+    expect(result.finalDecision).toBe('ALLOW');
+    expect(result.reviewer).toMatchObject({ status: 'failed', enforced: false, decision: 'BLOCK' });
+  });
+
+  it('applies the fallback when the reviewer does not answer in time', async () => {
+    review.mockRestore();
+    vi.spyOn(GoogleGenerativeAI.prototype, 'getGenerativeModel').mockReturnValue({
+      generateContent: () => new Promise(() => {}),
+    } as any);
+
+    const result = await evaluate(createPayment, { aiReviewerTimeoutMs: 20 });
+
+    expect(result.finalDecision).toBe('REQUIRE_HUMAN_APPROVAL');
+    expect(result.reviewer).toMatchObject({ status: 'failed', error: 'AI Reviewer timeout' });
+  });
+
+  it('reviews only write calls when limited to them', async () => {
+    const read = await evaluate(listPayments, { aiReviewerWriteCallsOnly: true });
+    const write = await evaluate(createPayment, { aiReviewerWriteCallsOnly: true });
+
+    expect(read.reviewer).toMatchObject({ status: 'skipped', skipReason: 'Read-only call (reviewer limited to write calls)' });
+    expect(write.reviewer.status).toBe('completed');
+    expect(review).toHaveBeenCalledTimes(1);
+  });
+
+  it('reviews only calls above the allow threshold or dangerous ones when limited to high risk', async () => {
+    const governance = { aiReviewerHighRiskOnly: true };
+
+    const small = await evaluate(createPayment, governance, { amount: 50 });
+    const large = await evaluate(createPayment, governance, { amount: 50000 });
+    const dangerous = await evaluate(refundPayment, governance);
+
+    expect(small.reviewer).toMatchObject({
+      status: 'skipped',
+      skipReason: 'Risk score 25 below high-risk threshold (reviewer limited to high-risk calls)',
+    });
+    expect(large.reviewer.status).toBe('completed');
+    expect(dangerous.reviewer.status).toBe('completed');
+  });
+
+  it('sends the reviewer redacted arguments, the timeout and recent history', async () => {
+    const connector = loadConnector('storefront', 'https://api.example.com', { governance: { ...reviewAll, aiReviewerTimeoutMs: 1500 } });
+    const pipeline = new DecisionPipeline();
+    pipeline.recordOutcome(connector.id, 'list_payments', 'success');
+
+    await pipeline.evaluate(connector, createPayment, { amount: 10, apiToken: 'secret-value' }, 'test-history');
+
+    const [input, timeoutMs] = review.mock.calls[0];
+    expect(timeoutMs).toBe(1500);
+    expect(input.request.arguments).toEqual({ amount: 10, apiToken: '[REDACTED]' });
+    expect(input.history.recentCallsSummary).toEqual([{ tool: 'list_payments', result: 'success' }]);
+  });
+});
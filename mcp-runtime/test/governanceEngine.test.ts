@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GOVERNANCE, MCPTool } from '../src/types.js';
+import { GovernanceEngine } from '../src/utils/governanceEngine.js';
+
+const createPayment: MCPTool = {
+  name: 'create_payment',
+  description: 'Create a payment',
+  category: 'WRITE',
+  method: 'POST',
+  path: '/payments',
+  dangerTags: [],
+  inputSchema: {
+    type: 'object',
+    properties: { body: { type: 'object' } },
+    required: ['body'],
+  },
+  parameterLocations: { body: 'body' },
+};
+
+const governance = {
+  ...DEFAULT_GOVERNANCE,
+  allowedVerbs: ['POST'],
+  requireApprovalForWrites: false,
+  numericCeilings: { amount: 1000, quantity: 10 },
+};
+
+function check(arguments_: Record<string, any>, config = governance) {
+  return new GovernanceEngine().checkGovernance(createPayment, arguments_, config, 'https://api.example.com', 'test');
+}
+
+describe('GovernanceEngine numeric ceilings', () => {
+  it('holds a call for quorum when a body amount exceeds its ceiling', () => {
+    const result = check({ body: { amount: 5000, currency: 'EUR' } });
+
+    expect(result).toMatchObject({
+      allowed: true,
+      requiresApproval: true,
+      requiresQuorum: true,
+      reason: 'Field body.amount value 5000 exceeds ceiling 1000 (quorum approval required)',
+    });
+  });
+
+  it('finds fields in nested objects and arrays', () => {
+    const result = check({ body: { items: [{ quantity: 2 }, { quantity: 50 }] } });
+
+    expect(result.reason).toBe('Field body.items[1].quantity value 50 exceeds ceiling 10 (quorum approval required)');
+  });
+
+  it('blocks the call when ceiling breaches are not held for quorum', () => {
+    const result = check({ body: { amount: 5000 } }, { ...governance, quorumForCeilingBreaches: false });
+
+    expect(result.allowed).toBe(false);
+    expect(result.violations).toEqual(['Field body.amount value 5000 exceeds ceiling 1000']);
+  });
+
+  it('lets calls within the ceilings through', () => {
+    expect(check({ body: { amount: 999, items: [{ quantity: 10 }] } })).toMatchObject({
+      allowed: true,
+      requiresApproval: false,
+      reason: 'All checks passed',
+    });
+  });
+});
+
+describe('GovernanceEngine.calculateRiskScore', () => {
+  it('scores large amounts in the body', () => {
+    const engine = new GovernanceEngine();
+
+    expect(engine.calculateRiskScore(createPayment, { body: { amount: 50000 } }))
+      .toBe(engine.calculateRiskScore(createPayment, { body: { amount: 5 } }) + 10);
+  });
+});
@@ -0,0 +1,66 @@
+import { vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { ConnectorConfig, DEFAULT_GOVERNANCE, MCPTool } from '../../src/types.js';
+import { DecisionPipeline } from '../../src/utils/decisionPipeline.js';
+import { ToolCallOutcome, toolExecutor } from '../../src/utils/toolExecutor.js';
+import { encryptSecret } from './secrets.js';
+
+/**
+ * A connector from a fixture in test/fixtures: the tools and security schemes
+ * the control plane registers for that spec, pointed at `baseUrl`. The fixtures
+ * are generated from the specs in backend/test/fixtures (see the backend's
+ * test/runtimeFixtures.test.ts).
+ */
+export function loadConnector(
+  fixture: string,
+  baseUrl: string,
+  settings: Partial<ConnectorConfig> & { secret?: string } = {}
+): ConnectorConfig {
+  const { secret = 'test-secret', ...overrides } = settings;
+  const spec = JSON.parse(readFileSync(new URL(`../fixtures/${fixture}.json`, import.meta.url), 'utf8'));
+
+  return {
+    id: `${fixture}-${Math.random().toString(36).slice(2)}`,
+    name: spec.name,
+    baseUrl,
+    authType: 'bearer_token',
+    securitySchemes: spec.securitySchemes,
+    encryptedAuthSecret: encryptSecret(secret),
+    tools: spec.tools,
+    governance: DEFAULT_GOVERNANCE,
+    ...overrides,
+  };
+}
+
+export function findTool(connector: ConnectorConfig, name: string): MCPTool {
+  const tool = connector.tools.find(candidate => candidate.name === name);
+  if (!tool) throw new Error(`No tool ${name} in fixture`);
+  return tool;
+}
+
+/**
+ * Call a tool the way an MCP client does, with a token that may call every tool
+ */
+export function callTool(
+  connector: ConnectorConfig,
+  toolName: string,
+  arguments_: Record<string, any>
+): Promise<ToolCallOutcome> {
+  return toolExecutor.execute(connector, toolName, arguments_, {
+    authToken: 'mcp_test',
+    tokenId: 'token-test',
+    scopes: null,
+  });
+}
+
+/**
+ * Let every call through the decision pipeline, for tests of what is sent
+ * upstream (the domain lock refuses the local mock servers)
+ */
+export function allowAllCalls() {
+  return vi.spyOn(DecisionPipeline.prototype, 'evaluate').mockResolvedValue({
+    finalDecision: 'ALLOW',
+    deterministic: { decision: 'allowed', reason: 'Allowed in tests', violations: [], requiresApproval: false, requiresQuorum: false },
+    reviewer: { status: 'skipped', mode: 'ENFORCING', enforced: false, skipReason: 'Allowed in tests' },
+  });
+}
@@ -0,0 +1,58 @@
+import http, { IncomingHttpHeaders } from 'http';
+import { AddressInfo } from 'net';
+
+export interface RecordedRequest {
+  method: string;
+  url: string; // path and query
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+}
+
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown; // objects are sent as JSON
+}
+
+export interface MockServer {
+  url: string;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * A local HTTP server standing in for an upstream API or token server.
+ * It records every request and answers with the handler's response
+ * (200 `{"ok":true}` by default).
+ */
+export async function startMockServer(
+  handler: (request: RecordedRequest) => MockResponse | Promise<MockResponse> = () => ({})
+): Promise<MockServer> {
+  const requests: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', async () => {
+      const request = { method: req.method!, url: req.url!, headers: req.headers, body: Buffer.concat(chunks) };
+      requests.push(request);
+
+      const response = await handler(request);
+      const body = response.body === undefined ? { ok: true } : response.body;
+      res.writeHead(response.status ?? 200, {
+        ...(typeof body === 'string' ? {} : { 'Content-Type': 'application/json' }),
+        ...response.headers,
+      });
+      res.end(typeof body === 'string' ? body : JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,31 @@
+import crypto from 'crypto';
+
+// A master key for the test run, read by SecretEnvelope on first use
+process.env.SECRETS_MASTER_KEY ??= crypto.randomBytes(32).toString('base64');
+
+/**
+ * Encrypt a secret the way the control plane does (see backend/src/utils/secretEnvelope.ts)
+ */
+export function encryptSecret(plaintext: string): string {
+  const masterKey = Buffer.from(process.env.SECRETS_MASTER_KEY!, 'base64');
+  const keyId = crypto.createHash('sha256').update(masterKey).digest('hex').substring(0, 16);
+  const dataKey = crypto.randomBytes(32);
+
+  const wrapIv = crypto.randomBytes(12);
+  const wrap = crypto.createCipheriv('aes-256-gcm', masterKey, wrapIv);
+  wrap.setAAD(Buffer.from(keyId));
+  const wrappedKey = Buffer.concat([wrap.update(dataKey), wrap.final()]);
+
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', dataKey, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [
+    'v1',
+    keyId,
+    Buffer.concat([wrapIv, wrap.getAuthTag(), wrappedKey]).toString('base64url'),
+    iv.toString('base64url'),
+    cipher.getAuthTag().toString('base64url'),
+    ciphertext.toString('base64url'),
+  ].join('.');
+}
@@ -0,0 +1,82 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import crypto from 'crypto';
+import type { Request, Response } from 'express';
+import { ControlPlaneClient } from '../src/utils/controlPlane.js';
+import { InternalAuth, RawBodyRequest } from '../src/utils/internalAuth.js';
+import { MockServer, startMockServer } from './helpers/mockServer.js';
+
+process.env.INTERNAL_API_KEY = crypto.randomBytes(32).toString('base64');
+
+const nonces = { remember: (nonce: string, forgetAt: Date) => ControlPlaneClient.rememberNonce(nonce, forgetAt) };
+
+/**
+ * A request the control plane signed, as the runtime received it
+ */
+function fromControlPlane(path: string, body = '{"ok":true}'): RawBodyRequest {
+  InternalAuth.configure('control-plane');
+  const headers = InternalAuth.signRequest('POST', path, body);
+  InternalAuth.configure('runtime', { nonces });
+  return { method: 'POST', originalUrl: path, headers, rawBody: Buffer.from(body) } as unknown as RawBodyRequest;
+}
+
+let recorded: Set<string>;
+let controlPlane: MockServer;
+
+beforeAll(async () => {
+  controlPlane = await startMockServer(request => {
+    const { nonce } = JSON.parse(request.body.toString());
+    const known = recorded.has(nonce);
+    recorded.add(nonce);
+    return { body: { recorded: !known } };
+  });
+  process.env.CONTROL_PLANE_URL = controlPlane.url;
+});
+
+afterAll(() => controlPlane.close());
+
+beforeEach(() => {
+  recorded = new Set();
+  controlPlane.requests.length = 0;
+  vi.restoreAllMocks();
+});
+
+describe('InternalAuth with the control plane nonce store', () => {
+  it('records nonces with the control plane and rejects replays', async () => {
+    const request = fromControlPlane('/internal/connectors/register');
+
+    await InternalAuth.verifyRequest(request);
+    await expect(InternalAuth.verifyRequest(request)).rejects.toThrow('Internal API request replayed');
+
+    const [call] = controlPlane.requests;
+    expect(call.url).toBe('/internal/nonces');
+    expect(call.headers['x-internal-signature']).toBeDefined();
+    expect(JSON.parse(call.body.toString()).nonce).toBe(request.headers['x-internal-nonce']);
+  });
+
+  it('rejects a request replayed after a restart', async () => {
+    const request = fromControlPlane('/internal/connectors/register');
+    await InternalAuth.verifyRequest(request);
+
+    // A restarted process starts from its configuration; the nonces stay with the control plane
+    InternalAuth.configure('runtime', { nonces });
+
+    await expect(InternalAuth.verifyRequest(request)).rejects.toThrow('Internal API request replayed');
+  });
+
+  it('fails closed while the control plane is unreachable', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const request = fromControlPlane('/internal/connectors/register');
+    const response = { status: vi.fn().mockReturnThis(), json: vi.fn() };
+    const next = vi.fn();
+
+    process.env.CONTROL_PLANE_URL = 'http://127.0.0.1:1';
+    try {
+      await InternalAuth.requireSignature(request as unknown as Request, response as unknown as Response, next);
+    } finally {
+      process.env.CONTROL_PLANE_URL = controlPlane.url;
+    }
+
+    expect(next).not.toHaveBeenCalled();
+    expect(response.status).toHaveBeenCalledWith(503);
+  });
+});
@@ -0,0 +1,212 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import mcpRouter from '../src/routes/mcp.js';
+import { ConnectorConfig } from '../src/types.js';
+import { connectorRegistry } from '../src/utils/connectorRegistry.js';
+import { ControlPlaneClient, TokenGrant } from '../src/utils/controlPlane.js';
+import { toolExecutor } from '../src/utils/toolExecutor.js';
+import { loadConnector } from './helpers/connectors.js';
+
+const TOKENS: Record<string, TokenGrant> = {
+  mcp_full: { tokenId: 'token-full', scopes: null, expiresAt: null, deploymentVersion: null },
+  mcp_other: { tokenId: 'token-other', scopes: null, expiresAt: null, deploymentVersion: null },
+  mcp_scoped: { tokenId: 'token-scoped', scopes: ['get_order'], expiresAt: null, deploymentVersion: null },
+};
+
+let server: Server;
+let baseUrl: string;
+let connector: ConnectorConfig;
+
+beforeAll(async () => {
+  connector = loadConnector('storefront', 'https://api.example.com');
+  connectorRegistry.register(connector);
+
+  const app = express();
+  app.use(express.json());
+  app.use('/mcp', mcpRouter);
+  server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp/${connector.id}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.spyOn(ControlPlaneClient, 'validateToken').mockImplementation(async (_connectorId, token) => TOKENS[token] ?? null);
+  delete process.env.MCP_ALLOWED_ORIGINS;
+});
+
+function post(body: unknown, headers: Record<string, string> = {}, token = 'mcp_full') {
+  return fetch(baseUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}`, ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+/**
+ * Open a Streamable HTTP session and return its id
+ */
+async function initialize(token = 'mcp_full'): Promise<string> {
+  const response = await post(
+    { jsonrpc: '2.0', id: 0, method: 'initialize', params: { protocolVersion: '2025-06-18', clientInfo: { name: 'test' } } },
+    {},
+    token
+  );
+  expect(response.status).toBe(200);
+  return response.headers.get('mcp-session-id')!;
+}
+
+describe('JSON-RPC dispatch', () => {
+  it('negotiates the protocol version on initialize', async () => {
+    const supported = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2024-11-05' } });
+    expect(await supported.json()).toMatchObject({
+      id: 1,
+      result: { protocolVersion: '2024-11-05', capabilities: { tools: { listChanged: false } } },
+    });
+
+    const unknown = await post({ jsonrpc: '2.0', id: 2, method: 'initialize', params: { protocolVersion: '1999-01-01' } });
+    expect((await unknown.json()).result.protocolVersion).toBe('2025-06-18');
+  });
+
+  it('lists the connector tools and the approval status tool', async () => {
+    const sessionId = await initialize();
+
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId });
+
+    const names = (await response.json()).result.tools.map((tool: { name: string }) => tool.name);
+    expect(names).toEqual([...connector.tools.map(tool => tool.name), 'get_approval_status']);
+  });
+
+  it('only lists the tools in a token\'s scopes', async () => {
+    const sessionId = await initialize('mcp_scoped');
+
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId }, 'mcp_scoped');
+
+    const names = (await response.json()).result.tools.map((tool: { name: string }) => tool.name);
+    expect(names).toEqual(['get_order', 'get_approval_status']);
+  });
+
+  it('answers batches in order and acknowledges notifications without a body', async () => {
+    const sessionId = await initialize();
+
+    const batch = await post([
+      { jsonrpc: '2.0', id: 'a', method: 'ping' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 'b', method: 'resources/list' },
+    ], { 'Mcp-Session-Id': sessionId });
+    expect(await batch.json()).toEqual([
+      { jsonrpc: '2.0', id: 'a', result: {} },
+      { jsonrpc: '2.0', id: 'b', error: { code: -32601, message: 'Method not found: resources/list' } },
+    ]);
+
+    const notification = await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, { 'Mcp-Session-Id': sessionId });
+    expect(notification.status).toBe(202);
+    expect(await notification.text()).toBe('');
+  });
+
+  it('rejects malformed messages and batched initialize', async () => {
+    expect((await post({ id: 1, method: 'ping' })).status).toBe(400);
+    expect((await post([])).status).toBe(400);
+
+    const batched = await post([
+      { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} },
+      { jsonrpc: '2.0', id: 2, method: 'ping' },
+    ]);
+    expect(batched.status).toBe(400);
+    expect((await batched.json()).error.message).toBe('initialize must not be batched');
+  });
+
+  it('reports tool call outcomes as results and unknown tools as errors', async () => {
+    const sessionId = await initialize();
+    const execute = vi.spyOn(toolExecutor, 'execute')
+      .mockResolvedValueOnce({ status: 'success', result: { id: 'ord_1' }, metadata: {} as any })
+      .mockResolvedValueOnce({ status: 'blocked', error: 'Verb POST not allowed', metadata: {} as any })
+      .mockResolvedValueOnce({ status: 'tool_not_found', error: 'Tool not found: nope' });
+
+    const call = (name: string) => post(
+      { jsonrpc: '2.0', id: name, method: 'tools/call', params: { name, arguments: { orderId: '1' } } },
+      { 'Mcp-Session-Id': sessionId }
+    ).then(response => response.json());
+
+    expect((await call('get_order')).result.content[0].text).toBe(JSON.stringify({ id: 'ord_1' }, null, 2));
+    expect((await call('create_order')).result).toMatchObject({
+      content: [{ type: 'text', text: 'Call blocked by governance: Verb POST not allowed' }],
+      isError: true,
+    });
+    expect((await call('nope')).error).toEqual({ code: -32602, message: 'Tool not found: nope' });
+    expect(execute).toHaveBeenCalledWith(connector, 'get_order', { orderId: '1' }, {
+      authToken: 'mcp_full',
+      tokenId: 'token-full',
+      scopes: null,
+    });
+  });
+});
+
+describe('sessions', () => {
+  it('requires a session for every message after initialize', async () => {
+    const missing = await post({ jsonrpc: '2.0', id: 1, method: 'ping' });
+    expect(missing.status).toBe(400);
+
+    const unknown = await post({ jsonrpc: '2.0', id: 1, method: 'ping' }, { 'Mcp-Session-Id': 'not-a-session' });
+    expect(unknown.status).toBe(404);
+  });
+
+  it('binds a session to the token that opened it', async () => {
+    const sessionId = await initialize();
+
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'ping' }, { 'Mcp-Session-Id': sessionId }, 'mcp_other');
+
+    expect(response.status).toBe(404);
+  });
+
+  it('ends a session on DELETE', async () => {
+    const sessionId = await initialize();
+
+    const deleted = await fetch(baseUrl, {
+      method: 'DELETE',
+      headers: { Authorization: 'Bearer mcp_full', 'Mcp-Session-Id': sessionId },
+    });
+    expect(deleted.status).toBe(200);
+
+    expect((await post({ jsonrpc: '2.0', id: 1, method: 'ping' }, { 'Mcp-Session-Id': sessionId })).status).toBe(404);
+  });
+
+  it('refuses unknown tokens and protocol versions', async () => {
+    const unauthorized = await post({ jsonrpc: '2.0', id: 1, method: 'ping' }, {}, 'mcp_unknown');
+    expect(unauthorized.status).toBe(401);
+    expect(unauthorized.headers.get('www-authenticate')).toBe('Bearer');
+
+    const sessionId = await initialize();
+    const unsupported = await post(
+      { jsonrpc: '2.0', id: 1, method: 'ping' },
+      { 'Mcp-Session-Id': sessionId, 'MCP-Protocol-Version': '2023-01-01' }
+    );
+    expect(unsupported.status).toBe(400);
+  });
+});
+
+describe('Origin check', () => {
+  const initializeMessage = { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} };
+
+  it('rejects browser origins that are not allowed', async () => {
+    const response = await post(initializeMessage, { Origin: 'https://evil.example.com' });
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).error.message).toBe('Origin not allowed');
+  });
+
+  it('accepts origins listed in MCP_ALLOWED_ORIGINS', async () => {
+    process.env.MCP_ALLOWED_ORIGINS = 'https://app.example.com, https://admin.example.com';
+
+    expect((await post(initializeMessage, { Origin: 'https://admin.example.com' })).status).toBe(200);
+    expect((await post(initializeMessage, { Origin: 'https://evil.example.com' })).status).toBe(403);
+  });
+
+  it('lets requests without an Origin through', async () => {
+    expect((await post(initializeMessage)).status).toBe(200);
+  });
+});
@@ -0,0 +1,195 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConnectorConfig } from '../src/types.js';
+import { ControlPlaneClient } from '../src/utils/controlPlane.js';
+import { OAuthClient } from '../src/utils/oauthClient.js';
+import { allowAllCalls, callTool, loadConnector } from './helpers/connectors.js';
+import { MockServer, MockResponse, RecordedRequest, startMockServer } from './helpers/mockServer.js';
+import { encryptSecret } from './helpers/secrets.js';
+
+let tokenServer: MockServer;
+let upstream: MockServer;
+let issueToken: (request: RecordedRequest) => MockResponse;
+let respond: (request: RecordedRequest) => MockResponse;
+
+beforeAll(async () => {
+  tokenServer = await startMockServer(request => issueToken(request));
+  upstream = await startMockServer(request => respond(request));
+});
+
+afterAll(async () => {
+  await tokenServer.close();
+  await upstream.close();
+});
+
+beforeEach(() => {
+  tokenServer.requests.length = 0;
+  upstream.requests.length = 0;
+  issueToken = () => ({ body: { access_token: 'access-1', token_type: 'Bearer', expires_in: 3600 } });
+  respond = () => ({});
+  vi.restoreAllMocks();
+  vi.spyOn(ControlPlaneClient, 'logInvocation').mockResolvedValue();
+  allowAllCalls();
+});
+
+function oauthConnector(settings: Partial<ConnectorConfig> = {}): ConnectorConfig {
+  return loadConnector('storefront', upstream.url, {
+    secret: 'client-secret',
+    authType: 'oauth2_client_credentials',
+    oauth: { tokenUrl: `${tokenServer.url}/oauth/token`, clientId: 'client-1' },
+    ...settings,
+  });
+}
+
+function listEvents(connector: ConnectorConfig) {
+  return callTool(connector, 'list_events', {});
+}
+
+function tokenParams(request: RecordedRequest): Record<string, string> {
+  return Object.fromEntries(new URLSearchParams(request.body.toString('utf8')));
+}
+
+describe('client credentials', () => {
+  it('fetches a token and sends it to the upstream API', async () => {
+    const connector = oauthConnector({
+      oauth: {
+        tokenUrl: `${tokenServer.url}/oauth/token`,
+        clientId: 'client-1',
+        scopes: ['events:read', 'events:write'],
+        audience: 'https://api.example.com',
+      },
+    });
+
+    await listEvents(connector);
+
+    expect(tokenServer.requests).toHaveLength(1);
+    const [tokenRequest] = tokenServer.requests;
+    expect(tokenRequest.method).toBe('POST');
+    expect(tokenRequest.url).toBe('/oauth/token');
+    expect(tokenRequest.headers['content-type']).toBe('application/x-www-form-urlencoded');
+    expect(tokenRequest.headers.authorization).toBe(`Basic ${Buffer.from('client-1:client-secret').toString('base64')}`);
+    expect(tokenParams(tokenRequest)).toEqual({
+      grant_type: 'client_credentials',
+      scope: 'events:read events:write',
+      audience: 'https://api.example.com',
+    });
+    expect(upstream.requests[0].headers.authorization).toBe('Bearer access-1');
+  });
+
+  it('reuses the cached token until it is about to expire', async () => {
+    const connector = oauthConnector();
+
+    await listEvents(connector);
+    await listEvents(connector);
+
+    expect(tokenServer.requests).toHaveLength(1);
+    expect(upstream.requests.map(request => request.headers.authorization)).toEqual(['Bearer access-1', 'Bearer access-1']);
+  });
+
+  it('sends the client credentials in the body with client_secret_post', async () => {
+    const connector = oauthConnector({
+      oauth: { tokenUrl: `${tokenServer.url}/oauth/token`, clientId: 'client-1', clientAuthMethod: 'client_secret_post' },
+    });
+
+    await listEvents(connector);
+
+    const [tokenRequest] = tokenServer.requests;
+    expect(tokenRequest.headers.authorization).toBeUndefined();
+    expect(tokenParams(tokenRequest)).toEqual({
+      grant_type: 'client_credentials',
+      client_id: 'client-1',
+      client_secret: 'client-secret',
+    });
+  });
+
+  it('reports the token server error', async () => {
+    issueToken = () => ({ status: 401, body: { error: 'invalid_client', error_description: 'Unknown client' } });
+
+    await expect(listEvents(oauthConnector())).rejects.toThrow('OAuth token request failed (401): Unknown client');
+    expect(upstream.requests).toHaveLength(0);
+  });
+});
+
+describe('refresh on 401', () => {
+  it('refreshes the token once and retries when the upstream API rejects it', async () => {
+    const storeRefreshToken = vi.spyOn(ControlPlaneClient, 'storeRefreshToken').mockResolvedValue();
+    let issued = 0;
+    issueToken = () => {
+      issued++;
+      return { body: { access_token: `access-${issued}`, refresh_token: `refresh-${issued + 1}`, expires_in: 3600 } };
+    };
+    respond = request => request.headers.authorization === 'Bearer access-1'
+      ? { status: 401, body: { error: 'token revoked' } }
+      : {};
+    const connector = oauthConnector({
+      authType: 'oauth2_authorization_code',
+      encryptedRefreshToken: encryptSecret('refresh-1'),
+    });
+
+    await expect(listEvents(connector)).resolves.toMatchObject({ result: { ok: true } });
+
+    expect(tokenServer.requests.map(tokenParams)).toEqual([
+      { grant_type: 'refresh_token', refresh_token: 'refresh-1' },
+      { grant_type: 'refresh_token', refresh_token: 'refresh-2' },
+    ]);
+    expect(upstream.requests.map(request => request.headers.authorization)).toEqual(['Bearer access-1', 'Bearer access-2']);
+    expect(storeRefreshToken).toHaveBeenCalledWith(connector.id, 'refresh-2');
+    expect(storeRefreshToken).toHaveBeenCalledWith(connector.id, 'refresh-3');
+  });
+
+  it('gives up when the refreshed token is rejected too', async () => {
+    respond = () => ({ status: 401, body: { error: 'unauthorized' } });
+
+    await expect(listEvents(oauthConnector())).rejects.toThrow('Upstream API error: 401');
+    expect(tokenServer.requests).toHaveLength(2);
+    expect(upstream.requests).toHaveLength(2);
+  });
+
+  it('asks for the authorization flow when there is no refresh token', async () => {
+    const connector = oauthConnector({ authType: 'oauth2_authorization_code' });
+
+    await expect(listEvents(connector)).rejects.toThrow('Connector is not authorized yet');
+    expect(tokenServer.requests).toHaveLength(0);
+  });
+});
+
+describe('authorization code exchange', () => {
+  const config = () => ({ tokenUrl: `${tokenServer.url}/oauth/token`, clientId: 'client-1' });
+
+  it('exchanges the code with the PKCE verifier and redirect URI', async () => {
+    issueToken = () => ({ body: { access_token: 'access-1', refresh_token: 'refresh-1', expires_in: '1800' } });
+
+    const tokens = await OAuthClient.exchangeCode(config(), 'client-secret', {
+      code: 'code-123',
+      codeVerifier: 'verifier-abc',
+      redirectUri: 'https://control.example.com/api/connectors/oauth/callback',
+    });
+
+    expect(tokens).toEqual({ accessToken: 'access-1', refreshToken: 'refresh-1', expiresIn: 1800 });
+    expect(tokenParams(tokenServer.requests[0])).toEqual({
+      grant_type: 'authorization_code',
+      code: 'code-123',
+      code_verifier: 'verifier-abc',
+      redirect_uri: 'https://control.example.com/api/connectors/oauth/callback',
+    });
+  });
+
+  it('rejects a token response without an access token', async () => {
+    issueToken = () => ({ body: { token_type: 'Bearer' } });
+
+    await expect(OAuthClient.exchangeCode(config(), 'client-secret', {
+      code: 'code-123',
+      codeVerifier: 'verifier-abc',
+      redirectUri: 'https://control.example.com/callback',
+    })).rejects.toThrow('Token response has no access_token');
+  });
+
+  it('reports an invalid grant', async () => {
+    issueToken = () => ({ status: 400, body: { error: 'invalid_grant', error_description: 'Code expired' } });
+
+    await expect(OAuthClient.exchangeCode(config(), 'client-secret', {
+      code: 'code-123',
+      codeVerifier: 'verifier-abc',
+      redirectUri: 'https://control.example.com/callback',
+    })).rejects.toThrow('OAuth token request failed (400): Code expired');
+  });
+});
@@ -0,0 +1,146 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import mcpRouter from '../src/routes/mcp.js';
+import { DEFAULT_GOVERNANCE, ResponseValidationMode } from '../src/types.js';
+import { connectorRegistry } from '../src/utils/connectorRegistry.js';
+import { ControlPlaneClient } from '../src/utils/controlPlane.js';
+import { allowAllCalls, loadConnector } from './helpers/connectors.js';
+import { MockServer, startMockServer } from './helpers/mockServer.js';
+
+let upstreamBody: unknown;
+let upstream: MockServer;
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  upstream = await startMockServer(() => ({ body: upstreamBody }));
+
+  const app = express();
+  app.use(express.json());
+  app.use('/mcp', mcpRouter);
+  server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+});
+
+afterAll(async () => {
+  await upstream.close();
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.spyOn(ControlPlaneClient, 'validateToken')
+    .mockResolvedValue({ tokenId: 'token-test', scopes: null, expiresAt: null, deploymentVersion: null });
+  vi.spyOn(ControlPlaneClient, 'logInvocation').mockResolvedValue();
+  allowAllCalls();
+});
+
+/**
+ * An MCP client of a storefront connector with the response validation mode
+ */
+async function client(responseValidation: ResponseValidationMode, protocolVersion = '2025-06-18') {
+  const connector = loadConnector('storefront', upstream.url, { governance: { ...DEFAULT_GOVERNANCE, responseValidation } });
+  connectorRegistry.register(connector);
+
+  const send = async (method: string, params: Record<string, any>, sessionId?: string) => {
+    const response = await fetch(`${baseUrl}/${connector.id}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: 'Bearer mcp_test',
+        ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+    });
+    return { sessionId: response.headers.get('mcp-session-id'), body: await response.json() };
+  };
+
+  const { sessionId } = await send('initialize', { protocolVersion, clientInfo: { name: 'test' } });
+  return {
+    listTools: async () => (await send('tools/list', {}, sessionId!)).body.result.tools,
+    call: async (name: string, arguments_: Record<string, any>) =>
+      (await send('tools/call', { name, arguments: arguments_ }, sessionId!)).body.result,
+  };
+}
+
+const getOrder = (mcp: Awaited<ReturnType<typeof client>>) => mcp.call('get_order', { storeId: 'main', orderId: 'ord_1' });
+
+describe('output schemas', () => {
+  it('advertises output schemas to clients that support structured content', async () => {
+    const outputSchemaOf = (tools: any[]) => tools.find(tool => tool.name === 'get_order').outputSchema;
+
+    expect(outputSchemaOf(await (await client('flag')).listTools())).toMatchObject({
+      type: 'object',
+      properties: { id: { type: 'string' }, status: { type: 'string' } },
+    });
+    expect(outputSchemaOf(await (await client('flag', '2025-03-26')).listTools())).toBeUndefined();
+  });
+
+  it('returns a conforming response as structured content', async () => {
+    upstreamBody = { id: 'ord_1', status: 'paid' };
+
+    const result = await getOrder(await client('flag'));
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toEqual({ id: 'ord_1', status: 'paid' });
+    expect(result._meta.drift).toBeUndefined();
+  });
+
+  it('wraps non-object responses in the output property', async () => {
+    upstreamBody = ['signup', 'purchase'];
+
+    const result = await (await client('flag')).call('list_events', {});
+
+    expect(result.structuredContent).toEqual({ result: ['signup', 'purchase'] });
+  });
+
+  it('flags undeclared properties and still returns structured content', async () => {
+    upstreamBody = { id: 'ord_1', status: 'paid', channel: 'web' };
+
+    const result = await getOrder(await client('flag'));
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toEqual(upstreamBody);
+    expect(result._meta.drift).toEqual([expect.objectContaining({ path: '/channel' })]);
+    expect(ControlPlaneClient.logInvocation).toHaveBeenCalledWith(expect.objectContaining({ errorCode: 'RESPONSE_DRIFT' }));
+  });
+
+  it('answers a flagged mismatch with an error result carrying the response', async () => {
+    upstreamBody = { id: 42, status: 'paid' };
+
+    const result = await getOrder(await client('flag'));
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    expect(result.content.map((part: { text: string }) => part.text)).toEqual([
+      'Response does not match the tool\'s output schema: /id: must be string',
+      JSON.stringify(upstreamBody, null, 2),
+    ]);
+    expect(result._meta.outputErrors).toEqual([{ path: '/id', message: 'must be string' }]);
+  });
+
+  it('withholds a mismatch when blocking', async () => {
+    upstreamBody = { id: 42, status: 'paid' };
+
+    const result = await getOrder(await client('block'));
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([
+      { type: 'text', text: 'Response withheld: Upstream response does not match the tool\'s output schema: /id: must be string' },
+    ]);
+    expect(JSON.stringify(result)).not.toContain('"paid"');
+  });
+
+  it('returns the response as text to clients without structured content', async () => {
+    upstreamBody = { id: 42, status: 'paid' };
+
+    const result = await getOrder(await client('flag', '2025-03-26'));
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toBeUndefined();
+    expect(result.content[0].text).toBe(JSON.stringify(upstreamBody, null, 2));
+  });
+});
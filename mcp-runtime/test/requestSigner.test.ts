@@ -0,0 +1,192 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import crypto from 'crypto';
+import { SigningConfig } from '../src/types.js';
+import { ControlPlaneClient } from '../src/utils/controlPlane.js';
+import { UpstreamRequest } from '../src/utils/requestBuilder.js';
+import { RequestSigner } from '../src/utils/requestSigner.js';
+import { allowAllCalls, callTool, loadConnector } from './helpers/connectors.js';
+import { MockServer, RecordedRequest, startMockServer } from './helpers/mockServer.js';
+
+const SECRET = 'signing-secret';
+
+const signing: SigningConfig = {
+  algorithm: 'sha256',
+  secretEncoding: 'utf8',
+  signatureEncoding: 'hex',
+  canonicalTemplate: '{timestamp}{method}{pathWithQuery}{body}',
+  signatureHeader: 'X-Signature',
+  signatureTemplate: '{signature}',
+  timestampHeader: 'X-Timestamp',
+  timestampFormat: 'unix_millis',
+  nonceHeader: 'X-Nonce',
+  keyId: 'key-1',
+  keyIdHeader: 'X-Key-Id',
+};
+
+function hmacConnector(baseUrl: string, settings: Partial<SigningConfig> = {}) {
+  return loadConnector('storefront', baseUrl, { authType: 'hmac', secret: SECRET, signing: { ...signing, ...settings } });
+}
+
+function hmac(canonical: string, config: Partial<SigningConfig> = {}): string {
+  const { algorithm, signatureEncoding } = { ...signing, ...config };
+  return crypto.createHmac(algorithm, SECRET).update(canonical).digest(signatureEncoding);
+}
+
+function orderRequest(): UpstreamRequest {
+  return {
+    method: 'post',
+    url: 'https://api.example.com/v1/orders?dryRun=true',
+    headers: {},
+    data: { sku: 'A-1', quantity: 2 },
+  };
+}
+
+describe('RequestSigner.sign', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00.000Z') });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('signs the canonical string and sends the timestamp, nonce and key ID', () => {
+    const request = orderRequest();
+
+    new RequestSigner().sign(hmacConnector('https://api.example.com'), request, SECRET);
+
+    const body = '{"sku":"A-1","quantity":2}';
+    expect(request.data).toBe(body);
+    expect(request.headers).toEqual({
+      'X-Signature': hmac(`1767225600000POST/v1/orders?dryRun=true${body}`),
+      'X-Timestamp': '1767225600000',
+      'X-Nonce': expect.stringMatching(/^[0-9a-f-]{36}$/),
+      'X-Key-Id': 'key-1',
+    });
+  });
+
+  it('fills in the signature template and decodes the secret', () => {
+    const config = {
+      algorithm: 'sha512' as const,
+      secretEncoding: 'base64' as const,
+      signatureEncoding: 'base64' as const,
+      canonicalTemplate: '{method}\n{host}\n{path}\n{query}\n{timestamp}\n{bodySha256}',
+      signatureTemplate: 'HMAC {keyId}:{signature}',
+      timestampFormat: 'iso8601' as const,
+    };
+    const secret = Buffer.from(SECRET).toString('base64');
+    const request = orderRequest();
+
+    new RequestSigner().sign(hmacConnector('https://api.example.com', config), request, secret);
+
+    const bodySha256 = crypto.createHash('sha256').update(request.data).digest('hex');
+    const canonical = `POST\napi.example.com\n/v1/orders\ndryRun=true\n2026-01-01T00:00:00.000Z\n${bodySha256}`;
+    expect(request.headers['X-Signature']).toBe(`HMAC key-1:${hmac(canonical, config)}`);
+    expect(request.headers['X-Timestamp']).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('signs an empty body for requests without one', () => {
+    const request: UpstreamRequest = { method: 'GET', url: 'https://api.example.com/v1/status', headers: {} };
+
+    new RequestSigner().sign(hmacConnector('https://api.example.com', { timestampFormat: 'unix_seconds' }), request, SECRET);
+
+    expect(request.data).toBeUndefined();
+    expect(request.headers['X-Signature']).toBe(hmac('1767225600GET/v1/status'));
+  });
+});
+
+describe('RequestSigner.syncClock', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00.000Z') });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('ignores skew within the tolerance', () => {
+    const signer = new RequestSigner();
+    const connector = hmacConnector('https://api.example.com');
+
+    expect(signer.syncClock(connector, 'Thu, 01 Jan 2026 00:00:03 GMT')).toBe(false);
+    expect(signer.syncClock(connector, undefined)).toBe(false);
+  });
+
+  it('signs with the upstream clock once it is further off than the tolerance', () => {
+    const signer = new RequestSigner();
+    const connector = hmacConnector('https://api.example.com');
+
+    expect(signer.syncClock(connector, 'Thu, 01 Jan 2026 00:01:00 GMT')).toBe(true);
+    const request = orderRequest();
+    signer.sign(connector, request, SECRET);
+
+    // Half the Date header's one-second resolution is added
+    expect(request.headers['X-Timestamp']).toBe('1767225660500');
+    // The same offset again is no reason to re-sign
+    expect(signer.syncClock(connector, 'Thu, 01 Jan 2026 00:01:00 GMT')).toBe(false);
+  });
+
+  it('forgets the offset on reset', () => {
+    const signer = new RequestSigner();
+    const connector = hmacConnector('https://api.example.com');
+    signer.syncClock(connector, 'Thu, 01 Jan 2026 00:01:00 GMT');
+
+    signer.reset(connector.id);
+    const request = orderRequest();
+    signer.sign(connector, request, SECRET);
+
+    expect(request.headers['X-Timestamp']).toBe('1767225600000');
+  });
+});
+
+describe('ToolExecutor.execute with a signing connector', () => {
+  const UPSTREAM_SKEW_MS = 60_000;
+  let upstream: MockServer;
+
+  // Accepts signatures whose timestamp is within 5 seconds of its own clock, which runs a minute ahead
+  function verify(request: RecordedRequest) {
+    const now = Date.now() + UPSTREAM_SKEW_MS;
+    const timestamp = Number(request.headers['x-timestamp']);
+    const canonical = `${timestamp}${request.method}${request.url}${request.body.toString()}`;
+    const headers = { Date: new Date(now).toUTCString() };
+
+    if (request.headers['x-signature'] !== hmac(canonical)) {
+      return { status: 401, headers, body: { error: 'bad signature' } };
+    }
+    if (Math.abs(now - timestamp) > 5000) {
+      return { status: 401, headers, body: { error: 'stale timestamp' } };
+    }
+    return { status: 201, headers, body: { id: 'ord_1' } };
+  }
+
+  beforeAll(async () => {
+    upstream = await startMockServer(verify);
+  });
+
+  afterAll(() => upstream.close());
+
+  beforeEach(() => {
+    upstream.requests.length = 0;
+    vi.restoreAllMocks();
+    vi.spyOn(ControlPlaneClient, 'logInvocation').mockResolvedValue();
+    allowAllCalls();
+  });
+
+  it('re-signs a request rejected for a skewed timestamp once', async () => {
+    const connector = hmacConnector(upstream.url);
+
+    const outcome = await callTool(connector, 'create_order', { body: { sku: 'A-1', quantity: 1 } });
+
+    expect(outcome.result).toEqual({ id: 'ord_1' });
+    expect(upstream.requests).toHaveLength(2);
+    expect(upstream.requests[0].headers['x-nonce']).not.toBe(upstream.requests[1].headers['x-nonce']);
+  });
+
+  it('does not retry a rejection the clock does not explain', async () => {
+    const connector = hmacConnector(upstream.url, { clockSkewToleranceMs: 120_000 });
+
+    await expect(callTool(connector, 'create_order', { body: { sku: 'A-1', quantity: 1 } }))
+      .rejects.toThrow('Upstream API error: 401');
+    expect(upstream.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import { PaginationConfig } from '../src/types.js';
+import { evaluateJsonPath, parseJsonPath, projectJsonPaths, replaceAtJsonPath } from '../src/utils/jsonPath.js';
+import { Paginator } from '../src/utils/paginator.js';
+import { ResponseShaper } from '../src/utils/responseShaper.js';
+import { loadConnector } from './helpers/connectors.js';
+
+const orders = {
+  data: [
+    { id: 1, status: 'open', customer: { name: 'Ada', email: 'ada@example.com' } },
+    { id: 2, status: 'paid', customer: { name: 'Bob', email: 'bob@example.com' } },
+    { id: 3, status: 'open' },
+  ],
+  meta: { next: 'c2', total: 3 },
+};
+
+describe('parseJsonPath', () => {
+  it('parses names, quoted names, indexes and wildcards', () => {
+    expect(parseJsonPath("$.data[0]['a.b'][*].*")).toEqual([
+      { type: 'name', name: 'data' },
+      { type: 'index', index: 0 },
+      { type: 'name', name: 'a.b' },
+      { type: 'wildcard' },
+      { type: 'wildcard' },
+    ]);
+    expect(parseJsonPath('$')).toEqual([]);
+  });
+
+  it('rejects syntax outside the subset', () => {
+    expect(() => parseJsonPath('data.id')).toThrow('must start with $');
+    expect(() => parseJsonPath('$..id')).toThrow('Invalid JSONPath $..id at "..id"');
+    expect(() => parseJsonPath('$.data[?(@.id)]')).toThrow('Invalid JSONPath');
+  });
+});
+
+describe('evaluateJsonPath', () => {
+  it('finds the value at a path', () => {
+    expect(evaluateJsonPath(orders, '$.meta.next')).toBe('c2');
+    expect(evaluateJsonPath(orders, '$.data[1].customer.name')).toBe('Bob');
+    expect(evaluateJsonPath(orders, '$')).toBe(orders);
+  });
+
+  it('is undefined for paths that do not exist', () => {
+    expect(evaluateJsonPath(orders, '$.data[5].id')).toBeUndefined();
+    expect(evaluateJsonPath(orders, '$.data[2].customer.name')).toBeUndefined();
+    expect(evaluateJsonPath(orders, '$.meta.toString')).toBeUndefined();
+  });
+});
+
+describe('replaceAtJsonPath', () => {
+  it('replaces a value in a copy', () => {
+    const replaced = replaceAtJsonPath(orders, '$.meta.next', null) as typeof orders;
+
+    expect(replaced.meta).toEqual({ next: null, total: 3 });
+    expect(replaced.data).toBe(orders.data);
+    expect(orders.meta.next).toBe('c2');
+  });
+
+  it('leaves the value alone when the path does not exist', () => {
+    expect(replaceAtJsonPath(orders, '$.links.next', 'x')).toBe(orders);
+  });
+});
+
+describe('projectJsonPaths', () => {
+  it('keeps the selected fields of every item, in their structure', () => {
+    expect(projectJsonPaths(orders, ['$.data[*].id', '$.data[*].customer.name', '$.meta.total'])).toEqual({
+      data: [
+        { id: 1, customer: { name: 'Ada' } },
+        { id: 2, customer: { name: 'Bob' } },
+        { id: 3 },
+      ],
+      meta: { total: 3 },
+    });
+  });
+
+  it('drops items no path matched', () => {
+    expect(projectJsonPaths(orders, ['$.data[*].customer.email'])).toEqual({
+      data: [{ customer: { email: 'ada@example.com' } }, { customer: { email: 'bob@example.com' } }],
+    });
+  });
+});
+
+describe('ResponseShaper.shape', () => {
+  it('projects fields before limiting items', () => {
+    const { data, report } = ResponseShaper.shape(orders, { fields: ['$.data[*].id'], maxItems: 2 });
+
+    expect(data).toEqual({ data: [{ id: 1 }, { id: 2 }] });
+    expect(report).toEqual({ truncatedArrays: [{ path: '/data', total: 3, kept: 2 }] });
+  });
+
+  it('cuts the serialized response to the byte limit', () => {
+    const { data, report } = ResponseShaper.shape({ note: 'héllo wörld' }, { maxBytes: 11 });
+
+    // The cut falls inside "é", which is dropped rather than sent as a broken character
+    expect(data).toBe('{"note":"h');
+    expect(report).toEqual({ truncatedBytes: { total: 24, kept: 11 } });
+  });
+
+  it('leaves responses within the limits untouched', () => {
+    expect(ResponseShaper.shape(orders, { maxItems: 10, maxBytes: 10_000 })).toEqual({ data: orders, report: {} });
+  });
+});
+
+describe('ResponseShaper.describe', () => {
+  it('describes everything that was left out', () => {
+    expect(ResponseShaper.describe({
+      pages: 3,
+      morePages: true,
+      truncatedArrays: [{ path: '', total: 200, kept: 50 }],
+      truncatedBytes: { total: 5000, kept: 1000 },
+    })).toBe('[Response truncated: 3 pages fetched, more available; / kept 50 of 200 items; cut to 1000 of 5000 bytes]');
+  });
+
+  it('says nothing when nothing was left out', () => {
+    expect(ResponseShaper.describe({ pages: 2 })).toBeUndefined();
+  });
+});
+
+describe('Paginator.next', () => {
+  const connector = loadConnector('storefront', 'https://api.example.com/v1');
+  const page = (data: any, headers: Record<string, any> = {}) => ({ data, headers });
+
+  it('passes the next cursor until there is none', () => {
+    const pagination: PaginationConfig = { style: 'cursor', itemsPath: '$.data', cursorParam: 'cursor', nextCursorPath: '$.meta.next' };
+
+    expect(Paginator.next(connector, pagination, { limit: 3 }, page(orders)))
+      .toEqual({ arguments: { limit: 3, cursor: 'c2' } });
+    expect(Paginator.next(connector, pagination, {}, page({ ...orders, meta: { next: '' } }))).toBeNull();
+    expect(Paginator.next(connector, pagination, {}, page({ data: [], meta: { next: 'c3' } }))).toBeNull();
+  });
+
+  it('advances the offset until a short page', () => {
+    const pagination: PaginationConfig = { style: 'offset', itemsPath: '$.data', offsetParam: 'offset', limitParam: 'limit' };
+
+    expect(Paginator.next(connector, pagination, { offset: 6, limit: 3 }, page(orders)))
+      .toEqual({ arguments: { offset: 9, limit: 3 } });
+    expect(Paginator.next(connector, pagination, { limit: 5 }, page(orders))).toBeNull();
+  });
+
+  it('counts page numbers from 1', () => {
+    const pagination: PaginationConfig = { style: 'page', itemsPath: '$', pageParam: 'page' };
+
+    expect(Paginator.next(connector, pagination, {}, page([1, 2]))).toEqual({ arguments: { page: 2 } });
+    expect(Paginator.next(connector, pagination, { page: 2 }, page([]))).toBeNull();
+  });
+
+  it('follows rel="next" links on the connector origin only', () => {
+    const pagination: PaginationConfig = { style: 'link', itemsPath: '$' };
+    const link = (header: string) => Paginator.next(connector, pagination, { q: 'x' }, page([1], { link: header }));
+
+    expect(link('</v1/orders?page=1>; rel="prev", </v1/orders?page=3>; rel="next"'))
+      .toEqual({ arguments: { q: 'x' }, url: 'https://api.example.com/v1/orders?page=3' });
+    expect(link('<https://api.example.com/v1/orders?page=3>; rel="last next"')?.url)
+      .toBe('https://api.example.com/v1/orders?page=3');
+    expect(link('<https://evil.example.com/orders?page=3>; rel="next"')).toBeNull();
+    expect(link('</v1/orders?page=3>; rel="nextpage"')).toBeNull();
+  });
+});
+
+describe('Paginator.combine', () => {
+  it('puts the items of every page into the first and keeps the last cursor', () => {
+    const pagination: PaginationConfig = { style: 'cursor', itemsPath: '$.data', cursorParam: 'cursor', nextCursorPath: '$.meta.next' };
+    const pages = [
+      { data: [{ id: 1 }], meta: { next: 'c2', total: 3 } },
+      { data: [{ id: 2 }], meta: { next: 'c3', total: 3 } },
+      { data: [{ id: 3 }], meta: { total: 3 } },
+    ];
+
+    expect(Paginator.combine(pagination, pages)).toEqual({
+      data: [{ id: 1 }, { id: 2 }, { id: 3 }],
+      meta: { next: null, total: 3 },
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { SchemaValidator } from '../src/utils/schemaValidator.js';
+import { callTool, loadConnector } from './helpers/connectors.js';
+
+const orderSchema = {
+  type: 'object',
+  properties: {
+    body: {
+      type: 'object',
+      properties: {
+        sku: { type: 'string', pattern: '^[A-Z]-\\d+$' },
+        quantity: { type: 'integer', minimum: 1, maximum: 100 },
+        currency: { enum: ['EUR', 'USD'] },
+        email: { type: 'string', format: 'email' },
+        items: { type: 'array', items: { type: 'object', properties: { id: { type: 'integer' } }, required: ['id'] } },
+      },
+      required: ['sku', 'quantity'],
+      additionalProperties: false,
+    },
+  },
+  required: ['body'],
+};
+
+describe('SchemaValidator.validate', () => {
+  const validator = new SchemaValidator();
+
+  it('accepts valid values, integers included', () => {
+    expect(validator.validate(orderSchema, { body: { sku: 'A-1', quantity: 5, currency: 'EUR' } }))
+      .toEqual({ valid: true, errors: [] });
+  });
+
+  it('reports every error with its path', () => {
+    const result = validator.validate(orderSchema, {
+      body: { sku: 'a1', quantity: 1.5, currency: 'GBP', email: 'not-an-email', items: [{ id: 1 }, {}], note: 'x' },
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(expect.arrayContaining([
+      { path: '/body/sku', message: 'must match pattern "^[A-Z]-\\d+$"' },
+      { path: '/body/quantity', message: 'must be integer' },
+      { path: '/body/currency', message: 'must be one of "EUR", "USD"' },
+      { path: '/body/email', message: 'must match format "email"' },
+      { path: '/body/items/1/id', message: 'is required' },
+      { path: '/body/note', message: 'is not allowed' },
+    ]));
+    expect(result.errors).toHaveLength(6);
+  });
+
+  it('checks bounds and required properties', () => {
+    expect(validator.validate(orderSchema, { body: { sku: 'A-1', quantity: 0 } }).errors)
+      .toEqual([{ path: '/body/quantity', message: 'must be >= 1' }]);
+    expect(validator.validate(orderSchema, {}).errors).toEqual([{ path: '/body', message: 'is required' }]);
+  });
+
+  it('reports a schema that does not compile instead of throwing', () => {
+    const result = validator.validate({ type: 'object', properties: { id: { type: 'no-such-type' } } }, {});
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0].message).toMatch(/^Tool schema is invalid: /);
+  });
+
+  it('accepts anything without a schema', () => {
+    expect(validator.validate(undefined, 'anything')).toEqual({ valid: true, errors: [] });
+  });
+});
+
+describe('SchemaValidator.validateClosed', () => {
+  const validator = new SchemaValidator();
+  const responseSchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      customer: { type: 'object', properties: { name: { type: 'string' } } },
+    },
+    allOf: [{ properties: { total: { type: 'number' } } }],
+  };
+
+  it('reports properties the schema does not declare', () => {
+    const result = validator.validateClosed(responseSchema, { id: 'ord_1', total: 5, customer: { name: 'A', tier: 'gold' }, channel: 'web' });
+
+    expect(result.errors).toEqual([
+      { path: '/customer/tier', message: 'is not allowed' },
+      { path: '/channel', message: 'is not allowed' },
+    ]);
+  });
+
+  it('leaves schemas that allow additional properties open', () => {
+    const open = { type: 'object', properties: { id: { type: 'string' } }, additionalProperties: true };
+
+    expect(validator.validateClosed(open, { id: 'ord_1', extra: 1 }).valid).toBe(true);
+    expect(validator.validate(responseSchema, { id: 'ord_1', channel: 'web' }).valid).toBe(true);
+  });
+});
+
+describe('SchemaValidator.format', () => {
+  it('joins the errors into one line', () => {
+    expect(SchemaValidator.format([
+      { path: '/body/amount', message: 'must be >= 0' },
+      { path: '', message: 'must be object' },
+    ])).toBe('/body/amount: must be >= 0; /: must be object');
+  });
+});
+
+describe('ToolExecutor.execute argument validation', () => {
+  it('refuses invalid arguments before anything is sent upstream', async () => {
+    const connector = loadConnector('storefront', 'http://127.0.0.1:9');
+
+    const outcome = await callTool(connector, 'get_order', { storeId: 'main' });
+
+    expect(outcome).toMatchObject({
+      status: 'invalid_arguments',
+      errors: [{ path: '/orderId', message: 'is required' }],
+    });
+  });
+});
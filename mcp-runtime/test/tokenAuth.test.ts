@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import crypto from 'crypto';
+import { ControlPlaneClient, TokenGrant } from '../src/utils/controlPlane.js';
+import { isToolInScope, validateToken } from '../src/utils/tokenAuth.js';
+
+const connectorId = crypto.randomUUID();
+
+function grant(values: Partial<TokenGrant> = {}): TokenGrant {
+  return { tokenId: crypto.randomUUID(), scopes: null, expiresAt: null, deploymentVersion: null, ...values };
+}
+
+// The grant cache lives as long as the module, so every test uses its own token
+function newToken(): string {
+  return `mcp_${crypto.randomBytes(32).toString('hex')}`;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.restoreAllMocks();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('validateToken', () => {
+  it('caches a grant for 30 seconds', async () => {
+    const token = newToken();
+    const validated = grant();
+    const validate = vi.spyOn(ControlPlaneClient, 'validateToken').mockResolvedValue(validated);
+
+    expect(await validateToken(connectorId, token)).toBe(validated);
+    vi.advanceTimersByTime(29_000);
+    expect(await validateToken(connectorId, token)).toBe(validated);
+    expect(validate).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(2_000);
+    await validateToken(connectorId, token);
+    expect(validate).toHaveBeenCalledTimes(2);
+  });
+
+  it('caches grants per connector', async () => {
+    const token = newToken();
+    const validate = vi.spyOn(ControlPlaneClient, 'validateToken')
+      .mockResolvedValueOnce(grant())
+      .mockResolvedValueOnce(null);
+
+    expect(await validateToken(connectorId, token)).not.toBeNull();
+    expect(await validateToken(crypto.randomUUID(), token)).toBeNull();
+    expect(validate).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache rejected tokens', async () => {
+    const token = newToken();
+    const validate = vi.spyOn(ControlPlaneClient, 'validateToken').mockResolvedValue(null);
+
+    expect(await validateToken(connectorId, token)).toBeNull();
+    expect(await validateToken(connectorId, token)).toBeNull();
+    expect(validate).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not serve a grant from the cache after the token expires', async () => {
+    const token = newToken();
+    const expiresAt = new Date(Date.now() + 10_000).toISOString();
+    const validate = vi.spyOn(ControlPlaneClient, 'validateToken')
+      .mockResolvedValueOnce(grant({ expiresAt }))
+      .mockResolvedValueOnce(null);
+
+    await validateToken(connectorId, token);
+    vi.advanceTimersByTime(10_000);
+
+    expect(await validateToken(connectorId, token)).toBeNull();
+    expect(validate).toHaveBeenCalledTimes(2);
+  });
+
+  it('asks the control plane nothing without a token', async () => {
+    const validate = vi.spyOn(ControlPlaneClient, 'validateToken');
+
+    expect(await validateToken(connectorId, undefined)).toBeNull();
+    expect(validate).not.toHaveBeenCalled();
+  });
+});
+
+describe('isToolInScope', () => {
+  it('limits scoped tokens to their tools', () => {
+    expect(isToolInScope(grant({ scopes: ['list_orders'] }), 'list_orders')).toBe(true);
+    expect(isToolInScope(grant({ scopes: ['list_orders'] }), 'create_order')).toBe(false);
+    expect(isToolInScope(grant(), 'create_order')).toBe(true);
+  });
+});
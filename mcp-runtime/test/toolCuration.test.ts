@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ToolOverride } from '../src/types.js';
+import { ControlPlaneClient } from '../src/utils/controlPlane.js';
+import { ToolCuration, toolId } from '../src/utils/toolCuration.js';
+import { toolExecutor } from '../src/utils/toolExecutor.js';
+import { allowAllCalls, callTool, findTool, loadConnector } from './helpers/connectors.js';
+import { MockServer, startMockServer } from './helpers/mockServer.js';
+
+const overrides: Record<string, ToolOverride> = {
+  get_order: {
+    name: 'lookup_order',
+    description: 'Look up an order of the main store',
+    hiddenParameters: ['X-Request-Id'],
+    fixedArguments: { storeId: 'main' },
+    defaults: { expand: ['items'] },
+  },
+};
+
+let upstream: MockServer;
+
+beforeAll(async () => {
+  upstream = await startMockServer();
+});
+
+afterAll(() => upstream.close());
+
+beforeEach(() => {
+  upstream.requests.length = 0;
+  vi.restoreAllMocks();
+  vi.spyOn(ControlPlaneClient, 'logInvocation').mockResolvedValue();
+  allowAllCalls();
+});
+
+function curatedConnector(baseUrl = 'https://api.example.com') {
+  const connector = loadConnector('storefront', baseUrl);
+  return { ...connector, tools: ToolCuration.apply(connector.tools, overrides) };
+}
+
+describe('ToolCuration.apply', () => {
+  it('renames and describes the tool and keeps its generated name', () => {
+    const tool = findTool(curatedConnector(), 'lookup_order');
+
+    expect(tool.description).toBe('Look up an order of the main store');
+    expect(tool.sourceName).toBe('get_order');
+    expect(toolId(tool)).toBe('get_order');
+  });
+
+  it('leaves hidden and pinned parameters out of the schema and documents defaults', () => {
+    const { inputSchema, parameterLocations } = findTool(curatedConnector(), 'lookup_order');
+
+    expect(Object.keys(inputSchema.properties)).toEqual(['orderId', 'expand', 'filter']);
+    expect(inputSchema.required).toEqual(['orderId']);
+    expect(inputSchema.properties.expand.default).toEqual(['items']);
+    // Locations still cover the parameters the schema no longer lists
+    expect(parameterLocations).toMatchObject({ storeId: 'path', 'X-Request-Id': 'header' });
+  });
+
+  it('leaves tools without overrides alone and ignores overrides of removed tools', () => {
+    const { tools } = loadConnector('storefront', 'https://api.example.com');
+
+    const curated = ToolCuration.apply(tools, { ...overrides, deleted_tool: { name: 'gone' } });
+
+    expect(curated.find(tool => tool.name === 'list_orders')).toBe(tools.find(tool => tool.name === 'list_orders'));
+    expect(curated.map(tool => tool.name)).not.toContain('gone');
+  });
+});
+
+describe('ToolCuration.resolveArguments', () => {
+  it('fills in defaults, drops hidden arguments and puts pinned values on top', () => {
+    const tool = findTool(curatedConnector(), 'lookup_order');
+
+    expect(ToolCuration.resolveArguments(tool, { orderId: 'ord_42', storeId: 'other', 'X-Request-Id': 'req-1' }))
+      .toEqual({ expand: ['items'], orderId: 'ord_42', storeId: 'main' });
+    expect(ToolCuration.resolveArguments(tool, { orderId: 'ord_42', expand: ['customer'] }))
+      .toEqual({ expand: ['customer'], orderId: 'ord_42', storeId: 'main' });
+  });
+});
+
+describe('ToolExecutor.execute with curated tools', () => {
+  it('calls upstream with the resolved arguments under the new name', async () => {
+    const connector = curatedConnector(upstream.url);
+
+    const outcome = await callTool(connector, 'lookup_order', { orderId: 'ord_42' });
+
+    expect(outcome.status).toBe('success');
+    expect(upstream.requests[0].url).toBe('/stores/main/orders/ord_42?expand=items');
+  });
+
+  it('sends pinned values and leaves hidden ones out whatever the caller sends', async () => {
+    const outcome = await callTool(curatedConnector(upstream.url), 'lookup_order', {
+      orderId: 'ord_42',
+      storeId: 'other',
+      'X-Request-Id': 'req-1',
+    });
+
+    expect(outcome.status).toBe('success');
+    expect(upstream.requests[0].url).toBe('/stores/main/orders/ord_42?expand=items');
+    expect(upstream.requests[0].headers['x-request-id']).toBeUndefined();
+  });
+
+  it('scopes tokens by generated tool name', async () => {
+    const connector = curatedConnector(upstream.url);
+    const call = (scopes: string[]) => toolExecutor.execute(connector, 'lookup_order', { orderId: 'ord_42' }, {
+      authToken: 'mcp_test',
+      tokenId: 'token-test',
+      scopes,
+    });
+
+    expect((await call(['get_order'])).status).toBe('success');
+    expect((await call(['lookup_order'])).status).toBe('forbidden');
+  });
+});
@@ -0,0 +1,272 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ControlPlaneClient } from '../src/utils/controlPlane.js';
+import { RequestBuilder } from '../src/utils/requestBuilder.js';
+import { allowAllCalls, callTool, findTool, loadConnector } from './helpers/connectors.js';
+import { MockServer, RecordedRequest, startMockServer } from './helpers/mockServer.js';
+
+let upstream: MockServer;
+let respond: (request: RecordedRequest) => { status?: number; headers?: Record<string, string>; body?: unknown };
+
+beforeAll(async () => {
+  upstream = await startMockServer(request => respond(request));
+});
+
+afterAll(() => upstream.close());
+
+beforeEach(() => {
+  upstream.requests.length = 0;
+  respond = () => ({});
+  vi.restoreAllMocks();
+  vi.spyOn(ControlPlaneClient, 'logInvocation').mockResolvedValue();
+  allowAllCalls();
+});
+
+function lastRequest(): RecordedRequest {
+  return upstream.requests[upstream.requests.length - 1];
+}
+
+describe('RequestBuilder.build', () => {
+  it('puts arguments in the path, query and headers', () => {
+    const connector = loadConnector('storefront', 'https://api.example.com/v1/');
+
+    const request = RequestBuilder.build(connector, findTool(connector, 'get_order'), {
+      storeId: 'main store/eu',
+      orderId: 42,
+      expand: ['items', 'customer'],
+      filter: { status: 'open' },
+      'X-Request-Id': 'req-1',
+    });
+
+    expect(request).toEqual({
+      method: 'GET',
+      url: 'https://api.example.com/v1/stores/main%20store%2Feu/orders/42'
+        + '?expand=items&expand=customer&filter=%7B%22status%22%3A%22open%22%7D',
+      headers: { 'X-Request-Id': 'req-1' },
+      data: undefined,
+    });
+  });
+
+  it('rejects a missing path parameter', () => {
+    const connector = loadConnector('storefront', 'https://api.example.com');
+
+    expect(() => RequestBuilder.build(connector, findTool(connector, 'get_order'), { storeId: 'main' }))
+      .toThrow('Missing path parameter: orderId');
+  });
+
+  it('infers locations for tools registered without them', () => {
+    const connector = loadConnector('storefront', 'https://api.example.com');
+    const { parameterLocations, ...tool } = findTool(connector, 'create_order');
+
+    expect(RequestBuilder.resolveLocations(tool)).toEqual({ dryRun: 'query', body: 'body' });
+  });
+});
+
+describe('upstream requests', () => {
+  it('sends path, query and header parameters', async () => {
+    const connector = loadConnector('storefront', upstream.url);
+
+    await callTool(connector, 'get_order', { storeId: 's 1', orderId: '42', expand: ['items'], 'X-Request-Id': 'req-1' });
+
+    expect(lastRequest()).toMatchObject({
+      method: 'GET',
+      url: '/stores/s%201/orders/42?expand=items',
+      headers: { 'x-request-id': 'req-1' },
+    });
+  });
+
+  it('sends a JSON body next to query parameters', async () => {
+    const connector = loadConnector('storefront', upstream.url);
+    respond = () => ({ status: 201, body: { id: 'ord_1' } });
+
+    const outcome = await callTool(connector, 'create_order', { dryRun: true, body: { sku: 'A-1', quantity: 2 } });
+
+    expect(outcome).toMatchObject({ status: 'success', result: { id: 'ord_1' } });
+    expect(lastRequest()).toMatchObject({ method: 'POST', url: '/orders?dryRun=true' });
+    expect(lastRequest().headers['content-type']).toMatch(/^application\/json/);
+    expect(JSON.parse(lastRequest().body.toString())).toEqual({ sku: 'A-1', quantity: 2 });
+  });
+
+  it('sends form-urlencoded bodies', async () => {
+    const connector = loadConnector('storefront', upstream.url);
+
+    await callTool(connector, 'update_profile', { body: { name: 'Ada Lovelace', tags: ['a', 'b'], extra: null } });
+
+    expect(lastRequest().headers['content-type']).toBe('application/x-www-form-urlencoded');
+    expect(lastRequest().body.toString()).toBe('name=Ada+Lovelace&tags=a&tags=b');
+  });
+
+  it('sends multipart bodies with file, JSON and repeated parts', async () => {
+    const connector = loadConnector('storefront', upstream.url);
+    const pdf = Buffer.from('%PDF-1.7 binary \u0000ÿ');
+
+    await callTool(connector, 'upload_document', {
+      body: {
+        file: { data: pdf.toString('base64'), filename: 'invoice.pdf', contentType: 'application/pdf' },
+        metadata: { year: 2024 },
+        tags: ['tax', 'q1'],
+      },
+    });
+
+    const contentType = lastRequest().headers['content-type']!;
+    const boundary = /^multipart\/form-data; boundary=(.+)$/.exec(contentType)![1];
+    const parts = lastRequest().body.toString('latin1').split(`--${boundary}`).slice(1, -1);
+
+    expect(parts).toEqual([
+      '\r\nContent-Disposition: form-data; name="file"; filename="invoice.pdf"\r\n'
+        + `Content-Type: application/pdf\r\n\r\n${pdf.toString('latin1')}\r\n`,
+      '\r\nContent-Disposition: form-data; name="metadata"\r\nContent-Type: application/json\r\n\r\n{"year":2024}\r\n',
+      '\r\nContent-Disposition: form-data; name="tags"\r\n\r\ntax\r\n',
+      '\r\nContent-Disposition: form-data; name="tags"\r\n\r\nq1\r\n',
+    ]);
+    expect(lastRequest().body.toString('latin1').endsWith(`--${boundary}--\r\n`)).toBe(true);
+  });
+
+  it('sends binary bodies as raw bytes', async () => {
+    const connector = loadConnector('storefront', upstream.url);
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff]);
+
+    await callTool(connector, 'put_image', { imageId: 'img_1', body: { data: png.toString('base64'), contentType: 'image/png' } });
+    expect(lastRequest()).toMatchObject({ method: 'PUT', url: '/images/img_1' });
+    expect(lastRequest().headers['content-type']).toBe('image/png');
+    expect(lastRequest().body.equals(png)).toBe(true);
+
+    // A wildcard media type cannot be sent as is
+    await callTool(connector, 'put_image', { imageId: 'img_2', body: { data: png.toString('base64') } });
+    expect(lastRequest().headers['content-type']).toBe('application/octet-stream');
+  });
+
+  it('rejects file arguments that are not base64', () => {
+    const connector = loadConnector('storefront', upstream.url);
+
+    return expect(callTool(connector, 'put_image', { imageId: 'img_1', body: { data: 'not base64!' } }))
+      .rejects.toThrow('body must be a file with base64-encoded data');
+  });
+});
+
+describe('pagination', () => {
+  it('follows cursors up to maxPages and combines the items', async () => {
+    const connector = loadConnector('storefront', upstream.url, { responseShaping: { list_orders: { maxPages: 3 } } });
+    respond = request => {
+      const cursor = new URL(request.url, upstream.url).searchParams.get('cursor') ?? '0';
+      const page = Number(cursor);
+      return { body: { data: [`order-${page}`], next_cursor: String(page + 1) } };
+    };
+
+    const outcome = await callTool(connector, 'list_orders', { limit: 1 });
+
+    expect(upstream.requests.map(request => request.url)).toEqual([
+      '/orders?limit=1',
+      '/orders?cursor=1&limit=1',
+      '/orders?cursor=2&limit=1',
+    ]);
+    expect(outcome).toMatchObject({
+      result: { data: ['order-0', 'order-1', 'order-2'], next_cursor: '3' },
+      shaping: { pages: 3, morePages: true },
+    });
+  });
+
+  it('follows Link headers on the connector origin only', async () => {
+    const connector = loadConnector('storefront', upstream.url, { responseShaping: { list_events: { maxPages: 5 } } });
+    respond = request => request.url === '/events'
+      ? { body: ['e1'], headers: { Link: '</events?page=2>; rel="next"' } }
+      : { body: ['e2'], headers: { Link: '<https://elsewhere.example.com/events?page=3>; rel="next"' } };
+
+    const outcome = await callTool(connector, 'list_events', {});
+
+    expect(upstream.requests.map(request => request.url)).toEqual(['/events', '/events?page=2']);
+    expect(outcome).toMatchObject({ result: ['e1', 'e2'] });
+  });
+});
+
+describe('upstream auth placement', () => {
+  it('sends bearer tokens', async () => {
+    await callTool(loadConnector('storefront', upstream.url, { secret: 'tok_123' }), 'get_status', {});
+    expect(lastRequest().headers.authorization).toBeUndefined(); // security: [] needs no credentials
+
+    await callTool(loadConnector('storefront', upstream.url, { secret: 'tok_123' }), 'list_events', {});
+    expect(lastRequest().headers.authorization).toBe('Bearer tok_123');
+  });
+
+  it('sends basic credentials', async () => {
+    const connector = loadConnector('storefront', upstream.url, { authType: 'basic', secret: 'ada:s3cret' });
+
+    await callTool(connector, 'list_events', {});
+
+    expect(lastRequest().headers.authorization).toBe(`Basic ${Buffer.from('ada:s3cret').toString('base64')}`);
+  });
+
+  it('sends API keys in a header', async () => {
+    const connector = loadConnector('storefront', upstream.url, {
+      authType: 'api_key',
+      authLocation: 'header',
+      authHeaderName: 'X-Shop-Key',
+      secret: 'key_1',
+    });
+
+    await callTool(connector, 'list_events', {});
+
+    expect(lastRequest().headers['x-shop-key']).toBe('key_1');
+    expect(lastRequest().headers.authorization).toBeUndefined();
+  });
+
+  it('sends API keys in the query string', async () => {
+    const connector = loadConnector('storefront', upstream.url, {
+      authType: 'api_key',
+      authLocation: 'query',
+      authHeaderName: 'api_key',
+      secret: 'key 1',
+    });
+
+    await callTool(connector, 'search_catalog', { q: 'lamp' });
+
+    expect(lastRequest().url).toBe('/catalog?q=lamp&api_key=key+1');
+  });
+
+  it('sends API keys in a cookie', async () => {
+    const connector = loadConnector('storefront', upstream.url, {
+      authType: 'api_key',
+      authLocation: 'cookie',
+      authHeaderName: 'session',
+      secret: 'key;1',
+    });
+
+    await callTool(connector, 'list_events', {});
+
+    expect(lastRequest().headers.cookie).toBe('session=key%3B1');
+  });
+
+  it('picks the security requirement matching the connector auth settings', async () => {
+    await callTool(loadConnector('storefront', upstream.url, { secret: 'tok_123' }), 'get_inventory', {});
+    expect(lastRequest().headers.authorization).toBe('Bearer tok_123');
+    expect(lastRequest().headers['x-api-key']).toBeUndefined();
+
+    await callTool(loadConnector('storefront', upstream.url, { authType: 'basic', secret: 'ada:s3cret' }), 'get_inventory', {});
+    expect(lastRequest().headers.authorization).toBe(`Basic ${Buffer.from('ada:s3cret').toString('base64')}`);
+    expect(lastRequest().headers['x-api-key']).toBeUndefined();
+
+    const apiKey = loadConnector('storefront', upstream.url, {
+      authType: 'api_key',
+      authLocation: 'header',
+      authHeaderName: 'x-api-key',
+      secret: 'key_1',
+    });
+    await callTool(apiKey, 'get_inventory', {});
+    expect(lastRequest().headers['x-api-key']).toBe('key_1');
+    expect(lastRequest().headers.authorization).toBeUndefined();
+  });
+
+  it('does not put an API key where the spec asks for a differently placed key', async () => {
+    const connector = loadConnector('storefront', upstream.url, {
+      authType: 'api_key',
+      authLocation: 'query',
+      authHeaderName: 'key',
+      secret: 'key_1',
+    });
+
+    await callTool(connector, 'get_inventory', {});
+
+    // No requirement matches, so the connector's own setting applies
+    expect(lastRequest().url).toBe('/inventory?key=key_1');
+    expect(lastRequest().headers['x-api-key']).toBeUndefined();
+  });
+});